@@ -8,8 +8,18 @@ import walletRoutes from './routes/wallets.js';
 import balanceRoutes from './routes/balances.js';
 import transactionRoutes from './routes/transactions.js';
 import logRoutes from './routes/logs.js';
+import jobRoutes from './routes/jobs.js';
+import vaultRoutes from './routes/vault.js';
+import preAuthRoutes from './routes/preAuth.js';
+import signingRoutes from './routes/signing.js';
+import authRoutes from './routes/auth.js';
+import challengeRoutes from './routes/challenge.js';
+import claimRoutes from './routes/claims.js';
+import executionRoutes from './routes/execution.js';
+import { requireAuth } from './middleware/auth.js';
 import { initWalletMonitoring } from './services/walletMonitor.js';
-import { addLog } from './services/logService.js';
+import { addLog, restoreLogs } from './services/logService.js';
+import { ensureBootstrapToken } from './services/authService.js';
 
 // Load environment variables
 dotenv.config();
@@ -60,11 +70,24 @@ app.use((req, res, next) => {
 // CORS preflight handler for all routes
 app.options('*', cors(corsOptions));
 
+// Account login through signed challenges comes before the token check
+app.use('/api', challengeRoutes);
+
+// Every other API route needs a token; only /health stays public
+app.use('/api', requireAuth);
+
 // Routes
+app.use('/api', authRoutes);
 app.use('/api', walletRoutes);
 app.use('/api', balanceRoutes);
 app.use('/api', transactionRoutes);
 app.use('/api', logRoutes);
+app.use('/api', jobRoutes);
+app.use('/api', vaultRoutes);
+app.use('/api', preAuthRoutes);
+app.use('/api', signingRoutes);
+app.use('/api', claimRoutes);
+app.use('/api', executionRoutes);
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -75,6 +98,12 @@ app.get('/health', (req, res) => {
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
   
+  // Bring back the log history from before the restart
+  restoreLogs();
+  
+  // A fresh install needs one operator token to log in with
+  ensureBootstrapToken();
+  
   // Add initial log
   addLog({
     message: 'Pi Auto-Claim Backend Server started',
@@ -0,0 +1,60 @@
+import { authenticateToken, hasRole } from '../services/authService.js';
+
+/**
+ * Read the bearer token from a request
+ * @param {Object} req - Express request
+ * @returns {string|null} The token, or null if none was sent
+ */
+const getBearerToken = (req) => {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  return match ? match[1].trim() : null;
+};
+
+/**
+ * Require a valid API token; reads need a viewer, anything else an operator
+ * @param {Object} req - Express request (req.auth is set to the token record)
+ * @param {Object} res - Express response
+ * @param {Function} next - Next middleware
+ */
+export const requireAuth = (req, res, next) => {
+  const auth = authenticateToken(getBearerToken(req));
+
+  if (!auth) {
+    res.set('WWW-Authenticate', 'Bearer');
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  req.auth = auth;
+
+  const required = req.method === 'GET' || req.method === 'HEAD' ? 'viewer' : 'operator';
+  if (!hasRole(auth.role, required)) {
+    return res.status(403).json({ message: `This action needs the ${required} role` });
+  }
+
+  next();
+};
+
+/**
+ * Require at least a role on a route, beyond what the HTTP method asks for
+ * @param {string} role - The role needed
+ * @returns {Function} Express middleware
+ */
+export const requireRole = (role) => (req, res, next) => {
+  if (!req.auth || !hasRole(req.auth.role, role)) {
+    return res.status(403).json({ message: `This action needs the ${role} role` });
+  }
+  next();
+};
+
+/**
+ * Keep tenants (account sessions and tenant tokens) out of server-wide routes (tokens, vault changes, jobs, audit)
+ * @param {Object} req - Express request
+ * @param {Object} res - Express response
+ * @param {Function} next - Next middleware
+ */
+export const requireGlobalAccess = (req, res, next) => {
+  if (req.auth?.tenant) {
+    return res.status(403).json({ message: 'Tenants only have access to their own wallets' });
+  }
+  next();
+};
@@ -0,0 +1,63 @@
+import express from 'express';
+import { requireGlobalAccess, requireRole } from '../middleware/auth.js';
+import { createApiToken, endSession, listApiTokens, revokeApiToken } from '../services/authService.js';
+
+const router = express.Router();
+
+// Get the caller's token name and role (plus tenant, and account for account sessions)
+router.get('/auth/me', (req, res) => {
+  res.json({ name: req.auth.name, role: req.auth.role, tenant: req.auth.tenant, account: req.auth.account });
+});
+
+// End the caller's account session
+router.delete('/auth/session', (req, res) => {
+  if (!req.auth.account) {
+    return res.status(400).json({ message: 'API tokens are revoked through /tokens' });
+  }
+  
+  endSession(req.auth.id);
+  res.json({ success: true });
+});
+
+// Token management is server-wide, so tenants can't reach it
+router.use('/tokens', requireGlobalAccess);
+
+// List API tokens (never their values)
+router.get('/tokens', requireRole('operator'), (req, res) => {
+  try {
+    res.json(listApiTokens());
+  } catch (error) {
+    console.error('Error in tokens endpoint:', error);
+    res.status(500).json({ 
+      message: `Failed to list tokens: ${error.message}` 
+    });
+  }
+});
+
+// Create an API token; its value is only returned here
+router.post('/tokens', (req, res) => {
+  try {
+    const { token, record } = createApiToken({ name: req.body.name, role: req.body.role, tenant: req.body.tenant });
+    res.status(201).json({ token, ...record });
+  } catch (error) {
+    console.error('Error in create token endpoint:', error);
+    res.status(error.status || 500).json({ 
+      message: `Failed to create token: ${error.message}` 
+    });
+  }
+});
+
+// Revoke an API token
+router.delete('/tokens/:id', (req, res) => {
+  try {
+    revokeApiToken(req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error in revoke token endpoint:', error);
+    res.status(error.status || 500).json({ 
+      message: `Failed to revoke token: ${error.message}` 
+    });
+  }
+});
+
+export default router;
@@ -1,8 +1,13 @@
 
 import express from 'express';
 import { fetchClaimableBalances } from '../services/piNetworkApi.js';
-import { getAllClaimableBalances, getWalletClaimableBalances, removeClaimableBalance } from '../services/walletMonitor.js';
+import { getAllClaimableBalances, getWalletClaimableBalances, removeClaimableBalance, forceProcessBalance, getPollCadences } from '../services/walletMonitor.js';
+import { getBalanceStatuses } from '../services/balanceStatus.js';
 import { fetchSequenceNumber } from '../services/piNetworkApi.js';
+import { getAccountReserveInfo } from '../services/amountPlanner.js';
+import { getWalletById } from '../services/walletService.js';
+import { canAccessWallet } from '../services/authService.js';
+import { requireGlobalAccess } from '../middleware/auth.js';
 
 const router = express.Router();
 
@@ -23,7 +28,10 @@ router.get('/claimable-balances/:address', async (req, res) => {
 // Get all claimable balances being monitored
 router.get('/monitored-balances', (req, res) => {
   try {
-    const balances = getAllClaimableBalances();
+    const balances = getAllClaimableBalances().filter(balance => {
+      const wallet = getWalletById(balance.walletId);
+      return wallet && canAccessWallet(req.auth, wallet);
+    });
     res.json(balances);
   } catch (error) {
     console.error('Error in monitored-balances endpoint:', error);
@@ -33,9 +41,30 @@ router.get('/monitored-balances', (req, res) => {
   }
 });
 
+// Get how often each monitored wallet's balances are polled
+router.get('/poll-cadence', (req, res) => {
+  try {
+    const cadences = getPollCadences().filter(cadence => {
+      const wallet = getWalletById(cadence.walletId);
+      return wallet && canAccessWallet(req.auth, wallet);
+    });
+    res.json(cadences);
+  } catch (error) {
+    console.error('Error in poll-cadence endpoint:', error);
+    res.status(500).json({ 
+      message: `Failed to get poll cadence: ${error.message}` 
+    });
+  }
+});
+
 // Get monitored balances for a specific wallet
 router.get('/monitored-balances/:walletId', (req, res) => {
   try {
+    const wallet = getWalletById(req.params.walletId);
+    if (wallet && !canAccessWallet(req.auth, wallet)) {
+      return res.status(404).json({ message: 'Wallet not found' });
+    }
+    
     const balances = getWalletClaimableBalances(req.params.walletId);
     res.json(balances);
   } catch (error) {
@@ -46,6 +75,46 @@ router.get('/monitored-balances/:walletId', (req, res) => {
   }
 });
 
+// Get the claim status of monitored balances (waiting, fetching_sequence, ... completed/failed)
+router.get('/balance-statuses', (req, res) => {
+  try {
+    const statuses = getBalanceStatuses((walletId) => {
+      const wallet = getWalletById(walletId);
+      return wallet ? canAccessWallet(req.auth, wallet) : !req.auth.tenant;
+    });
+    res.json(statuses);
+  } catch (error) {
+    console.error('Error in balance-statuses endpoint:', error);
+    res.status(500).json({ 
+      message: `Failed to get balance statuses: ${error.message}` 
+    });
+  }
+});
+
+// Claim an unlocked balance now instead of waiting for its scheduled claim
+router.post('/force-process', (req, res) => {
+  try {
+    const { walletId, balanceId } = req.body;
+    
+    if (!walletId || !balanceId) {
+      return res.status(400).json({ message: 'walletId and balanceId are required' });
+    }
+    
+    const wallet = getWalletById(walletId);
+    if (!wallet || !canAccessWallet(req.auth, wallet)) {
+      return res.status(404).json({ message: 'Wallet not found' });
+    }
+    
+    const result = forceProcessBalance(walletId, balanceId);
+    res.status(202).json({ message: 'Balance queued for processing', ...result });
+  } catch (error) {
+    console.error('Error in force-process endpoint:', error);
+    res.status(error.status || 500).json({ 
+      message: `Failed to force process balance: ${error.message}` 
+    });
+  }
+});
+
 // Get sequence number for an account
 router.get('/sequence/:address', async (req, res) => {
   try {
@@ -60,8 +129,21 @@ router.get('/sequence/:address', async (req, res) => {
   }
 });
 
+// Get native balance and reserve info for an account
+router.get('/account/:address', async (req, res) => {
+  try {
+    const info = await getAccountReserveInfo(req.params.address);
+    res.json(info);
+  } catch (error) {
+    console.error('Error in account endpoint:', error);
+    res.status(500).json({ 
+      message: `Failed to fetch account details: ${error.message}` 
+    });
+  }
+});
+
 // Remove a claimable balance (usually after claiming)
-router.delete('/monitored-balances/:balanceId', (req, res) => {
+router.delete('/monitored-balances/:balanceId', requireGlobalAccess, (req, res) => {
   try {
     removeClaimableBalance(req.params.balanceId);
     res.json({ message: 'Balance removed from monitoring' });
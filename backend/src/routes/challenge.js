@@ -0,0 +1,39 @@
+import express from 'express';
+import { createChallenge, verifyChallenge } from '../services/challengeAuth.js';
+import { createSession, getAccountRole } from '../services/authService.js';
+
+// Mounted before the token check: these routes are how an account gets a session
+const router = express.Router();
+
+// Get a challenge transaction for an account to sign
+router.get('/auth/challenge', (req, res) => {
+  try {
+    res.json(createChallenge(req.query.account));
+  } catch (error) {
+    console.error('Error in auth challenge endpoint:', error);
+    res.status(error.status || 500).json({ 
+      message: `Failed to create challenge: ${error.message}` 
+    });
+  }
+});
+
+// Exchange a signed challenge for a session scoped to the account's wallets (viewer unless the account is registered)
+router.post('/auth/session', (req, res) => {
+  try {
+    if (!req.body.transaction) {
+      return res.status(400).json({ message: 'A signed challenge transaction is required' });
+    }
+    
+    const account = verifyChallenge(req.body.transaction);
+    const { token, session } = createSession(account);
+    
+    res.status(201).json({ token, account, role: getAccountRole(account), expiresAt: session.expiresAt });
+  } catch (error) {
+    console.error('Error in auth session endpoint:', error);
+    res.status(error.status || 500).json({ 
+      message: `Failed to log in: ${error.message}` 
+    });
+  }
+});
+
+export default router;
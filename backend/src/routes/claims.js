@@ -0,0 +1,29 @@
+import express from 'express';
+import { getClaimHistory } from '../services/claimHistory.js';
+import { getWallets } from '../services/walletService.js';
+import { canAccessWallet } from '../services/authService.js';
+
+const router = express.Router();
+
+// Get completed claims, newest first (tenants only see their own; optional walletId and limit filters)
+router.get('/claims', (req, res) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit, 10) : undefined;
+    
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      return res.status(400).json({ message: 'Invalid limit. Provide a positive whole number' });
+    }
+    
+    const walletIds = new Set(getWallets().filter(wallet => canAccessWallet(req.auth, wallet)).map(wallet => wallet.id));
+    const canSee = (record) => !req.auth.tenant || record.owner === req.auth.tenant || walletIds.has(record.walletId);
+    
+    res.json(getClaimHistory({ canSee, walletId: req.query.walletId, limit }));
+  } catch (error) {
+    console.error('Error in claims endpoint:', error);
+    res.status(500).json({ 
+      message: `Failed to get claim history: ${error.message}` 
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,117 @@
+import express from 'express';
+import { getExecutionMode, setExecutionMode, ExecutionError } from '../services/executionMode.js';
+import { acquireLease, renewLease, releaseLease, getLeases } from '../services/claimLeases.js';
+import { getWalletById } from '../services/walletService.js';
+import { canAccessWallet } from '../services/authService.js';
+import { requireGlobalAccess } from '../middleware/auth.js';
+
+const router = express.Router();
+
+/**
+ * Get the lease holder ID for a browser tab; browsers can never pose as the server
+ * @param {string} clientId - Random ID the browser tab picked
+ * @returns {string} The holder ID
+ */
+const browserHolderId = (clientId) => {
+  if (!clientId || typeof clientId !== 'string') {
+    throw new ExecutionError('clientId is required', 400);
+  }
+  return `browser:${clientId}`;
+};
+
+// Get who claims balances: server, browser or browser_fallback
+router.get('/execution-mode', (req, res) => {
+  try {
+    res.json({ mode: getExecutionMode() });
+  } catch (error) {
+    console.error('Error in execution-mode endpoint:', error);
+    res.status(500).json({
+      message: `Failed to get execution mode: ${error.message}`
+    });
+  }
+});
+
+// Choose who claims balances (server-wide setting)
+router.put('/execution-mode', requireGlobalAccess, async (req, res) => {
+  try {
+    const mode = await setExecutionMode(req.body.mode);
+    res.json({ mode });
+  } catch (error) {
+    console.error('Error in update execution-mode endpoint:', error);
+    res.status(error.status || 500).json({
+      message: `Failed to change execution mode: ${error.message}`
+    });
+  }
+});
+
+// Get the claim leases in force (tenants only see their own wallets')
+router.get('/leases', (req, res) => {
+  try {
+    const leases = getLeases((lease) => {
+      const wallet = getWalletById(lease.walletId);
+      return wallet ? canAccessWallet(req.auth, wallet) : !req.auth.tenant;
+    });
+    res.json(leases);
+  } catch (error) {
+    console.error('Error in leases endpoint:', error);
+    res.status(500).json({
+      message: `Failed to get leases: ${error.message}`
+    });
+  }
+});
+
+// Take the lease on balances before the browser claims them
+router.post('/leases', (req, res) => {
+  try {
+    const { walletId, balanceIds, clientId } = req.body;
+    const holderId = browserHolderId(clientId);
+
+    const wallet = getWalletById(walletId);
+    if (!wallet || !canAccessWallet(req.auth, wallet)) {
+      return res.status(404).json({ message: 'Wallet not found' });
+    }
+
+    // A browser that reaches the server only claims when the browser is the executor
+    const mode = getExecutionMode();
+    if (mode !== 'browser') {
+      return res.status(409).json({ message: `Execution mode is ${mode}: the server claims the balances` });
+    }
+
+    const lease = acquireLease({ wallet, balanceIds, holderId, holderName: `Browser (${req.auth.name})` });
+    res.status(201).json(lease);
+  } catch (error) {
+    console.error('Error in acquire lease endpoint:', error);
+    res.status(error.status || 500).json({
+      message: `Failed to acquire lease: ${error.message}`,
+      lease: error.lease
+    });
+  }
+});
+
+// Extend a lease while the browser is still working on its balances
+router.post('/leases/:id/renew', (req, res) => {
+  try {
+    const lease = renewLease(req.params.id, browserHolderId(req.body.clientId));
+    res.json(lease);
+  } catch (error) {
+    console.error('Error in renew lease endpoint:', error);
+    res.status(error.status || 500).json({
+      message: `Failed to renew lease: ${error.message}`
+    });
+  }
+});
+
+// Give up a lease (after the claim, or when the browser stops claiming)
+router.delete('/leases/:id', (req, res) => {
+  try {
+    releaseLease(req.params.id, browserHolderId(req.query.clientId));
+    res.json({ message: 'Lease released' });
+  } catch (error) {
+    console.error('Error in release lease endpoint:', error);
+    res.status(error.status || 500).json({
+      message: `Failed to release lease: ${error.message}`
+    });
+  }
+});
+
+export default router;
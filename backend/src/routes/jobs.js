@@ -0,0 +1,60 @@
+
+import express from 'express';
+import { getScheduledJobs } from '../services/jobScheduler.js';
+import { getQueueStats } from '../services/tenantScheduler.js';
+import { getHorizonStats } from '../services/horizonClient.js';
+import { getEndpointHealth } from '../services/horizonEndpoints.js';
+import { requireGlobalAccess } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Get all scheduled jobs, soonest first
+router.get('/scheduled-jobs', requireGlobalAccess, (req, res) => {
+  try {
+    const jobs = getScheduledJobs();
+    res.json(jobs);
+  } catch (error) {
+    console.error('Error in scheduled-jobs endpoint:', error);
+    res.status(500).json({ 
+      message: `Failed to get scheduled jobs: ${error.message}` 
+    });
+  }
+});
+
+// Get the tenant queues: claims and balance checks running, and waiting per tenant
+router.get('/tenant-queues', requireGlobalAccess, (req, res) => {
+  try {
+    res.json(getQueueStats());
+  } catch (error) {
+    console.error('Error in tenant-queues endpoint:', error);
+    res.status(500).json({ 
+      message: `Failed to get tenant queues: ${error.message}` 
+    });
+  }
+});
+
+// Get the Horizon request queue: requests waiting per priority lane, rate limit pauses and throttle events
+router.get('/horizon-queue', requireGlobalAccess, (req, res) => {
+  try {
+    res.json(getHorizonStats());
+  } catch (error) {
+    console.error('Error in horizon-queue endpoint:', error);
+    res.status(500).json({ 
+      message: `Failed to get Horizon queue: ${error.message}` 
+    });
+  }
+});
+
+// Get the health of each Horizon endpoint and how transactions are submitted to them
+router.get('/horizon-endpoints', requireGlobalAccess, (req, res) => {
+  try {
+    res.json(getEndpointHealth());
+  } catch (error) {
+    console.error('Error in horizon-endpoints endpoint:', error);
+    res.status(500).json({ 
+      message: `Failed to get Horizon endpoints: ${error.message}` 
+    });
+  }
+});
+
+export default router;
@@ -1,13 +1,16 @@
 
 import express from 'express';
 import { getLogs, clearLogs } from '../services/logService.js';
+import { getWallets } from '../services/walletService.js';
+import { canAccessWallet } from '../services/authService.js';
 
 const router = express.Router();
 
-// Get all logs
+// Get all logs (tenants only see their own, plus entries about wallets they can access)
 router.get('/logs', (req, res) => {
   try {
-    const logs = getLogs();
+    const walletIds = new Set(getWallets().filter(wallet => canAccessWallet(req.auth, wallet)).map(wallet => wallet.id));
+    const logs = getLogs({ owner: req.auth.tenant, walletIds });
     res.json(logs);
   } catch (error) {
     console.error('Error in get logs endpoint:', error);
@@ -17,10 +20,10 @@ router.get('/logs', (req, res) => {
   }
 });
 
-// Clear all logs
+// Clear all logs (tenants clear only their own)
 router.delete('/logs', (req, res) => {
   try {
-    clearLogs();
+    clearLogs(req.auth.tenant);
     res.json({ message: 'Logs cleared' });
   } catch (error) {
     console.error('Error in clear logs endpoint:', error);
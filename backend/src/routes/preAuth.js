@@ -0,0 +1,51 @@
+import express from 'express';
+import { storePreAuthEnvelopes, getPreAuthCoverage } from '../services/preAuth.js';
+import { getWalletById } from '../services/walletService.js';
+import { canAccessWallet } from '../services/authService.js';
+
+const router = express.Router();
+
+// Authorize and store a wallet's pre-signed claim envelopes
+router.post('/pre-auth/:walletId', async (req, res) => {
+  try {
+    const { setOptionsXdr, envelopes } = req.body;
+    
+    const wallet = getWalletById(req.params.walletId);
+    if (wallet && !canAccessWallet(req.auth, wallet)) {
+      return res.status(404).json({ message: 'Wallet not found' });
+    }
+    
+    if (!setOptionsXdr || !Array.isArray(envelopes) || envelopes.some(xdr => typeof xdr !== 'string')) {
+      return res.status(400).json({ 
+        message: 'A signed setOptions transaction and an array of envelope XDRs are required' 
+      });
+    }
+    
+    await storePreAuthEnvelopes(req.params.walletId, setOptionsXdr, envelopes);
+    res.status(201).json(getPreAuthCoverage(req.params.walletId));
+  } catch (error) {
+    console.error('Error in pre-auth endpoint:', error);
+    res.status(error.status || 500).json({ 
+      message: `Failed to store pre-authorized envelopes: ${error.message}` 
+    });
+  }
+});
+
+// Get a wallet's envelopes and which balances they cover
+router.get('/pre-auth/:walletId', (req, res) => {
+  try {
+    const wallet = getWalletById(req.params.walletId);
+    if (!wallet || !canAccessWallet(req.auth, wallet)) {
+      return res.status(404).json({ message: 'Wallet not found' });
+    }
+    
+    res.json(getPreAuthCoverage(req.params.walletId));
+  } catch (error) {
+    console.error('Error in get pre-auth endpoint:', error);
+    res.status(500).json({ 
+      message: `Failed to get pre-authorized envelopes: ${error.message}` 
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,25 @@
+import express from 'express';
+import { getSigningAudit } from '../services/signingAudit.js';
+import { requireGlobalAccess } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Get recorded signature requests, newest first (optional walletId and limit filters)
+router.get('/signing-audit', requireGlobalAccess, (req, res) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit, 10) : undefined;
+    
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      return res.status(400).json({ message: 'Invalid limit. Provide a positive whole number' });
+    }
+    
+    res.json(getSigningAudit({ walletId: req.query.walletId, limit }));
+  } catch (error) {
+    console.error('Error in signing-audit endpoint:', error);
+    res.status(500).json({ 
+      message: `Failed to get signing audit: ${error.message}` 
+    });
+  }
+});
+
+export default router;
@@ -1,6 +1,6 @@
 
 import express from 'express';
-import { submitTransaction } from '../services/piNetworkApi.js';
+import { submitTransaction, fetchFeeStats, fetchTransaction } from '../services/piNetworkApi.js';
 
 const router = express.Router();
 
@@ -17,9 +17,38 @@ router.post('/submit-transaction', async (req, res) => {
     res.json(result);
   } catch (error) {
     console.error('Error in submit-transaction endpoint:', error);
-    res.status(500).json({ 
+    
+    // Pass Horizon's rejection through so the client can tell it from an unknown outcome
+    res.status(error.resultCodes ? 400 : 500).json({ 
       message: `Failed to submit transaction: ${error.message}`,
-      error: error.message
+      error: error.message,
+      extras: error.resultCodes ? { result_codes: error.resultCodes } : undefined
+    });
+  }
+});
+
+// Look up a transaction by hash (found: false if it is not in a ledger)
+router.get('/transaction/:hash', async (req, res) => {
+  try {
+    const record = await fetchTransaction(req.params.hash);
+    res.json(record ? { found: true, transaction: record } : { found: false });
+  } catch (error) {
+    console.error('Error in transaction endpoint:', error);
+    res.status(500).json({ 
+      message: `Failed to fetch transaction: ${error.message}` 
+    });
+  }
+});
+
+// Get recent network fee statistics
+router.get('/fee-stats', async (req, res) => {
+  try {
+    const stats = await fetchFeeStats();
+    res.json(stats);
+  } catch (error) {
+    console.error('Error in fee-stats endpoint:', error);
+    res.status(500).json({ 
+      message: `Failed to fetch fee stats: ${error.message}` 
     });
   }
 });
@@ -0,0 +1,74 @@
+
+import express from 'express';
+import { getVaultState, initVault, unlockVault, lockVault } from '../services/keyVault.js';
+import { changeVaultPassphrase } from '../services/walletService.js';
+import { requireGlobalAccess } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Get the vault state (uninitialized, locked or unlocked)
+router.get('/vault', (req, res) => {
+  try {
+    res.json({ state: getVaultState() });
+  } catch (error) {
+    console.error('Error in vault endpoint:', error);
+    res.status(500).json({ 
+      message: `Failed to get vault state: ${error.message}` 
+    });
+  }
+});
+
+// Set up the vault with its first passphrase
+router.post('/vault/init', requireGlobalAccess, async (req, res) => {
+  try {
+    await initVault(req.body.passphrase);
+    res.json({ state: getVaultState() });
+  } catch (error) {
+    console.error('Error in vault init endpoint:', error);
+    res.status(error.status || 500).json({ 
+      message: `Failed to initialize vault: ${error.message}` 
+    });
+  }
+});
+
+// Unlock the vault so claims can be signed
+router.post('/vault/unlock', requireGlobalAccess, async (req, res) => {
+  try {
+    await unlockVault(req.body.passphrase);
+    res.json({ state: getVaultState() });
+  } catch (error) {
+    console.error('Error in vault unlock endpoint:', error);
+    res.status(error.status || 500).json({ 
+      message: `Failed to unlock vault: ${error.message}` 
+    });
+  }
+});
+
+// Lock the vault, holding all claims
+router.post('/vault/lock', requireGlobalAccess, (req, res) => {
+  try {
+    lockVault();
+    res.json({ state: getVaultState() });
+  } catch (error) {
+    console.error('Error in vault lock endpoint:', error);
+    res.status(500).json({ 
+      message: `Failed to lock vault: ${error.message}` 
+    });
+  }
+});
+
+// Change the passphrase and re-encrypt all stored keys
+router.post('/vault/change-passphrase', requireGlobalAccess, async (req, res) => {
+  try {
+    const { currentPassphrase, newPassphrase } = req.body;
+    await changeVaultPassphrase(currentPassphrase, newPassphrase);
+    res.json({ state: getVaultState() });
+  } catch (error) {
+    console.error('Error in vault change-passphrase endpoint:', error);
+    res.status(error.status || 500).json({ 
+      message: `Failed to change vault passphrase: ${error.message}` 
+    });
+  }
+});
+
+export default router;
@@ -1,39 +1,101 @@
 
 import express from 'express';
-import { addWallet, getWallets, getWalletById, removeWallet } from '../services/walletService.js';
+import { addWallet, getWallets, getWalletById, removeWallet, WALLET_TYPES, SIGNING_MODES } from '../services/walletService.js';
+import { AMOUNT_MODES } from '../services/amountPlanner.js';
+import { SIGNER_TYPES } from '../services/signers.js';
+import { canAccessWallet } from '../services/authService.js';
 
 const router = express.Router();
 
 // Add a new wallet for monitoring
 router.post('/monitor-wallet', async (req, res) => {
   try {
-    const { address, privateKey, destinationAddress } = req.body;
+    const { address, privateKey, destinationAddress, amountMode, type, feeSponsorId, maxFee, signingMode, signer } = req.body;
     
-    if (!address || !privateKey || !destinationAddress) {
+    if (type && !WALLET_TYPES.includes(type)) {
+      return res.status(400).json({ 
+        message: `Invalid wallet type. Use one of: ${WALLET_TYPES.join(', ')}` 
+      });
+    }
+    
+    if (signingMode && !SIGNING_MODES.includes(signingMode)) {
+      return res.status(400).json({ 
+        message: `Invalid signing mode. Use one of: ${SIGNING_MODES.join(', ')}` 
+      });
+    }
+    
+    if (signer && !SIGNER_TYPES.includes(signer)) {
+      return res.status(400).json({ 
+        message: `Invalid signer. Use one of: ${SIGNER_TYPES.join(', ')}` 
+      });
+    }
+    
+    const preAuthorized = signingMode === 'pre_auth' && type !== 'fee_sponsor';
+    
+    // Only the vault signer stores the key here
+    const needsKey = !preAuthorized && (signer || 'vault') === 'vault';
+    
+    // Fee sponsors never receive claims, so they don't need a destination;
+    // pre-authorized wallets and wallets whose key lives in another signer never send it
+    if (!address || (!privateKey && needsKey) || (type !== 'fee_sponsor' && !destinationAddress)) {
       return res.status(400).json({ 
         message: 'All wallet fields are required' 
       });
     }
     
+    // Pre-signed envelopes carry their own fee and can't be wrapped by a sponsor's fee-bump
+    if (preAuthorized && feeSponsorId) {
+      return res.status(400).json({ 
+        message: 'Pre-authorized wallets pay their own fees and cannot use a fee sponsor' 
+      });
+    }
+    
+    if (amountMode && !AMOUNT_MODES.includes(amountMode)) {
+      return res.status(400).json({ 
+        message: `Invalid amount mode. Use one of: ${AMOUNT_MODES.join(', ')}` 
+      });
+    }
+    
+    // Fee ceiling is stroops per operation
+    if (maxFee !== undefined && maxFee !== null && maxFee !== '' && !/^[1-9][0-9]*$/.test(String(maxFee))) {
+      return res.status(400).json({ 
+        message: 'Invalid max fee. Provide a positive whole number of stroops' 
+      });
+    }
+    
+    // Memory and daemon keys belong to the server operator, so tenants can only bring their own key
+    if (req.auth.tenant && !needsKey && !preAuthorized) {
+      return res.status(403).json({ 
+        message: 'Tenants can only add vault or pre-authorized wallets' 
+      });
+    }
+    
     const result = await addWallet({
       address,
-      privateKey,
-      destinationAddress
+      privateKey: needsKey ? privateKey : undefined,
+      destinationAddress,
+      amountMode,
+      type,
+      feeSponsorId,
+      signingMode,
+      signer,
+      maxFee: maxFee ? String(maxFee) : undefined,
+      owner: req.auth.tenant
     });
     
     res.status(201).json(result);
   } catch (error) {
     console.error('Error in monitor-wallet endpoint:', error);
-    res.status(500).json({ 
+    res.status(error.status || 500).json({ 
       message: `Failed to add wallet: ${error.message}` 
     });
   }
 });
 
-// Get all monitored wallets
+// Get all monitored wallets the caller may see
 router.get('/wallets', (req, res) => {
   try {
-    const wallets = getWallets();
+    const wallets = getWallets().filter(wallet => canAccessWallet(req.auth, wallet));
     res.json(wallets);
   } catch (error) {
     console.error('Error in get wallets endpoint:', error);
@@ -48,7 +110,7 @@ router.get('/wallets/:id', (req, res) => {
   try {
     const wallet = getWalletById(req.params.id);
     
-    if (!wallet) {
+    if (!wallet || !canAccessWallet(req.auth, wallet)) {
       return res.status(404).json({ message: 'Wallet not found' });
     }
     
@@ -64,6 +126,11 @@ router.get('/wallets/:id', (req, res) => {
 // Stop monitoring a wallet
 router.delete('/stop-monitoring/:id', async (req, res) => {
   try {
+    const wallet = getWalletById(req.params.id);
+    if (wallet && !canAccessWallet(req.auth, wallet)) {
+      return res.status(404).json({ message: 'Wallet not found' });
+    }
+    
     const success = await removeWallet(req.params.id);
     
     if (!success) {
@@ -0,0 +1,154 @@
+import { fetchAccountDetails, fetchBaseReserve } from './piNetworkApi.js';
+
+// Supported transfer amount modes
+export const AMOUNT_MODES = ['auto', 'claimed', 'claimed_minus_fee', 'sweep'];
+
+// Default mode for wallets that did not pick one
+export const DEFAULT_AMOUNT_MODE = 'auto';
+
+// Fallback base reserve if the ledger can't be read (0.5 Pi)
+const DEFAULT_BASE_RESERVE = 5000000;
+
+// How long a fetched base reserve stays valid (10 minutes)
+const BASE_RESERVE_TTL = 10 * 60 * 1000;
+
+// Number of stroops in one Pi
+const STROOPS_PER_PI = 10000000n;
+
+// Cached base reserve
+let baseReserveCache = null;
+
+/**
+ * Convert a Pi amount string to stroops
+ * @param {string} amount - The amount in Pi (up to 7 decimals)
+ * @returns {bigint} The amount in stroops
+ */
+export const toStroops = (amount) => {
+  const [whole, fraction = ''] = String(amount).split('.');
+  return BigInt(whole || '0') * STROOPS_PER_PI + BigInt((fraction + '0000000').substring(0, 7));
+};
+
+/**
+ * Convert stroops to a Pi amount string
+ * @param {bigint} stroops - The amount in stroops
+ * @returns {string} The amount in Pi with 7 decimals
+ */
+export const fromStroops = (stroops) => {
+  const whole = stroops / STROOPS_PER_PI;
+  const fraction = (stroops % STROOPS_PER_PI).toString().padStart(7, '0');
+  return `${whole}.${fraction}`;
+};
+
+/**
+ * Get the network base reserve, cached for a few minutes
+ * @returns {Promise<bigint>} The base reserve in stroops
+ */
+const getBaseReserve = async () => {
+  const now = Date.now();
+
+  if (baseReserveCache && (now - baseReserveCache.timestamp) < BASE_RESERVE_TTL) {
+    return baseReserveCache.value;
+  }
+
+  try {
+    const value = BigInt(await fetchBaseReserve());
+    baseReserveCache = { value, timestamp: now };
+    return value;
+  } catch (error) {
+    return BigInt(DEFAULT_BASE_RESERVE);
+  }
+};
+
+/**
+ * Compute the transfer amount for a claim from known account state
+ * @param {Object} params - The planning inputs
+ * @param {Object} params.account - Account details from fetchAccountDetails
+ * @param {bigint} params.baseReserve - The base reserve in stroops
+ * @param {string} params.claimedAmount - The amount being claimed in Pi
+ * @param {string|number} params.fee - The fee the source account pays in stroops
+ * @param {string} [params.mode] - The transfer amount mode
+ * @returns {Object} The plan: amount, mode used and whether it was capped
+ */
+export const computeTransferAmount = ({ account, baseReserve, claimedAmount, fee, mode = DEFAULT_AMOUNT_MODE }) => {
+  const claimed = toStroops(claimedAmount);
+  const feeStroops = BigInt(fee);
+
+  // Minimum balance: (2 + subentries + sponsoring - sponsored) reserves plus selling liabilities
+  const reserveEntries = BigInt(2 + account.subentryCount + account.numSponsoring - account.numSponsored);
+  const minimumBalance = reserveEntries * baseReserve + toStroops(account.sellingLiabilities);
+
+  // What can leave the account once the claim has landed and the fee is paid
+  const available = toStroops(account.nativeBalance) + claimed - feeStroops - minimumBalance;
+
+  if (available <= 0n) {
+    throw new Error(`Nothing available to transfer above the ${fromStroops(minimumBalance)} Pi reserve`);
+  }
+
+  const candidates = {
+    claimed,
+    claimed_minus_fee: claimed - feeStroops,
+    sweep: available
+  };
+
+  let usedMode = mode;
+
+  if (mode === 'auto') {
+    // Prefer the full claimed amount, then claimed minus fee, then whatever is spendable
+    usedMode = ['claimed', 'claimed_minus_fee'].find(m => candidates[m] > 0n && candidates[m] <= available) || 'sweep';
+  }
+
+  let amount = candidates[usedMode];
+  const capped = amount > available;
+
+  if (capped) {
+    amount = available;
+  }
+
+  if (amount <= 0n) {
+    throw new Error(`Transfer amount for mode ${usedMode} is not positive`);
+  }
+
+  return {
+    amount: fromStroops(amount),
+    mode: usedMode,
+    capped,
+    available: fromStroops(available),
+    minimumBalance: fromStroops(minimumBalance)
+  };
+};
+
+/**
+ * Plan the transfer amount for a wallet claiming a balance
+ * @param {Object} wallet - The wallet (uses address and amountMode)
+ * @param {string} claimedAmount - The amount being claimed in Pi
+ * @param {string|number} fee - The fee the wallet pays in stroops
+ * @returns {Promise<Object>} The transfer plan
+ */
+export const planTransferAmount = async (wallet, claimedAmount, fee) => {
+  const [account, baseReserve] = await Promise.all([
+    fetchAccountDetails(wallet.address),
+    getBaseReserve()
+  ]);
+
+  return computeTransferAmount({
+    account,
+    baseReserve,
+    claimedAmount,
+    fee,
+    mode: wallet.amountMode || DEFAULT_AMOUNT_MODE
+  });
+};
+
+/**
+ * Get account details together with the base reserve
+ * @param {string} address - The account address
+ * @returns {Promise<Object>} Account details plus baseReserve in stroops
+ */
+export const getAccountReserveInfo = async (address) => {
+  const [account, baseReserve] = await Promise.all([
+    fetchAccountDetails(address),
+    getBaseReserve()
+  ]);
+
+  return { ...account, baseReserve: baseReserve.toString() };
+};
@@ -0,0 +1,246 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import dotenv from 'dotenv';
+import { getAllRecords, putRecord, deleteRecord } from './storage.js';
+
+// Load environment variables
+dotenv.config();
+
+// Operator token stored on first start when no tokens exist; a random one is printed if unset
+const API_BOOTSTRAP_TOKEN = process.env.API_BOOTSTRAP_TOKEN || '';
+
+// Roles from least to most privileged: viewers read, operators also change things
+export const ROLES = ['viewer', 'operator'];
+
+// How long a session from a signed challenge lasts (milliseconds)
+const SESSION_TTL_MS = parseInt(process.env.SESSION_TTL_MS || String(12 * 60 * 60 * 1000), 10);
+
+// Comma-separated accounts whose login sessions may operate; other accounts need a token registering them
+const AUTH_ALLOWED_ACCOUNTS = (process.env.AUTH_ALLOWED_ACCOUNTS || '')
+  .split(',')
+  .map(account => account.trim())
+  .filter(Boolean);
+
+// A token's last use is written at most this often (milliseconds) to keep the journal small
+const LAST_USED_RESOLUTION = 60000;
+
+/**
+ * Error raised by authentication and token management, with the HTTP status that fits it
+ */
+export class AuthError extends Error {
+  /**
+   * @param {string} message - Human-readable description
+   * @param {number} status - HTTP status for API responses
+   */
+  constructor(message, status) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+/**
+ * Hash an API token; only the hash is stored
+ * @param {string} token - The plaintext token
+ * @returns {string} Hex SHA-256 digest
+ */
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Strip the hash from a token record
+ * @param {Object} record - The stored token record
+ * @returns {Object} The record safe to return from the API
+ */
+const toPublicToken = ({ hash, ...record }) => record;
+
+/**
+ * Check whether a role includes the permissions of another
+ * @param {string} role - The role held
+ * @param {string} required - The role needed
+ * @returns {boolean} True if the held role is at least as privileged
+ */
+export const hasRole = (role, required) => ROLES.indexOf(role) >= ROLES.indexOf(required);
+
+/**
+ * Store a token under a name and role
+ * @param {string} token - The plaintext token
+ * @param {string} name - Who or what uses the token
+ * @param {string} role - viewer or operator
+ * @param {string} [tenant] - Owner whose wallets the token is limited to (none for server admins)
+ * @returns {Object} The public token record
+ */
+const storeToken = (token, name, role, tenant) => {
+  const record = {
+    id: uuidv4(),
+    name,
+    role,
+    tenant,
+    hash: hashToken(token),
+    createdAt: new Date().toISOString(),
+    lastUsedAt: null
+  };
+
+  putRecord('api_tokens', record.id, record);
+  return toPublicToken(record);
+};
+
+/**
+ * Create an API token
+ * @param {Object} options - The token details
+ * @param {string} options.name - Who or what uses the token
+ * @param {string} options.role - viewer or operator
+ * @param {string} [options.tenant] - Owner whose wallets the token is limited to (e.g. an account address)
+ * @returns {{token: string, record: Object}} The plaintext token (shown only once) and its record
+ */
+export const createApiToken = ({ name, role, tenant }) => {
+  if (!name || typeof name !== 'string') {
+    throw new AuthError('A token name is required', 400);
+  }
+
+  if (!ROLES.includes(role)) {
+    throw new AuthError(`Invalid role. Use one of: ${ROLES.join(', ')}`, 400);
+  }
+
+  if (tenant !== undefined && (typeof tenant !== 'string' || !tenant.trim())) {
+    throw new AuthError('Tenant must be a non-empty string', 400);
+  }
+
+  const token = `pat_${crypto.randomBytes(32).toString('hex')}`;
+  return { token, record: storeToken(token, name.trim(), role, tenant?.trim()) };
+};
+
+/**
+ * Get all API tokens, without their hashes
+ * @returns {Array} The token records
+ */
+export const listApiTokens = () => getAllRecords('api_tokens').map(toPublicToken);
+
+/**
+ * Revoke an API token
+ * @param {string} id - The token ID
+ */
+export const revokeApiToken = (id) => {
+  const tokens = getAllRecords('api_tokens');
+  const record = tokens.find(t => t.id === id);
+
+  if (!record) {
+    throw new AuthError('Token not found', 404);
+  }
+
+  // Without a server-wide operator token nobody could manage the server any more
+  const isAdmin = (t) => t.role === 'operator' && !t.tenant;
+  if (isAdmin(record) && tokens.filter(isAdmin).length === 1) {
+    throw new AuthError('Cannot revoke the last operator token', 400);
+  }
+
+  deleteRecord('api_tokens', id);
+};
+
+/**
+ * Start a session for an account that signed a login challenge
+ * @param {string} account - The account that proved control of its key
+ * @returns {{token: string, session: Object}} The plaintext session token and its record
+ */
+export const createSession = (account) => {
+  const token = `ses_${crypto.randomBytes(32).toString('hex')}`;
+  const record = {
+    id: uuidv4(),
+    account,
+    hash: hashToken(token),
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS).toISOString()
+  };
+
+  putRecord('sessions', record.id, record);
+  return { token, session: toPublicToken(record) };
+};
+
+/**
+ * End an account session (logout)
+ * @param {string} id - The session ID
+ */
+export const endSession = (id) => {
+  deleteRecord('sessions', id);
+};
+
+/**
+ * Get the role an account's login session carries
+ * @param {string} account - The account that signed in
+ * @returns {string} operator for allowed accounts, the role of a token an operator created for the account as its tenant, viewer otherwise
+ */
+export const getAccountRole = (account) => {
+  if (AUTH_ALLOWED_ACCOUNTS.includes(account)) return 'operator';
+
+  // Any keypair can sign a challenge, so an account nobody registered only gets to look at its own wallets
+  const roles = getAllRecords('api_tokens').filter(t => t.tenant === account).map(t => t.role);
+  return roles.includes('operator') ? 'operator' : 'viewer';
+};
+
+/**
+ * Find the account session matching a presented session token
+ * @param {string} token - The plaintext session token
+ * @returns {Object|null} The caller, whose tenant is the account, with the account's current role
+ */
+const authenticateSession = (token) => {
+  const hash = hashToken(token);
+  const record = getAllRecords('sessions').find(s => s.hash === hash);
+  if (!record) return null;
+
+  if (new Date(record.expiresAt).getTime() <= Date.now()) {
+    deleteRecord('sessions', record.id);
+    return null;
+  }
+
+  return { id: record.id, name: record.account, role: getAccountRole(record.account), account: record.account, tenant: record.account };
+};
+
+/**
+ * Find the caller matching a presented API or session token
+ * @param {string} token - The plaintext token from the request
+ * @returns {Object|null} The public token record (with `tenant` unless it is server-wide), or null if the token is unknown
+ */
+export const authenticateToken = (token) => {
+  if (!token) return null;
+
+  if (token.startsWith('ses_')) {
+    return authenticateSession(token);
+  }
+
+  const hash = hashToken(token);
+  const record = getAllRecords('api_tokens').find(t => t.hash === hash);
+  if (!record) return null;
+
+  const now = Date.now();
+  if (!record.lastUsedAt || now - new Date(record.lastUsedAt).getTime() > LAST_USED_RESOLUTION) {
+    putRecord('api_tokens', record.id, { ...record, lastUsedAt: new Date(now).toISOString() });
+  }
+
+  return toPublicToken(record);
+};
+
+/**
+ * Check whether a caller may see and manage a wallet
+ * @param {Object} auth - The authenticated caller
+ * @param {Object} wallet - The wallet
+ * @returns {boolean} True for server-wide callers, for the wallet's owner, and for a session of the wallet's own account
+ */
+export const canAccessWallet = (auth, wallet) => {
+  return !auth.tenant || wallet.owner === auth.tenant || (!!auth.account && wallet.address === auth.account);
+};
+
+/**
+ * Make sure an operator token exists so a fresh install can be managed
+ */
+export const ensureBootstrapToken = () => {
+  if (getAllRecords('api_tokens').length > 0) return;
+
+  const token = API_BOOTSTRAP_TOKEN || `pat_${crypto.randomBytes(32).toString('hex')}`;
+  storeToken(token, 'bootstrap', 'operator');
+
+  // Printed to the console only: the log API is readable by viewers
+  if (API_BOOTSTRAP_TOKEN) {
+    console.log('Created the bootstrap operator token from API_BOOTSTRAP_TOKEN');
+  } else {
+    console.log(`Created bootstrap operator token (shown once, store it safely): ${token}`);
+  }
+};
@@ -0,0 +1,36 @@
+import { fetchClaimableBalanceOperations } from './piNetworkApi.js';
+
+// Operation types that end a claimable balance
+const CLOSING_OPERATIONS = ['claim_claimable_balance', 'clawback_claimable_balance'];
+
+/**
+ * Work out who took a balance that disappeared from Horizon's claimable balances
+ * @param {string} balanceId - The balance that vanished
+ * @param {string} walletAddress - The monitored wallet the balance was waiting for
+ * @returns {Object} The resolution: outcome (claimed_by_us, claimed_by_other or unknown), claimant, transactionHash, closedAt
+ */
+export const resolveVanishedBalance = async (balanceId, walletAddress) => {
+  let operations = [];
+  
+  try {
+    operations = await fetchClaimableBalanceOperations(balanceId);
+  } catch (error) {
+    // Without the history we can't tell who took it; the balance is gone either way
+  }
+  
+  const closing = operations.find(op => CLOSING_OPERATIONS.includes(op.type));
+  
+  if (!closing) {
+    return { outcome: 'unknown', claimant: null, transactionHash: null, closedAt: null };
+  }
+  
+  // A claim names its claimant; a clawback is done by the asset issuer
+  const claimant = closing.claimant || closing.source_account;
+  
+  return {
+    outcome: closing.type === 'claim_claimable_balance' && claimant === walletAddress ? 'claimed_by_us' : 'claimed_by_other',
+    claimant,
+    transactionHash: closing.transaction_hash,
+    closedAt: closing.created_at
+  };
+};
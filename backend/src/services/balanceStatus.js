@@ -0,0 +1,125 @@
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// How long completed, failed and vanished statuses stay visible after their balance leaves monitoring (milliseconds)
+const STATUS_RETENTION_MS = parseInt(process.env.STATUS_RETENTION_MS || String(60 * 60 * 1000), 10);
+
+// Statuses a balance can move to from each status; completed and vanished are final
+const TRANSITIONS = {
+  idle: ['waiting', 'failed', 'vanished'],
+  waiting: ['waiting', 'fetching_sequence', 'constructing', 'submitting', 'completed', 'failed', 'vanished'],
+  fetching_sequence: ['waiting', 'constructing', 'submitting', 'completed', 'failed', 'vanished'],
+  constructing: ['waiting', 'fetching_sequence', 'signing', 'failed', 'vanished'],
+  signing: ['waiting', 'submitting', 'failed', 'vanished'],
+  submitting: ['waiting', 'completed', 'failed', 'vanished'],
+  completed: [],
+  failed: ['waiting', 'failed', 'vanished'],
+  vanished: []
+};
+
+// Statuses that stay visible once the balance is gone
+const TERMINAL_STATUSES = ['completed', 'failed', 'vanished'];
+
+// Balance ID -> current status record
+const statuses = new Map();
+
+/**
+ * Error raised by the balance status machine and the actions guarded by it, with the HTTP status that fits it
+ */
+export class BalanceStatusError extends Error {
+  /**
+   * @param {string} message - Human-readable description
+   * @param {number} status - HTTP status for API responses
+   */
+  constructor(message, status) {
+    super(message);
+    this.name = 'BalanceStatusError';
+    this.status = status;
+  }
+}
+
+/**
+ * Get a balance's current status
+ * @param {string} balanceId - The balance ID
+ * @returns {string} The status (idle if the balance has none yet)
+ */
+export const getBalanceStatus = (balanceId) => {
+  const record = statuses.get(balanceId);
+  return record ? record.status : 'idle';
+};
+
+/**
+ * Move a balance to a new status
+ * @param {Object} balance - The monitored balance
+ * @param {string} status - The status to move to
+ * @param {string} [message] - What the balance is waiting for or why it failed
+ * @param {Object} [resolution] - Who took a vanished balance (outcome, claimant, transactionHash, closedAt)
+ * @returns {Object} The new status record
+ */
+export const transitionBalance = (balance, status, message, resolution) => {
+  const from = getBalanceStatus(balance.id);
+
+  if (!TRANSITIONS[from].includes(status)) {
+    throw new BalanceStatusError(`Balance ${balance.id} cannot move from ${from} to ${status}`, 409);
+  }
+
+  const record = {
+    balanceId: balance.id,
+    walletId: balance.walletId,
+    status,
+    previousStatus: from,
+    message: message || null,
+    resolution: resolution || null,
+    updatedAt: new Date().toISOString()
+  };
+
+  statuses.set(balance.id, record);
+  return record;
+};
+
+/**
+ * Forget the status of a balance that left monitoring; final ones are kept for a while
+ * @param {string} balanceId - The balance ID
+ */
+export const clearBalanceStatus = (balanceId) => {
+  const record = statuses.get(balanceId);
+  if (record && !TERMINAL_STATUSES.includes(record.status)) {
+    statuses.delete(balanceId);
+  }
+};
+
+/**
+ * Forget every status of a wallet, including completed and failed ones
+ * @param {string} walletId - The wallet ID
+ */
+export const clearWalletStatuses = (walletId) => {
+  for (const [balanceId, record] of Array.from(statuses)) {
+    if (record.walletId === walletId) {
+      statuses.delete(balanceId);
+    }
+  }
+};
+
+/**
+ * Drop final statuses older than the retention period
+ */
+const pruneStatuses = () => {
+  const cutoff = Date.now() - STATUS_RETENTION_MS;
+  for (const [balanceId, record] of Array.from(statuses)) {
+    if (TERMINAL_STATUSES.includes(record.status) && new Date(record.updatedAt).getTime() < cutoff) {
+      statuses.delete(balanceId);
+    }
+  }
+};
+
+/**
+ * Get the status records of all balances
+ * @param {Function} [canSee] - (walletId) => whether the caller may see the wallet's balances
+ * @returns {Array} The status records
+ */
+export const getBalanceStatuses = (canSee = () => true) => {
+  pruneStatuses();
+  return Array.from(statuses.values()).filter(record => canSee(record.walletId));
+};
@@ -0,0 +1,72 @@
+import dotenv from 'dotenv';
+import { toStroops, fromStroops } from './amountPlanner.js';
+
+// Load environment variables
+dotenv.config();
+
+// Balances unlocking within this window of the first one share a transaction (1 minute)
+export const BATCH_WINDOW_MS = parseInt(process.env.BATCH_WINDOW_MS || '60000', 10);
+
+// A transaction holds at most 100 operations: N claims plus one payment
+export const MAX_CLAIMS_PER_BATCH = 99;
+
+/**
+ * Group a wallet's balances into claim batches by unlock time
+ * @param {Array} balances - Claimable balances of a single wallet
+ * @param {number} [windowMs] - Maximum spread of unlock times within a batch
+ * @param {number} [maxClaims] - Maximum number of balances per batch
+ * @returns {Array} Batches sorted by unlock time
+ */
+export const planBatches = (balances, windowMs = BATCH_WINDOW_MS, maxClaims = MAX_CLAIMS_PER_BATCH) => {
+  const sorted = [...balances].sort((a, b) => {
+    const diff = new Date(a.unlockTime).getTime() - new Date(b.unlockTime).getTime();
+    return diff !== 0 ? diff : a.id.localeCompare(b.id);
+  });
+
+  const batches = [];
+  let current = null;
+
+  for (const balance of sorted) {
+    const unlockTime = new Date(balance.unlockTime).getTime();
+    const deadline = balance.claimDeadline ? new Date(balance.claimDeadline).getTime() : Infinity;
+
+    // Start a new batch when the window or the operation limit is exceeded,
+    // or when waiting for this balance would push the batch past a member's deadline
+    if (!current ||
+        unlockTime - current.windowStart > windowMs ||
+        current.balances.length >= maxClaims ||
+        unlockTime >= current.deadline) {
+      current = {
+        id: `batch:${balance.id}`,
+        walletId: balance.walletId,
+        windowStart: unlockTime,
+        deadline: Infinity,
+        balances: []
+      };
+      batches.push(current);
+    }
+
+    current.balances.push(balance);
+    current.deadline = Math.min(current.deadline, deadline);
+  }
+
+  return batches.map(batch => ({
+    id: batch.id,
+    walletId: batch.walletId,
+    balances: batch.balances,
+    // Every balance in the batch must be claimable, so wait for the last one
+    unlockTime: new Date(Math.max(...batch.balances.map(b => new Date(b.unlockTime).getTime()))),
+    totalAmount: sumAmounts(batch.balances.map(b => b.amount)),
+    // The batch has to land before the earliest deadline of its balances
+    claimDeadline: Number.isFinite(batch.deadline) ? new Date(batch.deadline) : null
+  }));
+};
+
+/**
+ * Sum Pi amount strings without floating point drift
+ * @param {Array<string>} amounts - Amounts in Pi (up to 7 decimals)
+ * @returns {string} The total in Pi with 7 decimals
+ */
+export const sumAmounts = (amounts) => {
+  return fromStroops(amounts.reduce((sum, amount) => sum + toStroops(amount), 0n));
+};
@@ -0,0 +1,105 @@
+import * as StellarSdk from 'stellar-sdk';
+import dotenv from 'dotenv';
+import { AuthError } from './authService.js';
+
+// Load environment variables
+dotenv.config();
+
+// Pi Network passphrase
+const NETWORK_PASSPHRASE = process.env.PI_NETWORK_PASSPHRASE || 'Pi Network';
+
+// Secret key the server signs challenges with; a random one is used (per process) if unset
+const AUTH_SIGNING_KEY = process.env.AUTH_SIGNING_KEY || '';
+
+// Domain named in the challenge's manage_data operation
+const AUTH_HOME_DOMAIN = process.env.AUTH_HOME_DOMAIN || 'pi-auto-claim-harvester.vercel.app';
+
+// Seconds a challenge stays valid
+const AUTH_CHALLENGE_TIMEOUT = parseInt(process.env.AUTH_CHALLENGE_TIMEOUT || '300', 10);
+
+const serverKeypair = AUTH_SIGNING_KEY
+  ? StellarSdk.Keypair.fromSecret(AUTH_SIGNING_KEY)
+  : StellarSdk.Keypair.random();
+
+// Hashes of challenges already exchanged for a session, kept until they expire
+const usedChallenges = new Map();
+
+/**
+ * Forget used challenges that have expired anyway
+ */
+const pruneUsedChallenges = () => {
+  const now = Date.now();
+  for (const [hash, expiresAt] of usedChallenges) {
+    if (expiresAt <= now) {
+      usedChallenges.delete(hash);
+    }
+  }
+};
+
+/**
+ * Build a challenge transaction for an account to sign
+ * @param {string} account - The account proving control of its key
+ * @returns {Object} The challenge XDR and what the client needs to check it
+ */
+export const createChallenge = (account) => {
+  if (!StellarSdk.StrKey.isValidEd25519PublicKey(account || '')) {
+    throw new AuthError('Invalid account address', 400);
+  }
+
+  const transaction = StellarSdk.WebAuth.buildChallengeTx(
+    serverKeypair,
+    account,
+    AUTH_HOME_DOMAIN,
+    AUTH_CHALLENGE_TIMEOUT,
+    NETWORK_PASSPHRASE,
+    AUTH_HOME_DOMAIN
+  );
+
+  return {
+    transaction,
+    serverAccount: serverKeypair.publicKey(),
+    homeDomain: AUTH_HOME_DOMAIN,
+    networkPassphrase: NETWORK_PASSPHRASE
+  };
+};
+
+/**
+ * Check a challenge signed by the client and return the account it proves
+ * @param {string} challengeXdr - The challenge transaction, signed by the server and the client
+ * @returns {string} The account whose master key signed the challenge
+ */
+export const verifyChallenge = (challengeXdr) => {
+  let challenge;
+  try {
+    challenge = StellarSdk.WebAuth.readChallengeTx(
+      challengeXdr,
+      serverKeypair.publicKey(),
+      NETWORK_PASSPHRASE,
+      AUTH_HOME_DOMAIN,
+      AUTH_HOME_DOMAIN
+    );
+
+    // Only the account's own master key counts; Horizon signer weights are not consulted
+    StellarSdk.WebAuth.verifyChallengeTxSigners(
+      challengeXdr,
+      serverKeypair.publicKey(),
+      NETWORK_PASSPHRASE,
+      [challenge.clientAccountID],
+      AUTH_HOME_DOMAIN,
+      AUTH_HOME_DOMAIN
+    );
+  } catch (error) {
+    throw new AuthError(`Invalid challenge: ${error.message}`, 401);
+  }
+
+  pruneUsedChallenges();
+
+  // A challenge logs in once; a copy replayed before it expires is refused
+  const hash = challenge.tx.hash().toString('hex');
+  if (usedChallenges.has(hash)) {
+    throw new AuthError('Challenge has already been used', 401);
+  }
+  usedChallenges.set(hash, parseInt(challenge.tx.timeBounds.maxTime, 10) * 1000);
+
+  return challenge.clientAccountID;
+};
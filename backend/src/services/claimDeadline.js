@@ -0,0 +1,66 @@
+// Warning levels by time left before a claim deadline, most urgent first
+export const DEADLINE_LEVELS = [
+  { level: 'critical', within: 10 * 60 * 1000 }, // 10 minutes
+  { level: 'warning', within: 60 * 60 * 1000 }, // 1 hour
+  { level: 'notice', within: 24 * 60 * 60 * 1000 } // 24 hours
+];
+
+// Escalation order of the levels
+const LEVEL_RANK = { notice: 1, warning: 2, critical: 3, expired: 4 };
+
+/**
+ * Get how urgent a claim deadline is
+ * @param {Date|string|null} deadline - The claim deadline
+ * @param {Date} [now] - The reference time
+ * @returns {string|null} 'expired', 'critical', 'warning', 'notice' or null if not near
+ */
+export const getDeadlineLevel = (deadline, now = new Date()) => {
+  if (!deadline) return null;
+
+  const remaining = new Date(deadline).getTime() - now.getTime();
+  if (remaining <= 0) return 'expired';
+
+  const match = DEADLINE_LEVELS.find(l => remaining <= l.within);
+  return match ? match.level : null;
+};
+
+/**
+ * Check whether a warning level is more urgent than another
+ * @param {string|null} level - The new level
+ * @param {string|null} previous - The level already reported
+ * @returns {boolean} True if the level escalated
+ */
+export const isEscalation = (level, previous) => {
+  return (LEVEL_RANK[level] || 0) > (LEVEL_RANK[previous] || 0);
+};
+
+/**
+ * Order items so the ones whose claim window closes soonest come first
+ * @param {Object} a - Balance or batch with claimDeadline and unlockTime
+ * @param {Object} b - Balance or batch with claimDeadline and unlockTime
+ * @returns {number} Sort comparison result
+ */
+export const compareByDeadline = (a, b) => {
+  const deadlineA = a.claimDeadline ? new Date(a.claimDeadline).getTime() : Infinity;
+  const deadlineB = b.claimDeadline ? new Date(b.claimDeadline).getTime() : Infinity;
+
+  if (deadlineA !== deadlineB) {
+    return deadlineA - deadlineB;
+  }
+
+  return new Date(a.unlockTime).getTime() - new Date(b.unlockTime).getTime();
+};
+
+/**
+ * Shorten a retry delay so a batch gets several attempts before its claim deadline
+ * @param {Object} batch - The batch being retried
+ * @param {number} delay - The normal retry delay in milliseconds
+ * @returns {number} The delay to use
+ */
+export const retryDelayBeforeDeadline = (batch, delay) => {
+  if (!batch.claimDeadline) return delay;
+
+  // Retry at the latest halfway to the deadline, but not more often than every second
+  const remaining = new Date(batch.claimDeadline).getTime() - Date.now();
+  return Math.max(1000, Math.min(delay, Math.floor(remaining / 2)));
+};
@@ -0,0 +1,61 @@
+import dotenv from 'dotenv';
+import { logError } from './logService.js';
+import { getAllRecords, putRecord, deleteRecord } from './storage.js';
+
+// Load environment variables
+dotenv.config();
+
+// Maximum number of completed claims kept per owner
+const CLAIM_HISTORY_MAX = parseInt(process.env.CLAIM_HISTORY_MAX || '1000', 10);
+
+/**
+ * Record a claim transaction that made it into a ledger
+ * @param {Object} wallet - The claiming wallet (its owner owns the record)
+ * @param {Object} claim - What was claimed
+ * @param {string} claim.hash - The transaction hash
+ * @param {Array<string>} claim.balanceIds - The claimed balance IDs
+ * @param {string} claim.claimedAmount - Pi claimed
+ * @param {string} claim.transferAmount - Pi sent on to the destination
+ * @param {string|number} [claim.fee] - Fee charged in stroops
+ * @param {string} [claim.sponsorId] - The sponsor that paid the fee
+ * @param {string} claim.signing - server_key or pre_auth
+ * @param {string} [claim.endpoint] - The Horizon endpoint that accepted the transaction
+ * @returns {Object} The history record
+ */
+export const recordClaim = (wallet, claim) => {
+  const record = {
+    id: claim.hash,
+    walletId: wallet.id,
+    owner: wallet.owner,
+    ...claim,
+    completedAt: new Date().toISOString()
+  };
+
+  try {
+    putRecord('claims', record.id, record);
+
+    // Records come back in insertion order, so the owner's oldest are dropped first
+    const owned = getAllRecords('claims').filter(r => r.owner === record.owner);
+    owned.slice(0, Math.max(0, owned.length - CLAIM_HISTORY_MAX))
+      .forEach(r => deleteRecord('claims', r.id));
+  } catch (error) {
+    logError('Error recording claim history', error, wallet.id);
+  }
+
+  return record;
+};
+
+/**
+ * Get completed claims, newest first
+ * @param {Object} [filter] - Optional filters
+ * @param {Function} [filter.canSee] - (record) => whether the caller may see the record
+ * @param {string} [filter.walletId] - Only claims by this wallet
+ * @param {number} [filter.limit] - Maximum number of records (default 100)
+ * @returns {Array} The history records
+ */
+export const getClaimHistory = ({ canSee = () => true, walletId, limit = 100 } = {}) => {
+  return getAllRecords('claims')
+    .filter(r => canSee(r) && (!walletId || r.walletId === walletId))
+    .reverse()
+    .slice(0, limit);
+};
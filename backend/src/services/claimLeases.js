@@ -0,0 +1,134 @@
+import { v4 as uuidv4 } from 'uuid';
+import dotenv from 'dotenv';
+import { getAllRecords, putRecord, deleteRecord } from './storage.js';
+import { ExecutionError } from './executionMode.js';
+
+// Load environment variables
+dotenv.config();
+
+// How long a claim lease lasts unless renewed (milliseconds); covers building, signing and submitting one transaction
+const LEASE_TTL_MS = parseInt(process.env.LEASE_TTL_MS || '120000', 10);
+
+// Holder ID the server uses for its own leases
+export const SERVER_HOLDER_ID = 'server';
+
+/**
+ * Check whether a lease has run out
+ * @param {Object} lease - The lease record
+ * @param {number} now - Current time in milliseconds
+ * @returns {boolean} True if the lease no longer holds its balances
+ */
+const isExpired = (lease, now) => new Date(lease.expiresAt).getTime() <= now;
+
+/**
+ * Get the leases still in force, deleting expired ones
+ * @returns {Array} The active lease records
+ */
+const getActiveLeases = () => {
+  const now = Date.now();
+  const leases = getAllRecords('claim_leases');
+
+  leases.filter(lease => isExpired(lease, now)).forEach(lease => deleteRecord('claim_leases', lease.id));
+  return leases.filter(lease => !isExpired(lease, now));
+};
+
+/**
+ * Take the lease on a set of balances so no other executor claims them meanwhile
+ * @param {Object} options - The lease request
+ * @param {Object} options.wallet - The wallet the balances belong to
+ * @param {Array<string>} options.balanceIds - The balances to lease (all or none are leased)
+ * @param {string} options.holderId - Who asks: the server, or a browser's client ID
+ * @param {string} options.holderName - Shown in the UI as the lease holder
+ * @returns {Object} The lease record
+ */
+export const acquireLease = ({ wallet, balanceIds, holderId, holderName }) => {
+  if (!Array.isArray(balanceIds) || balanceIds.length === 0) {
+    throw new ExecutionError('balanceIds must be a non-empty array', 400);
+  }
+
+  const requested = new Set(balanceIds);
+  const overlapping = getActiveLeases().filter(lease => lease.balanceIds.some(id => requested.has(id)));
+
+  // Another executor owns at least one of the balances; the caller waits for its lease to end
+  const conflict = overlapping.find(lease => lease.holderId !== holderId);
+  if (conflict) {
+    const error = new ExecutionError(`Balance is leased to ${conflict.holderName} until ${conflict.expiresAt}`, 409);
+    error.lease = conflict;
+    throw error;
+  }
+
+  // The holder's own earlier leases on these balances are replaced
+  overlapping.forEach(lease => deleteRecord('claim_leases', lease.id));
+
+  const now = Date.now();
+  const lease = {
+    id: uuidv4(),
+    holderId,
+    holderName,
+    holder: holderId === SERVER_HOLDER_ID ? 'server' : 'browser',
+    walletId: wallet.id,
+    owner: wallet.owner,
+    balanceIds,
+    acquiredAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + LEASE_TTL_MS).toISOString()
+  };
+
+  putRecord('claim_leases', lease.id, lease);
+  return lease;
+};
+
+/**
+ * Extend a lease while its holder is still working on the balances
+ * @param {string} id - The lease ID
+ * @param {string} holderId - Who holds it
+ * @returns {Object} The renewed lease record
+ */
+export const renewLease = (id, holderId) => {
+  const lease = getActiveLeases().find(l => l.id === id);
+
+  if (!lease) {
+    throw new ExecutionError('Lease not found or expired', 404);
+  }
+
+  if (lease.holderId !== holderId) {
+    throw new ExecutionError(`Lease is held by ${lease.holderName}`, 409);
+  }
+
+  const renewed = { ...lease, expiresAt: new Date(Date.now() + LEASE_TTL_MS).toISOString() };
+  putRecord('claim_leases', renewed.id, renewed);
+  return renewed;
+};
+
+/**
+ * Give up a lease so other executors may claim its balances
+ * @param {string} id - The lease ID
+ * @param {string} holderId - Who holds it
+ */
+export const releaseLease = (id, holderId) => {
+  const lease = getActiveLeases().find(l => l.id === id);
+
+  // An expired lease is already released
+  if (!lease) return;
+
+  if (lease.holderId !== holderId) {
+    throw new ExecutionError(`Lease is held by ${lease.holderName}`, 409);
+  }
+
+  deleteRecord('claim_leases', id);
+};
+
+/**
+ * Find the lease currently holding a balance
+ * @param {string} balanceId - The balance ID
+ * @returns {Object|null} The lease record, or null if nobody holds the balance
+ */
+export const findBalanceLease = (balanceId) => {
+  return getActiveLeases().find(lease => lease.balanceIds.includes(balanceId)) || null;
+};
+
+/**
+ * Get all leases in force
+ * @param {Function} [canSee] - (lease) => whether the caller may see the lease
+ * @returns {Array} The lease records
+ */
+export const getLeases = (canSee = () => true) => getActiveLeases().filter(canSee);
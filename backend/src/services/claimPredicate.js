@@ -0,0 +1,182 @@
+// Unbounded window edges
+const OPEN_START = -Infinity;
+const OPEN_END = Infinity;
+
+/**
+ * Sort windows, drop empty ones and merge those that overlap or touch
+ * @param {Array<{start: number, end: number}>} windows - Windows in epoch milliseconds
+ * @returns {Array<{start: number, end: number}>} Disjoint windows sorted by start
+ */
+const normalizeWindows = (windows) => {
+  const sorted = windows
+    .filter(w => w.start < w.end)
+    .sort((a, b) => a.start - b.start);
+
+  return sorted.reduce((merged, window) => {
+    const last = merged[merged.length - 1];
+    if (last && window.start <= last.end) {
+      last.end = Math.max(last.end, window.end);
+    } else {
+      merged.push({ ...window });
+    }
+    return merged;
+  }, []);
+};
+
+/**
+ * Intersect two sets of windows
+ * @param {Array} a - Normalized windows
+ * @param {Array} b - Normalized windows
+ * @returns {Array} Windows contained in both
+ */
+const intersectWindows = (a, b) => {
+  const result = [];
+  for (const x of a) {
+    for (const y of b) {
+      result.push({ start: Math.max(x.start, y.start), end: Math.min(x.end, y.end) });
+    }
+  }
+  return normalizeWindows(result);
+};
+
+/**
+ * Complement a set of windows over all time
+ * @param {Array} windows - Normalized windows
+ * @returns {Array} Windows not covered by the input
+ */
+const complementWindows = (windows) => {
+  const result = [];
+  let cursor = OPEN_START;
+
+  for (const window of windows) {
+    if (window.start > cursor) {
+      result.push({ start: cursor, end: window.start });
+    }
+    cursor = Math.max(cursor, window.end);
+  }
+
+  if (cursor < OPEN_END) {
+    result.push({ start: cursor, end: OPEN_END });
+  }
+
+  return result;
+};
+
+/**
+ * Read the absolute deadline of an abs_before predicate
+ * @param {Object} predicate - The predicate holding abs_before / abs_before_epoch
+ * @returns {number} The deadline in epoch milliseconds
+ */
+const absBeforeTime = (predicate) => {
+  if (predicate.abs_before_epoch !== undefined) {
+    return parseInt(predicate.abs_before_epoch, 10) * 1000;
+  }
+  return new Date(predicate.abs_before).getTime();
+};
+
+/**
+ * Evaluate a Horizon claim predicate into the time windows in which it holds
+ * @param {Object} predicate - The claimant predicate as returned by Horizon
+ * @param {number} createdAt - Creation time of the balance in epoch milliseconds (for rel_before)
+ * @returns {Array<{start: number, end: number}>} Half-open [start, end) windows, unbounded edges as ±Infinity
+ */
+export const evaluatePredicate = (predicate, createdAt) => {
+  if (!predicate || predicate.unconditional) {
+    return [{ start: OPEN_START, end: OPEN_END }];
+  }
+
+  if (Array.isArray(predicate.and)) {
+    return predicate.and.reduce(
+      (windows, child) => intersectWindows(windows, evaluatePredicate(child, createdAt)),
+      [{ start: OPEN_START, end: OPEN_END }]
+    );
+  }
+
+  if (Array.isArray(predicate.or)) {
+    return normalizeWindows(predicate.or.flatMap(child => evaluatePredicate(child, createdAt)));
+  }
+
+  if (predicate.not) {
+    return complementWindows(evaluatePredicate(predicate.not, createdAt));
+  }
+
+  if (predicate.abs_before !== undefined || predicate.abs_before_epoch !== undefined) {
+    return [{ start: OPEN_START, end: absBeforeTime(predicate) }];
+  }
+
+  if (predicate.rel_before !== undefined) {
+    return [{ start: OPEN_START, end: createdAt + parseInt(predicate.rel_before, 10) * 1000 }];
+  }
+
+  throw new Error(`Unsupported claim predicate: ${JSON.stringify(predicate)}`);
+};
+
+/**
+ * Find the claimant entry for a wallet
+ * @param {Object} record - The claimable balance record
+ * @param {string} address - The wallet address
+ * @returns {Object|null} The matching claimant
+ */
+export const findClaimant = (record, address) => {
+  return (record.claimants || []).find(claimant => claimant.destination === address) || null;
+};
+
+/**
+ * Get the windows in which a wallet may claim a balance
+ * @param {Object} record - The claimable balance record
+ * @param {string} address - The wallet address
+ * @returns {Array<{start: Date|null, end: Date|null}>} Claim windows, null marking an unbounded edge
+ */
+export const getClaimWindows = (record, address) => {
+  const claimant = findClaimant(record, address);
+  if (!claimant) {
+    return [];
+  }
+
+  // Horizon reports the ledger close time the balance was created in
+  const createdAt = record.last_modified_time ? new Date(record.last_modified_time).getTime() : Date.now();
+
+  return evaluatePredicate(claimant.predicate, createdAt).map(window => ({
+    start: Number.isFinite(window.start) ? new Date(window.start) : null,
+    end: Number.isFinite(window.end) ? new Date(window.end) : null
+  }));
+};
+
+/**
+ * Find the earliest time at or after now when a claim is allowed
+ * @param {Array<{start: Date|null, end: Date|null}>} windows - The claim windows
+ * @param {Date} [now] - The reference time
+ * @returns {Date|null} The next claimable time, or null if every window has closed
+ */
+export const nextClaimableTime = (windows, now = new Date()) => {
+  const nowMs = now.getTime();
+
+  for (const window of windows) {
+    const start = window.start ? new Date(window.start).getTime() : OPEN_START;
+    const end = window.end ? new Date(window.end).getTime() : OPEN_END;
+
+    if (end > nowMs) {
+      return new Date(Math.max(start, nowMs));
+    }
+  }
+
+  return null;
+};
+
+
+/**
+ * Get the time by which a claim starting at the given time must land
+ * @param {Array<{start: Date|null, end: Date|null}>} windows - The claim windows
+ * @param {Date} time - The planned claim time
+ * @returns {Date|null} The end of the window containing the time, or null if it never closes
+ */
+export const getClaimDeadline = (windows, time) => {
+  const ms = new Date(time).getTime();
+
+  const window = windows.find(w =>
+    (!w.start || new Date(w.start).getTime() <= ms) &&
+    (!w.end || new Date(w.end).getTime() > ms)
+  );
+
+  return window && window.end ? new Date(window.end) : null;
+};
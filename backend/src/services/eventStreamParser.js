@@ -0,0 +1,51 @@
+/**
+ * Parse one line of a server-sent event into the event being built
+ * @param {Object} event - The event so far (id, event, data)
+ * @param {string} line - A non-empty line of the stream
+ */
+const parseEventLine = (event, line) => {
+  // Lines starting with a colon are comments (keep-alives)
+  if (line.startsWith(':')) return;
+
+  const separator = line.indexOf(':');
+  const field = separator === -1 ? line : line.slice(0, separator);
+  const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+  if (field === 'data') {
+    event.data = event.data === undefined ? value : `${event.data}\n${value}`;
+  } else if (field === 'id' || field === 'event') {
+    event[field] = value;
+  }
+};
+
+/**
+ * Create a parser for a server-sent event stream that may arrive split at any byte
+ * @returns {Object} push(chunk) => the events completed by this chunk, each { id, event, data }
+ */
+export const createEventStreamParser = () => {
+  // Streaming decode keeps a character split across chunks intact
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = {};
+
+  return {
+    push: (chunk) => {
+      buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop();
+
+      const events = [];
+      for (const line of lines) {
+        // A blank line ends the event
+        if (line === '') {
+          events.push(event);
+          event = {};
+        } else {
+          parseEventLine(event, line);
+        }
+      }
+      return events;
+    }
+  };
+};
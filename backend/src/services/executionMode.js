@@ -0,0 +1,86 @@
+import dotenv from 'dotenv';
+import { addLog, logError } from './logService.js';
+import { getAllRecords, putRecord } from './storage.js';
+
+// Load environment variables
+dotenv.config();
+
+// Who claims balances: the server, the browser, or the browser only while it can't reach the server
+export const EXECUTION_MODES = ['server', 'browser', 'browser_fallback'];
+
+// Mode used until an operator picks one
+const DEFAULT_EXECUTION_MODE = EXECUTION_MODES.includes(process.env.EXECUTION_MODE) ? process.env.EXECUTION_MODE : 'server';
+
+// Record in the settings collection holding the chosen mode
+const EXECUTION_MODE_RECORD_ID = 'execution_mode';
+
+const changeListeners = [];
+
+/**
+ * Error raised by execution mode changes and claim leases, with the HTTP status that fits it
+ */
+export class ExecutionError extends Error {
+  /**
+   * @param {string} message - Human-readable description
+   * @param {number} status - HTTP status for API responses
+   */
+  constructor(message, status) {
+    super(message);
+    this.name = 'ExecutionError';
+    this.status = status;
+  }
+}
+
+/**
+ * Get the current execution mode
+ * @returns {string} server, browser or browser_fallback
+ */
+export const getExecutionMode = () => {
+  const record = getAllRecords('settings').find(r => r.id === EXECUTION_MODE_RECORD_ID);
+  return record ? record.mode : DEFAULT_EXECUTION_MODE;
+};
+
+/**
+ * Check whether the server claims balances itself
+ * @returns {boolean} False only when the browser is the executor
+ */
+export const isServerExecutor = () => getExecutionMode() !== 'browser';
+
+/**
+ * Register a listener called after the execution mode changes
+ * @param {Function} listener - (mode, previousMode) => void
+ */
+export const onExecutionModeChanged = (listener) => {
+  changeListeners.push(listener);
+};
+
+/**
+ * Choose who claims balances
+ * @param {string} mode - server, browser or browser_fallback
+ * @returns {string} The new mode
+ */
+export const setExecutionMode = async (mode) => {
+  if (!EXECUTION_MODES.includes(mode)) {
+    throw new ExecutionError(`Invalid execution mode. Use one of: ${EXECUTION_MODES.join(', ')}`, 400);
+  }
+
+  const previousMode = getExecutionMode();
+  if (mode === previousMode) return mode;
+
+  putRecord('settings', EXECUTION_MODE_RECORD_ID, { id: EXECUTION_MODE_RECORD_ID, mode, updatedAt: new Date().toISOString() });
+
+  addLog({
+    message: `Execution mode changed from ${previousMode} to ${mode}`,
+    status: 'info'
+  });
+
+  for (const listener of changeListeners) {
+    try {
+      await listener(mode, previousMode);
+    } catch (error) {
+      logError('Error running execution mode listener', error);
+    }
+  }
+
+  return mode;
+};
@@ -0,0 +1,82 @@
+import * as StellarSdk from 'stellar-sdk';
+import dotenv from 'dotenv';
+import { fetchFeeStats } from './piNetworkApi.js';
+
+// Load environment variables
+dotenv.config();
+
+// Percentile of recent max fees to bid (p10 ... p99)
+const FEE_PERCENTILE = process.env.FEE_PERCENTILE || 'p90';
+
+// Default ceiling per operation in stroops (0.1 Pi) for wallets without their own
+export const DEFAULT_MAX_FEE = process.env.FEE_CEILING || '1000000';
+
+// Multiplier applied to the fee for each tx_insufficient_fee retry
+const FEE_RETRY_MULTIPLIER = parseFloat(process.env.FEE_RETRY_MULTIPLIER || '2');
+
+// How long fetched fee stats stay valid (10 seconds)
+const FEE_STATS_TTL = 10000;
+
+// Cached fee stats
+let feeStatsCache = null;
+
+/**
+ * Get fee stats, cached briefly so a burst of claims shares one request
+ * @returns {Promise<Object|null>} The fee stats or null if unavailable
+ */
+const getFeeStats = async () => {
+  const now = Date.now();
+
+  if (feeStatsCache && (now - feeStatsCache.timestamp) < FEE_STATS_TTL) {
+    return feeStatsCache.stats;
+  }
+
+  try {
+    const stats = await fetchFeeStats();
+    feeStatsCache = { stats, timestamp: now };
+    return stats;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Choose the fee per operation for a claim transaction
+ * @param {Object} wallet - The wallet (uses maxFee as its ceiling)
+ * @param {number} [bumpLevel=0] - How many tx_insufficient_fee results this claim has had
+ * @returns {Promise<Object>} The fee in stroops plus how it was derived
+ */
+export const selectFee = async (wallet, bumpLevel = 0) => {
+  const ceiling = BigInt(wallet.maxFee || DEFAULT_MAX_FEE);
+  const stats = await getFeeStats();
+
+  // Without fee stats fall back to the ceiling, like the old fixed fee
+  const percentileFee = stats && stats.max_fee && stats.max_fee[FEE_PERCENTILE]
+    ? BigInt(stats.max_fee[FEE_PERCENTILE])
+    : ceiling;
+
+  const minimumFee = BigInt(StellarSdk.BASE_FEE);
+  const baseFee = percentileFee > minimumFee ? percentileFee : minimumFee;
+  const bumpedFee = BigInt(Math.ceil(Number(baseFee) * Math.pow(FEE_RETRY_MULTIPLIER, bumpLevel)));
+  const capped = bumpedFee > ceiling;
+
+  return {
+    fee: (capped ? ceiling : bumpedFee).toString(),
+    percentile: FEE_PERCENTILE,
+    percentileFee: percentileFee.toString(),
+    bumpLevel,
+    capped,
+    // Bumping again can't raise a fee that is already at the ceiling
+    atCeiling: bumpedFee >= ceiling,
+    fromStats: !!stats
+  };
+};
+
+/**
+ * Format a fee in stroops as Pi for log messages
+ * @param {string|number} stroops - The fee in stroops
+ * @returns {string} The fee in Pi
+ */
+export const formatFee = (stroops) => {
+  return `${(Number(stroops) / 10000000).toFixed(7)} Pi`;
+};
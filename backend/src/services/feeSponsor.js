@@ -0,0 +1,95 @@
+import * as StellarSdk from 'stellar-sdk';
+import dotenv from 'dotenv';
+import { addLog, logError } from './logService.js';
+import { getAccountReserveInfo } from './amountPlanner.js';
+import { signWithWallet } from './signers.js';
+
+// Load environment variables
+dotenv.config();
+
+// Pi Network passphrase
+const NETWORK_PASSPHRASE = process.env.PI_NETWORK_PASSPHRASE || 'Pi Network';
+
+// Sponsor balance (in Pi) below which a low-funds warning is raised
+const SPONSOR_LOW_BALANCE = parseFloat(process.env.SPONSOR_LOW_BALANCE || '5');
+
+// Latest known balance for each sponsor wallet
+const sponsorStatusMap = new Map();
+
+/**
+ * Wrap a signed inner transaction in a fee-bump paid by the sponsor
+ * @param {StellarSdk.Transaction} innerTx - The signed claim+payment transaction
+ * @param {Object} sponsor - The sponsor wallet (signed for by its own signer)
+ * @param {string} baseFee - Fee per operation in stroops
+ * @returns {Promise<StellarSdk.FeeBumpTransaction>} The signed fee-bump transaction
+ */
+export const wrapWithFeeBump = async (innerTx, sponsor, baseFee) => {
+  const feeBumpTx = StellarSdk.TransactionBuilder.buildFeeBumpTransaction(
+    sponsor.address,
+    baseFee,
+    innerTx,
+    NETWORK_PASSPHRASE
+  );
+
+  await signWithWallet(sponsor, feeBumpTx, 'fee-bump');
+
+  return feeBumpTx;
+};
+
+/**
+ * Refresh the tracked balance of a sponsor wallet
+ * @param {Object} sponsor - The sponsor wallet
+ * @returns {Promise<Object>} The updated sponsor status
+ */
+export const refreshSponsorBalance = async (sponsor) => {
+  try {
+    const info = await getAccountReserveInfo(sponsor.address);
+
+    // Spendable is what the sponsor can burn on fees without dropping below its reserve
+    const reserve = (2 + info.subentryCount + info.numSponsoring - info.numSponsored) * parseInt(info.baseReserve, 10) / 10000000;
+    const spendable = Math.max(0, parseFloat(info.nativeBalance) - reserve - parseFloat(info.sellingLiabilities));
+    const isLow = spendable < SPONSOR_LOW_BALANCE;
+
+    const previous = sponsorStatusMap.get(sponsor.id);
+    const status = {
+      balance: info.nativeBalance,
+      spendable: spendable.toFixed(7),
+      isLow,
+      threshold: SPONSOR_LOW_BALANCE,
+      lastChecked: new Date()
+    };
+
+    sponsorStatusMap.set(sponsor.id, status);
+
+    // Only warn when the sponsor crosses into low funds, not on every refresh
+    if (isLow && (!previous || !previous.isLow)) {
+      addLog({
+        message: `Fee sponsor ${sponsor.address.substring(0, 6)}... is low on funds: ${status.spendable} Pi spendable`,
+        status: 'warning',
+        walletId: sponsor.id
+      });
+    }
+
+    return status;
+  } catch (error) {
+    logError('Error refreshing fee sponsor balance', error, sponsor.id);
+    return sponsorStatusMap.get(sponsor.id) || null;
+  }
+};
+
+/**
+ * Get the last known status of a sponsor wallet
+ * @param {string} sponsorId - The sponsor wallet ID
+ * @returns {Object|null} The sponsor status
+ */
+export const getSponsorStatus = (sponsorId) => {
+  return sponsorStatusMap.get(sponsorId) || null;
+};
+
+/**
+ * Forget the tracked status of a sponsor wallet
+ * @param {string} sponsorId - The sponsor wallet ID
+ */
+export const clearSponsorStatus = (sponsorId) => {
+  sponsorStatusMap.delete(sponsorId);
+};
@@ -0,0 +1,252 @@
+import fetch from 'node-fetch';
+import dotenv from 'dotenv';
+import { addLog } from './logService.js';
+import { recordEndpointResult } from './horizonEndpoints.js';
+
+// Load environment variables
+dotenv.config();
+
+// Requests per second Horizon is sent on average (token bucket refill rate)
+const HORIZON_RATE_PER_SECOND = parseFloat(process.env.HORIZON_RATE_PER_SECOND || '5');
+
+// Requests that can be sent back to back after a quiet spell (token bucket size)
+const HORIZON_BURST = parseInt(process.env.HORIZON_BURST || '10', 10);
+
+// Requests waiting for Horizon's response at once
+const HORIZON_CONCURRENCY = parseInt(process.env.HORIZON_CONCURRENCY || '8', 10);
+
+// Give up on a request Horizon hasn't started answering after this long (milliseconds), freeing its slot
+const HORIZON_TIMEOUT_MS = parseInt(process.env.HORIZON_TIMEOUT_MS || '30000', 10);
+
+// Times a rate-limited request is retried before its 429 response is returned
+const HORIZON_MAX_RETRIES = parseInt(process.env.HORIZON_MAX_RETRIES || '3', 10);
+
+// Pause after a 429 that doesn't say how long to wait (milliseconds)
+const DEFAULT_RETRY_AFTER_MS = 5000;
+
+// Throttle events kept for the stats endpoint
+const MAX_THROTTLE_EVENTS = 50;
+
+// Lanes in the order they are served: claim submissions go ahead of everything, discovery polls last
+export const HORIZON_PRIORITIES = ['submission', 'claim', 'discovery'];
+
+const lanes = Object.fromEntries(HORIZON_PRIORITIES.map(priority => [priority, []]));
+const throttleEvents = [];
+const totals = { sent: 0, rateLimited: 0, retried: 0 };
+
+let tokens = HORIZON_BURST;
+let lastRefill = Date.now();
+let pausedUntil = 0;
+let inFlight = 0;
+let pumpTimer = null;
+
+/**
+ * Add the tokens earned since the last refill
+ */
+const refill = () => {
+  const now = Date.now();
+
+  // Nothing is earned during a rate limit pause, so requests resume gently instead of in a burst
+  const earnedSince = Math.min(now, Math.max(lastRefill, pausedUntil));
+  tokens = Math.min(HORIZON_BURST, tokens + ((now - earnedSince) / 1000) * HORIZON_RATE_PER_SECOND);
+  lastRefill = now;
+};
+
+/**
+ * Take the next request, highest priority lane first
+ * @returns {Object|null} The queued request, or null if none are waiting
+ */
+const takeNext = () => {
+  const priority = HORIZON_PRIORITIES.find(p => lanes[p].length > 0);
+  return priority ? lanes[priority].shift() : null;
+};
+
+/**
+ * Run the pump again after a delay, unless it is already due sooner
+ * @param {number} delay - Milliseconds to wait
+ */
+const schedulePump = (delay) => {
+  if (pumpTimer) return;
+  pumpTimer = setTimeout(() => {
+    pumpTimer = null;
+    pump();
+  }, Math.max(0, Math.ceil(delay)));
+};
+
+/**
+ * Send queued requests while tokens and concurrency slots are free
+ */
+const pump = () => {
+  const now = Date.now();
+  if (now < pausedUntil) {
+    schedulePump(pausedUntil - now);
+    return;
+  }
+
+  refill();
+
+  while (inFlight < HORIZON_CONCURRENCY && HORIZON_PRIORITIES.some(p => lanes[p].length > 0)) {
+    if (tokens < 1) {
+      schedulePump(((1 - tokens) / HORIZON_RATE_PER_SECOND) * 1000);
+      return;
+    }
+
+    tokens -= 1;
+    send(takeNext());
+  }
+};
+
+/**
+ * Parse a Retry-After header, given in seconds or as an HTTP date
+ * @param {string|null} value - The header value
+ * @returns {number|null} Milliseconds to wait, or null if absent or unreadable
+ */
+const parseRetryAfter = (value) => {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Stop sending requests for a while after Horizon signalled its rate limit
+ * @param {number} duration - Milliseconds to pause
+ * @param {string} reason - Why, for the throttle event
+ * @param {Object} request - The request whose response signalled it
+ */
+const pause = (duration, reason, request) => {
+  const now = Date.now();
+  const wasPaused = now < pausedUntil;
+
+  pausedUntil = Math.max(pausedUntil, now + duration);
+  tokens = 0;
+
+  throttleEvents.push({
+    at: new Date(now).toISOString(),
+    reason,
+    pauseMs: duration,
+    priority: request.priority,
+    path: new URL(request.url).pathname
+  });
+  throttleEvents.splice(0, Math.max(0, throttleEvents.length - MAX_THROTTLE_EVENTS));
+
+  // One log line per pause, not per rate-limited response
+  if (!wasPaused) {
+    addLog({
+      message: `Horizon rate limit reached (${reason}); pausing requests for ${Math.ceil(duration / 1000)}s`,
+      status: 'warning'
+    });
+  }
+};
+
+/**
+ * Pause when a response says the rate limit is used up or was exceeded
+ * @param {Object} response - The fetch response
+ * @param {Object} request - The request it answers
+ */
+const checkRateLimit = (response, request) => {
+  const remaining = response.headers.get('x-ratelimit-remaining');
+  const resetSeconds = Number(response.headers.get('x-ratelimit-reset'));
+  const resetMs = Number.isFinite(resetSeconds) && resetSeconds > 0 ? resetSeconds * 1000 : null;
+
+  if (response.status === 429) {
+    totals.rateLimited++;
+    pause(parseRetryAfter(response.headers.get('retry-after')) ?? resetMs ?? DEFAULT_RETRY_AFTER_MS, '429 Too Many Requests', request);
+  } else if (remaining !== null && Number(remaining) <= 0 && resetMs) {
+    pause(resetMs, 'no requests left in the current window', request);
+  }
+};
+
+/**
+ * Send a request and settle its promise, requeueing it if Horizon rate limited it
+ * @param {Object} request - The queued request
+ */
+const send = async (request) => {
+  inFlight++;
+  totals.sent++;
+  const startedAt = Date.now();
+
+  // Only until the response starts: a stream's body may rightly take hours
+  const timeout = new AbortController();
+  const timer = setTimeout(() => timeout.abort(), HORIZON_TIMEOUT_MS);
+  const signal = request.options.signal ? AbortSignal.any([request.options.signal, timeout.signal]) : timeout.signal;
+
+  try {
+    let response;
+    try {
+      response = await fetch(request.url, { ...request.options, signal });
+    } catch (error) {
+      // Not the caller's abort: report it as the endpoint failing, which reads and submissions fail over from
+      if (timeout.signal.aborted && !request.options.signal?.aborted) {
+        throw new Error(`Horizon did not respond within ${HORIZON_TIMEOUT_MS / 1000}s`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const ok = response.status < 500 && response.status !== 429;
+    recordEndpointResult(request.url, { ok, latencyMs: Date.now() - startedAt, error: ok ? null : `HTTP ${response.status}` });
+    checkRateLimit(response, request);
+
+    if (response.status === 429 && request.attempts < HORIZON_MAX_RETRIES) {
+      request.attempts++;
+      totals.retried++;
+      await response.arrayBuffer().catch(() => undefined);
+
+      // It already waited its turn, so it goes first in its lane once the pause ends
+      lanes[request.priority].unshift(request);
+    } else {
+      request.resolve(response);
+    }
+  } catch (error) {
+    // A stream closed by its owner says nothing about the endpoint's health
+    if (error.name !== 'AbortError') {
+      recordEndpointResult(request.url, { ok: false, latencyMs: Date.now() - startedAt, error: error.message });
+    }
+    request.reject(error);
+  } finally {
+    inFlight--;
+    pump();
+  }
+};
+
+/**
+ * Send a request to Horizon through the shared rate limiter
+ * @param {string} priority - submission, claim or discovery
+ * @param {string} url - The Horizon URL
+ * @param {Object} [options] - fetch options
+ * @returns {Promise<Object>} The fetch response (a 429 only after the retries ran out)
+ */
+export const horizonFetch = (priority, url, options = {}) => {
+  if (!lanes[priority]) {
+    throw new Error(`Unknown Horizon request priority: ${priority}`);
+  }
+
+  return new Promise((resolve, reject) => {
+    lanes[priority].push({ priority, url, options, attempts: 0, resolve, reject });
+    pump();
+  });
+};
+
+/**
+ * Get how busy the Horizon request layer is
+ * @returns {Object} Queue depth per lane, requests in flight, tokens left, any pause and recent throttle events
+ */
+export const getHorizonStats = () => {
+  refill();
+
+  return {
+    ratePerSecond: HORIZON_RATE_PER_SECOND,
+    burst: HORIZON_BURST,
+    tokens: Math.floor(tokens),
+    inFlight,
+    queued: Object.fromEntries(HORIZON_PRIORITIES.map(p => [p, lanes[p].length])),
+    pausedUntil: pausedUntil > Date.now() ? new Date(pausedUntil).toISOString() : null,
+    totals: { ...totals },
+    throttleEvents: [...throttleEvents].reverse()
+  };
+};
@@ -0,0 +1,155 @@
+import dotenv from 'dotenv';
+import { addLog } from './logService.js';
+
+// Load environment variables
+dotenv.config();
+
+// Horizon base URLs, comma-separated; reads go to the healthiest and fail over to the rest
+const PI_API_BASE_URLS = (process.env.PI_API_BASE_URL || 'https://api.mainnet.minepi.com')
+  .split(',')
+  .map(url => url.trim().replace(/\/+$/, ''))
+  .filter(Boolean);
+
+// How transactions are submitted: single (healthiest endpoint, failing over) or broadcast (every healthy endpoint at once)
+export const HORIZON_SUBMIT_MODE = process.env.HORIZON_SUBMIT_MODE === 'broadcast' ? 'broadcast' : 'single';
+
+// How long a failing endpoint is skipped (milliseconds); doubles with each failure in a row
+const HORIZON_ENDPOINT_COOLDOWN_MS = parseInt(process.env.HORIZON_ENDPOINT_COOLDOWN_MS || '5000', 10);
+
+// Longest an endpoint is skipped after repeated failures (milliseconds)
+const MAX_COOLDOWN_MS = 5 * 60 * 1000;
+
+// Weight of the latest request in the success rate and latency averages
+const SCORE_WEIGHT = 0.2;
+
+const endpoints = PI_API_BASE_URLS.map(url => ({
+  url,
+  score: 1,
+  latencyMs: null,
+  successes: 0,
+  failures: 0,
+  consecutiveFailures: 0,
+  cooldownUntil: 0,
+  lastError: null,
+  lastErrorAt: null
+}));
+
+/**
+ * Find the endpoint a request URL belongs to
+ * @param {string} url - The full request URL
+ * @returns {Object|undefined} The endpoint
+ */
+const findEndpoint = (url) => endpoints.find(e => url === e.url || url.startsWith(`${e.url}/`) || url.startsWith(`${e.url}?`));
+
+/**
+ * Record how a request to an endpoint went
+ * @param {string} url - The full request URL
+ * @param {Object} result - The outcome
+ * @param {boolean} result.ok - Whether the endpoint answered (any status below 500 other than 429)
+ * @param {number} result.latencyMs - Time until the response headers arrived
+ * @param {string} [result.error] - What went wrong, for failures
+ */
+export const recordEndpointResult = (url, { ok, latencyMs, error }) => {
+  const endpoint = findEndpoint(url);
+  if (!endpoint) return;
+
+  const now = Date.now();
+  endpoint.score = endpoint.score * (1 - SCORE_WEIGHT) + (ok ? 1 : 0) * SCORE_WEIGHT;
+
+  if (ok) {
+    endpoint.successes++;
+    endpoint.latencyMs = endpoint.latencyMs === null
+      ? latencyMs
+      : Math.round(endpoint.latencyMs * (1 - SCORE_WEIGHT) + latencyMs * SCORE_WEIGHT);
+
+    if (endpoint.consecutiveFailures > 0 && endpoints.length > 1) {
+      addLog({ message: `Horizon endpoint ${endpoint.url} is answering again`, status: 'info' });
+    }
+    endpoint.consecutiveFailures = 0;
+    endpoint.cooldownUntil = 0;
+    return;
+  }
+
+  endpoint.failures++;
+  endpoint.consecutiveFailures++;
+  endpoint.lastError = error || null;
+  endpoint.lastErrorAt = new Date(now).toISOString();
+  endpoint.cooldownUntil = now + Math.min(MAX_COOLDOWN_MS, HORIZON_ENDPOINT_COOLDOWN_MS * 2 ** (endpoint.consecutiveFailures - 1));
+
+  // One log line when an endpoint starts failing; with a single endpoint there is nothing to fail over to
+  if (endpoint.consecutiveFailures === 1 && endpoints.length > 1) {
+    addLog({ message: `Horizon endpoint ${endpoint.url} failed (${error}); failing over to the others`, status: 'warning' });
+  }
+};
+
+/**
+ * Whether an endpoint is outside its cooldown
+ * @param {Object} endpoint - The endpoint
+ * @param {number} now - The reference time
+ * @returns {boolean} True if requests may go to it
+ */
+const isHealthy = (endpoint, now) => endpoint.cooldownUntil <= now;
+
+/**
+ * Get the endpoints in the order requests should try them: healthy ones by success rate then
+ * latency, then those cooling down, soonest back first, as a last resort
+ * @returns {Array<string>} Base URLs
+ */
+export const getReadEndpoints = () => {
+  const now = Date.now();
+  const healthy = endpoints
+    .filter(e => isHealthy(e, now))
+    .sort((a, b) => (b.score - a.score) || ((a.latencyMs ?? Infinity) - (b.latencyMs ?? Infinity)));
+  const coolingDown = endpoints
+    .filter(e => !isHealthy(e, now))
+    .sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+
+  return [...healthy, ...coolingDown].map(e => e.url);
+};
+
+/**
+ * Get the endpoints a broadcast submission goes to: every healthy one, or the best one if none are
+ * @returns {Array<string>} Base URLs
+ */
+export const getBroadcastEndpoints = () => {
+  const now = Date.now();
+  const healthy = endpoints.filter(e => isHealthy(e, now)).map(e => e.url);
+  return healthy.length > 0 ? healthy : getReadEndpoints().slice(0, 1);
+};
+
+/**
+ * Turn a URL Horizon returned (e.g. a next page link) into a path any endpoint can answer
+ * @param {string} url - The full URL
+ * @returns {string} The path and query after the endpoint's base URL
+ */
+export const getEndpointPath = (url) => {
+  const endpoint = findEndpoint(url);
+  if (endpoint) return url.slice(endpoint.url.length);
+
+  const parsed = new URL(url);
+  return `${parsed.pathname}${parsed.search}`;
+};
+
+/**
+ * Get the health of every configured endpoint
+ * @returns {Object} The submit mode and, per endpoint, its score, latency, counters and any cooldown
+ */
+export const getEndpointHealth = () => {
+  const now = Date.now();
+
+  return {
+    submitMode: HORIZON_SUBMIT_MODE,
+    endpoints: endpoints.map(e => ({
+      url: e.url,
+      healthy: isHealthy(e, now),
+      score: Math.round(e.score * 100) / 100,
+      latencyMs: e.latencyMs,
+      successes: e.successes,
+      failures: e.failures,
+      consecutiveFailures: e.consecutiveFailures,
+      cooldownUntil: isHealthy(e, now) ? null : new Date(e.cooldownUntil).toISOString(),
+      lastError: e.lastError,
+      lastErrorAt: e.lastErrorAt
+    }))
+  };
+};
@@ -0,0 +1,150 @@
+import * as StellarSdk from 'stellar-sdk';
+
+// What to do after a failed submission
+export const RETRY_POLICIES = {
+  RETRY_NOW: 'retry_now', // Rebuild and submit again right away
+  REFRESH_SEQUENCE: 'refresh_sequence', // Resync the sequence number, then retry
+  RAISE_FEE: 'raise_fee', // Retry with a higher fee
+  RETRY_LATER: 'retry_later', // Transient or unknown, back off before retrying
+  GIVE_UP: 'give_up' // Retrying can't help; stop and alert
+};
+
+// Error classes and the result codes that belong to them
+const ERROR_CLASSES = {
+  bad_sequence: { policy: RETRY_POLICIES.REFRESH_SEQUENCE, codes: ['tx_bad_seq'] },
+  fee_too_low: { policy: RETRY_POLICIES.RAISE_FEE, codes: ['tx_insufficient_fee'] },
+  expired: { policy: RETRY_POLICIES.RETRY_NOW, codes: ['tx_too_late', 'tx_too_early'] },
+  balance_gone: { policy: RETRY_POLICIES.GIVE_UP, codes: ['op_does_not_exist'] },
+  not_claimable_yet: { policy: RETRY_POLICIES.RETRY_LATER, codes: ['op_cannot_claim'] },
+  underfunded: { policy: RETRY_POLICIES.RETRY_LATER, codes: ['op_underfunded', 'op_low_reserve'] },
+  insufficient_fee_balance: { policy: RETRY_POLICIES.RETRY_LATER, codes: ['tx_insufficient_balance'] },
+  bad_destination: { policy: RETRY_POLICIES.GIVE_UP, codes: ['op_no_destination', 'op_no_trust', 'op_line_full', 'op_not_authorized'] },
+  bad_auth: { policy: RETRY_POLICIES.GIVE_UP, codes: ['tx_bad_auth', 'tx_bad_auth_extra', 'tx_no_source_account', 'op_bad_auth', 'op_no_source_account'] },
+  malformed: { policy: RETRY_POLICIES.GIVE_UP, codes: ['tx_malformed', 'tx_missing_operation', 'tx_not_supported', 'op_malformed', 'op_not_supported'] }
+};
+
+// Used for unknown codes and submissions without result codes (timeouts, 5xx)
+const FALLBACK_CLASS = { errorClass: 'transient', policy: RETRY_POLICIES.RETRY_LATER };
+
+/**
+ * Look up the error class of a single result code
+ * @param {string} code - A transaction or operation result code
+ * @returns {Object|null} The error class name and policy
+ */
+const classifyCode = (code) => {
+  const entry = Object.entries(ERROR_CLASSES).find(([, c]) => c.codes.includes(code));
+  return entry ? { errorClass: entry[0], policy: entry[1].policy } : null;
+};
+
+/**
+ * Classify Horizon result codes into an error class and retry policy
+ * @param {Object} [resultCodes] - extras.result_codes from a failed submission
+ * @returns {Object} errorClass, policy, transactionCode, operationCodes and failedOperations
+ */
+export const classifyResultCodes = (resultCodes) => {
+  if (!resultCodes) {
+    return { ...FALLBACK_CLASS, transactionCode: null, operationCodes: [], failedOperations: [] };
+  }
+
+  const transactionCode = resultCodes.transaction || null;
+  const operationCodes = resultCodes.operations || [];
+  const failedOperations = operationCodes
+    .map((code, index) => ({ index, code }))
+    .filter(op => op.code !== 'op_success');
+
+  // tx_failed / tx_fee_bump_inner_failed only say something inside failed; the inner codes say why
+  const innerCode = resultCodes.inner_transaction || null;
+  const candidates = ['tx_failed', 'tx_fee_bump_inner_failed'].includes(transactionCode)
+    ? [...failedOperations.map(op => op.code), innerCode]
+    : [transactionCode];
+
+  const match = candidates.map(code => code && classifyCode(code)).find(Boolean);
+
+  return {
+    ...(match || FALLBACK_CLASS),
+    transactionCode,
+    operationCodes,
+    failedOperations
+  };
+};
+
+/**
+ * Error thrown when Horizon does not accept a submitted transaction
+ */
+export class HorizonSubmissionError extends Error {
+  /**
+   * @param {string} message - Human-readable description
+   * @param {Object} [options] - HTTP status and Horizon result codes
+   */
+  constructor(message, { status, resultCodes } = {}) {
+    super(message);
+    this.name = 'HorizonSubmissionError';
+    this.status = status;
+    this.resultCodes = resultCodes;
+    Object.assign(this, classifyResultCodes(resultCodes));
+  }
+}
+
+/**
+ * Get the retry policy for any error raised while claiming
+ * @param {Error} error - The error
+ * @returns {Object} errorClass and policy (transient / retry later for non-Horizon errors)
+ */
+export const getRetryPolicy = (error) => {
+  if (error instanceof HorizonSubmissionError) {
+    return { errorClass: error.errorClass, policy: error.policy };
+  }
+  return FALLBACK_CLASS;
+};
+
+/**
+ * Describe Horizon result codes for log messages
+ * @param {Object} resultCodes - extras.result_codes
+ * @returns {string} e.g. "tx_failed (op_success, op_does_not_exist)"
+ */
+export const describeResultCodes = (resultCodes) => {
+  const { transactionCode, operationCodes } = classifyResultCodes(resultCodes);
+  const code = resultCodes.inner_transaction ? `${transactionCode}/${resultCodes.inner_transaction}` : String(transactionCode);
+  return operationCodes.length > 0 ? `${code} (${operationCodes.join(', ')})` : code;
+};
+
+/**
+ * Turn an XDR result name into Horizon's code, e.g. txBadSeq -> tx_bad_seq
+ * @param {string} name - The XDR enum name, without any operation prefix
+ * @param {string} prefix - tx or op
+ * @returns {string} The snake_case code
+ */
+const toResultCode = (name, prefix) => `${prefix}_${name.replace(/^(tx|op)/, '').replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase()}`;
+
+/**
+ * Read the result codes of a transaction that made it into a ledger
+ * @param {string} resultXdr - result_xdr of the Horizon transaction record
+ * @returns {Object|null} The codes in the shape of extras.result_codes, or null if the XDR can't be read
+ */
+export const readResultCodes = (resultXdr) => {
+  try {
+    let result = StellarSdk.xdr.TransactionResult.fromXDR(resultXdr, 'base64').result();
+    const transaction = toResultCode(result.switch().name, 'tx');
+
+    // A fee-bump's outcome is the inner transaction's
+    let innerTransaction;
+    if (['txFeeBumpInnerSuccess', 'txFeeBumpInnerFailed'].includes(result.switch().name)) {
+      result = result.innerResultPair().result().result();
+      innerTransaction = toResultCode(result.switch().name, 'tx');
+    }
+
+    const operations = (result.results ? result.results() || [] : []).map(op => {
+      if (op.switch().name !== 'opInner') {
+        return toResultCode(op.switch().name, 'op');
+      }
+
+      // Inner names carry their operation type: claimClaimableBalanceDoesNotExist -> op_does_not_exist
+      const tr = op.tr();
+      return toResultCode(tr.value().switch().name.slice(tr.switch().name.length), 'op');
+    });
+
+    return innerTransaction ? { transaction, inner_transaction: innerTransaction, operations } : { transaction, operations };
+  } catch (error) {
+    return null;
+  }
+};
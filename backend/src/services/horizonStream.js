@@ -0,0 +1,135 @@
+import dotenv from 'dotenv';
+import { logError } from './logService.js';
+import { horizonFetch } from './horizonClient.js';
+import { getReadEndpoints } from './horizonEndpoints.js';
+import { createEventStreamParser } from './eventStreamParser.js';
+
+// Load environment variables
+dotenv.config();
+
+// First wait before reconnecting a failed stream (milliseconds); doubles with each failed attempt
+const STREAM_RECONNECT_MIN_MS = parseInt(process.env.STREAM_RECONNECT_MIN_MS || '1000', 10);
+
+// Longest wait between reconnect attempts (milliseconds)
+const STREAM_RECONNECT_MAX_MS = parseInt(process.env.STREAM_RECONNECT_MAX_MS || '60000', 10);
+
+// A stream that sends nothing for this long is reopened from its cursor (milliseconds)
+const STREAM_IDLE_TIMEOUT_MS = parseInt(process.env.STREAM_IDLE_TIMEOUT_MS || '300000', 10);
+
+/**
+ * Subscribe to the effects of an account over Horizon's event stream, reconnecting from the last cursor
+ * @param {Object} options - The subscription
+ * @param {string} options.address - The account to follow
+ * @param {string} [options.cursor] - Paging token to resume after (default: only new effects)
+ * @param {Function} options.onEffect - (effect, cursor) => void, called for each effect in ledger order
+ * @param {Function} [options.onStatusChange] - (live) => void, called when the stream goes down or comes back
+ * @returns {Object} The subscription: stop() ends it, isLive() tells whether effects are arriving
+ */
+export const openEffectStream = ({ address, cursor = 'now', onEffect, onStatusChange = () => {} }) => {
+  let lastCursor = cursor;
+  let live = false;
+  let stopped = false;
+  let failedAttempts = 0;
+  let controller = null;
+  let idleTimer = null;
+  let reconnectTimer = null;
+
+  const setLive = (value) => {
+    if (live === value) return;
+    live = value;
+    onStatusChange(value);
+  };
+
+  // An idle stream is aborted and reopened like one Horizon closed
+  const resetIdleTimer = (current) => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      current.idle = true;
+      current.abort();
+    }, STREAM_IDLE_TIMEOUT_MS);
+  };
+
+  const dispatch = async (event) => {
+    // Horizon sets each event's ID to the effect's paging token
+    if (event.id) {
+      lastCursor = event.id;
+    }
+
+    // The greeting sent when the stream opens carries no effect
+    if (!event.data || event.data === '"hello"') return;
+
+    try {
+      await onEffect(JSON.parse(event.data), lastCursor);
+    } catch (error) {
+      logError(`Error handling streamed effect for ${address}`, error);
+    }
+  };
+
+  const connect = async () => {
+    if (stopped) return;
+
+    const current = new AbortController();
+    controller = current;
+    let failed = false;
+
+    try {
+      // Each reconnect goes to the healthiest endpoint; paging tokens are the same on all of them
+      const response = await horizonFetch('discovery', `${getReadEndpoints()[0]}/accounts/${address}/effects?cursor=${lastCursor}`, {
+        headers: { Accept: 'text/event-stream' },
+        signal: current.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+      }
+
+      failedAttempts = 0;
+      setLive(true);
+      resetIdleTimer(current);
+
+      const parser = createEventStreamParser();
+
+      for await (const chunk of response.body) {
+        resetIdleTimer(current);
+
+        for (const event of parser.push(chunk)) {
+          await dispatch(event);
+        }
+      }
+    } catch (error) {
+      if (!stopped && !current.idle) {
+        failed = true;
+        // Retries are frequent while Horizon is down, so they stay out of the wallet's logs
+        console.warn(`Effect stream for ${address.substring(0, 6)}... failed: ${error.message}`);
+      }
+    } finally {
+      clearTimeout(idleTimer);
+    }
+
+    if (stopped) return;
+
+    // Horizon closes streams from time to time; only failures count as the stream being down
+    if (!failed) {
+      reconnectTimer = setTimeout(connect, STREAM_RECONNECT_MIN_MS);
+      return;
+    }
+
+    setLive(false);
+    const delay = Math.min(STREAM_RECONNECT_MAX_MS, STREAM_RECONNECT_MIN_MS * 2 ** failedAttempts);
+    failedAttempts++;
+    reconnectTimer = setTimeout(connect, delay);
+  };
+
+  connect();
+
+  return {
+    stop: () => {
+      stopped = true;
+      clearTimeout(idleTimer);
+      clearTimeout(reconnectTimer);
+      if (controller) controller.abort();
+      live = false;
+    },
+    isLive: () => live
+  };
+};
@@ -0,0 +1,196 @@
+import { addLog, logError } from './logService.js';
+import { getAllRecords, putRecord, deleteRecord } from './storage.js';
+
+// Jobs due within this window get a precise timer (10 minutes)
+const ARM_AHEAD_MS = 10 * 60 * 1000;
+
+// How often jobs further out are checked against the arm window (1 minute)
+const ARM_CHECK_INTERVAL = 60 * 1000;
+
+// Scheduled jobs by ID: { id, type, runAt, payload, createdAt }
+const jobs = new Map();
+
+// Precise timers of jobs inside the arm window, by job ID
+const armedTimers = new Map();
+
+// Functions that run each job type
+const handlers = new Map();
+
+let armCheckTimer = null;
+
+/**
+ * Register the function that runs jobs of a type
+ * @param {string} type - The job type
+ * @param {Function} handler - Async function receiving the job payload
+ */
+export const registerJobHandler = (type, handler) => {
+  handlers.set(type, handler);
+};
+
+/**
+ * Save a job to the store
+ * @param {Object} job - The job
+ */
+const persistJob = (job) => {
+  try {
+    putRecord('jobs', job.id, job);
+  } catch (error) {
+    logError(`Error persisting scheduled job ${job.id}`, error);
+  }
+};
+
+/**
+ * Remove a job from the store
+ * @param {string} id - The job ID
+ */
+const unpersistJob = (id) => {
+  try {
+    deleteRecord('jobs', id);
+  } catch (error) {
+    logError(`Error removing scheduled job ${id}`, error);
+  }
+};
+
+/**
+ * Run a due job and drop it from the queue
+ * @param {string} id - The job ID
+ */
+const runJob = async (id) => {
+  armedTimers.delete(id);
+
+  const job = jobs.get(id);
+  if (!job) return;
+
+  jobs.delete(id);
+  unpersistJob(id);
+
+  const handler = handlers.get(job.type);
+  if (!handler) {
+    addLog({
+      message: `No handler for scheduled job ${job.id} (${job.type}), dropping it`,
+      status: 'warning'
+    });
+    return;
+  }
+
+  try {
+    await handler(job.payload, job);
+  } catch (error) {
+    logError(`Error running scheduled job ${job.id}`, error);
+  }
+};
+
+/**
+ * Give a job a precise timer if it is due within the arm window.
+ * Timers are never set further out than the window, so delays can't overflow setTimeout.
+ * @param {Object} job - The job
+ */
+const armJob = (job) => {
+  if (armedTimers.has(job.id)) return;
+
+  const delay = new Date(job.runAt).getTime() - Date.now();
+  if (delay > ARM_AHEAD_MS) return;
+
+  armedTimers.set(job.id, setTimeout(() => runJob(job.id), Math.max(0, delay)));
+};
+
+/**
+ * Arm every job that has come within the arm window
+ */
+const armDueJobs = () => {
+  jobs.forEach(armJob);
+};
+
+/**
+ * Disarm a job's timer if it has one
+ * @param {string} id - The job ID
+ */
+const disarmJob = (id) => {
+  const timer = armedTimers.get(id);
+  if (timer) {
+    clearTimeout(timer);
+    armedTimers.delete(id);
+  }
+};
+
+/**
+ * Schedule a job, replacing any job with the same ID
+ * @param {Object} job - The job to schedule
+ * @param {string} job.id - Unique job ID
+ * @param {string} job.type - Job type (selects the handler)
+ * @param {Date|string|number} job.runAt - When the job should run
+ * @param {Object} [job.payload] - Data passed to the handler (must be JSON serializable)
+ * @returns {Object} The scheduled job
+ */
+export const scheduleJob = ({ id, type, runAt, payload = {} }) => {
+  disarmJob(id);
+
+  const job = {
+    id,
+    type,
+    runAt: new Date(runAt).toISOString(),
+    payload,
+    createdAt: new Date().toISOString()
+  };
+
+  jobs.set(id, job);
+  persistJob(job);
+  armJob(job);
+
+  return job;
+};
+
+/**
+ * Cancel a scheduled job
+ * @param {string} id - The job ID
+ * @returns {boolean} Whether a job was cancelled
+ */
+export const cancelJob = (id) => {
+  disarmJob(id);
+
+  if (!jobs.delete(id)) return false;
+
+  unpersistJob(id);
+  return true;
+};
+
+/**
+ * Get all scheduled jobs, soonest first
+ * @returns {Array} The jobs, each with whether its timer is armed
+ */
+export const getScheduledJobs = () => {
+  return Array.from(jobs.values())
+    .map(job => ({ ...job, armed: armedTimers.has(job.id) }))
+    .sort((a, b) => new Date(a.runAt).getTime() - new Date(b.runAt).getTime());
+};
+
+/**
+ * Load the jobs saved before the last shutdown, without running any yet
+ * @returns {number} The number of jobs loaded
+ */
+export const loadScheduledJobs = () => {
+  try {
+    getAllRecords('jobs').forEach(job => jobs.set(job.id, job));
+  } catch (error) {
+    logError('Error loading scheduled jobs', error);
+  }
+
+  return jobs.size;
+};
+
+/**
+ * Start arming jobs as they come due
+ */
+export const startJobScheduler = () => {
+  if (!armCheckTimer) {
+    armCheckTimer = setInterval(armDueJobs, ARM_CHECK_INTERVAL);
+  }
+
+  // Jobs that came due while the server was down run right away
+  armDueJobs();
+
+  addLog({
+    message: `Job scheduler started with ${jobs.size} scheduled job(s)`,
+    status: 'info'
+  });
+};
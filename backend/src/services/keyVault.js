@@ -0,0 +1,281 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { addLog, logError } from './logService.js';
+import { getAllRecords, putRecord } from './storage.js';
+
+const scrypt = promisify(crypto.scrypt);
+
+// scrypt cost parameters for new vault keys (stored with the vault so they can be raised later)
+const KDF_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+// Enough memory for the parameters above (128 * N * r bytes) with headroom
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+
+// Known plaintext sealed with the vault key to tell a wrong passphrase from a right one
+const CHECK_VALUE = 'pi-auto-claim-vault';
+
+// Record ID of the vault metadata in the 'vault' collection
+export const VAULT_RECORD_ID = 'meta';
+
+// Key derived from the passphrase while the vault is unlocked (never persisted)
+let vaultKey = null;
+
+// Callbacks run each time the vault is unlocked
+const unlockListeners = [];
+
+/**
+ * Error raised by vault operations, with the HTTP status that fits it
+ */
+export class VaultError extends Error {
+  /**
+   * @param {string} message - Human-readable description
+   * @param {number} status - HTTP status for API responses
+   */
+  constructor(message, status) {
+    super(message);
+    this.name = 'VaultError';
+    this.status = status;
+  }
+}
+
+/**
+ * Get the stored vault metadata
+ * @returns {Object|null} Salt, KDF parameters and check value, or null if no vault exists yet
+ */
+const getVaultRecord = () => {
+  return getAllRecords('vault').find(r => r.id === VAULT_RECORD_ID) || null;
+};
+
+/**
+ * Derive a vault key from a passphrase
+ * @param {string} passphrase - The operator passphrase
+ * @param {Object} record - Vault metadata holding the salt and KDF parameters
+ * @returns {Promise<Buffer>} The 256-bit key
+ */
+const deriveKey = (passphrase, record) => {
+  const { N, r, p } = record.kdfParams;
+  return scrypt(passphrase, Buffer.from(record.salt, 'base64'), 32, { N, r, p, maxmem: SCRYPT_MAXMEM });
+};
+
+/**
+ * Encrypt a string with AES-256-GCM
+ * @param {Buffer} key - The vault key
+ * @param {string} plaintext - The secret
+ * @returns {Object} The sealed secret (iv, tag and data, base64)
+ */
+const seal = (key, plaintext) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+};
+
+/**
+ * Decrypt a sealed secret
+ * @param {Buffer} key - The vault key
+ * @param {Object} sealed - The sealed secret
+ * @returns {string} The plaintext
+ */
+const open = (key, sealed) => {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(sealed.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(sealed.data, 'base64')), decipher.final()]).toString('utf8');
+};
+
+/**
+ * Check a passphrase against the stored vault
+ * @param {string} passphrase - The passphrase to check
+ * @param {Object} record - The vault metadata
+ * @returns {Promise<Buffer>} The vault key if the passphrase is right
+ */
+const verifyPassphrase = async (passphrase, record) => {
+  const key = await deriveKey(passphrase, record);
+
+  try {
+    if (open(key, record.check) === CHECK_VALUE) {
+      return key;
+    }
+  } catch (error) {
+    // GCM authentication fails for a key derived from the wrong passphrase
+  }
+
+  throw new VaultError('Incorrect vault passphrase', 401);
+};
+
+/**
+ * Create vault metadata and key for a new passphrase
+ * @param {string} passphrase - The new passphrase
+ * @returns {Promise<Object>} The vault record to store and its key
+ */
+const createVaultKey = async (passphrase) => {
+  if (!passphrase || passphrase.length < 8) {
+    throw new VaultError('Vault passphrase must be at least 8 characters', 400);
+  }
+
+  const record = {
+    id: VAULT_RECORD_ID,
+    kdf: 'scrypt',
+    kdfParams: KDF_PARAMS,
+    salt: crypto.randomBytes(16).toString('base64'),
+    createdAt: new Date().toISOString()
+  };
+
+  const key = await deriveKey(passphrase, record);
+  record.check = seal(key, CHECK_VALUE);
+
+  return { record, key };
+};
+
+/**
+ * Get the state of the vault
+ * @returns {string} 'uninitialized', 'locked' or 'unlocked'
+ */
+export const getVaultState = () => {
+  if (vaultKey) return 'unlocked';
+  return getVaultRecord() ? 'locked' : 'uninitialized';
+};
+
+/**
+ * Whether secrets can currently be encrypted and decrypted
+ * @returns {boolean} True while the vault is unlocked
+ */
+export const isVaultUnlocked = () => vaultKey !== null;
+
+/**
+ * Run a callback each time the vault is unlocked
+ * @param {Function} listener - The callback
+ */
+export const onVaultUnlocked = (listener) => {
+  unlockListeners.push(listener);
+};
+
+/**
+ * Keep a vault key in memory and notify listeners
+ * @param {Buffer} key - The vault key
+ */
+const activateKey = async (key) => {
+  vaultKey = key;
+
+  for (const listener of unlockListeners) {
+    try {
+      await listener();
+    } catch (error) {
+      logError('Error running vault unlock listener', error);
+    }
+  }
+};
+
+/**
+ * Set up the vault with its first passphrase and unlock it
+ * @param {string} passphrase - The operator passphrase
+ */
+export const initVault = async (passphrase) => {
+  if (getVaultRecord()) {
+    throw new VaultError('Vault is already initialized', 409);
+  }
+
+  const { record, key } = await createVaultKey(passphrase);
+  putRecord('vault', record.id, record);
+
+  await activateKey(key);
+
+  addLog({
+    message: 'Key vault initialized and unlocked',
+    status: 'success'
+  });
+};
+
+/**
+ * Unlock the vault
+ * @param {string} passphrase - The operator passphrase
+ */
+export const unlockVault = async (passphrase) => {
+  const record = getVaultRecord();
+  if (!record) {
+    throw new VaultError('Vault is not initialized', 409);
+  }
+
+  await activateKey(await verifyPassphrase(passphrase || '', record));
+
+  addLog({
+    message: 'Key vault unlocked',
+    status: 'success'
+  });
+};
+
+/**
+ * Lock the vault, dropping the key from memory
+ */
+export const lockVault = () => {
+  vaultKey = null;
+
+  addLog({
+    message: 'Key vault locked; claims are on hold until it is unlocked',
+    status: 'warning'
+  });
+};
+
+/**
+ * Prepare a passphrase change: verify the current passphrase and derive the new key.
+ * The caller stores the new record together with every re-sealed secret, then commits the key.
+ * @param {string} currentPassphrase - The current passphrase
+ * @param {string} newPassphrase - The new passphrase
+ * @returns {Promise<Object>} The new vault record and key, and a function re-sealing a secret under the new key
+ */
+export const preparePassphraseChange = async (currentPassphrase, newPassphrase) => {
+  const record = getVaultRecord();
+  if (!record) {
+    throw new VaultError('Vault is not initialized', 409);
+  }
+
+  const currentKey = await verifyPassphrase(currentPassphrase || '', record);
+  const next = await createVaultKey(newPassphrase);
+
+  return {
+    record: next.record,
+    key: next.key,
+    reseal: (sealed) => seal(next.key, open(currentKey, sealed))
+  };
+};
+
+/**
+ * Switch to a new vault key once everything sealed under it is stored
+ * @param {Buffer} key - The new vault key
+ */
+export const commitVaultKey = async (key) => {
+  await activateKey(key);
+
+  addLog({
+    message: 'Vault passphrase changed and all keys re-encrypted',
+    status: 'success'
+  });
+};
+
+/**
+ * Encrypt a secret with the vault key
+ * @param {string} plaintext - The secret
+ * @returns {Object} The sealed secret
+ */
+export const sealSecret = (plaintext) => {
+  if (!vaultKey) {
+    throw new VaultError('Key vault is locked', 423);
+  }
+  return seal(vaultKey, plaintext);
+};
+
+/**
+ * Decrypt a secret with the vault key
+ * @param {Object} sealed - The sealed secret
+ * @returns {string} The plaintext
+ */
+export const openSecret = (sealed) => {
+  if (!vaultKey) {
+    throw new VaultError('Key vault is locked', 423);
+  }
+  return open(vaultKey, sealed);
+};
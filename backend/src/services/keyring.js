@@ -0,0 +1,37 @@
+import * as StellarSdk from 'stellar-sdk';
+
+/**
+ * Split a list of secret keys separated by commas, spaces or newlines
+ * @param {string} [value] - The list (e.g. an environment variable or key file)
+ * @returns {Array<string>} The secret keys
+ */
+export const parseSecrets = (value) => {
+  return (value || '').split(/[\s,]+/).map(s => s.trim()).filter(Boolean);
+};
+
+/**
+ * Hold secret keys in memory, indexed by their public address
+ * @param {Array<string>} secrets - The secret keys
+ * @returns {Object} has(address), addresses() and sign(address, data)
+ */
+export const createKeyring = (secrets) => {
+  const keyPairs = new Map();
+
+  for (const secret of secrets) {
+    const keyPair = StellarSdk.Keypair.fromSecret(secret);
+    keyPairs.set(keyPair.publicKey(), keyPair);
+  }
+
+  return {
+    has: (address) => keyPairs.has(address),
+    addresses: () => Array.from(keyPairs.keys()),
+    // Raw ed25519 signature of data (a transaction hash), base64
+    sign: (address, data) => {
+      const keyPair = keyPairs.get(address);
+      if (!keyPair) {
+        throw new Error(`No key held for ${address}`);
+      }
+      return keyPair.sign(data).toString('base64');
+    }
+  };
+};
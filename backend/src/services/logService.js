@@ -1,22 +1,86 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import dotenv from 'dotenv';
+import { getAllRecords, putRecord, deleteRecord, clearCollection } from './storage.js';
 
 // Load environment variables
 dotenv.config();
 
-// Maximum number of logs to store
+// Maximum number of logs to store per owner
 const MAX_LOGS = parseInt(process.env.MAX_LOGS || '500', 10);
 
-// In-memory storage for logs
+// Logs, newest first (kept in the store so they survive restarts)
 let logs = [];
 
+// Looks up the owner of a wallet so its logs belong to the same tenant
+let resolveOwner = () => undefined;
+
+/**
+ * Set how a log's owner is found from its wallet ID
+ * @param {Function} resolver - (walletId) => owner, or undefined for server-wide logs
+ */
+export const setLogOwnerResolver = (resolver) => {
+  resolveOwner = resolver;
+};
+
+/**
+ * Split logs (newest first) into those kept and those over an owner's limit
+ * @param {Array} list - The logs
+ * @returns {{kept: Array, dropped: Array}} Each owner's newest MAX_LOGS logs, and the rest
+ */
+const capPerOwner = (list) => {
+  const counts = new Map();
+  const kept = [];
+  const dropped = [];
+  
+  // One busy tenant can't push another tenant's history out
+  list.forEach(log => {
+    const count = counts.get(log.owner) || 0;
+    counts.set(log.owner, count + 1);
+    (count < MAX_LOGS ? kept : dropped).push(log);
+  });
+  
+  return { kept, dropped };
+};
+
+/**
+ * Reload the logs saved before the last shutdown
+ * @returns {number} The number of logs loaded
+ */
+export const restoreLogs = () => {
+  try {
+    // Logs added before the restore are already saved, so skip them
+    const known = new Set(logs.map(log => log.id));
+    const saved = getAllRecords('logs')
+      .filter(log => !known.has(log.id))
+      .map(log => ({ ...log, timestamp: new Date(log.timestamp) }));
+    logs = capPerOwner([...logs, ...saved].sort((a, b) => b.timestamp - a.timestamp)).kept;
+  } catch (error) {
+    console.error('Error restoring logs:', error);
+  }
+  
+  return logs.length;
+};
+
+/**
+ * Run a store write without letting a storage failure break logging
+ * @param {Function} write - The store write
+ */
+const persist = (write) => {
+  try {
+    write();
+  } catch (error) {
+    console.error('Error persisting logs:', error);
+  }
+};
+
 /**
  * Add a new log entry
  * @param {Object} logData - The log data
  * @param {string} logData.message - The log message
  * @param {string} logData.status - The log status (info, success, warning, error)
  * @param {string} [logData.walletId] - The associated wallet ID (optional)
+ * @param {string} [logData.owner] - The owning tenant (defaults to the wallet's owner)
  * @returns {Object} The created log entry
  */
 export const addLog = (logData) => {
@@ -25,15 +89,20 @@ export const addLog = (logData) => {
     timestamp: new Date(),
     message: logData.message,
     status: logData.status || 'info',
-    walletId: logData.walletId
+    walletId: logData.walletId,
+    owner: logData.owner ?? (logData.walletId ? resolveOwner(logData.walletId) : undefined)
   };
   
   // Add to beginning for chronological order
   logs.unshift(newLog);
   
-  // Trim logs if exceeding max
-  if (logs.length > MAX_LOGS) {
-    logs = logs.slice(0, MAX_LOGS);
+  persist(() => putRecord('logs', newLog.id, newLog));
+  
+  // Trim the owner's logs if exceeding max
+  if (logs.filter(log => log.owner === newLog.owner).length > MAX_LOGS) {
+    const { kept, dropped } = capPerOwner(logs);
+    logs = kept;
+    persist(() => dropped.forEach(log => deleteRecord('logs', log.id)));
   }
   
   // Log to console as well
@@ -43,24 +112,37 @@ export const addLog = (logData) => {
 };
 
 /**
- * Get all logs
+ * Get logs, optionally only a tenant's
+ * @param {Object} [filter] - Optional tenant filter
+ * @param {string} [filter.owner] - Only logs owned by this tenant...
+ * @param {Set<string>} [filter.walletIds] - ...or about these wallets
  * @returns {Array} Array of log entries
  */
-export const getLogs = () => {
-  return logs;
+export const getLogs = ({ owner, walletIds } = {}) => {
+  if (!owner) return logs;
+  return logs.filter(log => log.owner === owner || (walletIds && walletIds.has(log.walletId)));
 };
 
 /**
- * Clear all logs
+ * Clear all logs, or only a tenant's
+ * @param {string} [owner] - Only clear logs owned by this tenant
  * @returns {boolean} Success status
  */
-export const clearLogs = () => {
-  logs = [];
+export const clearLogs = (owner) => {
+  if (owner) {
+    const dropped = logs.filter(log => log.owner === owner);
+    logs = logs.filter(log => log.owner !== owner);
+    persist(() => dropped.forEach(log => deleteRecord('logs', log.id)));
+  } else {
+    logs = [];
+    persist(() => clearCollection('logs'));
+  }
   
   // Add a new "logs cleared" entry
   addLog({
     message: 'Logs cleared',
-    status: 'info'
+    status: 'info',
+    owner
   });
   
   return true;
@@ -1,35 +1,149 @@
 
-import fetch from 'node-fetch';
 import * as StellarSdk from 'stellar-sdk';
 import dotenv from 'dotenv';
 import { logError } from './logService.js';
+import { horizonFetch } from './horizonClient.js';
+import { HORIZON_SUBMIT_MODE, getReadEndpoints, getBroadcastEndpoints, getEndpointPath } from './horizonEndpoints.js';
+import { HorizonSubmissionError, describeResultCodes } from './horizonErrors.js';
 
 // Load environment variables
 dotenv.config();
 
-// Pi Network API base URL
-const PI_API_BASE_URL = process.env.PI_API_BASE_URL || 'https://api.mainnet.minepi.com';
+// Claimable balance records requested per page (Horizon allows at most 200)
+const CLAIMABLE_BALANCES_PAGE_SIZE = Math.min(200, parseInt(process.env.CLAIMABLE_BALANCES_PAGE_SIZE || '200', 10));
+
+// Maximum number of pages fetched per wallet before giving up
+const CLAIMABLE_BALANCES_MAX_PAGES = parseInt(process.env.CLAIMABLE_BALANCES_MAX_PAGES || '50', 10);
 
 // Network passphrase
 const NETWORK_PASSPHRASE = process.env.PI_NETWORK_PASSPHRASE || 'Pi Network';
 
+// Submission failures that mean the endpoint never took the envelope, so another endpoint may try it
+const UNREACHABLE_STATUSES = [429, 502, 503];
+
 /**
- * Fetch claimable balances for a wallet address
+ * Send a read to the healthiest Horizon endpoint, failing over to the next when it can't answer
+ * @param {string} priority - claim or discovery
+ * @param {string} path - The path and query, e.g. /accounts/G...
+ * @returns {Object} The fetch response (the last endpoint's if none of them answered)
+ */
+const horizonRead = async (priority, path) => {
+  const bases = getReadEndpoints();
+  let lastError;
+  
+  for (const [index, base] of bases.entries()) {
+    try {
+      const response = await horizonFetch(priority, `${base}${path}`);
+      
+      // Server errors and exhausted rate limits are worth another endpoint; anything else is Horizon's answer
+      if ((response.status >= 500 || response.status === 429) && index < bases.length - 1) {
+        await response.arrayBuffer().catch(() => undefined);
+        continue;
+      }
+      
+      return response;
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  
+  throw lastError;
+};
+
+/**
+ * Fetch all claimable balances for a wallet address, following Horizon's cursor pagination
  * @param {string} walletAddress - The wallet address
- * @returns {Object} The claimable balances response
+ * @returns {Object} The claimable balance records plus pagination stats (pages, records, truncated)
  */
 export const fetchClaimableBalances = async (walletAddress) => {
   try {
-    const response = await fetch(`${PI_API_BASE_URL}/claimable_balances/?claimant=${walletAddress}`);
+    const records = [];
+    let path = `/claimable_balances/?claimant=${walletAddress}&limit=${CLAIMABLE_BALANCES_PAGE_SIZE}&order=asc`;
+    let pages = 0;
+    let truncated = false;
+    
+    while (path) {
+      // Stop at the safety cap even if Horizon still has more pages
+      if (pages >= CLAIMABLE_BALANCES_MAX_PAGES) {
+        truncated = true;
+        break;
+      }
+      
+      const response = await horizonRead('discovery', path);
+      
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || `API error: ${response.status}`);
+      }
+      
+      const data = await response.json();
+      const pageRecords = (data._embedded && data._embedded.records) || [];
+      
+      pages++;
+      records.push(...pageRecords);
+      
+      // A short page is the last one; otherwise follow the next link, on whichever endpoint is healthiest
+      const next = data._links && data._links.next && data._links.next.href && getEndpointPath(data._links.next.href);
+      path = pageRecords.length < CLAIMABLE_BALANCES_PAGE_SIZE || !next || next === path ? null : next;
+    }
+    
+    return {
+      _embedded: { records },
+      pagination: { pages, records: records.length, truncated }
+    };
+  } catch (error) {
+    logError(`Error fetching claimable balances for ${walletAddress}`, error);
+    throw error;
+  }
+};
+
+/**
+ * Fetch one claimable balance
+ * @param {string} balanceId - The claimable balance ID
+ * @returns {Object|null} The claimable balance record, or null if it no longer exists
+ */
+export const fetchClaimableBalance = async (balanceId) => {
+  try {
+    const response = await horizonRead('discovery', `/claimable_balances/${balanceId}`);
+    
+    if (response.status === 404) {
+      return null;
+    }
     
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.message || `API error: ${response.status}`);
+      throw new Error(errorData.detail || errorData.message || `API error: ${response.status}`);
     }
     
     return await response.json();
   } catch (error) {
-    logError(`Error fetching claimable balances for ${walletAddress}`, error);
+    logError(`Error fetching claimable balance ${balanceId}`, error);
+    throw error;
+  }
+};
+
+/**
+ * Fetch the operations that touched a claimable balance, newest first
+ * @param {string} balanceId - The claimable balance ID
+ * @returns {Array} The operation records (empty if Horizon has no history for the balance)
+ */
+export const fetchClaimableBalanceOperations = async (balanceId) => {
+  try {
+    const response = await horizonRead('discovery', `/claimable_balances/${balanceId}/operations?order=desc&limit=20`);
+    
+    if (response.status === 404) {
+      return [];
+    }
+    
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.detail || errorData.message || `API error: ${response.status}`);
+    }
+    
+    const data = await response.json();
+    return (data._embedded && data._embedded.records) || [];
+  } catch (error) {
+    logError(`Error fetching operations of claimable balance ${balanceId}`, error);
     throw error;
   }
 };
@@ -43,7 +157,7 @@ export const fetchSequenceNumber = async (sourceAddress) => {
   try {
     console.log(`Fetching sequence number for account: ${sourceAddress}`);
     
-    const response = await fetch(`${PI_API_BASE_URL}/accounts/${sourceAddress}`);
+    const response = await horizonRead('claim', `/accounts/${sourceAddress}`);
     
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({ message: `HTTP error: ${response.status}` }));
@@ -66,6 +180,83 @@ export const fetchSequenceNumber = async (sourceAddress) => {
   }
 };
 
+/**
+ * Fetch the balance and reserve-related fields of an account
+ * @param {string} address - The account address
+ * @returns {Object} The native balance and subentry counters of the account
+ */
+export const fetchAccountDetails = async (address) => {
+  try {
+    const response = await horizonRead('claim', `/accounts/${address}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ message: `HTTP error: ${response.status}` }));
+      throw new Error(errorData.message || `API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const native = (data.balances || []).find(b => b.asset_type === 'native');
+
+    return {
+      address,
+      nativeBalance: native ? native.balance : '0',
+      sellingLiabilities: native && native.selling_liabilities ? native.selling_liabilities : '0',
+      subentryCount: data.subentry_count || 0,
+      numSponsoring: data.num_sponsoring || 0,
+      numSponsored: data.num_sponsored || 0
+    };
+  } catch (error) {
+    logError(`Error fetching account details for ${address}`, error);
+    throw error;
+  }
+};
+
+/**
+ * Fetch the network base reserve from the latest ledger
+ * @returns {number} The base reserve in stroops
+ */
+export const fetchBaseReserve = async () => {
+  try {
+    const response = await horizonRead('claim', `/ledgers?order=desc&limit=1`);
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const ledger = data._embedded && data._embedded.records && data._embedded.records[0];
+
+    if (!ledger || !ledger.base_reserve_in_stroops) {
+      throw new Error('Base reserve not found in ledger data');
+    }
+
+    return ledger.base_reserve_in_stroops;
+  } catch (error) {
+    logError('Error fetching base reserve', error);
+    throw error;
+  }
+};
+
+/**
+ * Fetch recent fee statistics from the network
+ * @returns {Object} The fee_stats response (fees in stroops per operation)
+ */
+export const fetchFeeStats = async () => {
+  try {
+    const response = await horizonRead('claim', `/fee_stats`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.message || `API error: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    logError('Error fetching fee stats', error);
+    throw error;
+  }
+};
+
 /**
  * Generate transaction hash from XDR
  * @param {string} xdr - The transaction XDR
@@ -73,11 +264,8 @@ export const fetchSequenceNumber = async (sourceAddress) => {
  */
 export const getTransactionHash = (xdr) => {
   try {
-    // Parse the transaction envelope from XDR
-    const transactionEnvelope = StellarSdk.xdr.TransactionEnvelope.fromXDR(xdr, 'base64');
-    
-    // Create a transaction object with the correct network passphrase
-    const tx = new StellarSdk.Transaction(transactionEnvelope, NETWORK_PASSPHRASE);
+    // Parse the envelope (plain or fee-bump) with the correct network passphrase
+    const tx = StellarSdk.TransactionBuilder.fromXDR(xdr, NETWORK_PASSPHRASE);
     
     // Get the hash
     return tx.hash().toString('hex');
@@ -87,10 +275,122 @@ export const getTransactionHash = (xdr) => {
   }
 };
 
+/**
+ * Look up a transaction by hash
+ * @param {string} hash - The transaction hash
+ * @returns {Object|null} The transaction record, or null if it is not in a ledger
+ */
+export const fetchTransaction = async (hash) => {
+  try {
+    const response = await horizonRead('claim', `/transactions/${hash}`);
+    
+    if (response.status === 404) {
+      return null;
+    }
+    
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.detail || errorData.message || `API error: ${response.status}`);
+    }
+    
+    return await response.json();
+  } catch (error) {
+    logError(`Error fetching transaction ${hash}`, error);
+    throw error;
+  }
+};
+
+/**
+ * Submit a signed envelope to one Horizon endpoint
+ * @param {string} base - The endpoint's base URL
+ * @param {string} xdr - The signed transaction XDR
+ * @returns {Object} The transaction response plus the endpoint that accepted it
+ */
+const submitToEndpoint = async (base, xdr) => {
+  const response = await horizonFetch('submission', `${base}/transactions`, {
+    method: 'POST',
+    headers: { 
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ tx: xdr })
+  });
+  
+  console.log(`Transaction submission response status from ${base}: ${response.status}`);
+  
+  // A proxy in front of Horizon may answer a timeout with an HTML page
+  const responseData = await response.json().catch(() => ({}));
+  console.log('Transaction submission response:', responseData);
+  
+  if (!response.ok) {
+    // Enhanced error handling
+    if (responseData.extras && responseData.extras.result_codes) {
+      const resultCodes = responseData.extras.result_codes;
+      console.error("Transaction failed with API result codes:", resultCodes);
+      
+      // Result codes mean Horizon rejected the envelope, so it will not land later
+      throw new HorizonSubmissionError(`API error: ${describeResultCodes(resultCodes)}`, {
+        status: response.status,
+        resultCodes
+      });
+    }
+    
+    throw new HorizonSubmissionError(responseData.detail || responseData.message || `API error: ${response.status}`, {
+      status: response.status
+    });
+  }
+  
+  return { ...responseData, endpoint: base };
+};
+
+/**
+ * Submit to the healthiest endpoint, moving on to the next only when one never took the envelope
+ * @param {string} xdr - The signed transaction XDR
+ * @returns {Object} The transaction response plus the endpoint that accepted it
+ */
+const submitWithFailover = async (xdr) => {
+  const bases = getReadEndpoints();
+  
+  for (const [index, base] of bases.entries()) {
+    try {
+      return await submitToEndpoint(base, xdr);
+    } catch (error) {
+      // A timeout may still land, so only unreachable endpoints are worth another try
+      const unreachable = !(error instanceof HorizonSubmissionError) || UNREACHABLE_STATUSES.includes(error.status);
+      if (!unreachable || index === bases.length - 1) {
+        throw error;
+      }
+      
+      console.warn(`Submission to ${base} failed (${error.message}), trying the next endpoint`);
+    }
+  }
+};
+
+/**
+ * Submit the same envelope to every healthy endpoint at once; the first to accept it wins
+ * @param {string} xdr - The signed transaction XDR
+ * @returns {Object} The transaction response plus the endpoint that accepted it
+ */
+const broadcastTransaction = async (xdr) => {
+  const bases = getBroadcastEndpoints();
+  console.log(`Broadcasting transaction to ${bases.length} endpoint(s): ${bases.join(', ')}`);
+  
+  try {
+    return await Promise.any(bases.map(base => submitToEndpoint(base, xdr)));
+  } catch (error) {
+    const errors = error.errors || [error];
+    
+    // An endpoint that timed out may still get the envelope in, which outweighs another's
+    // rejection (often tx_bad_seq because the envelope already landed through the first)
+    throw errors.find(e => e instanceof HorizonSubmissionError && !e.resultCodes)
+      || errors.find(e => e.resultCodes)
+      || errors[0];
+  }
+};
+
 /**
  * Submit transaction to Pi Network
  * @param {string} xdr - The signed transaction XDR
- * @returns {Object} The transaction response
+ * @returns {Object} The transaction response, with the endpoint that accepted it in `endpoint`
  */
 export const submitTransaction = async (xdr) => {
   try {
@@ -101,38 +401,9 @@ export const submitTransaction = async (xdr) => {
     console.log(`Transaction hash: ${txHash}`);
     
     // Submit transaction to Pi Network
-    const response = await fetch(`${PI_API_BASE_URL}/transactions`, {
-      method: 'POST',
-      headers: { 
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({ tx: xdr })
-    });
-    
-    console.log(`Transaction submission response status: ${response.status}`);
-    
-    const responseData = await response.json();
-    console.log('Transaction submission response:', responseData);
-    
-    if (!response.ok) {
-      // Enhanced error handling
-      if (responseData.extras && responseData.extras.result_codes) {
-        console.error("Transaction failed with API result codes:", responseData.extras.result_codes);
-        
-        const txCode = responseData.extras.result_codes.transaction;
-        if (txCode === "tx_bad_auth") {
-          throw new Error("Transaction authentication failed. The signature is invalid.");
-        } else if (txCode === "tx_bad_seq") {
-          throw new Error("Incorrect sequence number. Will retry with updated sequence.");
-        } else {
-          throw new Error(`API error: ${txCode || JSON.stringify(responseData.extras.result_codes)}`);
-        }
-      }
-      
-      throw new Error(responseData.detail || responseData.message || `API error: ${response.status}`);
-    }
-    
-    return responseData;
+    return HORIZON_SUBMIT_MODE === 'broadcast'
+      ? await broadcastTransaction(xdr)
+      : await submitWithFailover(xdr);
   } catch (error) {
     logError('Error submitting transaction', error);
     throw error;
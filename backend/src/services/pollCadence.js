@@ -0,0 +1,56 @@
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// Balance polls allowed per minute across all wallets; wallets are slowed down to stay within it
+const POLL_BUDGET_PER_MINUTE = parseFloat(process.env.POLL_BUDGET_PER_MINUTE || '60');
+
+// How often a wallet is polled when no unlock is within a day (milliseconds)
+const POLL_IDLE_INTERVAL_MS = parseInt(process.env.POLL_IDLE_INTERVAL_MS || String(15 * 60 * 1000), 10);
+
+// Poll interval by time left before a wallet's nearest unlock, most urgent first
+export const POLL_CADENCE_TIERS = [
+  { tier: 'imminent', within: 2 * 60 * 1000, interval: 10 * 1000 }, // last 2 minutes: every 10 seconds
+  { tier: 'minutes', within: 10 * 60 * 1000, interval: 30 * 1000 }, // 10 minutes: every 30 seconds
+  { tier: 'hour', within: 60 * 60 * 1000, interval: 2 * 60 * 1000 }, // 1 hour: every 2 minutes
+  { tier: 'day', within: 24 * 60 * 60 * 1000, interval: 10 * 60 * 1000 } // 24 hours: every 10 minutes
+];
+
+/**
+ * Get how often a wallet wants to be polled
+ * @param {Date|null} nearestUnlock - The wallet's soonest future unlock, if any
+ * @param {number} [maxInterval] - Longest interval allowed (e.g. while the wallet's stream is down)
+ * @param {Date} [now] - The reference time
+ * @returns {Object} The tier name and its interval in milliseconds
+ */
+export const getDesiredCadence = (nearestUnlock, maxInterval = Infinity, now = new Date()) => {
+  const remaining = nearestUnlock ? new Date(nearestUnlock).getTime() - now.getTime() : Infinity;
+  const match = POLL_CADENCE_TIERS.find(t => remaining <= t.within) || { tier: 'idle', interval: POLL_IDLE_INTERVAL_MS };
+
+  return { tier: match.tier, interval: Math.min(match.interval, maxInterval) };
+};
+
+/**
+ * Share the poll budget between wallets: each gets the rate it wants or an equal share of
+ * what the slower wallets left over, whichever is less, so no wallet is ever starved
+ * @param {Array<Object>} demands - { id, interval } per wallet
+ * @returns {Map<string, number>} Wallet ID -> interval it may poll at (milliseconds)
+ */
+export const allocatePollBudget = (demands) => {
+  const granted = new Map();
+
+  // Slowest first, so what they don't use goes to the wallets that want more
+  const sorted = [...demands].sort((a, b) => b.interval - a.interval);
+  let remaining = POLL_BUDGET_PER_MINUTE;
+
+  sorted.forEach((demand, index) => {
+    const wanted = 60000 / demand.interval;
+    const rate = POLL_BUDGET_PER_MINUTE > 0 ? Math.min(wanted, remaining / (sorted.length - index)) : wanted;
+
+    granted.set(demand.id, Math.round(60000 / rate));
+    remaining -= rate;
+  });
+
+  return granted;
+};
@@ -0,0 +1,338 @@
+import * as StellarSdk from 'stellar-sdk';
+import dotenv from 'dotenv';
+import { addLog, logError } from './logService.js';
+import { getWalletById } from './walletService.js';
+import { removeClaimableBalance, getWalletClaimableBalances } from './walletMonitor.js';
+import { sumAmounts } from './batchPlanner.js';
+import { recordClaim } from './claimHistory.js';
+import { claimQueue } from './tenantScheduler.js';
+import { submitTransaction, fetchTransaction, fetchSequenceNumber } from './piNetworkApi.js';
+import { HorizonSubmissionError, RETRY_POLICIES, getRetryPolicy, describeResultCodes, readResultCodes } from './horizonErrors.js';
+import { registerJobHandler, scheduleJob, cancelJob } from './jobScheduler.js';
+import { getAllRecords, putRecord, putRecords, deleteRecord } from './storage.js';
+
+// Load environment variables
+dotenv.config();
+
+// Network passphrase for Pi Network
+const NETWORK_PASSPHRASE = process.env.PI_NETWORK_PASSPHRASE || 'Pi Network';
+
+// An account holds at most 20 signers; each envelope needs one until it is used
+const MAX_PRE_AUTH_ENVELOPES = 19;
+
+// Submit this long after an envelope's minTime, like server-signed claims (milliseconds)
+const SUBMIT_AFTER_UNLOCK = 5;
+
+// Retry delays by situation (milliseconds)
+const WAIT_FOR_PREVIOUS_DELAY = 5000; // An earlier envelope has yet to land
+const TOO_EARLY_DELAY = 1000; // Ledger close time hasn't reached minTime yet
+const TRANSIENT_DELAY = 30000; // Network or unknown errors
+
+/**
+ * Error raised by pre-auth requests, with the HTTP status that fits it
+ */
+export class PreAuthError extends Error {
+  /**
+   * @param {string} message - Human-readable description
+   * @param {number} status - HTTP status for API responses
+   */
+  constructor(message, status) {
+    super(message);
+    this.name = 'PreAuthError';
+    this.status = status;
+  }
+}
+
+/**
+ * Parse a transaction envelope built for a wallet
+ * @param {string} xdr - The envelope XDR
+ * @param {Object} wallet - The wallet it must come from
+ * @returns {Object} The parsed transaction
+ */
+const parseWalletTransaction = (xdr, wallet) => {
+  let transaction;
+
+  try {
+    transaction = StellarSdk.TransactionBuilder.fromXDR(xdr, NETWORK_PASSPHRASE);
+  } catch (error) {
+    throw new PreAuthError(`Unreadable transaction envelope: ${error.message}`, 400);
+  }
+
+  // A fee-bump can't be pre-authorized by the wallet's own signers
+  if (transaction instanceof StellarSdk.FeeBumpTransaction || transaction.source !== wallet.address) {
+    throw new PreAuthError('Transaction envelope is not from this wallet', 400);
+  }
+
+  return transaction;
+};
+
+/**
+ * Turn a pre-authorized claim transaction into a stored envelope record
+ * @param {string} xdr - The envelope XDR
+ * @param {Object} wallet - The wallet
+ * @returns {Object} The envelope record
+ */
+const toEnvelopeRecord = (xdr, wallet) => {
+  const transaction = parseWalletTransaction(xdr, wallet);
+  const claims = transaction.operations.filter(op => op.type === 'claimClaimableBalance');
+  const payment = transaction.operations.find(op => op.type === 'payment');
+
+  if (claims.length === 0 || !payment || claims.length + 1 !== transaction.operations.length) {
+    throw new PreAuthError('Pre-authorized envelopes must claim balances and make one payment', 400);
+  }
+
+  if (payment.destination !== wallet.destinationAddress) {
+    throw new PreAuthError('Pre-authorized payment does not go to the wallet destination', 400);
+  }
+
+  if (!transaction.timeBounds) {
+    throw new PreAuthError('Pre-authorized envelopes need time bounds', 400);
+  }
+
+  return {
+    id: transaction.hash().toString('hex'),
+    walletId: wallet.id,
+    xdr,
+    sequence: transaction.sequence,
+    balanceIds: claims.map(op => op.balanceId),
+    amount: payment.amount,
+    minTime: parseInt(transaction.timeBounds.minTime, 10),
+    maxTime: parseInt(transaction.timeBounds.maxTime, 10),
+    status: 'pending',
+    createdAt: new Date().toISOString()
+  };
+};
+
+/**
+ * Check that a setOptions transaction adds exactly the envelopes' hashes as signers
+ * @param {string} xdr - The signed setOptions XDR
+ * @param {Object} wallet - The wallet
+ * @param {Array} records - The envelope records
+ */
+const verifySetOptions = (xdr, wallet, records) => {
+  const transaction = parseWalletTransaction(xdr, wallet);
+
+  // Parsed signer keys are Buffers or hex strings depending on the SDK version
+  const signerHashes = transaction.operations
+    .filter(op => op.type === 'setOptions' && op.signer && op.signer.preAuthTx)
+    .map(op => op.signer.preAuthTx.toString('hex'));
+
+  const expected = records.map(r => r.id);
+
+  if (transaction.operations.length !== signerHashes.length ||
+      signerHashes.length !== expected.length ||
+      !expected.every(hash => signerHashes.includes(hash))) {
+    throw new PreAuthError('setOptions transaction must add exactly one preAuthTx signer per envelope', 400);
+  }
+};
+
+/**
+ * Schedule the submission of an envelope
+ * @param {Object} record - The envelope record
+ * @param {number} runAt - When to submit (ms timestamp)
+ */
+const scheduleEnvelope = (record, runAt) => {
+  scheduleJob({
+    id: `preauth:${record.id}`,
+    type: 'pre-auth-submit',
+    runAt,
+    payload: { hash: record.id }
+  });
+};
+
+/**
+ * Store a wallet's pre-signed envelopes and authorize them on the network.
+ * The setOptions transaction was signed by the wallet owner; it is submitted here before anything is stored.
+ * @param {string} walletId - The wallet ID
+ * @param {string} setOptionsXdr - Signed setOptions transaction adding the preAuthTx signers
+ * @param {Array<string>} envelopeXdrs - Unsigned claim+payment envelopes
+ * @returns {Promise<Array>} The stored envelope records
+ */
+export const storePreAuthEnvelopes = async (walletId, setOptionsXdr, envelopeXdrs) => {
+  const wallet = getWalletById(walletId);
+  if (!wallet) {
+    throw new PreAuthError('Wallet not found', 404);
+  }
+
+  if (wallet.signingMode !== 'pre_auth') {
+    throw new PreAuthError('Wallet does not use pre-authorized transactions', 400);
+  }
+
+  if (envelopeXdrs.length === 0 || envelopeXdrs.length > MAX_PRE_AUTH_ENVELOPES) {
+    throw new PreAuthError(`Provide between 1 and ${MAX_PRE_AUTH_ENVELOPES} envelopes`, 400);
+  }
+
+  const records = envelopeXdrs.map(xdr => toEnvelopeRecord(xdr, wallet));
+  verifySetOptions(setOptionsXdr, wallet, records);
+
+  try {
+    await submitTransaction(setOptionsXdr);
+  } catch (error) {
+    throw new PreAuthError(`Failed to add pre-auth signers: ${error.message}`, error instanceof HorizonSubmissionError ? 400 : 502);
+  }
+
+  putRecords(records.map(record => ({ collection: 'preauth', id: record.id, value: record })));
+
+  for (const record of records) {
+    scheduleEnvelope(record, record.minTime * 1000 + SUBMIT_AFTER_UNLOCK);
+  }
+
+  addLog({
+    message: `Stored ${records.length} pre-authorized envelope(s) covering ${records.reduce((n, r) => n + r.balanceIds.length, 0)} balance(s)`,
+    status: 'success',
+    walletId
+  });
+
+  return records;
+};
+
+/**
+ * Record the outcome of an envelope
+ * @param {Object} record - The envelope record
+ * @param {string} status - The new status
+ * @param {string} [reason] - Why it failed or expired
+ */
+const finishEnvelope = (record, status, reason) => {
+  putRecord('preauth', record.id, { ...record, status, reason, finishedAt: new Date().toISOString() });
+
+  if (status === 'submitted') {
+    addLog({
+      message: `Pre-authorized transaction landed: claimed ${record.balanceIds.length} balance(s) and transferred ${record.amount} Pi. Hash: ${record.id}${record.endpoint ? ` (accepted by ${record.endpoint})` : ''}`,
+      status: 'success',
+      walletId: record.walletId
+    });
+
+    const wallet = getWalletById(record.walletId);
+    if (wallet) {
+      const claimed = getWalletClaimableBalances(record.walletId).filter(b => record.balanceIds.includes(b.id));
+      recordClaim(wallet, {
+        hash: record.id,
+        balanceIds: record.balanceIds,
+        claimedAmount: sumAmounts(claimed.map(b => b.amount)),
+        transferAmount: record.amount,
+        signing: 'pre_auth',
+        endpoint: record.endpoint
+      });
+    }
+
+    record.balanceIds.forEach(removeClaimableBalance);
+  } else {
+    addLog({
+      message: `Pre-authorized transaction ${record.id.substring(0, 8)}... ${status}: ${reason}. Its balances are no longer covered`,
+      status: 'error',
+      walletId: record.walletId
+    });
+  }
+};
+
+/**
+ * Submit a stored envelope, retrying until it lands or its time bounds close
+ * @param {string} hash - The envelope hash
+ */
+const submitPreAuthEnvelope = async (hash) => {
+  const record = getAllRecords('preauth').find(r => r.id === hash);
+  if (!record || record.status !== 'pending') return;
+
+  const wallet = getWalletById(record.walletId);
+  if (!wallet) return;
+
+  // Retries after maxTime would only ever get tx_too_late
+  const retry = (delay) => {
+    const runAt = Date.now() + delay;
+    if (record.maxTime && runAt > record.maxTime * 1000) {
+      finishEnvelope(record, 'expired', 'its time bounds closed before it landed');
+      return;
+    }
+    scheduleEnvelope(record, runAt);
+  };
+
+  try {
+    const { endpoint } = await submitTransaction(record.xdr);
+    finishEnvelope({ ...record, endpoint }, 'submitted');
+  } catch (error) {
+    const { errorClass, policy } = getRetryPolicy(error);
+
+    if (policy === RETRY_POLICIES.REFRESH_SEQUENCE) {
+      try {
+        // A submission whose response was lost shows up as tx_bad_seq on resubmit
+        const landed = await fetchTransaction(hash);
+        if (landed) {
+          if (landed.successful) {
+            finishEnvelope(record, 'submitted');
+          } else {
+            // Included but failed: the sequence is spent and the balances were not claimed
+            const resultCodes = readResultCodes(landed.result_xdr);
+            finishEnvelope(record, 'failed', `included in ledger ${landed.ledger} but failed (${resultCodes ? describeResultCodes(resultCodes) : 'result unreadable'})`);
+          }
+          return;
+        }
+
+        // Past our sequence, something else used it; below it, an earlier envelope has yet to land
+        if (BigInt(await fetchSequenceNumber(wallet.address)) >= BigInt(record.sequence)) {
+          finishEnvelope(record, 'failed', 'another transaction used its sequence number');
+          return;
+        }
+      } catch (lookupError) {
+        logError('Error checking pre-authorized transaction sequence', lookupError, record.walletId);
+      }
+
+      retry(WAIT_FOR_PREVIOUS_DELAY);
+    } else if (errorClass === 'expired') {
+      retry(TOO_EARLY_DELAY);
+    } else if (policy === RETRY_POLICIES.GIVE_UP) {
+      finishEnvelope(record, 'failed', `${errorClass} (${error.message})`);
+    } else {
+      // The fee can't be raised on a pre-signed envelope, so fee errors wait like transient ones
+      addLog({
+        message: `Pre-authorized transaction ${hash.substring(0, 8)}... not accepted (${errorClass}), retrying in ${TRANSIENT_DELAY / 1000}s`,
+        status: 'warning',
+        walletId: record.walletId
+      });
+      retry(TRANSIENT_DELAY);
+    }
+  }
+};
+
+// Submit a pre-authorized envelope once its time bounds open
+registerJobHandler('pre-auth-submit', async (payload) => {
+  const record = getAllRecords('preauth').find(r => r.id === payload.hash);
+  const owner = record ? getWalletById(record.walletId)?.owner : undefined;
+
+  // Shares the claim lanes with server-signed batches; its time bounds closing is its deadline
+  const deadline = record && record.maxTime ? record.maxTime * 1000 : null;
+  await claimQueue.enqueue(owner, `preauth:${payload.hash}`, () => submitPreAuthEnvelope(payload.hash), deadline);
+});
+
+/**
+ * Get a wallet's envelopes and which balances they cover
+ * @param {string} walletId - The wallet ID
+ * @returns {Object} The envelope records (without XDR) and coverage by balance ID
+ */
+export const getPreAuthCoverage = (walletId) => {
+  const envelopes = getAllRecords('preauth')
+    .filter(r => r.walletId === walletId)
+    .map(({ xdr, ...record }) => ({ ...record, hash: record.id }));
+
+  // A balance re-covered by a newer envelope shows the newer one
+  const coverage = {};
+  envelopes.forEach(envelope => {
+    envelope.balanceIds.forEach(balanceId => {
+      coverage[balanceId] = { hash: envelope.hash, status: envelope.status };
+    });
+  });
+
+  return { envelopes, coverage };
+};
+
+/**
+ * Drop every envelope of a wallet and cancel their submissions
+ * @param {string} walletId - The wallet ID
+ */
+export const clearPreAuthEnvelopes = (walletId) => {
+  getAllRecords('preauth')
+    .filter(r => r.walletId === walletId)
+    .forEach(record => {
+      cancelJob(`preauth:${record.id}`);
+      deleteRecord('preauth', record.id);
+    });
+};
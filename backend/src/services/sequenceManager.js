@@ -0,0 +1,96 @@
+import * as StellarSdk from 'stellar-sdk';
+import { addLog } from './logService.js';
+import { fetchSequenceNumber } from './piNetworkApi.js';
+
+// Per-account state: last sequence number known to be used and the tail of the submission queue
+const accounts = new Map();
+
+/**
+ * Get (or create) the tracked state of an account
+ * @param {string} address - The account address
+ * @returns {Object} The account state
+ */
+const getAccountState = (address) => {
+  if (!accounts.has(address)) {
+    accounts.set(address, { sequence: null, queue: Promise.resolve() });
+  }
+  return accounts.get(address);
+};
+
+/**
+ * Load the current sequence number of an account from Horizon
+ * @param {string} address - The account address
+ * @returns {Promise<bigint>} The synced sequence number
+ */
+const syncSequence = async (address) => {
+  const state = getAccountState(address);
+  state.sequence = BigInt(await fetchSequenceNumber(address));
+  return state.sequence;
+};
+
+/**
+ * Make sure an account's sequence number is known before it is needed
+ * @param {string} address - The account address
+ * @returns {Promise<string>} The current sequence number
+ */
+export const primeSequence = async (address) => {
+  const state = getAccountState(address);
+
+  // Only hit Horizon when nothing is known locally
+  if (state.sequence === null) {
+    await syncSequence(address);
+  }
+
+  return state.sequence.toString();
+};
+
+/**
+ * Run a build-and-submit step with the next sequence number of an account.
+ * Steps for the same account run one at a time, in the order they were queued.
+ * @param {string} address - The source account address
+ * @param {Function} submit - Async callback receiving a StellarSdk.Account to build from
+ * @returns {Promise<*>} Whatever the callback returns
+ */
+export const withNextSequence = (address, submit) => {
+  const state = getAccountState(address);
+
+  const run = state.queue.then(async () => {
+    // Kept locally: invalidateSequence may clear the shared state while this submission is in flight
+    const sequence = state.sequence ?? await syncSequence(address);
+    const account = new StellarSdk.Account(address, sequence.toString());
+
+    try {
+      const result = await submit(account);
+
+      // The transaction landed, so the sequence it used is consumed
+      state.sequence = BigInt(account.sequenceNumber());
+
+      return result;
+    } catch (error) {
+      // Once a built transaction has failed we can't tell locally whether it used its number
+      if (account.sequenceNumber() !== sequence.toString()) {
+        state.sequence = null;
+
+        addLog({
+          message: `Submission from ${address.substring(0, 6)}... failed, sequence will be resynced from Horizon`,
+          status: 'info'
+        });
+      }
+
+      throw error;
+    }
+  });
+
+  // Keep the queue going whether or not this step failed
+  state.queue = run.catch(() => {});
+
+  return run;
+};
+
+/**
+ * Drop the locally tracked sequence so the next submission resyncs from Horizon
+ * @param {string} address - The account address
+ */
+export const invalidateSequence = (address) => {
+  getAccountState(address).sequence = null;
+};
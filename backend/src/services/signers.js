@@ -0,0 +1,216 @@
+import http from 'http';
+import * as StellarSdk from 'stellar-sdk';
+import dotenv from 'dotenv';
+import { getWalletWithPrivateKey } from './walletService.js';
+import { isVaultUnlocked } from './keyVault.js';
+import { createKeyring, parseSecrets } from './keyring.js';
+import { recordSignatureRequest } from './signingAudit.js';
+
+// Load environment variables
+dotenv.config();
+
+// Keys for the in-memory signer, read from the environment and never written to disk
+const MEMORY_SIGNER_SECRETS = process.env.MEMORY_SIGNER_SECRETS || '';
+
+// Signing daemon address: http://127.0.0.1:7070 or unix:/path/to/signer.sock
+const SIGNER_URL = process.env.SIGNER_URL || '';
+
+// Shared secret sent to the signing daemon
+const SIGNER_TOKEN = process.env.SIGNER_TOKEN || '';
+
+// Give up on a signing daemon request after this long (milliseconds)
+const SIGNER_TIMEOUT = parseInt(process.env.SIGNER_TIMEOUT || '10000', 10);
+
+// Signer types: vault decrypts the stored key, memory uses keys from the environment,
+// daemon asks a separate process that holds the keys
+export const SIGNER_TYPES = ['vault', 'memory', 'daemon'];
+
+// Signer used by wallets that don't pick one
+export const DEFAULT_SIGNER = 'vault';
+
+/**
+ * Error raised by signers, with the HTTP status that fits it
+ */
+export class SignerError extends Error {
+  /**
+   * @param {string} message - Human-readable description
+   * @param {number} status - HTTP status for API responses
+   */
+  constructor(message, status) {
+    super(message);
+    this.name = 'SignerError';
+    this.status = status;
+  }
+}
+
+/**
+ * A signer produces signatures for the wallets that picked it.
+ * @typedef {Object} Signer
+ * @property {Function} holdReason - (wallet) => why it can't sign for the wallet right now, or null
+ * @property {Function} holdsKey - async (address) => whether it has the key of an address
+ * @property {Function} sign - async (wallet, transaction, purpose) => base64 signature of the transaction hash
+ */
+
+/** @type {Signer} Keys encrypted in the key vault, decrypted only to sign */
+const vaultSigner = {
+  holdReason: () => (isVaultUnlocked() ? null : 'key vault is locked'),
+  holdsKey: async () => isVaultUnlocked(),
+  sign: async (wallet, transaction) => {
+    const keyPair = StellarSdk.Keypair.fromSecret(getWalletWithPrivateKey(wallet.id).privateKey.trim());
+    return keyPair.sign(transaction.hash()).toString('base64');
+  }
+};
+
+// Loaded on first use so a bad secret surfaces as a signing error, not a crash at startup
+let memoryKeyring = null;
+
+const getMemoryKeyring = () => {
+  if (!memoryKeyring) {
+    memoryKeyring = createKeyring(parseSecrets(MEMORY_SIGNER_SECRETS));
+  }
+  return memoryKeyring;
+};
+
+/** @type {Signer} Keys held in process memory only */
+const memorySigner = {
+  holdReason: (wallet) => (getMemoryKeyring().has(wallet.address) ? null : 'no in-memory key for this address'),
+  holdsKey: async (address) => getMemoryKeyring().has(address),
+  sign: async (wallet, transaction) => getMemoryKeyring().sign(wallet.address, transaction.hash())
+};
+
+/**
+ * Send a request to the signing daemon
+ * @param {string} method - HTTP method
+ * @param {string} path - Request path
+ * @param {Object} [body] - JSON body
+ * @returns {Promise<Object>} The JSON response
+ */
+const daemonRequest = (method, path, body) => new Promise((resolve, reject) => {
+  if (!SIGNER_URL) {
+    reject(new SignerError('Signing daemon is not configured (set SIGNER_URL)', 503));
+    return;
+  }
+
+  const target = SIGNER_URL.startsWith('unix:')
+    ? { socketPath: SIGNER_URL.slice('unix:'.length) }
+    : { hostname: new URL(SIGNER_URL).hostname, port: new URL(SIGNER_URL).port };
+
+  const payload = body ? JSON.stringify(body) : null;
+
+  const request = http.request({
+    ...target,
+    method,
+    path,
+    timeout: SIGNER_TIMEOUT,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(SIGNER_TOKEN ? { Authorization: `Bearer ${SIGNER_TOKEN}` } : {})
+    }
+  }, (response) => {
+    let data = '';
+    response.on('data', chunk => { data += chunk; });
+    response.on('end', () => {
+      let parsed;
+      try {
+        parsed = JSON.parse(data);
+      } catch (error) {
+        reject(new SignerError(`Unreadable signing daemon response (${response.statusCode})`, 502));
+        return;
+      }
+
+      if (response.statusCode >= 400) {
+        reject(new SignerError(`Signing daemon: ${parsed.message || response.statusCode}`, 502));
+      } else {
+        resolve(parsed);
+      }
+    });
+  });
+
+  request.on('timeout', () => request.destroy(new SignerError('Signing daemon timed out', 504)));
+  request.on('error', reject);
+
+  if (payload) {
+    request.write(payload);
+  }
+  request.end();
+});
+
+/** @type {Signer} Keys held by the signing daemon, so this process never loads them */
+const daemonSigner = {
+  holdReason: () => (SIGNER_URL ? null : 'signing daemon is not configured'),
+  holdsKey: async (address) => (await daemonRequest('GET', '/keys')).addresses.includes(address),
+  sign: async (wallet, transaction, purpose) => {
+    // The daemon gets the whole envelope so it can check what it signs
+    const response = await daemonRequest('POST', '/sign', {
+      address: wallet.address,
+      walletId: wallet.id,
+      purpose,
+      xdr: transaction.toXDR()
+    });
+    return response.signature;
+  }
+};
+
+const SIGNERS = {
+  vault: vaultSigner,
+  memory: memorySigner,
+  daemon: daemonSigner
+};
+
+/**
+ * Get the signer type a wallet uses
+ * @param {Object} wallet - The wallet
+ * @returns {string} The signer type
+ */
+export const getSignerType = (wallet) => wallet.signer || DEFAULT_SIGNER;
+
+/**
+ * Why a wallet's signer can't sign right now (e.g. the vault is locked)
+ * @param {Object} wallet - The wallet
+ * @returns {string|null} The reason, or null if it can sign
+ */
+export const getSigningHold = (wallet) => SIGNERS[getSignerType(wallet)].holdReason(wallet);
+
+/**
+ * Check that a signer has the key of an address before a wallet is set up to use it
+ * @param {string} type - The signer type
+ * @param {string} address - The wallet address
+ */
+export const verifySignerHoldsKey = async (type, address) => {
+  if (!(await SIGNERS[type].holdsKey(address))) {
+    throw new SignerError(`The ${type} signer has no key for this address`, 400);
+  }
+};
+
+/**
+ * Sign a transaction (or fee-bump) with a wallet's signer and audit the request
+ * @param {Object} wallet - The wallet whose key signs
+ * @param {StellarSdk.Transaction|StellarSdk.FeeBumpTransaction} transaction - The transaction, signed in place
+ * @param {string} purpose - What the signature is for (e.g. claim, fee-bump)
+ */
+export const signWithWallet = async (wallet, transaction, purpose) => {
+  const type = getSignerType(wallet);
+  const audit = {
+    walletId: wallet.id,
+    address: wallet.address,
+    signer: type,
+    purpose,
+    hash: transaction.hash().toString('hex')
+  };
+
+  try {
+    const signature = await SIGNERS[type].sign(wallet, transaction, purpose);
+
+    // Checks the signature against the wallet address, so a wrong key never reaches the network
+    try {
+      transaction.addSignature(wallet.address, signature);
+    } catch (error) {
+      throw new SignerError(`The ${type} signer returned a signature that doesn't match ${wallet.address}`, 502);
+    }
+
+    recordSignatureRequest({ ...audit, outcome: 'signed' });
+  } catch (error) {
+    recordSignatureRequest({ ...audit, outcome: 'failed', error: error.message });
+    throw error;
+  }
+};
@@ -0,0 +1,57 @@
+import { v4 as uuidv4 } from 'uuid';
+import dotenv from 'dotenv';
+import { logError } from './logService.js';
+import { getAllRecords, putRecord, deleteRecord } from './storage.js';
+
+// Load environment variables
+dotenv.config();
+
+// Maximum number of signature requests kept in the audit trail
+const SIGNING_AUDIT_MAX = parseInt(process.env.SIGNING_AUDIT_MAX || '1000', 10);
+
+/**
+ * Record a signature request and its outcome
+ * @param {Object} entry - The request
+ * @param {string} entry.walletId - The wallet whose key was asked to sign
+ * @param {string} entry.address - The signing address
+ * @param {string} entry.signer - The signer type
+ * @param {string} entry.purpose - What the signature is for (e.g. claim, fee-bump)
+ * @param {string} entry.hash - The transaction hash
+ * @param {string} entry.outcome - 'signed' or 'failed'
+ * @param {string} [entry.error] - Why signing failed
+ * @returns {Object} The audit record
+ */
+export const recordSignatureRequest = (entry) => {
+  const record = {
+    id: uuidv4(),
+    timestamp: new Date().toISOString(),
+    ...entry
+  };
+
+  try {
+    putRecord('signing_audit', record.id, record);
+
+    // Records come back in insertion order, so the oldest are dropped first
+    const records = getAllRecords('signing_audit');
+    records.slice(0, Math.max(0, records.length - SIGNING_AUDIT_MAX))
+      .forEach(r => deleteRecord('signing_audit', r.id));
+  } catch (error) {
+    logError('Error recording signature request', error, entry.walletId);
+  }
+
+  return record;
+};
+
+/**
+ * Get recorded signature requests, newest first
+ * @param {Object} [filter] - Optional filters
+ * @param {string} [filter.walletId] - Only requests for this wallet
+ * @param {number} [filter.limit] - Maximum number of records (default 100)
+ * @returns {Array} The audit records
+ */
+export const getSigningAudit = ({ walletId, limit = 100 } = {}) => {
+  return getAllRecords('signing_audit')
+    .filter(r => !walletId || r.walletId === walletId)
+    .reverse()
+    .slice(0, limit);
+};
@@ -0,0 +1,55 @@
+import * as StellarSdk from 'stellar-sdk';
+
+/**
+ * Parse the destination each claim wallet pays out to
+ * @param {string} [value] - ADDRESS=DESTINATION pairs separated by commas, spaces or newlines
+ * @returns {Map<string, string>} Wallet address -> destination address
+ */
+export const parseDestinations = (value) => {
+  const destinations = new Map();
+
+  for (const pair of (value || '').split(/[\s,]+/).filter(Boolean)) {
+    const [address, destination] = pair.split('=').map(s => s.trim());
+    if (!StellarSdk.StrKey.isValidEd25519PublicKey(address || '') || !StellarSdk.StrKey.isValidEd25519PublicKey(destination || '')) {
+      throw new Error(`Invalid destination entry "${pair}", expected ADDRESS=DESTINATION`);
+    }
+    destinations.set(address, destination);
+  }
+
+  return destinations;
+};
+
+/**
+ * Check that an envelope only claims balances and pays them to the wallet's destination
+ * @param {StellarSdk.Transaction|StellarSdk.FeeBumpTransaction} transaction - The parsed envelope
+ * @param {Map<string, string>} destinations - Wallet address -> destination address
+ * @returns {string|null} Why the envelope may not be signed, or null if it may
+ */
+export const getEnvelopeRefusal = (transaction, destinations) => {
+  // A fee-bump only pays the fee; what it commits to is the claim inside it
+  const inner = transaction instanceof StellarSdk.FeeBumpTransaction ? transaction.innerTransaction : transaction;
+
+  const destination = destinations.get(inner.source);
+  if (!destination) {
+    return `No destination configured for ${inner.source}`;
+  }
+
+  const operations = inner.operations;
+  const payment = operations[operations.length - 1];
+  const claims = operations.slice(0, -1);
+
+  // Operations sourced from another account would spend from it under this signature
+  if (operations.some(op => op.source && op.source !== inner.source)) {
+    return 'Envelope has operations sourced from another account';
+  }
+
+  if (claims.length === 0 || !claims.every(op => op.type === 'claimClaimableBalance')) {
+    return 'Envelope must claim balances before its payment';
+  }
+
+  if (payment.type !== 'payment' || !payment.asset.isNative() || payment.destination !== destination) {
+    return `Envelope must end with a Pi payment to ${destination}`;
+  }
+
+  return null;
+};
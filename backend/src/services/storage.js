@@ -0,0 +1,223 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// Directory for files the server keeps across restarts
+const DATA_DIR = process.env.DATA_DIR || 'data';
+
+// Append-only journal holding every collection
+const JOURNAL_FILE = path.resolve(DATA_DIR, 'store.jsonl');
+
+// Rewrite the journal as a snapshot once this many entries pile up after the last one
+const COMPACT_AFTER = parseInt(process.env.STORE_COMPACT_AFTER || '5000', 10);
+
+// Schema migrations, applied in order to stores written by older versions
+const MIGRATIONS = [
+  {
+    version: 1,
+    description: 'Create wallet, balance, log and job collections',
+    up: (state) => {
+      for (const name of ['wallets', 'balances', 'logs', 'jobs']) {
+        getCollection(state, name);
+      }
+    }
+  },
+  {
+    version: 2,
+    description: 'Import scheduled jobs from scheduled-jobs.json',
+    up: (state) => {
+      const legacyFile = path.resolve(DATA_DIR, 'scheduled-jobs.json');
+      if (!fs.existsSync(legacyFile)) return;
+
+      const jobs = getCollection(state, 'jobs');
+      JSON.parse(fs.readFileSync(legacyFile, 'utf8')).forEach(job => jobs.set(job.id, job));
+      fs.renameSync(legacyFile, `${legacyFile}.migrated`);
+    }
+  }
+];
+
+// Schema version written by this code
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Loaded store: schema version, collections by name and journal entries since the last snapshot
+let store = null;
+
+/**
+ * Get (or create) a collection of the store
+ * @param {Object} state - The store state
+ * @param {string} name - The collection name
+ * @returns {Map} Records of the collection by ID
+ */
+const getCollection = (state, name) => {
+  if (!state.collections.has(name)) {
+    state.collections.set(name, new Map());
+  }
+  return state.collections.get(name);
+};
+
+/**
+ * Apply one journal entry to the store state
+ * @param {Object} state - The store state
+ * @param {Object} entry - The journal entry
+ */
+const applyEntry = (state, entry) => {
+  if (entry.op === 'schema') {
+    state.version = entry.version;
+  } else if (entry.op === 'put') {
+    getCollection(state, entry.collection).set(entry.id, entry.value);
+  } else if (entry.op === 'delete') {
+    getCollection(state, entry.collection).delete(entry.id);
+  } else if (entry.op === 'clear') {
+    getCollection(state, entry.collection).clear();
+  } else if (entry.op === 'batch') {
+    entry.entries.forEach(child => applyEntry(state, child));
+  }
+};
+
+/**
+ * Replay the journal into memory
+ * @returns {Object} The store state
+ */
+const replayJournal = () => {
+  const state = { version: 0, collections: new Map(), pending: 0, damaged: false };
+
+  if (!fs.existsSync(JOURNAL_FILE)) {
+    return state;
+  }
+
+  const lines = fs.readFileSync(JOURNAL_FILE, 'utf8').split('\n').filter(Boolean);
+
+  lines.forEach((line, index) => {
+    try {
+      applyEntry(state, JSON.parse(line));
+      state.pending++;
+    } catch (error) {
+      // A crash mid-append can leave a torn last line; anything else is worth flagging too
+      console.error(`Skipping unreadable store journal line ${index + 1}:`, error.message);
+      state.damaged = true;
+    }
+  });
+
+  return state;
+};
+
+/**
+ * Rewrite the journal as a snapshot of the current state, dropping every superseded entry
+ * (call it after overwriting secrets so their old values don't stay on disk)
+ */
+export const compact = () => {
+  const state = getStore();
+  const lines = [JSON.stringify({ op: 'schema', version: state.version })];
+
+  state.collections.forEach((records, collection) => {
+    records.forEach((value, id) => {
+      lines.push(JSON.stringify({ op: 'put', collection, id, value }));
+    });
+  });
+
+  // Write to a temporary file first so a crash never leaves a half-written journal
+  const tmpFile = `${JOURNAL_FILE}.tmp`;
+  fs.mkdirSync(path.dirname(JOURNAL_FILE), { recursive: true });
+  fs.writeFileSync(tmpFile, `${lines.join('\n')}\n`);
+  fs.renameSync(tmpFile, JOURNAL_FILE);
+
+  state.pending = 0;
+};
+
+/**
+ * Load the store on first use and bring its schema up to date
+ * @returns {Object} The store state
+ */
+const getStore = () => {
+  if (store) return store;
+
+  store = replayJournal();
+
+  if (store.version > SCHEMA_VERSION) {
+    throw new Error(`Store schema version ${store.version} is newer than this server supports (${SCHEMA_VERSION})`);
+  }
+
+  const pendingMigrations = MIGRATIONS.filter(m => m.version > store.version);
+
+  for (const migration of pendingMigrations) {
+    console.log(`Migrating store to schema version ${migration.version}: ${migration.description}`);
+    migration.up(store);
+    store.version = migration.version;
+  }
+
+  // Rewrite the journal after migrating, or so new entries don't get appended to a torn line
+  if (pendingMigrations.length > 0 || store.damaged) {
+    compact();
+  }
+
+  return store;
+};
+
+/**
+ * Append an entry to the journal and apply it
+ * @param {Object} entry - The journal entry
+ */
+const append = (entry) => {
+  const state = getStore();
+  applyEntry(state, entry);
+
+  fs.mkdirSync(path.dirname(JOURNAL_FILE), { recursive: true });
+  fs.appendFileSync(JOURNAL_FILE, `${JSON.stringify(entry)}\n`);
+  state.pending++;
+
+  if (state.pending > COMPACT_AFTER) {
+    compact();
+  }
+};
+
+/**
+ * Get every record of a collection
+ * @param {string} collection - The collection name
+ * @returns {Array} The stored records, in insertion order
+ */
+export const getAllRecords = (collection) => {
+  return Array.from(getCollection(getStore(), collection).values());
+};
+
+/**
+ * Store a record, replacing any record with the same ID
+ * @param {string} collection - The collection name
+ * @param {string} id - The record ID
+ * @param {Object} value - The record (must be JSON serializable)
+ */
+export const putRecord = (collection, id, value) => {
+  // Round-trip through JSON so the in-memory copy matches what a restart reads back
+  append({ op: 'put', collection, id, value: JSON.parse(JSON.stringify(value)) });
+};
+
+/**
+ * Delete a record
+ * @param {string} collection - The collection name
+ * @param {string} id - The record ID
+ */
+export const deleteRecord = (collection, id) => {
+  if (!getCollection(getStore(), collection).has(id)) return;
+  append({ op: 'delete', collection, id });
+};
+
+/**
+ * Delete every record of a collection
+ * @param {string} collection - The collection name
+ */
+export const clearCollection = (collection) => {
+  append({ op: 'clear', collection });
+};
+
+/**
+ * Store several records at once; a crash leaves either all of them or none
+ * @param {Array<{collection: string, id: string, value: Object}>} records - The records to store
+ */
+export const putRecords = (records) => {
+  append({
+    op: 'batch',
+    entries: records.map(({ collection, id, value }) => ({ op: 'put', collection, id, value: JSON.parse(JSON.stringify(value)) }))
+  });
+};
@@ -0,0 +1,79 @@
+import * as StellarSdk from 'stellar-sdk';
+import dotenv from 'dotenv';
+import { fetchTransaction, getTransactionHash } from './piNetworkApi.js';
+
+// Load environment variables
+dotenv.config();
+
+// Pi Network passphrase
+const NETWORK_PASSPHRASE = process.env.PI_NETWORK_PASSPHRASE || 'Pi Network';
+
+// Map of claim key (batch ID) to the last envelope submitted for it
+const submissions = new Map();
+
+/**
+ * Remember a signed envelope before submitting it
+ * @param {string} key - The claim key (batch ID)
+ * @param {StellarSdk.Transaction|StellarSdk.FeeBumpTransaction} envelope - The signed envelope
+ * @param {Object} [details] - Extra data needed to report the claim once it lands
+ * @returns {string} The transaction hash
+ */
+export const trackSubmission = (key, envelope, details = {}) => {
+  const xdr = envelope.toXDR();
+  const hash = getTransactionHash(xdr);
+
+  // Time bounds live on the inner transaction of a fee-bump
+  const tx = envelope instanceof StellarSdk.FeeBumpTransaction ? envelope.innerTransaction : envelope;
+  const maxTime = tx.timeBounds && tx.timeBounds.maxTime !== '0'
+    ? new Date(parseInt(tx.timeBounds.maxTime, 10) * 1000)
+    : null;
+
+  submissions.set(key, { hash, xdr, maxTime, details, submittedAt: new Date() });
+
+  return hash;
+};
+
+/**
+ * Check whether a claim has a submission whose outcome is still unknown
+ * @param {string} key - The claim key (batch ID)
+ * @returns {boolean} True if an envelope is being tracked
+ */
+export const hasTrackedSubmission = (key) => {
+  return submissions.has(key);
+};
+
+/**
+ * Stop tracking a claim's submission
+ * @param {string} key - The claim key (batch ID)
+ */
+export const forgetSubmission = (key) => {
+  submissions.delete(key);
+};
+
+/**
+ * Find out what happened to the last envelope submitted for a claim
+ * @param {string} key - The claim key (batch ID)
+ * @returns {Promise<Object>} state: 'none' | 'landed' | 'failed' | 'pending' | 'expired', plus the submission and ledger record
+ */
+export const checkTrackedSubmission = async (key) => {
+  const submission = submissions.get(key);
+  if (!submission) {
+    return { state: 'none' };
+  }
+
+  const record = await fetchTransaction(submission.hash);
+
+  if (record) {
+    // It made it into a ledger either way, so the envelope can't be used again
+    submissions.delete(key);
+    return { state: record.successful ? 'landed' : 'failed', submission, record };
+  }
+
+  // Not in a ledger; it can still land (or be resubmitted) until its time bounds expire
+  if (!submission.maxTime || submission.maxTime.getTime() > Date.now()) {
+    return { state: 'pending', submission };
+  }
+
+  submissions.delete(key);
+  return { state: 'expired', submission };
+};
@@ -0,0 +1,113 @@
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// Claim transactions built and submitted at once, across all tenants
+const CLAIM_CONCURRENCY = parseInt(process.env.CLAIM_CONCURRENCY || '4', 10);
+
+// Balance checks (Horizon scans) run at once, across all tenants
+const BALANCE_CHECK_CONCURRENCY = parseInt(process.env.BALANCE_CHECK_CONCURRENCY || '2', 10);
+
+// Lane for wallets without an owner (added by server-wide tokens)
+const SERVER_LANE = '';
+
+/**
+ * Create a queue that runs tasks round-robin across tenants, so a tenant with
+ * hundreds of queued tasks only ever gets every other free slot. Tasks whose
+ * claim window closes sooner go first, within a tenant and across tenants;
+ * tasks with the same deadline (or none) keep the round-robin order.
+ * @param {string} name - Queue name, for stats
+ * @param {number} concurrency - Tasks running at once
+ * @returns {Object} The queue
+ */
+const createFairQueue = (name, concurrency) => {
+  // Tenant -> waiting tasks, soonest deadline first; Map order is the round-robin order
+  const lanes = new Map();
+
+  // Task key -> promise, so a task already waiting or running isn't queued twice
+  const pending = new Map();
+
+  let running = 0;
+
+  const pump = () => {
+    while (running < concurrency && lanes.size > 0) {
+      // Take from the tenant whose next task's deadline is soonest (the front one on a tie), then send it to the back
+      let [tenant, lane] = lanes.entries().next().value;
+      for (const [candidate, candidateLane] of lanes) {
+        if (candidateLane[0].deadline < lane[0].deadline) {
+          [tenant, lane] = [candidate, candidateLane];
+        }
+      }
+      const item = lane.shift();
+      lanes.delete(tenant);
+      if (lane.length > 0) {
+        lanes.set(tenant, lane);
+      }
+
+      running++;
+      Promise.resolve()
+        .then(item.task)
+        .then(item.resolve, item.reject)
+        .finally(() => {
+          running--;
+          pending.delete(item.key);
+          pump();
+        });
+    }
+  };
+
+  return {
+    /**
+     * Queue a task in its tenant's lane
+     * @param {string} [tenant] - The owning tenant
+     * @param {string} key - Identifies the task; queuing a key already waiting or running returns its promise
+     * @param {Function} task - async () => result
+     * @param {Date|string|number|null} [deadline] - When the task's claim window closes; sooner deadlines run first
+     * @returns {Promise} Settles with the task
+     */
+    enqueue: (tenant, key, task, deadline = null) => {
+      if (pending.has(key)) return pending.get(key);
+
+      const lane = tenant || SERVER_LANE;
+      const promise = new Promise((resolve, reject) => {
+        if (!lanes.has(lane)) {
+          lanes.set(lane, []);
+        }
+
+        // After every task due no later, so equal deadlines stay first come, first served
+        const item = { key, task, resolve, reject, deadline: deadline ? new Date(deadline).getTime() : Infinity };
+        const waiting = lanes.get(lane);
+        const index = waiting.findIndex(other => other.deadline > item.deadline);
+        waiting.splice(index === -1 ? waiting.length : index, 0, item);
+      });
+
+      pending.set(key, promise);
+      pump();
+      return promise;
+    },
+
+    /**
+     * Get how busy the queue is
+     * @returns {Object} Running count and waiting tasks per tenant
+     */
+    stats: () => ({
+      name,
+      concurrency,
+      running,
+      waiting: Object.fromEntries(Array.from(lanes, ([tenant, lane]) => [tenant || 'server', lane.length]))
+    })
+  };
+};
+
+// Claims (server-signed batches and pre-authorized envelopes)
+export const claimQueue = createFairQueue('claims', CLAIM_CONCURRENCY);
+
+// Claimable balance scans
+export const balanceCheckQueue = createFairQueue('balance-checks', BALANCE_CHECK_CONCURRENCY);
+
+/**
+ * Get the state of the tenant queues
+ * @returns {Array} Stats for each queue
+ */
+export const getQueueStats = () => [claimQueue.stats(), balanceCheckQueue.stats()];
@@ -3,8 +3,29 @@ import * as StellarSdk from 'stellar-sdk';
 import { v4 as uuidv4 } from 'uuid';
 import dotenv from 'dotenv';
 import { addLog, logError } from './logService.js';
-import { getWalletWithPrivateKey } from './walletService.js';
-import { fetchClaimableBalances, fetchSequenceNumber, submitTransaction } from './piNetworkApi.js';
+import { getWallets, getWalletById, restoreWallets } from './walletService.js';
+import { onVaultUnlocked } from './keyVault.js';
+import { getSigningHold, signWithWallet } from './signers.js';
+import { fetchClaimableBalances, fetchClaimableBalance, submitTransaction } from './piNetworkApi.js';
+import { openEffectStream } from './horizonStream.js';
+import { getDesiredCadence, allocatePollBudget } from './pollCadence.js';
+import { planTransferAmount } from './amountPlanner.js';
+import { wrapWithFeeBump, refreshSponsorBalance } from './feeSponsor.js';
+import { selectFee, formatFee } from './feePolicy.js';
+import { planBatches, sumAmounts } from './batchPlanner.js';
+import { primeSequence, withNextSequence, invalidateSequence } from './sequenceManager.js';
+import { getClaimWindows, nextClaimableTime, getClaimDeadline } from './claimPredicate.js';
+import { getDeadlineLevel, isEscalation, compareByDeadline, retryDelayBeforeDeadline } from './claimDeadline.js';
+import { HorizonSubmissionError, RETRY_POLICIES, getRetryPolicy, describeResultCodes } from './horizonErrors.js';
+import { registerJobHandler, scheduleJob, cancelJob, loadScheduledJobs, startJobScheduler } from './jobScheduler.js';
+import { getAllRecords, putRecord, deleteRecord } from './storage.js';
+import { trackSubmission, hasTrackedSubmission, forgetSubmission, checkTrackedSubmission } from './submissionTracker.js';
+import { claimQueue, balanceCheckQueue } from './tenantScheduler.js';
+import { recordClaim } from './claimHistory.js';
+import { resolveVanishedBalance } from './balanceReconciliation.js';
+import { isServerExecutor, onExecutionModeChanged } from './executionMode.js';
+import { SERVER_HOLDER_ID, acquireLease, releaseLease, findBalanceLease } from './claimLeases.js';
+import { BalanceStatusError, transitionBalance, getBalanceStatus, clearBalanceStatus, clearWalletStatuses } from './balanceStatus.js';
 
 // Load environment variables
 dotenv.config();
@@ -16,30 +37,241 @@ const NETWORK_PASSPHRASE = process.env.PI_NETWORK_PASSPHRASE || 'Pi Network';
 const SEQUENCE_PREP_TIME = 2000; // 2 seconds before unlock
 const SUBMIT_AFTER_UNLOCK = 5; // Exactly 5 milliseconds after unlock
 
-// Map to store active monitoring tasks
+// Minimum fee per operation for inner transactions wrapped in a fee-bump
+const INNER_TRANSACTION_FEE = StellarSdk.BASE_FEE;
+
+// Longest interval between polls of a wallet without a live effect stream (milliseconds)
+const POLL_INTERVAL_MS = parseInt(process.env.POLL_INTERVAL_MS || '120000', 10);
+
+// Map of wallet ID to its effect stream subscription
 const monitoringTasks = new Map();
 
-// Map to store claiming tasks
-const claimingTasks = new Map();
+// Map of wallet ID to when its balances were last polled (milliseconds)
+const lastPolledAt = new Map();
+
+// Map of batch ID to the batch of balances claimed in one transaction
+const claimBatchesMap = new Map();
+
+// Map of batch ID to number of tx_insufficient_fee results so far
+const feeBumpLevels = new Map();
 
-// Map to store pre-fetched sequence numbers
-const sequenceCache = new Map();
+// Map of batch ID to number of tx_insufficient_balance results in a row, for backing off until the fee payer is topped up
+const feeFundingAttempts = new Map();
 
-// Claimable balances storage
+// Wait after a fee payer couldn't cover the fee, doubled per attempt up to the cap (milliseconds)
+const FEE_FUNDING_RETRY_DELAY = 120000;
+const FEE_FUNDING_RETRY_MAX_DELAY = 30 * 60 * 1000;
+
+// Claimable balances by ID (discovered fields are also kept in the store)
 let claimableBalancesMap = new Map();
 
+// IDs of balances the wallet can never claim (already reported once)
+const unclaimableBalanceIds = new Set();
+
+// Map of balance ID to the most urgent deadline warning logged so far
+const deadlineWarnings = new Map();
+
 /**
  * Initialize wallet monitoring on server start
  */
 export const initWalletMonitoring = async () => {
-  // Future enhancement: load wallets from database
   addLog({
     message: 'Initializing wallet monitoring service',
     status: 'info'
   });
   
-  // Set up periodic check task (every 2 minutes)
-  cron.schedule('*/2 * * * *', checkAllWallets);
+  // Jobs are loaded first so rescheduled batches replace their saved jobs instead of duplicating them
+  loadScheduledJobs();
+  
+  // Reload saved wallets and resume monitoring them
+  await restoreWallets();
+  
+  // Poll the wallets that are due, each at its own cadence (every 5 seconds)
+  cron.schedule('*/5 * * * * *', checkAllWallets);
+  
+  // Keep fee sponsor balances fresh for low-funds warnings (every 5 minutes)
+  cron.schedule('*/5 * * * *', refreshAllSponsors);
+  
+  // Warn about claim windows that are about to close (every minute)
+  cron.schedule('* * * * *', checkClaimDeadlines);
+  
+  // Arm claim jobs, including those saved before the last shutdown
+  startJobScheduler();
+};
+
+/**
+ * Find the wallet and batch a claim job refers to
+ * @param {Object} payload - The job payload
+ * @returns {Object} The wallet (if still monitored) and batch (if still planned)
+ */
+const resolveClaimJob = (payload) => {
+  const wallet = monitoringTasks.has(payload.walletId) ? getWalletById(payload.walletId) : null;
+  const batch = claimBatchesMap.get(payload.batchId) || null;
+  return { wallet, batch };
+};
+
+// Claim a batch of balances
+registerJobHandler('claim-batch', async (payload) => {
+  const { wallet, batch } = resolveClaimJob(payload);
+  
+  if (!wallet) {
+    addLog({
+      message: `Dropping claim job for ${payload.batchId}: wallet is no longer monitored`,
+      status: 'warning',
+      walletId: payload.walletId
+    });
+    return;
+  }
+  
+  // Planned batches don't survive a restart; rediscovering the balances plans and schedules them again
+  if (!batch) {
+    await queueBalanceCheck(wallet);
+    return;
+  }
+  
+  // Claims wait their turn behind other tenants' so no owner's backlog starves the rest
+  await claimQueue.enqueue(wallet.owner, batch.id, () => processClaimBatch(batch, wallet), batch.claimDeadline);
+});
+
+// Fetch the sequence number just before a batch unlocks
+registerJobHandler('prime-sequence', async (payload) => {
+  const { wallet, batch } = resolveClaimJob(payload);
+  if (!wallet) return;
+  
+  try {
+    if (batch) {
+      setBatchStatus(batch, 'fetching_sequence');
+    }
+    
+    addLog({
+      message: `Pre-fetching sequence number for wallet: ${wallet.address.substring(0, 6)}...`,
+      status: 'info',
+      walletId: wallet.id
+    });
+    
+    const sequence = await primeSequence(wallet.address);
+    
+    addLog({
+      message: `Sequence number ready: ${sequence}`,
+      status: 'info',
+      walletId: wallet.id
+    });
+  } catch (error) {
+    logError('Error pre-fetching sequence number', error, wallet.id);
+  }
+  
+  // Back to waiting for the unlock, unless the claim already started
+  if (batch && !batch.isProcessing) {
+    setBatchStatus(batch, 'waiting', `Unlocks ${new Date(batch.unlockTime).toLocaleString()}`);
+  }
+});
+
+/**
+ * Regroup and reschedule the batches of every monitored wallet
+ */
+const rescheduleAllWallets = () => {
+  for (const walletId of Array.from(monitoringTasks.keys())) {
+    const wallet = getWalletById(walletId);
+    if (wallet) {
+      scheduleWalletBatches(wallet);
+    }
+  }
+};
+
+// Claims held while the vault was locked go out as soon as it is unlocked
+onVaultUnlocked(rescheduleAllWallets);
+
+// Batches skipped while the browser was the executor are claimed once the server takes over again
+onExecutionModeChanged((mode, previousMode) => {
+  if (previousMode === 'browser') {
+    rescheduleAllWallets();
+  }
+});
+
+/**
+ * Schedule a claim attempt for a batch
+ * @param {Object} batch - The batch of claimable balances
+ * @param {Object} wallet - The wallet
+ * @param {number} delay - Milliseconds from now
+ */
+const scheduleClaimJob = (batch, wallet, delay) => {
+  scheduleJob({
+    id: batch.id,
+    type: 'claim-batch',
+    runAt: Date.now() + delay,
+    payload: { batchId: batch.id, walletId: wallet.id, balanceIds: batch.balances.map(b => b.id) }
+  });
+};
+
+/**
+ * Move a balance to a new status
+ * @param {Object} balance - The monitored balance
+ * @param {string} status - The status to move to
+ * @param {string} [message] - What the balance is waiting for or why it failed
+ * @param {Object} [resolution] - Who took a vanished balance
+ */
+const setBalanceStatus = (balance, status, message, resolution) => {
+  try {
+    transitionBalance(balance, status, message, resolution);
+  } catch (error) {
+    // A refused transition means the balance already moved on (e.g. it was claimed); the claim itself is unaffected
+    console.warn(error.message);
+  }
+};
+
+/**
+ * Move every balance of a batch to a new status
+ * @param {Object} batch - The batch of claimable balances
+ * @param {string} status - The status to move to
+ * @param {string} [message] - What the batch is waiting for or why it failed
+ */
+const setBatchStatus = (batch, status, message) => {
+  batch.balances.forEach(balance => setBalanceStatus(balance, status, message));
+};
+
+/**
+ * Log escalating warnings for balances whose claim deadline is near
+ */
+const checkClaimDeadlines = () => {
+  const now = new Date();
+  
+  for (const balance of Array.from(claimableBalancesMap.values())) {
+    const level = getDeadlineLevel(balance.claimDeadline, now);
+    
+    if (!isEscalation(level, deadlineWarnings.get(balance.id))) continue;
+    deadlineWarnings.set(balance.id, level);
+    
+    if (level === 'expired') {
+      setBalanceStatus(balance, 'failed', 'Claim window closed');
+      
+      addLog({
+        message: `Claim window closed for balance of ${balance.amount} Pi before it was claimed; the funds can no longer be claimed by this wallet`,
+        status: 'error',
+        walletId: balance.walletId
+      });
+      
+      // Nothing left to submit for it
+      removeClaimableBalance(balance.id);
+      continue;
+    }
+    
+    addLog({
+      message: `Claim deadline ${level}: balance of ${balance.amount} Pi must be claimed within ${formatTimeRemaining(new Date(balance.claimDeadline).getTime() - now.getTime())} (by ${new Date(balance.claimDeadline).toLocaleString()})`,
+      status: level === 'notice' ? 'info' : level === 'warning' ? 'warning' : 'error',
+      walletId: balance.walletId
+    });
+  }
+};
+
+/**
+ * Refresh the balances of all fee sponsor wallets
+ */
+const refreshAllSponsors = async () => {
+  const sponsors = getWallets().filter(w => w.type === 'fee_sponsor');
+  
+  for (const sponsor of sponsors) {
+    await refreshSponsorBalance(sponsor);
+  }
 };
 
 /**
@@ -55,12 +287,30 @@ export const startMonitoring = async (wallet) => {
       walletId: wallet.id
     });
     
+    // Balances given up on earlier get another chance once monitoring restarts
+    claimableBalancesMap.forEach(b => {
+      if (b.walletId === wallet.id) {
+        delete b.gaveUp;
+      }
+    });
+    
+    // Balances found before the last shutdown are scheduled even if Horizon is unreachable
+    restoreWalletBalances(wallet);
+    
     // Immediately check for claimable balances
-    await checkWalletClaimableBalances(wallet);
+    const foundNew = await checkWalletClaimableBalances(wallet);
+    
+    // Restored balances still need batches when the check found nothing new
+    if (!foundNew) {
+      scheduleWalletBatches(wallet);
+    }
     
-    // Create a task for this wallet and store it in the map
-    const task = cron.schedule('*/5 * * * *', async () => {
-      await checkWalletClaimableBalances(wallet);
+    // New lockups arrive on the wallet's effect stream; polling covers the gaps while it is down
+    const task = openEffectStream({
+      address: wallet.address,
+      cursor: getStreamCursor(wallet.id),
+      onEffect: (effect, cursor) => handleWalletEffect(wallet.id, effect, cursor),
+      onStatusChange: (live) => handleStreamStatus(wallet.id, live)
     });
     
     monitoringTasks.set(wallet.id, task);
@@ -75,6 +325,103 @@ export const startMonitoring = async (wallet) => {
   }
 };
 
+/**
+ * Get the paging token a wallet's effect stream resumes after
+ * @param {string} walletId - The wallet ID
+ * @returns {string|undefined} The saved cursor, if any
+ */
+const getStreamCursor = (walletId) => {
+  const record = getAllRecords('stream_cursors').find(r => r.id === walletId);
+  return record ? record.cursor : undefined;
+};
+
+/**
+ * React to an effect on a monitored wallet's account
+ * @param {string} walletId - The wallet ID
+ * @param {Object} effect - The Horizon effect record
+ * @param {string} cursor - The effect's paging token
+ */
+const handleWalletEffect = (walletId, effect, cursor) => {
+  putRecord('stream_cursors', walletId, { id: walletId, cursor });
+  
+  const wallet = monitoringTasks.has(walletId) ? getWalletById(walletId) : null;
+  if (!wallet || effect.type !== 'claimable_balance_claimant_created') return;
+  
+  addLog({
+    message: `New lockup of ${effect.amount} Pi seen on the effect stream for wallet: ${wallet.address.substring(0, 6)}...`,
+    status: 'info',
+    walletId
+  });
+  
+  // Not awaited: a check waiting for its turn must not stop the stream from being read
+  balanceCheckQueue.enqueue(wallet.owner, `${walletId}:${effect.balance_id}`, () => checkClaimableBalance(wallet, effect.balance_id))
+    .catch(error => logError(`Error checking streamed balance ${effect.balance_id}`, error, walletId));
+};
+
+/**
+ * Log when a wallet's effect stream goes down or comes back
+ * @param {string} walletId - The wallet ID
+ * @param {boolean} live - Whether effects are arriving
+ */
+const handleStreamStatus = (walletId, live) => {
+  if (!monitoringTasks.has(walletId)) return;
+  
+  addLog({
+    message: live
+      ? 'Effect stream connected: new lockups are picked up as they happen'
+      : `Effect stream down, polling at least every ${formatTimeRemaining(POLL_INTERVAL_MS)} until it reconnects`,
+    status: live ? 'info' : 'warning',
+    walletId
+  });
+  
+  // Catch up on whatever the stream missed while it was down
+  if (!live) {
+    lastPolledAt.delete(walletId);
+  }
+};
+
+/**
+ * Reload a wallet's saved balances into the monitored set
+ * @param {Object} wallet - The wallet
+ */
+const restoreWalletBalances = (wallet) => {
+  try {
+    const saved = getAllRecords('balances').filter(b => b.walletId === wallet.id && !claimableBalancesMap.has(b.id));
+    
+    for (const record of saved) {
+      // Dates come back from the store as strings
+      claimableBalancesMap.set(record.id, {
+        ...record,
+        claimWindows: record.claimWindows.map(w => ({
+          start: w.start ? new Date(w.start) : null,
+          end: w.end ? new Date(w.end) : null
+        })),
+        unlockTime: new Date(record.unlockTime),
+        claimDeadline: record.claimDeadline ? new Date(record.claimDeadline) : null
+      });
+    }
+    
+    if (saved.length > 0) {
+      addLog({
+        message: `Restored ${saved.length} claimable balance(s) from storage`,
+        status: 'info',
+        walletId: wallet.id
+      });
+    }
+  } catch (error) {
+    logError('Error restoring claimable balances', error, wallet.id);
+  }
+};
+
+/**
+ * Save a discovered balance to the store
+ * @param {Object} balance - The claimable balance
+ */
+const storeClaimableBalance = (balance) => {
+  const { id, amount, claimWindows, unlockTime, claimDeadline, walletId } = balance;
+  putRecord('balances', id, { id, amount, claimWindows, unlockTime, claimDeadline, walletId });
+};
+
 /**
  * Stop monitoring a wallet
  * @param {string} walletId - The wallet ID to stop monitoring
@@ -88,12 +435,23 @@ export const stopMonitoring = async (walletId) => {
       monitoringTasks.delete(walletId);
       
       // Also stop any active claiming tasks
-      const claimTask = claimingTasks.get(walletId);
-      if (claimTask) {
-        clearTimeout(claimTask);
-        claimingTasks.delete(walletId);
+      for (const batch of Array.from(claimBatchesMap.values())) {
+        if (batch.walletId === walletId) {
+          cancelBatchTasks(batch.id);
+          forgetSubmission(batch.id);
+          claimBatchesMap.delete(batch.id);
+        }
       }
       
+      clearWalletStatuses(walletId);
+      lastPolledAt.delete(walletId);
+      deleteRecord('stream_cursors', walletId);
+      
+      // Nothing will restore this wallet's balances again
+      getAllRecords('balances')
+        .filter(b => b.walletId === walletId)
+        .forEach(b => deleteRecord('balances', b.id));
+      
       addLog({
         message: 'Wallet monitoring stopped',
         status: 'info',
@@ -106,33 +464,162 @@ export const stopMonitoring = async (walletId) => {
 };
 
 /**
- * Check claimable balances for all wallets
+ * Get the soonest future unlock among a wallet's monitored balances
+ * @param {string} walletId - The wallet ID
+ * @param {Date} now - The reference time
+ * @returns {Date|null} The unlock time, or null if nothing unlocks later
  */
-const checkAllWallets = async () => {
-  // Get all wallet IDs from the monitoring tasks
-  const walletIds = Array.from(monitoringTasks.keys());
+const getNearestUnlock = (walletId, now) => {
+  const upcoming = Array.from(claimableBalancesMap.values())
+    .filter(b => b.walletId === walletId && new Date(b.unlockTime).getTime() > now.getTime())
+    .map(b => new Date(b.unlockTime).getTime());
   
-  addLog({
-    message: `Checking claimable balances for ${walletIds.length} wallets`,
-    status: 'info'
+  return upcoming.length > 0 ? new Date(Math.min(...upcoming)) : null;
+};
+
+/**
+ * Work out how often each monitored wallet is polled: faster as its nearest unlock approaches, within the poll budget
+ * @returns {Array} Per wallet: tier, wanted and granted interval, nearest unlock, stream state, last and next poll
+ */
+export const getPollCadences = () => {
+  const now = new Date();
+  
+  const cadences = Array.from(monitoringTasks.entries()).map(([walletId, task]) => {
+    const nearestUnlock = getNearestUnlock(walletId, now);
+    const streamLive = task.isLive();
+    
+    // Without a stream, polling is the only way new lockups are noticed
+    const { tier, interval } = getDesiredCadence(nearestUnlock, streamLive ? Infinity : POLL_INTERVAL_MS, now);
+    return { walletId, tier, desiredInterval: interval, nearestUnlock, streamLive };
+  });
+  
+  const granted = allocatePollBudget(cadences.map(c => ({ id: c.walletId, interval: c.desiredInterval })));
+  
+  return cadences.map(cadence => {
+    const interval = granted.get(cadence.walletId);
+    const polledAt = lastPolledAt.get(cadence.walletId);
+    
+    return {
+      ...cadence,
+      interval,
+      throttled: interval > cadence.desiredInterval,
+      lastPolledAt: polledAt ? new Date(polledAt).toISOString() : null,
+      nextPollAt: new Date(polledAt ? polledAt + interval : now.getTime()).toISOString()
+    };
   });
+};
+
+/**
+ * Poll the claimable balances of every wallet that is due
+ */
+const checkAllWallets = async () => {
+  const now = Date.now();
+  const walletIds = getPollCadences()
+    .filter(c => now - (lastPolledAt.get(c.walletId) || 0) >= c.interval)
+    .map(c => c.walletId);
   
-  // Check each wallet
-  for (const walletId of walletIds) {
+  // Check each wallet, interleaving tenants
+  await Promise.all(walletIds.map(async (walletId) => {
     try {
-      const wallet = getWalletWithPrivateKey(walletId);
+      const wallet = getWalletById(walletId);
       if (wallet) {
-        await checkWalletClaimableBalances(wallet);
+        await queueBalanceCheck(wallet);
       }
     } catch (error) {
       logError('Error checking wallet', error, walletId);
     }
+  }));
+};
+
+/**
+ * Queue a balance check in the wallet owner's lane (a check already queued is not repeated)
+ * @param {Object} wallet - The wallet to check
+ * @returns {Promise<boolean>} Whether new balances were found
+ */
+const queueBalanceCheck = (wallet) => {
+  return balanceCheckQueue.enqueue(wallet.owner, wallet.id, () => checkWalletClaimableBalances(wallet));
+};
+
+/**
+ * Start monitoring a claimable balance record from Horizon unless it is already monitored
+ * @param {Object} wallet - The claimant wallet
+ * @param {Object} record - The Horizon claimable balance record
+ * @returns {boolean} Whether the balance is new
+ */
+const trackBalanceRecord = (wallet, record) => {
+  const id = record.id;
+  const amount = record.amount;
+  
+  // Work out when this wallet's claimant predicate allows claiming
+  const claimWindows = getClaimWindows(record, wallet.address);
+  const unlockTime = nextClaimableTime(claimWindows);
+  
+  // Skip balances the wallet is not a claimant of, or whose windows have all closed
+  if (!unlockTime) {
+    if (!unclaimableBalanceIds.has(id)) {
+      unclaimableBalanceIds.add(id);
+      addLog({
+        message: `Skipping balance of ${amount} Pi: ${claimWindows.length === 0 ? 'wallet is not a claimant' : 'claim window has closed'}`,
+        status: 'warning',
+        walletId: wallet.id
+      });
+    }
+    return false;
+  }
+  
+  if (claimableBalancesMap.has(id)) return false;
+  
+  // Create claimable balance object
+  const claimableBalance = {
+    id,
+    amount,
+    claimWindows,
+    unlockTime,
+    claimDeadline: getClaimDeadline(claimWindows, unlockTime),
+    walletId: wallet.id,
+    foundAt: Date.now()
+  };
+  
+  claimableBalancesMap.set(id, claimableBalance);
+  storeClaimableBalance(claimableBalance);
+  
+  addLog({
+    message: `New claimable balance found: ${amount} Pi, unlocks ${unlockTime.toLocaleString()}${claimableBalance.claimDeadline ? `, must be claimed before ${claimableBalance.claimDeadline.toLocaleString()}` : ''}`,
+    status: 'info',
+    walletId: wallet.id
+  });
+  
+  return true;
+};
+
+/**
+ * Fetch a single balance the effect stream announced and schedule it
+ * @param {Object} wallet - The claimant wallet
+ * @param {string} balanceId - The new balance's ID
+ * @returns {boolean} Whether the balance is new
+ */
+const checkClaimableBalance = async (wallet, balanceId) => {
+  try {
+    const record = await fetchClaimableBalance(balanceId);
+    
+    // Already claimed or clawed back before we got to it
+    if (!record || !trackBalanceRecord(wallet, record)) return false;
+    
+    scheduleWalletBatches(wallet);
+    return true;
+  } catch (error) {
+    logError('Error fetching streamed claimable balance', error, wallet.id);
+    
+    // The next poll picks it up instead
+    lastPolledAt.delete(wallet.id);
+    return false;
   }
 };
 
 /**
  * Check claimable balances for a specific wallet
  * @param {Object} wallet - The wallet to check
+ * @returns {boolean} Whether new balances were found (and scheduled)
  */
 const checkWalletClaimableBalances = async (wallet) => {
   try {
@@ -143,6 +630,9 @@ const checkWalletClaimableBalances = async (wallet) => {
     });
     
     // Fetch claimable balances
+    // Failed polls count too, so a Horizon outage isn't retried faster than the wallet's cadence
+    const polledAt = Date.now();
+    lastPolledAt.set(wallet.id, polledAt);
     const balances = await fetchClaimableBalances(wallet.address);
     
     if (!balances._embedded || !balances._embedded.records) {
@@ -162,346 +652,690 @@ const checkWalletClaimableBalances = async (wallet) => {
         status: 'info',
         walletId: wallet.id
       });
+      
+      // Every balance still monitored for the wallet has gone
+      await reconcileWalletBalances(wallet, new Set(), polledAt);
       return;
     }
     
+    const { pages } = balances.pagination;
+    
     addLog({
-      message: `Found ${records.length} claimable balance(s) for wallet: ${wallet.address.substring(0, 6)}...`,
+      message: `Found ${records.length} claimable balance(s) for wallet: ${wallet.address.substring(0, 6)}... (${pages} page${pages === 1 ? '' : 's'})`,
       status: 'success',
       walletId: wallet.id
     });
     
+    // Balances beyond the page cap are not seen this round
+    if (balances.pagination.truncated) {
+      addLog({
+        message: `Stopped after ${pages} pages of claimable balances; raise CLAIMABLE_BALANCES_MAX_PAGES to see the rest`,
+        status: 'warning',
+        walletId: wallet.id
+      });
+    }
+    
+    let foundNew = false;
+    
     // Process each claimable balance
     for (const record of records) {
-      const id = record.id;
-      const amount = record.amount;
-      
-      // Get unlock time
-      const unlockTime = extractUnlockTime(record);
-      
-      // Create claimable balance object
-      const claimableBalance = {
-        id,
-        amount,
-        unlockTime,
-        walletId: wallet.id
-      };
-      
-      // Add to map if not already there
-      if (!claimableBalancesMap.has(id)) {
-        claimableBalancesMap.set(id, claimableBalance);
-        
-        addLog({
-          message: `New claimable balance found: ${amount} Pi, unlocks ${unlockTime.toLocaleString()}`,
-          status: 'info',
-          walletId: wallet.id
-        });
-        
-        // Schedule pre-sequence fetching and claiming with precise timing
-        scheduleBalanceClaiming(claimableBalance, wallet);
+      if (trackBalanceRecord(wallet, record)) {
+        foundNew = true;
       }
     }
+    
+    // Regroup the wallet's balances so new ones can join an existing batch
+    if (foundNew) {
+      scheduleWalletBatches(wallet);
+    }
+    
+    // A truncated poll didn't see every balance, so missing ones may still exist
+    if (!balances.pagination.truncated) {
+      await reconcileWalletBalances(wallet, new Set(records.map(r => r.id)), polledAt);
+    }
+    
+    return foundNew;
   } catch (error) {
     logError('Error checking claimable balances', error, wallet.id);
   }
 };
 
 /**
- * Schedule claiming of a balance with precise timing
- * @param {Object} balance - The claimable balance
+ * Describe who took a vanished balance
+ * @param {Object} resolution - The resolution from resolveVanishedBalance
+ * @returns {string} A short description for the status and logs
+ */
+const describeResolution = (resolution) => {
+  switch (resolution.outcome) {
+    case 'claimed_by_us':
+      return `Claimed by this wallet elsewhere (tx ${resolution.transactionHash})`;
+    case 'claimed_by_other':
+      return `Taken by ${resolution.claimant} (tx ${resolution.transactionHash})`;
+    default:
+      return 'No longer on Horizon; who claimed it is unknown';
+  }
+};
+
+/**
+ * Stop monitoring balances that disappeared from a wallet's poll and record who took them
+ * @param {Object} wallet - The polled wallet
+ * @param {Set<string>} seenIds - IDs of the balances Horizon still lists for the wallet
+ * @param {number} polledAt - When the poll started; balances the stream found since then may not be in it yet
+ */
+const reconcileWalletBalances = async (wallet, seenIds, polledAt) => {
+  const vanished = Array.from(claimableBalancesMap.values()).filter(balance => {
+    if (balance.walletId !== wallet.id || seenIds.has(balance.id) || balance.foundAt > polledAt) return false;
+    
+    // A submission that may still land settles its own balances
+    const batch = balance.batchId ? claimBatchesMap.get(balance.batchId) : null;
+    return !(batch && (batch.isProcessing || hasTrackedSubmission(batch.id)));
+  });
+  
+  for (const balance of vanished) {
+    // Cancels its claim job and regroups the wallet's other balances
+    removeClaimableBalance(balance.id);
+    
+    const resolution = { ...(await resolveVanishedBalance(balance.id, wallet.address)), amount: balance.amount };
+    const description = describeResolution(resolution);
+    setBalanceStatus(balance, 'vanished', description, resolution);
+    
+    addLog({
+      message: `Balance of ${balance.amount} Pi is no longer claimable, stopped monitoring it. ${description}`,
+      status: resolution.outcome === 'claimed_by_us' ? 'info' : 'warning',
+      walletId: wallet.id
+    });
+  }
+};
+
+/**
+ * Cancel the scheduled jobs of a batch
+ * @param {string} batchId - The batch ID
+ */
+const cancelBatchTasks = (batchId) => {
+  cancelJob(batchId);
+  cancelJob(`${batchId}-seq`);
+};
+
+/**
+ * Regroup a wallet's pending balances into batches and schedule each batch
+ * @param {Object} wallet - The wallet
+ */
+const scheduleWalletBatches = (wallet) => {
+  // Pre-authorized wallets are claimed by their stored envelopes; the server has no key to sign with
+  if (wallet.signingMode === 'pre_auth') return;
+  
+  try {
+    // Batches already being submitted, or whose last submission may still land, keep their balances
+    const lockedIds = new Set();
+    
+    for (const batch of Array.from(claimBatchesMap.values())) {
+      if (batch.walletId !== wallet.id) continue;
+      
+      if (batch.isProcessing || hasTrackedSubmission(batch.id)) {
+        batch.balances.forEach(b => lockedIds.add(b.id));
+      } else {
+        cancelBatchTasks(batch.id);
+        claimBatchesMap.delete(batch.id);
+      }
+    }
+    
+    const pending = Array.from(claimableBalancesMap.values())
+      .filter(b => b.walletId === wallet.id && !lockedIds.has(b.id) && !b.gaveUp);
+    
+    // Schedule the batches whose claim window closes soonest first
+    for (const batch of planBatches(pending).sort(compareByDeadline)) {
+      batch.balances.forEach(b => { b.batchId = batch.id; });
+      claimBatchesMap.set(batch.id, batch);
+      scheduleBatchClaiming(batch, wallet);
+    }
+  } catch (error) {
+    logError('Error scheduling claim batches', error, wallet.id);
+  }
+};
+
+/**
+ * Schedule claiming of a batch with precise timing
+ * @param {Object} batch - The batch of claimable balances
  * @param {Object} wallet - The wallet
  */
-const scheduleBalanceClaiming = (balance, wallet) => {
+const scheduleBatchClaiming = (batch, wallet) => {
   try {
     const now = new Date();
-    const unlockTime = new Date(balance.unlockTime);
+    const unlockTime = new Date(batch.unlockTime);
     const timeUntilUnlock = unlockTime.getTime() - now.getTime();
+    const description = describeBatch(batch);
+    
+    setBatchStatus(batch, 'waiting', timeUntilUnlock <= 0 ? 'Claiming now' : `Unlocks ${unlockTime.toLocaleString()}`);
     
     // If already unlocked, claim immediately with 5ms delay
     if (timeUntilUnlock <= 0) {
       addLog({
-        message: `Balance of ${balance.amount} Pi is already unlocked, claiming immediately`,
+        message: `${description} is already unlocked, claiming immediately`,
         status: 'info',
         walletId: wallet.id
       });
       
       // Claim after 5ms delay to ensure ledger transition
-      setTimeout(() => {
-        processClaimableBalance(balance, wallet);
-      }, SUBMIT_AFTER_UNLOCK);
+      scheduleClaimJob(batch, wallet, SUBMIT_AFTER_UNLOCK);
       return;
     }
     
     // Otherwise, schedule sequence fetching and claiming with precise timing
     addLog({
-      message: `Scheduled claim for ${balance.amount} Pi in ${formatTimeRemaining(timeUntilUnlock)}`,
+      message: `Scheduled claim for ${description} in ${formatTimeRemaining(timeUntilUnlock)}`,
       status: 'info',
       walletId: wallet.id
     });
 
     // Schedule sequence number fetch 2 seconds before unlock
-    const seqFetchTime = timeUntilUnlock - SEQUENCE_PREP_TIME;
-    if (seqFetchTime > 0) {
-      // Schedule sequence number pre-fetching
-      const seqTaskId = setTimeout(async () => {
-        try {
-          addLog({
-            message: `Pre-fetching sequence number for wallet: ${wallet.address.substring(0, 6)}...`,
-            status: 'info',
-            walletId: wallet.id
-          });
-          
-          const sequence = await fetchSequenceNumber(wallet.address);
-          
-          // Cache sequence with timestamp
-          sequenceCache.set(wallet.address, {
-            sequence,
-            timestamp: Date.now()
-          });
-          
-          addLog({
-            message: `Sequence number pre-fetched: ${sequence}`,
-            status: 'info',
-            walletId: wallet.id
-          });
-        } catch (error) {
-          logError('Error pre-fetching sequence number', error, wallet.id);
-        }
-      }, seqFetchTime);
-      
-      claimingTasks.set(`${balance.id}-seq`, seqTaskId);
+    if (timeUntilUnlock > SEQUENCE_PREP_TIME) {
+      scheduleJob({
+        id: `${batch.id}-seq`,
+        type: 'prime-sequence',
+        runAt: unlockTime.getTime() - SEQUENCE_PREP_TIME,
+        payload: { batchId: batch.id, walletId: wallet.id }
+      });
     }
 
-    // Schedule claim exactly 5ms after unlock
-    const claimTaskId = setTimeout(() => {
-      processClaimableBalance(balance, wallet);
-    }, timeUntilUnlock + SUBMIT_AFTER_UNLOCK);
-    
-    // Store task with balance ID for later cancellation if needed
-    claimingTasks.set(balance.id, claimTaskId);
+    // Schedule claim exactly 5ms after the last balance in the batch unlocks
+    scheduleClaimJob(batch, wallet, timeUntilUnlock + SUBMIT_AFTER_UNLOCK);
     
   } catch (error) {
-    logError('Error scheduling balance claiming', error, wallet.id);
+    logError('Error scheduling batch claiming', error, wallet.id);
   }
 };
 
 /**
- * Get cached sequence number or fetch a new one
- * @param {string} walletAddress - The wallet address
- * @returns {Promise<string>} The sequence number
+ * Describe a batch for log messages
+ * @param {Object} batch - The batch of claimable balances
+ * @returns {string} A short description
  */
-const getSequenceNumber = async (walletAddress) => {
-  // Check cache first (valid for 30 seconds)
-  const cachedData = sequenceCache.get(walletAddress);
-  const now = Date.now();
-  
-  if (cachedData && (now - cachedData.timestamp) < 30000) {
-    addLog({
-      message: `Using cached sequence number: ${cachedData.sequence}`,
-      status: 'info'
-    });
-    return cachedData.sequence;
-  }
-  
-  // Fetch fresh sequence
-  const sequence = await fetchSequenceNumber(walletAddress);
-  
-  // Update cache
-  sequenceCache.set(walletAddress, {
-    sequence,
-    timestamp: now
-  });
-  
-  return sequence;
+const describeBatch = (batch) => {
+  return batch.balances.length === 1
+    ? `balance of ${batch.totalAmount} Pi`
+    : `batch of ${batch.balances.length} balances (${batch.totalAmount} Pi)`;
 };
 
 /**
- * Process a claimable balance (claim and transfer)
- * @param {Object} balance - The claimable balance
+ * Process a batch of claimable balances (claim all and transfer once)
+ * @param {Object} batch - The batch of claimable balances
  * @param {Object} wallet - The wallet
  */
-const processClaimableBalance = async (balance, wallet) => {
-  try {
+const processClaimBatch = async (batch, wallet) => {
+  // The batch may have been cancelled or regrouped while waiting
+  if (claimBatchesMap.get(batch.id) !== batch || batch.balances.length === 0) {
+    return;
+  }
+  
+  // A fee sponsor pays the whole fee, so the wallet itself pays nothing
+  const sponsor = wallet.feeSponsorId ? getWalletById(wallet.feeSponsorId) : null;
+  
+  // Nothing can be signed while a signer is unavailable; unlocking the vault reschedules held batches
+  const holdReason = getSigningHold(wallet) || (sponsor && getSigningHold(sponsor));
+  if (holdReason) {
+    setBatchStatus(batch, 'waiting', holdReason);
+    
     addLog({
-      message: `Processing claimable balance of ${balance.amount} Pi`,
-      status: 'info',
+      message: `Holding claim for ${describeBatch(batch)}: ${holdReason}`,
+      status: 'warning',
       walletId: wallet.id
     });
+    return;
+  }
+  
+  // The browser claims everything in browser mode; switching back reschedules the batch
+  if (!isServerExecutor()) {
+    setBatchStatus(batch, 'waiting', 'The browser is the claim executor');
+    return;
+  }
+  
+  // Exactly one executor works on a balance at a time
+  let lease;
+  try {
+    lease = acquireLease({ wallet, balanceIds: batch.balances.map(b => b.id), holderId: SERVER_HOLDER_ID, holderName: 'Server' });
+  } catch (error) {
+    if (!error.lease) throw error;
+    
+    setBatchStatus(batch, 'waiting', error.message);
     
-    // Use cached sequence or fetch new one
     addLog({
-      message: `Getting sequence number for wallet ${wallet.address.substring(0, 6)}...`,
-      status: 'info',
+      message: `Not claiming ${describeBatch(batch)}: ${error.message}`,
+      status: 'warning',
       walletId: wallet.id
     });
     
-    const currentSequence = await getSequenceNumber(wallet.address);
-    
+    // Try again once the other executor's lease has run out
+    scheduleClaimJob(batch, wallet, Math.max(new Date(error.lease.expiresAt).getTime() - Date.now(), 0) + 1000);
+    return;
+  }
+  
+  batch.isProcessing = true;
+  
+  // The fee of this attempt, to tell whether a tx_insufficient_fee can still be fixed by bumping
+  let feeChoice = null;
+  
+  try {
     addLog({
-      message: `Building transaction for ${balance.amount} Pi`,
+      message: `Processing ${describeBatch(batch)}`,
       status: 'info',
       walletId: wallet.id
     });
     
-    // Validate private key
-    const cleanPrivateKey = wallet.privateKey.trim();
-    let keyPair;
+    // An earlier attempt may have landed even though its submission errored
+    const previous = await checkTrackedSubmission(batch.id);
     
-    try {
-      keyPair = StellarSdk.Keypair.fromSecret(cleanPrivateKey);
+    if (previous.state === 'landed') {
+      addLog({
+        message: `Earlier submission ${previous.submission.hash} already landed in ledger ${previous.record.ledger}`,
+        status: 'info',
+        walletId: wallet.id
+      });
+      
+      completeClaimBatch(batch, wallet, previous.record, previous.submission.details);
+      return;
+    }
+    
+    if (previous.state === 'pending') {
+      addLog({
+        message: `Earlier submission ${previous.submission.hash} is not in a ledger yet, resubmitting the same envelope`,
+        status: 'info',
+        walletId: wallet.id
+      });
+      
+      setBatchStatus(batch, 'submitting', `Resubmitting ${previous.submission.hash}`);
       
-      // Verify keypair matches wallet address
-      if (keyPair.publicKey() !== wallet.address) {
-        throw new Error('Private key does not match wallet address');
+      let result;
+      try {
+        result = await submitTransaction(previous.submission.xdr);
+      } catch (error) {
+        if (!error.resultCodes) throw error;
+        
+        // The envelope may have landed since it was checked (its sequence then reads as tx_bad_seq), so look again before rebuilding
+        const recheck = await checkTrackedSubmission(batch.id);
+        
+        if (recheck.state === 'landed') {
+          addLog({
+            message: `Submission ${previous.submission.hash} landed in ledger ${recheck.record.ledger} while being resubmitted`,
+            status: 'info',
+            walletId: wallet.id
+          });
+          
+          completeClaimBatch(batch, wallet, recheck.record, previous.submission.details);
+          return;
+        }
+        
+        // Failed in a ledger or still absent: the catch below forgets it and rebuilds
+        throw error;
       }
-    } catch (error) {
-      logError('Invalid private key', error, wallet.id);
+      forgetSubmission(batch.id);
+      
+      completeClaimBatch(batch, wallet, result, previous.submission.details);
       return;
     }
     
-    // Create source account
-    const sourceAccount = new StellarSdk.Account(wallet.address, currentSequence.toString());
+    if (previous.state === 'failed') {
+      addLog({
+        message: `Earlier submission ${previous.submission.hash} was included but failed, building a new transaction`,
+        status: 'warning',
+        walletId: wallet.id
+      });
+    } else if (previous.state === 'expired') {
+      addLog({
+        message: `Earlier submission ${previous.submission.hash} expired without landing, building a new transaction`,
+        status: 'info',
+        walletId: wallet.id
+      });
+    }
+    
+    if (wallet.feeSponsorId && !sponsor) {
+      throw new Error('Fee sponsor wallet not found');
+    }
+    
+    setBatchStatus(batch, 'constructing');
     
-    // Create transaction with high fee for priority
-    let transactionBuilder = new StellarSdk.TransactionBuilder(sourceAccount, {
-      fee: "1000000", // 0.1 Pi fee
-      networkPassphrase: NETWORK_PASSPHRASE
-    });
+    // Pick the fee from recent fee stats, raised after any insufficient-fee results
+    feeChoice = await selectFee(wallet, feeBumpLevels.get(batch.id) || 0);
     
-    // Add claim operation
-    transactionBuilder = transactionBuilder.addOperation(
-      StellarSdk.Operation.claimClaimableBalance({
-        balanceId: balance.id
-      })
-    );
-    
-    // Add payment operation to transfer funds
-    transactionBuilder = transactionBuilder.addOperation(
-      StellarSdk.Operation.payment({
-        destination: wallet.destinationAddress,
-        asset: StellarSdk.Asset.native(),
-        amount: balance.amount
-      })
-    );
-    
-    // Set timeout
-    transactionBuilder = transactionBuilder.setTimeout(120);
-    
-    // Build transaction
-    const transaction = transactionBuilder.build();
-    
-    // Sign transaction
     addLog({
-      message: `Signing transaction...`,
+      message: `Fee ${formatFee(feeChoice.fee)} per operation (${feeChoice.fromStats ? `${feeChoice.percentile} of recent fees` : 'fee stats unavailable, using ceiling'}${feeChoice.bumpLevel > 0 ? `, bump level ${feeChoice.bumpLevel}` : ''}${feeChoice.capped ? ', capped at wallet ceiling' : ''})`,
       status: 'info',
       walletId: wallet.id
     });
     
-    transaction.sign(keyPair);
+    // One claim per balance plus a single aggregated payment
+    const operationCount = batch.balances.length + 1;
+    const sourceFee = sponsor ? '0' : (BigInt(feeChoice.fee) * BigInt(operationCount)).toString();
     
-    // Convert to XDR
-    const xdr = transaction.toXDR();
+    // Work out how much can be forwarded without leaving the account underfunded
+    const plan = await planTransferAmount(wallet, batch.totalAmount, sourceFee);
+    
+    addLog({
+      message: `Transfer amount ${plan.amount} Pi (mode: ${plan.mode}${plan.capped ? ', capped to available balance' : ''})`,
+      status: plan.capped ? 'warning' : 'info',
+      walletId: wallet.id
+    });
     
-    // Submit transaction
     addLog({
-      message: `Submitting transaction to network...`,
+      message: `Building transaction with ${batch.balances.length} claim(s) for ${batch.totalAmount} Pi`,
       status: 'info',
       walletId: wallet.id
     });
     
-    const result = await submitTransaction(xdr);
+    setBatchStatus(batch, 'fetching_sequence');
     
-    // Check result
-    if (result.successful) {
+    // Submissions from one account are queued so each gets the next sequence number
+    const result = await withNextSequence(wallet.address, async (sourceAccount) => {
+      setBatchStatus(batch, 'constructing');
+      
+      // Create transaction with high fee for priority (minimum fee if a sponsor bumps it)
+      let transactionBuilder = new StellarSdk.TransactionBuilder(sourceAccount, {
+        fee: sponsor ? INNER_TRANSACTION_FEE : feeChoice.fee,
+        networkPassphrase: NETWORK_PASSPHRASE
+      });
+      
+      // Add a claim operation for each balance in the batch
+      for (const balance of batch.balances) {
+        transactionBuilder = transactionBuilder.addOperation(
+          StellarSdk.Operation.claimClaimableBalance({
+            balanceId: balance.id
+          })
+        );
+      }
+      
+      // Add one payment operation to transfer the combined funds
+      transactionBuilder = transactionBuilder.addOperation(
+        StellarSdk.Operation.payment({
+          destination: wallet.destinationAddress,
+          asset: StellarSdk.Asset.native(),
+          amount: plan.amount
+        })
+      );
+      
+      // Set timeout
+      transactionBuilder = transactionBuilder.setTimeout(120);
+      
+      // Build transaction
+      const transaction = transactionBuilder.build();
+      
+      // Sign transaction
       addLog({
-        message: `Transaction successful! Claimed and transferred ${balance.amount} Pi. Hash: ${result.hash}`,
-        status: 'success',
+        message: `Signing transaction with sequence ${transaction.sequence}...`,
+        status: 'info',
         walletId: wallet.id
       });
       
-      // Remove balance from map
-      claimableBalancesMap.delete(balance.id);
+      setBatchStatus(batch, 'signing');
       
-      // Remove any scheduled tasks
-      Object.keys(claimingTasks).forEach(key => {
-        if (key === balance.id || key.startsWith(`${balance.id}-`)) {
-          clearTimeout(claimingTasks.get(key));
-          claimingTasks.delete(key);
-        }
+      // Signed by the wallet's signer; a signature from the wrong key is rejected before submission
+      await signWithWallet(wallet, transaction, 'claim');
+      
+      // Let the sponsor pay the fee through a fee-bump envelope
+      let envelope = transaction;
+      if (sponsor) {
+        addLog({
+          message: `Wrapping transaction in fee-bump from sponsor ${sponsor.address.substring(0, 6)}...`,
+          status: 'info',
+          walletId: wallet.id
+        });
+        
+        envelope = await wrapWithFeeBump(transaction, sponsor, feeChoice.fee);
+      }
+      
+      // Submit transaction
+      setBatchStatus(batch, 'submitting');
+      
+      addLog({
+        message: `Submitting transaction to network...`,
+        status: 'info',
+        walletId: wallet.id
       });
-    } else {
-      // Log error details
-      if (result.extras && result.extras.result_codes) {
-        const errorCodes = JSON.stringify(result.extras.result_codes);
-        throw new Error(`Transaction failed with codes: ${errorCodes}`);
-      } else {
-        throw new Error('Transaction submission was not successful');
+      
+      // Remember the envelope so a retry can check whether it landed before rebuilding
+      const hash = trackSubmission(batch.id, envelope, {
+        transferAmount: plan.amount,
+        sponsorId: sponsor ? sponsor.id : null
+      });
+      
+      addLog({
+        message: `Transaction hash: ${hash}`,
+        status: 'info',
+        walletId: wallet.id
+      });
+      
+      const submission = await submitTransaction(envelope.toXDR());
+      forgetSubmission(batch.id);
+      
+      // Anything short of success leaves the sequence unconfirmed
+      if (!submission.successful) {
+        const resultCodes = submission.extras && submission.extras.result_codes;
+        throw new HorizonSubmissionError(
+          resultCodes ? `Transaction failed: ${describeResultCodes(resultCodes)}` : 'Transaction submission was not successful',
+          { resultCodes }
+        );
       }
-    }
+      
+      return submission;
+    });
+    
+    completeClaimBatch(batch, wallet, result, {
+      transferAmount: plan.amount,
+      sponsorId: sponsor ? sponsor.id : null
+    });
   } catch (error) {
-    logError('Error processing claimable balance', error, wallet.id);
+    logError('Error processing claim batch', error, wallet.id);
+    
+    // Release the batch so regrouping may pick it up; the retry timer below is cancellable
+    batch.isProcessing = false;
     
-    // If it's a sequence number error, retry immediately with fresh sequence
-    if (error.message.includes('tx_bad_seq') || error.message.includes('sequence')) {
+    // Horizon rejected the envelope outright, so the next attempt builds a new one
+    if (error.resultCodes) {
+      forgetSubmission(batch.id);
+    }
+    
+    // Timeout or server error: the envelope may still land, so check its hash before anything else
+    if (hasTrackedSubmission(batch.id)) {
+      setBatchStatus(batch, 'waiting', 'Submission outcome unknown, checking whether it landed');
+      
       addLog({
-        message: 'Sequence number issue detected, retrying immediately with fresh sequence',
+        message: 'Submission outcome unknown, checking transaction status in 5s',
         status: 'warning',
         walletId: wallet.id
       });
       
-      // Clear sequence cache
-      sequenceCache.delete(wallet.address);
+      scheduleClaimJob(batch, wallet, retryDelayBeforeDeadline(batch, 5000));
+      return;
+    }
+    
+    const { errorClass, policy } = getRetryPolicy(error);
+    let retryDelay;
+    
+    switch (policy) {
+      case RETRY_POLICIES.GIVE_UP:
+        giveUpOnBatch(batch, wallet, error, errorClass);
+        return;
+        
+      case RETRY_POLICIES.RAISE_FEE: {
+        // Already at the ceiling: another bump would resubmit the same fee, so back off like a transient error
+        if (feeChoice && feeChoice.atCeiling) {
+          retryDelay = 120000;
+          
+          addLog({
+            message: `Fee ceiling too low: ${formatFee(feeChoice.fee)} per operation was not enough. Raise the wallet's max fee; retrying at the ceiling in ${formatTimeRemaining(retryDelayBeforeDeadline(batch, retryDelay))}`,
+            status: 'error',
+            walletId: wallet.id
+          });
+          break;
+        }
+        
+        const bumpLevel = (feeBumpLevels.get(batch.id) || 0) + 1;
+        feeBumpLevels.set(batch.id, bumpLevel);
+        
+        addLog({
+          message: `Fee too low, retrying with raised fee (bump level ${bumpLevel})`,
+          status: 'warning',
+          walletId: wallet.id
+        });
+        
+        retryDelay = 1000;
+        break;
+      }
+        
+      case RETRY_POLICIES.REFRESH_SEQUENCE:
+        addLog({
+          message: 'Sequence number out of date, resyncing from Horizon and retrying',
+          status: 'warning',
+          walletId: wallet.id
+        });
+        
+        invalidateSequence(wallet.address);
+        retryDelay = 100;
+        break;
+        
+      case RETRY_POLICIES.RETRY_NOW:
+        addLog({
+          message: `Transaction rejected (${errorClass}), rebuilding and retrying now`,
+          status: 'warning',
+          walletId: wallet.id
+        });
+        
+        retryDelay = 100;
+        break;
+        
+      case RETRY_POLICIES.RETRY_LATER:
+        if (errorClass === 'insufficient_fee_balance') {
+          // Whoever pays the fee may be topped up any time, so keep trying, less often each time
+          const attempts = (feeFundingAttempts.get(batch.id) || 0) + 1;
+          feeFundingAttempts.set(batch.id, attempts);
+          retryDelay = Math.min(FEE_FUNDING_RETRY_DELAY * 2 ** (attempts - 1), FEE_FUNDING_RETRY_MAX_DELAY);
+          
+          addLog({
+            message: `${wallet.feeSponsorId ? 'Fee sponsor' : 'Wallet'} can't cover the transaction fee; top it up. Retrying in ${formatTimeRemaining(retryDelayBeforeDeadline(batch, retryDelay))}`,
+            status: 'error',
+            walletId: wallet.id
+          });
+          break;
+        }
+        // Falls through: other retry-later classes back off like transient errors
+        
+      default:
+        // Transient or unknown: retry in 2 minutes (sooner if the claim window closes before then)
+        retryDelay = 120000;
+        
+        addLog({
+          message: `Transaction failed (${errorClass}), will retry in ${formatTimeRemaining(retryDelayBeforeDeadline(batch, retryDelay))}`,
+          status: 'warning',
+          walletId: wallet.id
+        });
+    }
+    
+    setBatchStatus(batch, 'waiting', `Retrying after ${errorClass}`);
+    scheduleClaimJob(batch, wallet, retryDelayBeforeDeadline(batch, retryDelay));
+  } finally {
+    // A submission that may still land keeps its balances leased; otherwise another executor may step in between attempts
+    if (!hasTrackedSubmission(batch.id)) {
+      releaseLease(lease.id, SERVER_HOLDER_ID);
+    }
+  }
+};
+
+/**
+ * Stop retrying a batch after an error that retrying can't fix
+ * @param {Object} batch - The batch that failed
+ * @param {Object} wallet - The wallet
+ * @param {Error} error - The submission error
+ * @param {string} errorClass - The classified error
+ */
+const giveUpOnBatch = (batch, wallet, error, errorClass) => {
+  cancelBatchTasks(batch.id);
+  feeBumpLevels.delete(batch.id);
+  feeFundingAttempts.delete(batch.id);
+  
+  if (errorClass === 'balance_gone') {
+    // Claim operations come first, so a failed operation index points at its balance
+    const goneIds = (error.failedOperations || [])
+      .filter(op => op.code === 'op_does_not_exist' && op.index < batch.balances.length)
+      .map(op => batch.balances[op.index].id);
+    const gone = goneIds.length > 0 ? batch.balances.filter(b => goneIds.includes(b.id)) : batch.balances;
+    
+    for (const balance of gone) {
+      setBalanceStatus(balance, 'failed', 'Balance no longer exists');
       
-      // Schedule retry
-      setTimeout(() => {
-        processClaimableBalance(balance, wallet);
-      }, 100); // Very short delay to get fresh sequence
-    } else {
-      // Otherwise, retry in 2 minutes
       addLog({
-        message: 'Transaction failed, will retry in 2 minutes',
-        status: 'warning',
+        message: `Balance of ${balance.amount} Pi no longer exists (claimed elsewhere), no longer monitoring it`,
+        status: 'error',
         walletId: wallet.id
       });
       
-      setTimeout(() => {
-        processClaimableBalance(balance, wallet);
-      }, 120000);
+      // Regroups whatever is left of the batch so it is claimed without the missing balance
+      removeClaimableBalance(balance.id);
     }
+    return;
   }
+  
+  // Keep the balances visible but unscheduled until monitoring restarts
+  batch.balances.forEach(b => { b.gaveUp = errorClass; });
+  claimBatchesMap.delete(batch.id);
+  setBatchStatus(batch, 'failed', `${errorClass}: ${error.message}`);
+  
+  addLog({
+    message: `Giving up on ${describeBatch(batch)}: ${errorClass} (${error.message}). Fix the wallet and restart monitoring to retry`,
+    status: 'error',
+    walletId: wallet.id
+  });
 };
 
 /**
- * Extract unlock time from claimant predicate
- * @param {Object} record - The claimable balance record
- * @returns {Date} The unlock time
+ * Finish a batch whose transaction made it into a ledger
+ * @param {Object} batch - The claimed batch
+ * @param {Object} wallet - The wallet
+ * @param {Object} result - The submission response or transaction record
+ * @param {Object} details - What the transaction transferred and who paid the fee
  */
-const extractUnlockTime = (record) => {
-  // Check if we have claimants
-  if (!record.claimants || record.claimants.length === 0) {
-    return new Date(Date.now() + 1000 * 60 * 60 * 24); // Default to 24 hours from now if no claimants
-  }
-
-  try {
-    // Look for our wallet's claimant (usually first one)
-    const claimant = record.claimants[0];
-    
-    // If it has a "not" predicate (meaning it can only be claimed after a certain time)
-    if (claimant.predicate?.not?.abs_before) {
-      return new Date(claimant.predicate.not.abs_before);
-    }
-    
-    // If there's a second claimant with a "not" predicate, check that as well
-    if (record.claimants.length > 1 && record.claimants[1].predicate?.not?.abs_before) {
-      return new Date(record.claimants[1].predicate.not.abs_before);
-    }
-    
-    // Default fallback if we can't determine
-    return new Date(Date.now() + 1000 * 60 * 60 * 24); // Default to 24 hours from now
-  } catch (error) {
-    console.error("Error extracting unlock time:", error);
-    return new Date(Date.now() + 1000 * 60 * 60 * 24); // Default to 24 hours from now on error
+const completeClaimBatch = (batch, wallet, result, details) => {
+  const sponsor = details.sponsorId ? getWalletById(details.sponsorId) : null;
+  
+  addLog({
+    message: `Transaction successful! Claimed ${batch.totalAmount} Pi from ${batch.balances.length} balance(s) and transferred ${details.transferAmount} Pi. Hash: ${result.hash}${result.endpoint ? ` (accepted by ${result.endpoint})` : ''}`,
+    status: 'success',
+    walletId: wallet.id
+  });
+  
+  addLog({
+    message: `Fee charged: ${formatFee(result.fee_charged || 0)}${details.sponsorId ? ' (paid by sponsor)' : ''}`,
+    status: 'info',
+    walletId: wallet.id
+  });
+  
+  setBatchStatus(batch, 'completed', `Hash: ${result.hash}`);
+  
+  recordClaim(wallet, {
+    hash: result.hash,
+    balanceIds: batch.balances.map(b => b.id),
+    claimedAmount: batch.totalAmount,
+    transferAmount: details.transferAmount,
+    fee: result.fee_charged,
+    sponsorId: details.sponsorId,
+    signing: 'server_key',
+    endpoint: result.endpoint
+  });
+  
+  // Remove the claimed balances and the batch
+  batch.balances.forEach(b => {
+    claimableBalancesMap.delete(b.id);
+    deleteRecord('balances', b.id);
+    deadlineWarnings.delete(b.id);
+  });
+  claimBatchesMap.delete(batch.id);
+  feeBumpLevels.delete(batch.id);
+  feeFundingAttempts.delete(batch.id);
+  
+  // The sponsor just paid a fee, so its balance changed
+  if (sponsor) {
+    refreshSponsorBalance(sponsor);
   }
+  
+  // Remove any scheduled tasks
+  cancelBatchTasks(batch.id);
 };
 
 /**
@@ -551,14 +1385,107 @@ export const getWalletClaimableBalances = (walletId) => {
  * @param {string} balanceId - The balance ID to remove
  */
 export const removeClaimableBalance = (balanceId) => {
-  // Cancel any scheduled claiming task
-  Object.keys(claimingTasks).forEach(key => {
-    if (key === balanceId || key.startsWith(`${balanceId}-`)) {
-      clearTimeout(claimingTasks.get(key));
-      claimingTasks.delete(key);
-    }
-  });
+  const balance = claimableBalancesMap.get(balanceId);
   
   // Remove from map
   claimableBalancesMap.delete(balanceId);
+  deleteRecord('balances', balanceId);
+  deadlineWarnings.delete(balanceId);
+  clearBalanceStatus(balanceId);
+  
+  if (!balance) return;
+  
+  // Regroup the wallet's remaining balances so no batch still claims this one
+  const wallet = getWalletById(balance.walletId);
+  const batch = balance.batchId ? claimBatchesMap.get(balance.batchId) : null;
+  
+  if (batch && (batch.isProcessing || hasTrackedSubmission(batch.id))) {
+    // The in-flight transaction can't change, so only drop it from future retries
+    batch.balances = batch.balances.filter(b => b.id !== balanceId);
+    batch.totalAmount = sumAmounts(batch.balances.map(b => b.amount));
+  } else if (wallet) {
+    scheduleWalletBatches(wallet);
+  } else if (batch) {
+    cancelBatchTasks(batch.id);
+    claimBatchesMap.delete(batch.id);
+  }
+};
+
+/**
+ * Claim a balance now instead of waiting for its scheduled claim job
+ * @param {string} walletId - The wallet ID
+ * @param {string} balanceId - The balance ID
+ * @returns {Object} The batch queued for submission and the balance's status
+ */
+export const forceProcessBalance = (walletId, balanceId) => {
+  const wallet = monitoringTasks.has(walletId) ? getWalletById(walletId) : null;
+  if (!wallet) {
+    throw new BalanceStatusError('Wallet is not being monitored', 404);
+  }
+  
+  if (wallet.signingMode === 'pre_auth') {
+    throw new BalanceStatusError('Pre-authorized wallets are claimed by their stored envelopes', 400);
+  }
+  
+  const balance = claimableBalancesMap.get(balanceId);
+  if (!balance || balance.walletId !== walletId) {
+    throw new BalanceStatusError('Balance is not being monitored for this wallet', 404);
+  }
+  
+  if (!isServerExecutor()) {
+    throw new BalanceStatusError('The browser is the claim executor; switch the execution mode to let the server claim', 409);
+  }
+  
+  const lease = findBalanceLease(balanceId);
+  if (lease && lease.holderId !== SERVER_HOLDER_ID) {
+    throw new BalanceStatusError(`Balance is leased to ${lease.holderName} until ${lease.expiresAt}`, 409);
+  }
+  
+  const now = Date.now();
+  if (new Date(balance.unlockTime).getTime() > now) {
+    throw new BalanceStatusError(`Balance is locked until ${new Date(balance.unlockTime).toISOString()}`, 409);
+  }
+  
+  const sponsor = wallet.feeSponsorId ? getWalletById(wallet.feeSponsorId) : null;
+  const holdReason = getSigningHold(wallet) || (sponsor && getSigningHold(sponsor));
+  if (holdReason) {
+    throw new BalanceStatusError(`Cannot sign right now: ${holdReason}`, 409);
+  }
+  
+  // A balance given up on gets another attempt, regrouped with whatever else is pending
+  if (balance.gaveUp) {
+    delete balance.gaveUp;
+    scheduleWalletBatches(wallet);
+  }
+  
+  const batch = balance.batchId ? claimBatchesMap.get(balance.batchId) : null;
+  if (!batch || !batch.balances.includes(balance)) {
+    throw new BalanceStatusError('Balance has no pending claim', 409);
+  }
+  
+  if (batch.isProcessing || hasTrackedSubmission(batch.id)) {
+    throw new BalanceStatusError('A claim for this balance is already being submitted', 409);
+  }
+  
+  // The batch goes out as one transaction, so every balance in it must be claimable
+  if (batch.unlockTime.getTime() > now) {
+    throw new BalanceStatusError(`Balance is claimed together with balances that unlock at ${batch.unlockTime.toISOString()}`, 409);
+  }
+  
+  cancelBatchTasks(batch.id);
+  
+  addLog({
+    message: `Force processing ${describeBatch(batch)}`,
+    status: 'info',
+    walletId: wallet.id
+  });
+  
+  claimQueue.enqueue(wallet.owner, batch.id, () => processClaimBatch(batch, wallet), batch.claimDeadline)
+    .catch(error => logError('Error force processing claim batch', error, wallet.id));
+  
+  return {
+    batchId: batch.id,
+    balanceIds: batch.balances.map(b => b.id),
+    status: getBalanceStatus(balanceId)
+  };
 };
@@ -1,11 +1,55 @@
 
 import { v4 as uuidv4 } from 'uuid';
-import { addLog, logError } from './logService.js';
+import { addLog, logError, setLogOwnerResolver } from './logService.js';
 import { startMonitoring, stopMonitoring } from './walletMonitor.js';
+import { DEFAULT_AMOUNT_MODE } from './amountPlanner.js';
+import { refreshSponsorBalance, getSponsorStatus, clearSponsorStatus } from './feeSponsor.js';
+import { getAllRecords, putRecord, putRecords, deleteRecord, compact } from './storage.js';
+import { VaultError, isVaultUnlocked, onVaultUnlocked, sealSecret, openSecret, preparePassphraseChange, commitVaultKey } from './keyVault.js';
+import { clearPreAuthEnvelopes } from './preAuth.js';
+import { DEFAULT_SIGNER, verifySignerHoldsKey } from './signers.js';
 
-// In-memory storage for wallets (in production, use a database)
+// Wallet types: claim wallets are monitored, fee sponsors only pay fees
+export const WALLET_TYPES = ['claim', 'fee_sponsor'];
+
+// Signing modes: server_key signs with the vaulted key, pre_auth only submits envelopes signed in advance
+export const SIGNING_MODES = ['server_key', 'pre_auth'];
+
+// Wallets being managed (kept in the store so they survive restarts)
 let wallets = [];
 
+// A wallet's logs belong to the wallet's owner
+setLogOwnerResolver((walletId) => wallets.find(w => w.id === walletId)?.owner);
+
+/**
+ * Reload the wallets saved before the last shutdown and resume monitoring them
+ * @returns {number} The number of wallets restored
+ */
+export const restoreWallets = async () => {
+  try {
+    wallets = getAllRecords('wallets').map(wallet => ({ ...wallet, added: new Date(wallet.added) }));
+  } catch (error) {
+    logError('Failed to restore wallets', error);
+    return 0;
+  }
+  
+  addLog({
+    message: `Restored ${wallets.length} wallet(s) from storage`,
+    status: 'info'
+  });
+  
+  // Sponsors first, so claim wallets see their balances on their first claim
+  for (const wallet of wallets.filter(w => w.type === 'fee_sponsor')) {
+    await refreshSponsorBalance(wallet);
+  }
+  
+  for (const wallet of wallets.filter(w => w.type !== 'fee_sponsor')) {
+    await startMonitoring(wallet);
+  }
+  
+  return wallets.length;
+};
+
 /**
  * Add a new wallet for monitoring
  * @param {Object} walletData - The wallet data
@@ -13,14 +57,48 @@ let wallets = [];
  */
 export const addWallet = async (walletData) => {
   try {
+    const type = walletData.type || 'claim';
+    
+    // Sponsors sign fee-bumps at submit time, so they always need a server key
+    const signingMode = type === 'claim' ? walletData.signingMode || 'server_key' : 'server_key';
+    
+    // Pre-authorized wallets have no signer; the others sign with the vault unless they pick another
+    const signer = signingMode === 'server_key' ? walletData.signer || DEFAULT_SIGNER : undefined;
+    
+    // Keys are only ever stored encrypted; other signers keep the key out of the store entirely
+    if (signer === 'vault' && !isVaultUnlocked()) {
+      throw new VaultError('Key vault is locked; set it up or unlock it before adding wallets', 423);
+    }
+    
+    if (signer && signer !== 'vault') {
+      await verifySignerHoldsKey(signer, walletData.address);
+    }
+    
     // Create a new wallet object with ID and timestamp
-    const newWallet = {
-      id: uuidv4(),
-      address: walletData.address,
-      privateKey: walletData.privateKey, // Store securely in production
-      destinationAddress: walletData.destinationAddress,
-      added: new Date()
-    };
+    const newWallet = type === 'fee_sponsor'
+      ? {
+        id: uuidv4(),
+        type,
+        address: walletData.address,
+        signer,
+        encryptedKey: signer === 'vault' ? sealSecret(walletData.privateKey) : undefined,
+        owner: walletData.owner,
+        added: new Date()
+      }
+      : {
+        id: uuidv4(),
+        type,
+        address: walletData.address,
+        signingMode,
+        signer,
+        encryptedKey: signer === 'vault' ? sealSecret(walletData.privateKey) : undefined,
+        destinationAddress: walletData.destinationAddress,
+        amountMode: walletData.amountMode || DEFAULT_AMOUNT_MODE,
+        maxFee: walletData.maxFee || undefined,
+        feeSponsorId: signingMode === 'server_key' ? walletData.feeSponsorId || undefined : undefined,
+        owner: walletData.owner,
+        added: new Date()
+      };
     
     // Check if wallet already exists
     const existingWallet = wallets.find(w => w.address === newWallet.address);
@@ -28,27 +106,37 @@ export const addWallet = async (walletData) => {
       throw new Error('Wallet with this address already exists');
     }
     
+    // A referenced sponsor must exist and actually be a sponsor
+    if (newWallet.feeSponsorId) {
+      const sponsor = wallets.find(w => w.id === newWallet.feeSponsorId);
+      // An account's wallets can only use that account's sponsors
+      if (!sponsor || sponsor.type !== 'fee_sponsor' || (newWallet.owner && sponsor.owner !== newWallet.owner)) {
+        throw new Error('Fee sponsor wallet not found');
+      }
+    }
+    
     // Add to wallets array
     wallets.push(newWallet);
+    putRecord('wallets', newWallet.id, newWallet);
     
     // Log the addition
     addLog({
-      message: `New wallet added: ${maskAddress(newWallet.address)}`,
+      message: `New ${type === 'fee_sponsor' ? 'fee sponsor' : 'wallet'} added: ${maskAddress(newWallet.address)}`,
       status: 'success',
       walletId: newWallet.id
     });
     
-    // Start monitoring this wallet
-    await startMonitoring(newWallet);
+    if (type === 'fee_sponsor') {
+      // Sponsors are not monitored for claims, only their balance is tracked
+      await refreshSponsorBalance(newWallet);
+    } else {
+      // Start monitoring this wallet
+      await startMonitoring(newWallet);
+    }
     
     // Return the wallet without the private key
     return {
-      wallet: {
-        id: newWallet.id,
-        address: newWallet.address,
-        destinationAddress: newWallet.destinationAddress,
-        added: newWallet.added
-      }
+      wallet: toPublicWallet(newWallet)
     };
   } catch (error) {
     logError('Failed to add wallet', error);
@@ -62,12 +150,7 @@ export const addWallet = async (walletData) => {
  */
 export const getWallets = () => {
   // Return wallets without private keys
-  return wallets.map(wallet => ({
-    id: wallet.id,
-    address: wallet.address,
-    destinationAddress: wallet.destinationAddress,
-    added: wallet.added
-  }));
+  return wallets.map(toPublicWallet);
 };
 
 /**
@@ -80,21 +163,76 @@ export const getWalletById = (walletId) => {
   if (!wallet) return null;
   
   // Return without private key
-  return {
-    id: wallet.id,
-    address: wallet.address,
-    destinationAddress: wallet.destinationAddress,
-    added: wallet.added
-  };
+  return toPublicWallet(wallet);
 };
 
 /**
  * Get a wallet with private key (for internal use only)
  * @param {string} walletId - The wallet ID
- * @returns {Object|null} The complete wallet with private key
+ * @returns {Object|null} The complete wallet with its decrypted private key
+ * @throws {VaultError} If the key vault is locked
  */
 export const getWalletWithPrivateKey = (walletId) => {
-  return wallets.find(w => w.id === walletId) || null;
+  const wallet = wallets.find(w => w.id === walletId);
+  if (!wallet) return null;
+  
+  if (!isVaultUnlocked()) {
+    throw new VaultError('Key vault is locked', 423);
+  }
+  
+  // Wallets stored before the vault existed keep a plaintext key until they are sealed
+  return { ...wallet, privateKey: wallet.privateKey || openSecret(wallet.encryptedKey) };
+};
+
+/**
+ * Encrypt any private keys still stored in plain text
+ */
+const sealPlaintextKeys = () => {
+  const plaintext = wallets.filter(w => w.privateKey);
+  if (plaintext.length === 0) return;
+  
+  const sealed = plaintext.map(({ privateKey, ...wallet }) => ({ ...wallet, encryptedKey: sealSecret(privateKey) }));
+  putRecords(sealed.map(wallet => ({ collection: 'wallets', id: wallet.id, value: wallet })));
+  
+  // The journal still holds the plaintext records until it is rewritten
+  compact();
+  
+  wallets = wallets.map(w => sealed.find(s => s.id === w.id) || w);
+  
+  addLog({
+    message: `Encrypted ${sealed.length} private key(s) stored before the key vault was set up`,
+    status: 'success'
+  });
+};
+
+// Seal leftover plaintext keys as soon as the vault key is available
+onVaultUnlocked(sealPlaintextKeys);
+
+/**
+ * Change the vault passphrase and re-encrypt every stored key with the new one
+ * @param {string} currentPassphrase - The current passphrase
+ * @param {string} newPassphrase - The new passphrase
+ */
+export const changeVaultPassphrase = async (currentPassphrase, newPassphrase) => {
+  const change = await preparePassphraseChange(currentPassphrase, newPassphrase);
+  
+  const resealed = wallets
+    .filter(w => w.encryptedKey)
+    .map(wallet => ({ ...wallet, encryptedKey: change.reseal(wallet.encryptedKey) }));
+  
+  // The new vault record and every re-encrypted key are written together, so a crash can't mix keys
+  putRecords([
+    { collection: 'vault', id: change.record.id, value: change.record },
+    ...resealed.map(wallet => ({ collection: 'wallets', id: wallet.id, value: wallet }))
+  ]);
+  
+  // Drop the old salt, check value and keys sealed under the old passphrase from the journal
+  compact();
+  
+  wallets = wallets.map(w => resealed.find(r => r.id === w.id) || w);
+  
+  // Also seals any plaintext keys left, now under the new key
+  await commitVaultKey(change.key);
 };
 
 /**
@@ -109,11 +247,23 @@ export const removeWallet = async (walletId) => {
       throw new Error('Wallet not found');
     }
     
-    // Stop monitoring this wallet
-    await stopMonitoring(walletId);
+    if (walletToRemove.type === 'fee_sponsor') {
+      // Don't leave claim wallets pointing at a sponsor that no longer exists
+      const dependents = wallets.filter(w => w.feeSponsorId === walletId);
+      if (dependents.length > 0) {
+        throw new Error(`Fee sponsor is still used by ${dependents.length} wallet(s)`);
+      }
+      
+      clearSponsorStatus(walletId);
+    } else {
+      // Stop monitoring this wallet
+      await stopMonitoring(walletId);
+      clearPreAuthEnvelopes(walletId);
+    }
     
     // Remove from array
     wallets = wallets.filter(w => w.id !== walletId);
+    deleteRecord('wallets', walletId);
     
     // Log the removal
     addLog({
@@ -129,6 +279,26 @@ export const removeWallet = async (walletId) => {
   }
 };
 
+/**
+ * Strip secrets from a wallet before returning it to clients
+ * @param {Object} wallet - The stored wallet
+ * @returns {Object} The wallet without its private key
+ */
+const toPublicWallet = (wallet) => ({
+  id: wallet.id,
+  type: wallet.type,
+  address: wallet.address,
+  destinationAddress: wallet.destinationAddress,
+  amountMode: wallet.amountMode,
+  maxFee: wallet.maxFee,
+  feeSponsorId: wallet.feeSponsorId,
+  signingMode: wallet.type === 'fee_sponsor' ? undefined : wallet.signingMode || 'server_key',
+  signer: wallet.signingMode === 'pre_auth' ? undefined : wallet.signer || DEFAULT_SIGNER,
+  sponsorStatus: wallet.type === 'fee_sponsor' ? getSponsorStatus(wallet.id) : undefined,
+  owner: wallet.owner,
+  added: wallet.added
+});
+
 /**
  * Mask a wallet address for privacy
  * @param {string} address - The wallet address
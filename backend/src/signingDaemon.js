@@ -0,0 +1,165 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import express from 'express';
+import dotenv from 'dotenv';
+import * as StellarSdk from 'stellar-sdk';
+import { createKeyring, parseSecrets } from './services/keyring.js';
+import { getEnvelopeRefusal, parseDestinations } from './services/signingPolicy.js';
+
+// Load environment variables
+dotenv.config();
+
+// Unix socket path, or a TCP port bound to localhost only
+const SIGNER_LISTEN = process.env.SIGNER_LISTEN || '7070';
+
+// File with the secret keys this daemon signs for (one per line); SIGNER_SECRETS is used if unset
+const SIGNER_KEYS_FILE = process.env.SIGNER_KEYS_FILE;
+
+// Shared secret the API server must present; required when listening on TCP
+const SIGNER_TOKEN = process.env.SIGNER_TOKEN || '';
+
+// ADDRESS=DESTINATION pairs: claims by each address may only pay out to its destination
+const SIGNER_DESTINATIONS = process.env.SIGNER_DESTINATIONS || '';
+
+// Every signature request is appended here
+const SIGNER_AUDIT_FILE = path.resolve(process.env.SIGNER_AUDIT_FILE || 'data/signer-audit.jsonl');
+
+// Pi Network passphrase (the daemon hashes with its own, never the caller's)
+const NETWORK_PASSPHRASE = process.env.PI_NETWORK_PASSPHRASE || 'Pi Network';
+
+// A TCP port binds to localhost only; anything else is a Unix socket path
+const listensOnTcp = /^\d+$/.test(SIGNER_LISTEN);
+
+// Any local process can reach a localhost port, so only a token keeps them from asking for signatures
+if (listensOnTcp && !SIGNER_TOKEN) {
+  console.error('SIGNER_TOKEN is required when the signing daemon listens on a TCP port');
+  process.exit(1);
+}
+
+const keyring = createKeyring(parseSecrets(
+  SIGNER_KEYS_FILE ? fs.readFileSync(SIGNER_KEYS_FILE, 'utf8') : process.env.SIGNER_SECRETS
+));
+
+const destinations = parseDestinations(SIGNER_DESTINATIONS);
+
+/**
+ * Append a signature request to the audit file
+ * @param {Object} entry - The request and its outcome
+ */
+const audit = (entry) => {
+  try {
+    fs.mkdirSync(path.dirname(SIGNER_AUDIT_FILE), { recursive: true });
+    fs.appendFileSync(SIGNER_AUDIT_FILE, `${JSON.stringify({ timestamp: new Date().toISOString(), ...entry })}\n`);
+  } catch (error) {
+    console.error('Error writing signer audit entry:', error);
+  }
+};
+
+/**
+ * Error answering a signature request, with the HTTP status that fits it
+ */
+class SignRequestError extends Error {
+  /**
+   * @param {string} message - Human-readable description
+   * @param {number} status - HTTP status
+   */
+  constructor(message, status) {
+    super(message);
+    this.name = 'SignRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * Check a presented authorization header against the shared token in constant time
+ * @param {string} [header] - The Authorization header
+ * @returns {boolean} True if it carries the token
+ */
+const hasSignerToken = (header) => {
+  // Hashed first so both sides have the same length, which timingSafeEqual requires
+  const digest = (value) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(header || ''), digest(`Bearer ${SIGNER_TOKEN}`));
+};
+
+/**
+ * Get the account a signature from an address would authorize
+ * @param {StellarSdk.Transaction|StellarSdk.FeeBumpTransaction} transaction - The parsed envelope
+ * @returns {string} The source account, or the fee source of a fee-bump
+ */
+const getSigningAccount = (transaction) => {
+  return transaction instanceof StellarSdk.FeeBumpTransaction ? transaction.feeSource : transaction.source;
+};
+
+const app = express();
+app.use(express.json());
+
+// Only the API server holding the shared token may ask for signatures
+app.use((req, res, next) => {
+  if (SIGNER_TOKEN && !hasSignerToken(req.headers.authorization)) {
+    audit({ path: req.path, outcome: 'rejected', error: 'bad token' });
+    return res.status(401).json({ message: 'Invalid signer token' });
+  }
+  next();
+});
+
+// Addresses this daemon can sign for
+app.get('/keys', (req, res) => {
+  res.json({ addresses: keyring.addresses() });
+});
+
+// Sign a transaction envelope for one of the held addresses
+app.post('/sign', (req, res) => {
+  const { address, walletId, purpose, xdr } = req.body;
+  const entry = { address, walletId, purpose };
+
+  try {
+    if (!address || !xdr) {
+      throw new SignRequestError('address and xdr are required', 400);
+    }
+
+    const transaction = StellarSdk.TransactionBuilder.fromXDR(xdr, NETWORK_PASSPHRASE);
+    entry.hash = transaction.hash().toString('hex');
+
+    // Never sign for an account the envelope doesn't spend from
+    if (getSigningAccount(transaction) !== address) {
+      throw new SignRequestError('Envelope is not sourced from this address', 403);
+    }
+
+    if (!keyring.has(address)) {
+      throw new SignRequestError('No key held for this address', 404);
+    }
+
+    // Claims paying out to the wallet's own destination (or fee-bumps around one) are all it signs
+    const refusal = getEnvelopeRefusal(transaction, destinations);
+    if (refusal) {
+      throw new SignRequestError(refusal, 403);
+    }
+
+    const signature = keyring.sign(address, transaction.hash());
+
+    audit({ ...entry, outcome: 'signed' });
+    res.json({ signature, hash: entry.hash });
+  } catch (error) {
+    audit({ ...entry, outcome: 'failed', error: error.message });
+    res.status(error.status || 400).json({ message: error.message });
+  }
+});
+
+if (listensOnTcp) {
+  app.listen(parseInt(SIGNER_LISTEN, 10), '127.0.0.1', () => {
+    console.log(`Signing daemon holding ${keyring.addresses().length} key(s) on 127.0.0.1:${SIGNER_LISTEN}`);
+  });
+} else {
+  // A socket left behind by a previous run blocks listening
+  if (fs.existsSync(SIGNER_LISTEN)) {
+    fs.unlinkSync(SIGNER_LISTEN);
+  }
+
+  // Only the owner (the user running both processes) may connect; set before the socket exists
+  process.umask(0o177);
+
+  app.listen(SIGNER_LISTEN, () => {
+    console.log(`Signing daemon holding ${keyring.addresses().length} key(s) on ${SIGNER_LISTEN}`);
+  });
+}
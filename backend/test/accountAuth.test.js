@@ -0,0 +1,72 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as StellarSdk from 'stellar-sdk';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-test-'));
+const allowed = StellarSdk.Keypair.random();
+
+describe('account login sessions', () => {
+  let challengeAuth;
+  let authService;
+
+  before(async () => {
+    process.env.DATA_DIR = dataDir;
+    process.env.AUTH_ALLOWED_ACCOUNTS = ` ${allowed.publicKey()} ,`;
+
+    challengeAuth = await import('../src/services/challengeAuth.js');
+    authService = await import('../src/services/authService.js');
+  });
+
+  after(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Sign in the way the frontend does: sign the challenge and exchange it for a session
+   * @param {StellarSdk.Keypair} keypair - The account's key
+   * @returns {string} The session token
+   */
+  const logIn = (keypair) => {
+    const challenge = challengeAuth.createChallenge(keypair.publicKey());
+    const transaction = new StellarSdk.Transaction(challenge.transaction, challenge.networkPassphrase);
+    transaction.sign(keypair);
+
+    const account = challengeAuth.verifyChallenge(transaction.toXDR());
+    return authService.createSession(account).token;
+  };
+
+  it('only lets an unknown account view', () => {
+    const stranger = StellarSdk.Keypair.random();
+    const caller = authService.authenticateToken(logIn(stranger));
+
+    assert.equal(caller.role, 'viewer');
+    assert.equal(caller.tenant, stranger.publicKey());
+  });
+
+  it('lets an account on AUTH_ALLOWED_ACCOUNTS operate', () => {
+    assert.equal(authService.authenticateToken(logIn(allowed)).role, 'operator');
+  });
+
+  it("gives a registered account its tenant token's role, for as long as the token exists", () => {
+    const member = StellarSdk.Keypair.random();
+    const session = logIn(member);
+    assert.equal(authService.authenticateToken(session).role, 'viewer');
+
+    const { record } = authService.createApiToken({ name: 'member', role: 'operator', tenant: member.publicKey() });
+    assert.equal(authService.authenticateToken(session).role, 'operator');
+
+    authService.revokeApiToken(record.id);
+    assert.equal(authService.authenticateToken(session).role, 'viewer');
+  });
+
+  it('refuses a challenge signed by another key', () => {
+    const challenge = challengeAuth.createChallenge(StellarSdk.Keypair.random().publicKey());
+    const transaction = new StellarSdk.Transaction(challenge.transaction, challenge.networkPassphrase);
+    transaction.sign(allowed);
+
+    assert.throws(() => challengeAuth.verifyChallenge(transaction.toXDR()), /Invalid challenge/);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeTransferAmount, fromStroops, toStroops } from '../src/services/amountPlanner.js';
+
+// 0.5 Pi, so an account without subentries needs 1 Pi
+const BASE_RESERVE = 5000000n;
+
+// 200 stroops: one claim plus the payment at 100 stroops each
+const FEE = '200';
+
+/**
+ * Account details as fetchAccountDetails returns them
+ * @param {string} nativeBalance - The balance in Pi before the claim
+ * @param {Object} [extra] - Other fields to override
+ * @returns {Object} The account
+ */
+const account = (nativeBalance, extra = {}) => ({
+  nativeBalance,
+  sellingLiabilities: '0',
+  subentryCount: 0,
+  numSponsoring: 0,
+  numSponsored: 0,
+  ...extra
+});
+
+const plan = (nativeBalance, claimedAmount, mode, extra) => computeTransferAmount({
+  account: account(nativeBalance, extra),
+  baseReserve: BASE_RESERVE,
+  claimedAmount,
+  fee: FEE,
+  mode
+});
+
+describe('computeTransferAmount', () => {
+  const cases = [
+    ['claimed forwards the full claim', '5', '10', 'claimed', { amount: '10.0000000', mode: 'claimed', capped: false, available: '13.9999800' }],
+    ['claimed_minus_fee takes the fee off the claim', '5', '10', 'claimed_minus_fee', { amount: '9.9999800', mode: 'claimed_minus_fee', capped: false, available: '13.9999800' }],
+    ['sweep sends everything above the reserve', '5', '10', 'sweep', { amount: '13.9999800', mode: 'sweep', capped: false, available: '13.9999800' }],
+    ['auto forwards the full claim when the wallet covers the fee', '5', '10', 'auto', { amount: '10.0000000', mode: 'claimed', capped: false, available: '13.9999800' }],
+    ['auto takes the fee off the claim for a wallet exactly at its reserve', '1', '10', 'auto', { amount: '9.9999800', mode: 'claimed_minus_fee', capped: false, available: '9.9999800' }],
+    ['claimed is capped for a wallet exactly at its reserve', '1', '10', 'claimed', { amount: '9.9999800', mode: 'claimed', capped: true, available: '9.9999800' }],
+    ['a claim one stroop above the fee leaves one stroop to send', '1', '0.0000201', 'auto', { amount: '0.0000001', mode: 'claimed_minus_fee', capped: false, available: '0.0000001' }]
+  ];
+
+  for (const [name, nativeBalance, claimedAmount, mode, expected] of cases) {
+    it(name, () => {
+      const { amount, mode: usedMode, capped, available, minimumBalance } = plan(nativeBalance, claimedAmount, mode);
+      assert.equal(minimumBalance, '1.0000000');
+      assert.deepEqual({ amount, mode: usedMode, capped, available }, expected);
+    });
+  }
+
+  it('refuses when the claim only just pays the fee of a wallet at its reserve', () => {
+    assert.throws(() => plan('1', '0.0000200', 'auto'), /Nothing available to transfer above the 1.0000000 Pi reserve/);
+  });
+
+  it('counts subentries, sponsorships and selling liabilities in the minimum balance', () => {
+    const result = plan('3', '1', 'sweep', { subentryCount: 2, numSponsoring: 1, numSponsored: 1, sellingLiabilities: '0.5' });
+
+    // (2 + 2 + 1 - 1) reserves of 0.5 Pi plus 0.5 Pi of liabilities
+    assert.equal(result.minimumBalance, '2.5000000');
+    assert.equal(result.amount, '1.4999800');
+  });
+});
+
+describe('toStroops and fromStroops', () => {
+  it('round-trips amounts to the stroop', () => {
+    for (const amount of ['0.0000001', '1.0000000', '12.3456789', '100000.0000000']) {
+      assert.equal(fromStroops(toStroops(amount)), amount);
+    }
+  });
+
+  it('pads and truncates fractions to seven decimals', () => {
+    assert.equal(toStroops('1.5'), 15000000n);
+    assert.equal(toStroops('7'), 70000000n);
+    assert.equal(toStroops('0.123456789'), 1234567n);
+  });
+});
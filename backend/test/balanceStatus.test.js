@@ -0,0 +1,106 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+
+// Long enough to read a final status back, short enough to see it pruned
+const RETENTION_MS = 50;
+
+let nextId = 0;
+const balance = (walletId = 'wallet-1') => ({ id: `balance-${++nextId}`, walletId });
+
+describe('balance status machine', () => {
+  let status;
+
+  before(async () => {
+    process.env.STATUS_RETENTION_MS = String(RETENTION_MS);
+    status = await import('../src/services/balanceStatus.js');
+  });
+
+  /**
+   * Walk a fresh balance through statuses
+   * @param {Array<string>} path - Statuses in order
+   * @returns {Object} The balance
+   */
+  const walk = (path) => {
+    const b = balance();
+    path.forEach(s => status.transitionBalance(b, s));
+    return b;
+  };
+
+  it('starts idle', () => {
+    assert.equal(status.getBalanceStatus('unknown'), 'idle');
+  });
+
+  it('follows a claim from waiting to completed', () => {
+    const b = walk(['waiting', 'fetching_sequence', 'constructing', 'signing', 'submitting']);
+    const record = status.transitionBalance(b, 'completed', 'Claimed');
+
+    assert.equal(status.getBalanceStatus(b.id), 'completed');
+    assert.deepEqual(
+      { status: record.status, previousStatus: record.previousStatus, message: record.message, walletId: record.walletId },
+      { status: 'completed', previousStatus: 'submitting', message: 'Claimed', walletId: 'wallet-1' }
+    );
+  });
+
+  const refused = [
+    ['idle', 'completed', []],
+    ['waiting', 'signing', ['waiting']],
+    ['completed', 'waiting', ['waiting', 'completed']],
+    ['vanished', 'waiting', ['vanished']],
+    ['signing', 'completed', ['waiting', 'constructing', 'signing']]
+  ];
+
+  for (const [from, to, path] of refused) {
+    it(`refuses ${from} -> ${to} with a 409`, () => {
+      const b = walk(path);
+      assert.throws(() => status.transitionBalance(b, to), (error) => {
+        assert.equal(error.name, 'BalanceStatusError');
+        assert.equal(error.status, 409);
+        return true;
+      });
+      assert.equal(status.getBalanceStatus(b.id), from);
+    });
+  }
+
+  it('lets a failed balance be retried', () => {
+    const b = walk(['waiting', 'submitting', 'failed', 'waiting']);
+    assert.equal(status.getBalanceStatus(b.id), 'waiting');
+  });
+
+  it('records who took a vanished balance', () => {
+    const b = walk(['waiting']);
+    const resolution = { outcome: 'claimed_elsewhere', claimant: 'GOTHER' };
+    assert.deepEqual(status.transitionBalance(b, 'vanished', null, resolution).resolution, resolution);
+  });
+
+  it('keeps final statuses when the balance leaves monitoring, and drops the rest', () => {
+    const done = walk(['waiting', 'submitting', 'completed']);
+    const pending = walk(['waiting']);
+
+    status.clearBalanceStatus(done.id);
+    status.clearBalanceStatus(pending.id);
+
+    assert.equal(status.getBalanceStatus(done.id), 'completed');
+    assert.equal(status.getBalanceStatus(pending.id), 'idle');
+  });
+
+  it('prunes final statuses after the retention period', async () => {
+    const done = walk(['waiting', 'submitting', 'completed']);
+    assert.ok(status.getBalanceStatuses().some(r => r.balanceId === done.id));
+
+    await new Promise(resolve => setTimeout(resolve, RETENTION_MS * 2));
+    assert.ok(!status.getBalanceStatuses().some(r => r.balanceId === done.id));
+  });
+
+  it("filters statuses by the caller's wallets and clears a wallet's", () => {
+    const own = balance('wallet-own');
+    const other = balance('wallet-other');
+    status.transitionBalance(own, 'waiting');
+    status.transitionBalance(other, 'waiting');
+
+    assert.deepEqual(status.getBalanceStatuses(walletId => walletId === 'wallet-own').map(r => r.balanceId), [own.id]);
+
+    status.clearWalletStatuses('wallet-own');
+    assert.equal(status.getBalanceStatus(own.id), 'idle');
+    assert.equal(status.getBalanceStatus(other.id), 'waiting');
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { planBatches, sumAmounts, MAX_CLAIMS_PER_BATCH } from '../src/services/batchPlanner.js';
+
+const T0 = Date.parse('2025-01-01T00:00:00Z');
+const SECOND = 1000;
+const WINDOW = 60 * SECOND;
+
+/**
+ * A discovered balance as the monitor keeps it
+ * @param {string} id - The balance ID
+ * @param {number} unlockAt - Unlock time in ms
+ * @param {Object} [extra] - Other fields to override
+ * @returns {Object} The balance
+ */
+const balance = (id, unlockAt, extra = {}) => ({
+  id,
+  walletId: 'wallet-1',
+  amount: '1.5',
+  unlockTime: new Date(unlockAt).toISOString(),
+  claimDeadline: null,
+  ...extra
+});
+
+const ids = (batches) => batches.map(batch => batch.balances.map(b => b.id));
+
+describe('planBatches', () => {
+  it('groups balances unlocking within the window of the first one', () => {
+    const batches = planBatches([
+      balance('c', T0 + 2 * WINDOW),
+      balance('a', T0),
+      balance('b', T0 + WINDOW)
+    ], WINDOW);
+
+    assert.deepEqual(ids(batches), [['a', 'b'], ['c']]);
+    assert.deepEqual(batches[0].unlockTime, new Date(T0 + WINDOW));
+    assert.equal(batches[0].totalAmount, '3.0000000');
+  });
+
+  it('starts a new batch when the operation limit is reached', () => {
+    const balances = Array.from({ length: MAX_CLAIMS_PER_BATCH + 1 }, (_, i) => balance(`b${String(i).padStart(3, '0')}`, T0));
+    const batches = planBatches(balances, WINDOW);
+
+    assert.deepEqual(batches.map(batch => batch.balances.length), [MAX_CLAIMS_PER_BATCH, 1]);
+  });
+
+  it('honours a smaller claim limit', () => {
+    assert.deepEqual(ids(planBatches([balance('a', T0), balance('b', T0), balance('c', T0)], WINDOW, 2)), [['a', 'b'], ['c']]);
+  });
+
+  it("does not wait for a balance that unlocks after a member's deadline", () => {
+    const batches = planBatches([
+      balance('a', T0, { claimDeadline: new Date(T0 + 10 * SECOND).toISOString() }),
+      balance('b', T0 + 20 * SECOND)
+    ], WINDOW);
+
+    assert.deepEqual(ids(batches), [['a'], ['b']]);
+    assert.deepEqual(batches[0].claimDeadline, new Date(T0 + 10 * SECOND));
+    assert.equal(batches[1].claimDeadline, null);
+  });
+
+  it('gives a batch the earliest deadline of its balances', () => {
+    const [batch] = planBatches([
+      balance('a', T0, { claimDeadline: new Date(T0 + 5 * WINDOW).toISOString() }),
+      balance('b', T0, { claimDeadline: new Date(T0 + 2 * WINDOW).toISOString() })
+    ], WINDOW);
+
+    assert.deepEqual(batch.claimDeadline, new Date(T0 + 2 * WINDOW));
+  });
+
+  it('names each batch after its first balance, whatever order the balances come in', () => {
+    const balances = [balance('b', T0), balance('a', T0), balance('c', T0 + 2 * WINDOW)];
+    const forward = planBatches(balances, WINDOW);
+    const reversed = planBatches([...balances].reverse(), WINDOW);
+
+    // A restart finds the stored batch again by this ID
+    assert.deepEqual(forward.map(batch => batch.id), ['batch:a', 'batch:c']);
+    assert.deepEqual(reversed.map(batch => batch.id), ['batch:a', 'batch:c']);
+  });
+});
+
+describe('sumAmounts', () => {
+  it('adds amounts without floating point drift', () => {
+    assert.equal(sumAmounts(['0.1', '0.2', '0.0000001']), '0.3000001');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'leases-test-'));
+
+// Short enough to watch a lease run out
+const LEASE_TTL_MS = 100;
+
+const wallet = { id: 'wallet-1', owner: 'tenant-1' };
+const browser = { holderId: 'client-1', holderName: 'Browser 1' };
+const server = { holderId: 'server', holderName: 'Server' };
+
+const wait = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('claim leases', () => {
+  let leases;
+
+  before(async () => {
+    process.env.DATA_DIR = dataDir;
+    process.env.LEASE_TTL_MS = String(LEASE_TTL_MS);
+    leases = await import('../src/services/claimLeases.js');
+  });
+
+  after(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('leases balances to one holder and refuses the others with a 409 naming it', () => {
+    const lease = leases.acquireLease({ wallet, balanceIds: ['a', 'b'], ...server });
+    assert.equal(lease.holder, 'server');
+    assert.equal(leases.findBalanceLease('b').id, lease.id);
+
+    assert.throws(() => leases.acquireLease({ wallet, balanceIds: ['b', 'c'], ...browser }), (error) => {
+      assert.equal(error.status, 409);
+      assert.equal(error.lease.id, lease.id);
+      assert.match(error.message, /leased to Server/);
+      return true;
+    });
+
+    // All or nothing: the free balance was not leased either
+    assert.equal(leases.findBalanceLease('c'), null);
+
+    leases.releaseLease(lease.id, server.holderId);
+    assert.equal(leases.findBalanceLease('a'), null);
+  });
+
+  it("replaces the same holder's earlier lease on the balances", () => {
+    const first = leases.acquireLease({ wallet, balanceIds: ['d'], ...browser });
+    const second = leases.acquireLease({ wallet, balanceIds: ['d', 'e'], ...browser });
+
+    assert.notEqual(second.id, first.id);
+    assert.deepEqual(leases.getLeases(l => l.balanceIds.includes('d')).map(l => l.id), [second.id]);
+    leases.releaseLease(second.id, browser.holderId);
+  });
+
+  it('renews only for its holder', async () => {
+    const lease = leases.acquireLease({ wallet, balanceIds: ['f'], ...browser });
+    await wait(10);
+
+    assert.throws(() => leases.renewLease(lease.id, server.holderId), { status: 409 });
+
+    const renewed = leases.renewLease(lease.id, browser.holderId);
+    assert.ok(new Date(renewed.expiresAt) > new Date(lease.expiresAt));
+    assert.throws(() => leases.releaseLease(lease.id, server.holderId), { status: 409 });
+    leases.releaseLease(lease.id, browser.holderId);
+  });
+
+  it('frees the balances once a lease expires', async () => {
+    const lease = leases.acquireLease({ wallet, balanceIds: ['g'], ...browser });
+    await wait(LEASE_TTL_MS + 20);
+
+    assert.equal(leases.findBalanceLease('g'), null);
+    assert.throws(() => leases.renewLease(lease.id, browser.holderId), { status: 404 });
+
+    // Another executor may take over, and releasing the expired lease is a no-op
+    const takeover = leases.acquireLease({ wallet, balanceIds: ['g'], ...server });
+    assert.doesNotThrow(() => leases.releaseLease(lease.id, browser.holderId));
+    leases.releaseLease(takeover.id, server.holderId);
+  });
+
+  it('refuses an empty request', () => {
+    assert.throws(() => leases.acquireLease({ wallet, balanceIds: [], ...server }), { status: 400 });
+  });
+});
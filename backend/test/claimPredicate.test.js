@@ -0,0 +1,109 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluatePredicate, getClaimWindows, nextClaimableTime, getClaimDeadline } from '../src/services/claimPredicate.js';
+
+const CREATED_AT = Date.parse('2025-01-01T00:00:00Z');
+const T1 = Date.parse('2025-02-01T00:00:00Z');
+const T2 = Date.parse('2025-03-01T00:00:00Z');
+const T3 = Date.parse('2025-04-01T00:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+const absBefore = (ms) => ({ abs_before_epoch: String(ms / 1000) });
+const window = (start, end) => ({ start, end });
+
+describe('evaluatePredicate', () => {
+  const cases = [
+    ['no predicate', undefined, [window(-Infinity, Infinity)]],
+    ['unconditional', { unconditional: true }, [window(-Infinity, Infinity)]],
+    ['abs_before_epoch', absBefore(T1), [window(-Infinity, T1)]],
+    ['abs_before as a date', { abs_before: '2025-02-01T00:00:00Z' }, [window(-Infinity, T1)]],
+    ['not(abs_before) unlocks at the time', { not: absBefore(T1) }, [window(T1, Infinity)]],
+    ['rel_before counts from creation', { rel_before: '3600' }, [window(-Infinity, CREATED_AT + HOUR)]],
+    ['not(rel_before) unlocks after the delay', { not: { rel_before: '3600' } }, [window(CREATED_AT + HOUR, Infinity)]],
+    ['not(not(abs_before))', { not: { not: absBefore(T1) } }, [window(-Infinity, T1)]],
+    ['and of unlock and deadline', { and: [{ not: absBefore(T1) }, absBefore(T2)] }, [window(T1, T2)]],
+    ['and of disjoint windows', { and: [absBefore(T1), { not: absBefore(T2) }] }, []],
+    ['or of disjoint windows', { or: [{ not: absBefore(T3) }, absBefore(T1)] }, [window(-Infinity, T1), window(T3, Infinity)]],
+    ['or of overlapping windows', { or: [absBefore(T2), { not: absBefore(T1) }] }, [window(-Infinity, Infinity)]],
+    [
+      'nested and inside or',
+      { or: [{ and: [{ not: absBefore(T1) }, absBefore(T2)] }, { not: absBefore(T3) }] },
+      [window(T1, T2), window(T3, Infinity)]
+    ],
+    [
+      'not of a bounded window',
+      { not: { and: [{ not: absBefore(T1) }, absBefore(T2)] } },
+      [window(-Infinity, T1), window(T2, Infinity)]
+    ],
+    [
+      'rel_before combined with abs_before',
+      { and: [{ not: { rel_before: '3600' } }, absBefore(T1)] },
+      [window(CREATED_AT + HOUR, T1)]
+    ]
+  ];
+
+  for (const [name, predicate, expected] of cases) {
+    it(name, () => {
+      assert.deepEqual(evaluatePredicate(predicate, CREATED_AT), expected);
+    });
+  }
+
+  it('rejects unknown predicates', () => {
+    assert.throws(() => evaluatePredicate({ abs_after: '1' }, CREATED_AT), /Unsupported claim predicate/);
+  });
+});
+
+describe('getClaimWindows', () => {
+  const record = {
+    last_modified_time: '2025-01-01T00:00:00Z',
+    claimants: [
+      { destination: 'GOTHER', predicate: { unconditional: true } },
+      { destination: 'GWALLET', predicate: { and: [{ not: { rel_before: '3600' } }, absBefore(T1)] } }
+    ]
+  };
+
+  it('evaluates the wallet\'s own claimant, rel_before against the creation time', () => {
+    assert.deepEqual(getClaimWindows(record, 'GWALLET'), [{ start: new Date(CREATED_AT + HOUR), end: new Date(T1) }]);
+  });
+
+  it('marks unbounded edges with null', () => {
+    assert.deepEqual(getClaimWindows(record, 'GOTHER'), [{ start: null, end: null }]);
+  });
+
+  it('returns no windows for a wallet that is not a claimant', () => {
+    assert.deepEqual(getClaimWindows(record, 'GNOBODY'), []);
+  });
+});
+
+describe('nextClaimableTime and getClaimDeadline', () => {
+  const windows = [
+    { start: new Date(T1), end: new Date(T2) },
+    { start: new Date(T3), end: null }
+  ];
+
+  const cases = [
+    ['before the first window', CREATED_AT, T1, T2],
+    ['inside a window', T1 + HOUR, T1 + HOUR, T2],
+    ['between windows', T2 + HOUR, T3, null],
+    ['inside the open-ended window', T3 + HOUR, T3 + HOUR, null]
+  ];
+
+  for (const [name, now, unlock, deadline] of cases) {
+    it(name, () => {
+      const next = nextClaimableTime(windows, new Date(now));
+      assert.deepEqual(next, new Date(unlock));
+      assert.deepEqual(getClaimDeadline(windows, next), deadline === null ? null : new Date(deadline));
+    });
+  }
+
+  it('returns null once every window has closed', () => {
+    assert.equal(nextClaimableTime([{ start: null, end: new Date(T1) }], new Date(T2)), null);
+  });
+
+  it('is claimable right away without a predicate', () => {
+    const now = new Date(T1);
+    const unconditional = [{ start: null, end: null }];
+    assert.deepEqual(nextClaimableTime(unconditional, now), now);
+    assert.equal(getClaimDeadline(unconditional, now), null);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+
+// Fee stats served in place of Horizon: p90 of recent max fees is 1000 stroops
+const server = http.createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ max_fee: { p90: '1000' } }));
+});
+
+describe('selectFee', () => {
+  let selectFee;
+
+  before(async () => {
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    process.env.PI_API_BASE_URL = `http://127.0.0.1:${server.address().port}`;
+    ({ selectFee } = await import('../src/services/feePolicy.js'));
+  });
+
+  after(() => server.close());
+
+  const cases = [
+    ['bids the percentile below the ceiling', 0, { fee: '1000', capped: false, atCeiling: false }],
+    ['doubles the fee per bump level', 1, { fee: '2000', capped: false, atCeiling: false }],
+    ['reaches the ceiling exactly', 2, { fee: '4000', capped: false, atCeiling: true }],
+    ['stays at the ceiling once capped', 3, { fee: '4000', capped: true, atCeiling: true }],
+    ['does not rise past the ceiling with more bumps', 6, { fee: '4000', capped: true, atCeiling: true }]
+  ];
+
+  for (const [name, bumpLevel, expected] of cases) {
+    it(name, async () => {
+      const choice = await selectFee({ maxFee: '4000' }, bumpLevel);
+      assert.deepEqual({ fee: choice.fee, capped: choice.capped, atCeiling: choice.atCeiling }, expected);
+    });
+  }
+});
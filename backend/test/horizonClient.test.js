@@ -0,0 +1,127 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'horizon-test-'));
+
+// Two tokens, refilled at 10 a second; a request not answered within 300ms times out
+const RATE_PER_SECOND = 10;
+const BURST = 2;
+const TIMEOUT_MS = 300;
+
+// Path -> times requests arrived
+const arrivals = new Map();
+let limitedCalls = 0;
+
+/**
+ * Start a server on a free local port
+ * @param {Function} handler - (req, res) => void
+ * @returns {Promise<Object>} The server and its base URL
+ */
+const listen = async (handler) => {
+  const server = http.createServer(handler);
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, base: `http://127.0.0.1:${server.address().port}` };
+};
+
+// Stands in for Horizon
+const horizon = await listen((req, res) => {
+  const { pathname } = new URL(req.url, 'http://localhost');
+  arrivals.set(pathname, [...(arrivals.get(pathname) || []), Date.now()]);
+
+  if (pathname === '/limited' && limitedCalls++ === 0) {
+    res.writeHead(429, { 'Retry-After': '1' });
+    return res.end();
+  }
+
+  const headers = { 'Content-Type': 'application/json' };
+  if (pathname === '/exhausted') {
+    Object.assign(headers, { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '1' });
+  }
+
+  res.writeHead(200, headers);
+  res.end(JSON.stringify({ path: pathname, successful: true }));
+});
+
+// A Horizon that accepts connections but never answers
+const hung = await listen(() => {});
+
+describe('Horizon request layer', () => {
+  let horizonFetch;
+  let getHorizonStats;
+  let fetchTransaction;
+  let getEndpointHealth;
+
+  before(async () => {
+    Object.assign(process.env, {
+      DATA_DIR: dataDir,
+      PI_API_BASE_URL: `${hung.base},${horizon.base}`,
+      HORIZON_RATE_PER_SECOND: String(RATE_PER_SECOND),
+      HORIZON_BURST: String(BURST),
+      HORIZON_TIMEOUT_MS: String(TIMEOUT_MS)
+    });
+
+    ({ horizonFetch, getHorizonStats } = await import('../src/services/horizonClient.js'));
+    ({ fetchTransaction } = await import('../src/services/piNetworkApi.js'));
+    ({ getEndpointHealth } = await import('../src/services/horizonEndpoints.js'));
+  });
+
+  after(() => {
+    horizon.server.close();
+    hung.server.closeAllConnections();
+    hung.server.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('sends a burst at once, then one request per refilled token', async () => {
+    await Promise.all(Array.from({ length: 4 }, () => horizonFetch('discovery', `${horizon.base}/bucket`)));
+
+    const [first, second, third, fourth] = arrivals.get('/bucket');
+    const tokenMs = 1000 / RATE_PER_SECOND;
+    assert.ok(second - first < tokenMs / 2, 'the burst goes out back to back');
+    assert.ok(third - first >= tokenMs * 0.8, 'the third waits for a token');
+    assert.ok(fourth - first >= tokenMs * 1.8, 'the fourth waits for another');
+  });
+
+  it('waits out Retry-After on a 429 and retries the request', async () => {
+    const response = await horizonFetch('claim', `${horizon.base}/limited`);
+    assert.equal(response.status, 200);
+
+    const [rejected, retried] = arrivals.get('/limited');
+    assert.ok(retried - rejected >= 950, 'the retry waited about a second');
+
+    const stats = getHorizonStats();
+    assert.deepEqual({ rateLimited: stats.totals.rateLimited, retried: stats.totals.retried }, { rateLimited: 1, retried: 1 });
+    assert.equal(stats.throttleEvents[0].reason, '429 Too Many Requests');
+    assert.equal(stats.throttleEvents[0].pauseMs, 1000);
+  });
+
+  it('pauses until the window resets once X-RateLimit-Remaining reaches 0', async () => {
+    await horizonFetch('claim', `${horizon.base}/exhausted`);
+    assert.ok(getHorizonStats().pausedUntil);
+
+    await horizonFetch('claim', `${horizon.base}/after-reset`);
+    const [exhausted] = arrivals.get('/exhausted');
+    const [next] = arrivals.get('/after-reset');
+
+    assert.ok(next - exhausted >= 950, 'the next request waited for the reset');
+    assert.equal(getHorizonStats().throttleEvents[0].reason, 'no requests left in the current window');
+  });
+
+  it('fails a read over to the next endpoint when one hangs', async () => {
+    // Both endpoints start out equally healthy, so the hung one, listed first, is tried first
+    const record = await fetchTransaction('abc');
+    assert.deepEqual(record, { path: '/transactions/abc', successful: true });
+
+    const [hungHealth] = getEndpointHealth().endpoints;
+    assert.match(hungHealth.lastError, /did not respond/);
+  });
+
+  it('times out a request Horizon never answers and frees its slot', async () => {
+    await assert.rejects(horizonFetch('discovery', `${hung.base}/nothing`), /did not respond within 0.3s/);
+    assert.equal(getHorizonStats().inFlight, 0);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as StellarSdk from 'stellar-sdk';
+import { HorizonSubmissionError, RETRY_POLICIES, classifyResultCodes, describeResultCodes, getRetryPolicy, readResultCodes } from '../src/services/horizonErrors.js';
+
+describe('classifyResultCodes', () => {
+  const cases = [
+    ['tx_bad_seq resyncs the sequence', { transaction: 'tx_bad_seq' }, 'bad_sequence', RETRY_POLICIES.REFRESH_SEQUENCE],
+    ['tx_insufficient_fee raises the fee', { transaction: 'tx_insufficient_fee' }, 'fee_too_low', RETRY_POLICIES.RAISE_FEE],
+    ['tx_too_late rebuilds now', { transaction: 'tx_too_late' }, 'expired', RETRY_POLICIES.RETRY_NOW],
+    ['op_does_not_exist means the balance is gone', { transaction: 'tx_failed', operations: ['op_success', 'op_does_not_exist', 'op_success'] }, 'balance_gone', RETRY_POLICIES.GIVE_UP],
+    ['op_cannot_claim waits', { transaction: 'tx_failed', operations: ['op_cannot_claim', 'op_success'] }, 'not_claimable_yet', RETRY_POLICIES.RETRY_LATER],
+    ['tx_insufficient_balance waits for the fee payer', { transaction: 'tx_insufficient_balance' }, 'insufficient_fee_balance', RETRY_POLICIES.RETRY_LATER],
+    ['a fee-bump is classified by its failed operations', { transaction: 'tx_fee_bump_inner_failed', inner_transaction: 'tx_failed', operations: ['op_success', 'op_no_destination'] }, 'bad_destination', RETRY_POLICIES.GIVE_UP],
+    ['a fee-bump without operation codes falls back to the inner code', { transaction: 'tx_fee_bump_inner_failed', inner_transaction: 'tx_bad_seq' }, 'bad_sequence', RETRY_POLICIES.REFRESH_SEQUENCE],
+    ['an unknown code is transient', { transaction: 'tx_something_new' }, 'transient', RETRY_POLICIES.RETRY_LATER],
+    ['no result codes are transient', undefined, 'transient', RETRY_POLICIES.RETRY_LATER]
+  ];
+
+  for (const [name, resultCodes, errorClass, policy] of cases) {
+    it(name, () => {
+      const classified = classifyResultCodes(resultCodes);
+      assert.deepEqual({ errorClass: classified.errorClass, policy: classified.policy }, { errorClass, policy });
+    });
+  }
+
+  it('reports the failed operations by index', () => {
+    const { failedOperations } = classifyResultCodes({ transaction: 'tx_failed', operations: ['op_success', 'op_does_not_exist'] });
+    assert.deepEqual(failedOperations, [{ index: 1, code: 'op_does_not_exist' }]);
+  });
+});
+
+describe('getRetryPolicy', () => {
+  it('uses the result codes of a Horizon rejection', () => {
+    const error = new HorizonSubmissionError('rejected', { status: 400, resultCodes: { transaction: 'tx_bad_seq' } });
+    assert.deepEqual(getRetryPolicy(error), { errorClass: 'bad_sequence', policy: RETRY_POLICIES.REFRESH_SEQUENCE });
+  });
+
+  it('treats a Horizon error without result codes as transient', () => {
+    assert.deepEqual(getRetryPolicy(new HorizonSubmissionError('Gateway timeout', { status: 504 })), { errorClass: 'transient', policy: RETRY_POLICIES.RETRY_LATER });
+  });
+
+  it('treats network errors as transient', () => {
+    assert.deepEqual(getRetryPolicy(new TypeError('fetch failed')), { errorClass: 'transient', policy: RETRY_POLICIES.RETRY_LATER });
+  });
+});
+
+describe('describeResultCodes', () => {
+  it('names the inner transaction and operation codes', () => {
+    assert.equal(
+      describeResultCodes({ transaction: 'tx_fee_bump_inner_failed', inner_transaction: 'tx_failed', operations: ['op_success', 'op_underfunded'] }),
+      'tx_fee_bump_inner_failed/tx_failed (op_success, op_underfunded)'
+    );
+  });
+});
+
+describe('readResultCodes', () => {
+  const { xdr } = StellarSdk;
+  const fee = xdr.Int64.fromString('100');
+  const claimResult = (result) => xdr.OperationResult.opInner(xdr.OperationResultTr.claimClaimableBalance(result));
+  const paymentResult = (result) => xdr.OperationResult.opInner(xdr.OperationResultTr.payment(result));
+
+  it('reads the codes of a failed claim', () => {
+    const result = new xdr.TransactionResult({
+      feeCharged: fee,
+      result: xdr.TransactionResultResult.txFailed([
+        claimResult(xdr.ClaimClaimableBalanceResult.claimClaimableBalanceDoesNotExist()),
+        paymentResult(xdr.PaymentResult.paymentSuccess())
+      ]),
+      ext: new xdr.TransactionResultExt(0)
+    });
+
+    assert.deepEqual(readResultCodes(result.toXDR('base64')), { transaction: 'tx_failed', operations: ['op_does_not_exist', 'op_success'] });
+  });
+
+  it('reads the inner result of a fee-bump', () => {
+    const inner = new xdr.InnerTransactionResult({
+      feeCharged: fee,
+      result: xdr.InnerTransactionResultResult.txFailed([paymentResult(xdr.PaymentResult.paymentUnderfunded())]),
+      ext: new xdr.InnerTransactionResultExt(0)
+    });
+    const result = new xdr.TransactionResult({
+      feeCharged: fee,
+      result: xdr.TransactionResultResult.txFeeBumpInnerFailed(new xdr.InnerTransactionResultPair({ transactionHash: Buffer.alloc(32), result: inner })),
+      ext: new xdr.TransactionResultExt(0)
+    });
+
+    assert.deepEqual(readResultCodes(result.toXDR('base64')), { transaction: 'tx_fee_bump_inner_failed', inner_transaction: 'tx_failed', operations: ['op_underfunded'] });
+  });
+
+  it('returns null for unreadable XDR', () => {
+    assert.equal(readResultCodes('not xdr'), null);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { createEventStreamParser } from '../src/services/eventStreamParser.js';
+
+/**
+ * Feed chunks to a fresh parser
+ * @param {Array<string|Buffer>} chunks - The stream as it arrives
+ * @returns {Array<Object>} Every event completed, in order
+ */
+const parse = (chunks) => {
+  const parser = createEventStreamParser();
+  return chunks.flatMap(chunk => parser.push(chunk));
+};
+
+describe('createEventStreamParser', () => {
+  const stream = 'retry: 1000\nid: 1-1\ndata: "hello"\n\n: keep-alive\n\nid: 1-2\ndata: {"type":"claimable_balance_created"}\n\n';
+
+  it('parses whole events, ignoring comment and unknown lines', () => {
+    assert.deepEqual(parse([stream]), [
+      { id: '1-1', data: '"hello"' },
+      {},
+      { id: '1-2', data: '{"type":"claimable_balance_created"}' }
+    ]);
+  });
+
+  it('gives the same events however the stream is split', () => {
+    const whole = parse([stream]);
+
+    for (let at = 1; at < stream.length; at++) {
+      assert.deepEqual(parse([stream.slice(0, at), stream.slice(at)]), whole, `split at ${at}`);
+    }
+
+    // One character at a time, with the blank line ending each event arriving on its own
+    assert.deepEqual(parse(stream.split('')), whole);
+  });
+
+  it('holds back an event until its blank line arrives', () => {
+    const parser = createEventStreamParser();
+    assert.deepEqual(parser.push('id: 7\ndata: {"a":1}\n'), []);
+    assert.deepEqual(parser.push('\n'), [{ id: '7', data: '{"a":1}' }]);
+  });
+
+  it('joins multi-line data and accepts CRLF line ends', () => {
+    assert.deepEqual(parse(['event: effect\r\ndata: first\r\ndata:second\r\n\r\n']), [{ event: 'effect', data: 'first\nsecond' }]);
+  });
+
+  it('keeps a character split across byte chunks intact', () => {
+    const bytes = Buffer.from('data: π\n\n');
+    const cut = bytes.indexOf(0xcf) + 1;
+    assert.deepEqual(parse([bytes.subarray(0, cut), bytes.subarray(cut)]), [{ data: 'π' }]);
+  });
+});
+
+describe('openEffectStream', () => {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stream-test-'));
+  const address = 'GSTREAMTEST';
+  const requestedCursors = [];
+  let server;
+  let openEffectStream;
+
+  before(async () => {
+    // Each connection sends two effects after the cursor it asks for, then closes like Horizon does
+    server = http.createServer((req, res) => {
+      const cursor = new URL(req.url, 'http://localhost').searchParams.get('cursor');
+      requestedCursors.push(cursor);
+
+      const next = Number(cursor) + 1;
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: "hello"\n\n: keep-alive\n\n');
+      res.write(`id: ${next}\ndata: {"id":"effect-${next}"}\n\nid: ${next + 1}\nda`);
+      res.end(`ta: {"id":"effect-${next + 1}"}\n\n`);
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    Object.assign(process.env, {
+      DATA_DIR: dataDir,
+      PI_API_BASE_URL: `http://127.0.0.1:${server.address().port}`,
+      STREAM_RECONNECT_MIN_MS: '10'
+    });
+    ({ openEffectStream } = await import('../src/services/horizonStream.js'));
+  });
+
+  after(() => {
+    server.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('resumes from the persisted cursor and reconnects after the last effect it saw', async () => {
+    const received = [];
+
+    await new Promise((resolve) => {
+      const subscription = openEffectStream({
+        address,
+        cursor: '100',
+        onEffect: (effect, cursor) => {
+          received.push([effect.id, cursor]);
+          if (received.length === 4) {
+            subscription.stop();
+            resolve();
+          }
+        }
+      });
+    });
+
+    assert.deepEqual(requestedCursors, ['100', '102']);
+    assert.deepEqual(received, [
+      ['effect-101', '101'],
+      ['effect-102', '102'],
+      ['effect-103', '103'],
+      ['effect-104', '104']
+    ]);
+  });
+});
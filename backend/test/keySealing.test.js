@@ -0,0 +1,77 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as StellarSdk from 'stellar-sdk';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sealing-test-'));
+const journalFile = path.join(dataDir, 'store.jsonl');
+const secret = StellarSdk.Keypair.random().secret();
+
+// A sponsor wallet saved with a plaintext key, the way stores written before the vault hold it
+const wallet = {
+  id: 'sponsor-1',
+  address: StellarSdk.Keypair.fromSecret(secret).publicKey(),
+  privateKey: secret,
+  type: 'fee_sponsor',
+  owner: 'global',
+  added: new Date().toISOString()
+};
+
+const readJournal = () => fs.readFileSync(journalFile, 'utf8');
+
+describe('sealing private keys', () => {
+  let walletService;
+  let keyVault;
+
+  before(async () => {
+    fs.writeFileSync(journalFile, [
+      JSON.stringify({ op: 'schema', version: 2 }),
+      JSON.stringify({ op: 'put', collection: 'wallets', id: wallet.id, value: wallet })
+    ].join('\n') + '\n');
+
+    // Nothing listens here, so the sponsor balance refresh fails right away
+    process.env.DATA_DIR = dataDir;
+    process.env.PI_API_BASE_URL = 'http://127.0.0.1:9';
+
+    walletService = await import('../src/services/walletService.js');
+    keyVault = await import('../src/services/keyVault.js');
+    await walletService.restoreWallets();
+  });
+
+  after(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('removes the plaintext key from the journal once the vault seals it', async () => {
+    assert.ok(readJournal().includes(secret));
+
+    await keyVault.initVault('first passphrase');
+
+    const journal = readJournal();
+    assert.ok(!journal.includes(secret));
+    assert.ok(!journal.includes('"privateKey"'));
+    assert.equal(walletService.getWalletWithPrivateKey(wallet.id).privateKey, secret);
+  });
+
+  it('drops the old vault record and old ciphertexts when the passphrase changes', async () => {
+    const before = readJournal();
+    const oldVault = JSON.parse(before.split('\n').find(line => line.includes('"collection":"vault"'))).value;
+    const oldWallet = JSON.parse(before.split('\n').find(line => line.includes(`"id":"${wallet.id}"`))).value;
+
+    await walletService.changeVaultPassphrase('first passphrase', 'second passphrase');
+
+    const journal = readJournal();
+    assert.ok(!journal.includes(oldVault.salt));
+    assert.ok(!journal.includes(oldVault.check.data));
+    assert.ok(!journal.includes(oldWallet.encryptedKey.data));
+    assert.ok(!journal.includes(secret));
+
+    // Only the new passphrase opens the vault
+    keyVault.lockVault();
+    await assert.rejects(keyVault.unlockVault('first passphrase'), /Incorrect vault passphrase/);
+    await keyVault.unlockVault('second passphrase');
+    assert.equal(walletService.getWalletWithPrivateKey(wallet.id).privateKey, secret);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'logs-test-'));
+
+describe('log restore', () => {
+  let logService;
+  let storage;
+
+  before(async () => {
+    process.env.DATA_DIR = dataDir;
+    storage = await import('../src/services/storage.js');
+    logService = await import('../src/services/logService.js');
+  });
+
+  after(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('keeps logs written before the restore once, alongside the saved ones, newest first', () => {
+    storage.putRecord('logs', 'old', {
+      id: 'old',
+      timestamp: new Date(Date.now() - 60000).toISOString(),
+      message: 'From the last run',
+      status: 'info'
+    });
+
+    const early = logService.addLog({ message: 'Logged during startup', status: 'info' });
+    assert.equal(logService.restoreLogs(), 2);
+
+    const logs = logService.getLogs();
+    assert.deepEqual(logs.map(log => log.id), [early.id, 'old']);
+    assert.ok(logs[1].timestamp instanceof Date);
+  });
+});
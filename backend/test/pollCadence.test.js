@@ -0,0 +1,98 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+
+const MINUTE = 60 * 1000;
+const NOW = new Date('2025-01-01T00:00:00Z');
+
+/**
+ * Import a fresh copy of the module with a poll budget
+ * @param {string} budget - POLL_BUDGET_PER_MINUTE
+ * @returns {Promise<Object>} The pollCadence module
+ */
+const loadPollCadence = async (budget) => {
+  process.env.POLL_BUDGET_PER_MINUTE = budget;
+  try {
+    return await import(`../src/services/pollCadence.js?budget=${budget}`);
+  } finally {
+    delete process.env.POLL_BUDGET_PER_MINUTE;
+  }
+};
+
+describe('getDesiredCadence', () => {
+  let getDesiredCadence;
+
+  before(async () => {
+    ({ getDesiredCadence } = await loadPollCadence('60'));
+  });
+
+  const cases = [
+    ['an unlock within 2 minutes', 90 * 1000, { tier: 'imminent', interval: 10 * 1000 }],
+    ['exactly 2 minutes out', 2 * MINUTE, { tier: 'imminent', interval: 10 * 1000 }],
+    ['an unlock within 10 minutes', 5 * MINUTE, { tier: 'minutes', interval: 30 * 1000 }],
+    ['an unlock within the hour', 30 * MINUTE, { tier: 'hour', interval: 2 * MINUTE }],
+    ['an unlock within the day', 5 * 60 * MINUTE, { tier: 'day', interval: 10 * MINUTE }],
+    ['an unlock days away', 3 * 24 * 60 * MINUTE, { tier: 'idle', interval: 15 * MINUTE }],
+    ['an unlock already passed', -MINUTE, { tier: 'imminent', interval: 10 * 1000 }]
+  ];
+
+  for (const [name, remaining, expected] of cases) {
+    it(name, () => {
+      assert.deepEqual(getDesiredCadence(new Date(NOW.getTime() + remaining), Infinity, NOW), expected);
+    });
+  }
+
+  it('is idle without an unlock', () => {
+    assert.deepEqual(getDesiredCadence(null, Infinity, NOW), { tier: 'idle', interval: 15 * MINUTE });
+  });
+
+  it('never exceeds the maximum interval', () => {
+    assert.deepEqual(getDesiredCadence(null, MINUTE, NOW), { tier: 'idle', interval: MINUTE });
+  });
+});
+
+describe('allocatePollBudget', () => {
+  let allocatePollBudget;
+
+  before(async () => {
+    // 12 polls a minute
+    ({ allocatePollBudget } = await loadPollCadence('12'));
+  });
+
+  it('grants every wallet its rate while the budget covers them', () => {
+    const granted = allocatePollBudget([
+      { id: 'a', interval: 30 * 1000 },
+      { id: 'b', interval: 2 * MINUTE }
+    ]);
+    assert.deepEqual(Object.fromEntries(granted), { a: 30 * 1000, b: 2 * MINUTE });
+  });
+
+  it('splits the budget evenly between wallets that all want more', () => {
+    // Three wallets wanting 6 polls a minute each share 12: 4 each, every 15 seconds
+    const granted = allocatePollBudget(['a', 'b', 'c'].map(id => ({ id, interval: 10 * 1000 })));
+    assert.deepEqual(Object.fromEntries(granted), { a: 15000, b: 15000, c: 15000 });
+  });
+
+  it('hands what slow wallets leave over to the fast ones', () => {
+    // The idle wallet polls once a minute; the other 11 go to the two imminent ones
+    const granted = allocatePollBudget([
+      { id: 'fast-1', interval: 10 * 1000 },
+      { id: 'idle', interval: MINUTE },
+      { id: 'fast-2', interval: 10 * 1000 }
+    ]);
+    assert.deepEqual(Object.fromEntries(granted), { idle: MINUTE, 'fast-1': Math.round(60000 / 5.5), 'fast-2': Math.round(60000 / 5.5) });
+  });
+
+  it('never slows a wallet below an equal share', () => {
+    const demands = Array.from({ length: 24 }, (_, i) => ({ id: `w${i}`, interval: 10 * 1000 }));
+    const granted = allocatePollBudget(demands);
+
+    // 24 wallets sharing 12 polls a minute: one poll every 2 minutes each
+    assert.ok(Array.from(granted.values()).every(interval => interval === 2 * MINUTE));
+  });
+
+  it('grants what is asked without a budget', async () => {
+    const unlimited = await loadPollCadence('0');
+    const granted = unlimited.allocatePollBudget(['a', 'b', 'c'].map(id => ({ id, interval: 10 * 1000 })));
+    assert.deepEqual(Object.fromEntries(granted), { a: 10 * 1000, b: 10 * 1000, c: 10 * 1000 });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as StellarSdk from 'stellar-sdk';
+import { getEnvelopeRefusal, parseDestinations } from '../src/services/signingPolicy.js';
+
+const NETWORK_PASSPHRASE = 'Pi Network';
+const wallet = StellarSdk.Keypair.random().publicKey();
+const destination = StellarSdk.Keypair.random().publicKey();
+const attacker = StellarSdk.Keypair.random().publicKey();
+const sponsor = StellarSdk.Keypair.random();
+const destinations = parseDestinations(`${wallet}=${destination}`);
+
+const claim = StellarSdk.Operation.claimClaimableBalance({ balanceId: `00000000${'ab'.repeat(32)}` });
+const payment = (to, options = {}) => StellarSdk.Operation.payment({ destination: to, asset: StellarSdk.Asset.native(), amount: '10', ...options });
+
+/**
+ * Build an envelope from the wallet with the given operations
+ * @param {Array} operations - The operations, in order
+ * @returns {StellarSdk.Transaction} The unsigned transaction
+ */
+const envelope = (operations) => {
+  const builder = new StellarSdk.TransactionBuilder(new StellarSdk.Account(wallet, '1'), { fee: '100', networkPassphrase: NETWORK_PASSPHRASE });
+  operations.forEach(op => builder.addOperation(op));
+  return builder.setTimeout(120).build();
+};
+
+const feeBump = (inner) => StellarSdk.TransactionBuilder.buildFeeBumpTransaction(sponsor, '200', inner, NETWORK_PASSPHRASE);
+
+describe('getEnvelopeRefusal', () => {
+  const cases = [
+    ['claims paid to the destination', envelope([claim, claim, payment(destination)]), null],
+    ['a fee-bump around a claim', feeBump(envelope([claim, payment(destination)])), null],
+    ['a payment to another account', envelope([claim, payment(attacker)]), /must end with a Pi payment/],
+    ['a fee-bump around a payment elsewhere', feeBump(envelope([claim, payment(attacker)])), /must end with a Pi payment/],
+    ['a payment without a claim', envelope([payment(destination)]), /must claim balances/],
+    ['other operations before the payment', envelope([claim, StellarSdk.Operation.setOptions({ homeDomain: 'x' }), payment(destination)]), /must claim balances/],
+    ['a non-native payment', envelope([claim, payment(destination, { asset: new StellarSdk.Asset('USD', attacker) })]), /must end with a Pi payment/],
+    ['a payment sourced from another account', envelope([claim, payment(destination, { source: attacker })]), /sourced from another account/]
+  ];
+
+  for (const [name, transaction, expected] of cases) {
+    it(name, () => {
+      const refusal = getEnvelopeRefusal(transaction, destinations);
+      if (expected === null) {
+        assert.equal(refusal, null);
+      } else {
+        assert.match(refusal, expected);
+      }
+    });
+  }
+
+  it('refuses an address without a configured destination', () => {
+    assert.match(getEnvelopeRefusal(envelope([claim, payment(destination)]), new Map()), /No destination configured/);
+  });
+});
+
+describe('parseDestinations', () => {
+  it('reads pairs separated by commas or newlines', () => {
+    const other = StellarSdk.Keypair.random().publicKey();
+    assert.deepEqual(parseDestinations(`${wallet}=${destination},\n${other}=${destination}`), new Map([[wallet, destination], [other, destination]]));
+  });
+
+  it('rejects a malformed entry', () => {
+    assert.throws(() => parseDestinations(`${wallet}`), /Invalid destination entry/);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('claim queue', () => {
+  let claimQueue;
+
+  before(async () => {
+    // One slot, so everything queued behind a running task waits to be dequeued
+    process.env.CLAIM_CONCURRENCY = '1';
+    ({ claimQueue } = await import('../src/services/tenantScheduler.js'));
+  });
+
+  /**
+   * Queue tasks behind one that holds the only slot, then let them all run
+   * @param {Array} tasks - [tenant, key, deadline] in the order they are queued
+   * @returns {Promise<string[]>} Task keys in the order they ran
+   */
+  const runInOrder = async (tasks) => {
+    const ran = [];
+    let release;
+    const gate = new Promise(resolve => { release = resolve; });
+    const blocker = claimQueue.enqueue('tenant-a', 'blocker', () => gate);
+
+    const queued = tasks.map(([tenant, key, deadline]) => claimQueue.enqueue(tenant, key, async () => ran.push(key), deadline));
+
+    release();
+    await Promise.all([blocker, ...queued]);
+    return ran;
+  };
+
+  it('claims the batch whose window closes first when two are due together', async () => {
+    const now = Date.now();
+    const ran = await runInOrder([
+      ['tenant-a', 'batch-later', new Date(now + 2 * HOUR)],
+      ['tenant-a', 'batch-sooner', new Date(now + HOUR)]
+    ]);
+    assert.deepEqual(ran, ['batch-sooner', 'batch-later']);
+  });
+
+  it('puts a batch without a deadline behind ones with a deadline', async () => {
+    const ran = await runInOrder([
+      ['tenant-a', 'open-ended', null],
+      ['tenant-a', 'deadline', new Date(Date.now() + HOUR)]
+    ]);
+    assert.deepEqual(ran, ['deadline', 'open-ended']);
+  });
+
+  it("lets another tenant's closing window go ahead", async () => {
+    const ran = await runInOrder([
+      ['tenant-a', 'a-open-ended', null],
+      ['tenant-b', 'b-deadline', new Date(Date.now() + HOUR)]
+    ]);
+    assert.deepEqual(ran, ['b-deadline', 'a-open-ended']);
+  });
+
+  it('keeps round-robin order across tenants when deadlines tie', async () => {
+    const ran = await runInOrder([
+      ['tenant-a', 'a-1', null],
+      ['tenant-a', 'a-2', null],
+      ['tenant-b', 'b-1', null]
+    ]);
+    assert.deepEqual(ran, ['a-1', 'b-1', 'a-2']);
+  });
+});
@@ -0,0 +1,25 @@
+import React from 'react';
+import { RefreshCw } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import LoginScreen from './LoginScreen';
+
+// Shows the login screen until the backend accepts a token
+const AuthGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { status } = useAuth();
+
+  if (status === 'checking') {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-muted-foreground">
+        <RefreshCw className="w-5 h-5 animate-spin" />
+      </div>
+    );
+  }
+
+  if (status === 'signed_out') {
+    return <LoginScreen />;
+  }
+
+  return <>{children}</>;
+};
+
+export default AuthGate;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { WalletData } from '@/lib/types';
+import { setBrowserKey } from '@/lib/browserKeys';
+
+interface BrowserKeyDialogProps {
+  // The wallet whose key is asked for; the dialog is closed while null
+  wallet: WalletData | null;
+  onClose: () => void;
+  onLoaded: (walletId: string) => void;
+  maskAddress: (address: string) => string;
+}
+
+const BrowserKeyDialog: React.FC<BrowserKeyDialogProps> = ({ wallet, onClose, onLoaded, maskAddress }) => {
+  const [secret, setSecret] = useState('');
+
+  const handleClose = () => {
+    setSecret('');
+    onClose();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!wallet) return;
+
+    try {
+      setBrowserKey(wallet.id, wallet.address, secret);
+      toast.success('Key loaded, this browser can now claim for the wallet');
+      onLoaded(wallet.id);
+      handleClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Invalid private key');
+    }
+  };
+
+  return (
+    <Dialog open={wallet !== null} onOpenChange={(open) => !open && handleClose()}>
+      {wallet && (
+        <DialogContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Load key in this browser</DialogTitle>
+              <DialogDescription>
+                The browser claims for {maskAddress(wallet.address)} with this key. It stays in memory only and is gone when the page is reloaded.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor="browser-key">Private key</Label>
+              <Input
+                id="browser-key"
+                type="password"
+                value={secret}
+                onChange={(e) => setSecret(e.target.value)}
+                placeholder="S..."
+                autoFocus
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="submit" disabled={!secret}>Load key</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+};
+
+export default BrowserKeyDialog;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Cpu, CloudOff } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ExecutionMode } from '@/lib/types';
+import { EXECUTION_MODE_LABELS } from '@/lib/execution';
+
+interface ExecutionModeControlProps {
+  mode: ExecutionMode;
+  serverReachable: boolean;
+  // Left out for callers who can't change the server-wide setting
+  onChange?: (mode: ExecutionMode) => void;
+  className?: string;
+}
+
+const ExecutionModeControl: React.FC<ExecutionModeControlProps> = ({ mode, serverReachable, onChange, className = '' }) => {
+  return (
+    <div className={`flex items-center gap-2 text-xs text-muted-foreground ${className}`}>
+      {serverReachable ? <Cpu className="w-3.5 h-3.5" /> : <CloudOff className="w-3.5 h-3.5 text-amber-500" />}
+      <span>Claims:</span>
+      {onChange && serverReachable ? (
+        <Select value={mode} onValueChange={(value) => onChange(value as ExecutionMode)}>
+          <SelectTrigger className="h-8 w-auto gap-2 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(EXECUTION_MODE_LABELS) as ExecutionMode[]).map(value => (
+              <SelectItem key={value} value={value}>{EXECUTION_MODE_LABELS[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <span className="font-medium">{EXECUTION_MODE_LABELS[mode]}{serverReachable ? '' : ' (server unreachable)'}</span>
+      )}
+    </div>
+  );
+};
+
+export default ExecutionModeControl;
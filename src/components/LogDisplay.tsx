@@ -8,7 +8,7 @@ import { formatDistanceToNow } from 'date-fns';
 
 interface LogDisplayProps {
   logs: LogEntry[];
-  onClearLogs: () => void;
+  onClearLogs?: () => void;
   className?: string;
 }
 
@@ -41,15 +41,17 @@ const LogDisplay: React.FC<LogDisplayProps> = ({ logs, onClearLogs, className =
     <div className={`border rounded-lg shadow-sm bg-white ${className}`}>
       <div className="px-4 py-3 border-b flex items-center justify-between">
         <h3 className="font-medium text-sm">System Logs</h3>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={onClearLogs}
-          className="h-8 px-2 text-muted-foreground"
-        >
-          <Trash2 className="w-4 h-4 mr-1" />
-          Clear
-        </Button>
+        {onClearLogs && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClearLogs}
+            className="h-8 px-2 text-muted-foreground"
+          >
+            <Trash2 className="w-4 h-4 mr-1" />
+            Clear
+          </Button>
+        )}
       </div>
       
       <ScrollArea className="h-[300px]" ref={scrollRef}>
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Coins, KeyRound, LogIn } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/hooks/useAuth';
+
+type LoginMethod = 'account' | 'token';
+
+const LoginScreen: React.FC = () => {
+  const { login, loginWithAccount } = useAuth();
+  const [method, setMethod] = useState<LoginMethod>('account');
+  const [secret, setSecret] = useState('');
+  const [token, setToken] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const value = method === 'account' ? secret : token;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    const success = method === 'account' ? await loginWithAccount(secret) : await login(token);
+    if (!success) {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted/30 bg-grid px-4 py-8 md:py-12 flex items-center justify-center">
+      <Card className="glass-morphism animate-fade-in w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Coins className="w-5 h-5" />
+            Pi Auto-Claim Tool
+          </CardTitle>
+          <CardDescription>
+            Log in to see and manage your wallets
+          </CardDescription>
+        </CardHeader>
+
+        <form onSubmit={handleSubmit}>
+          <CardContent>
+            <Tabs value={method} onValueChange={(next) => setMethod(next as LoginMethod)}>
+              <TabsList className="grid w-full grid-cols-2 mb-4">
+                <TabsTrigger value="account">Pi account</TabsTrigger>
+                <TabsTrigger value="token">API token</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="account" className="space-y-2">
+                <Label htmlFor="accountSecret">Private Key (Secret Key)</Label>
+                <Input
+                  id="accountSecret"
+                  type="password"
+                  placeholder="Enter private key starting with S..."
+                  value={secret}
+                  onChange={(e) => setSecret(e.target.value)}
+                  autoFocus
+                />
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  <KeyRound className="w-3 h-3 flex-shrink-0" />
+                  Signs a login challenge in this browser; the key is not sent. You will only see wallets this account added or is
+                </p>
+              </TabsContent>
+
+              <TabsContent value="token" className="space-y-2">
+                <Label htmlFor="apiToken">API Token</Label>
+                <Input
+                  id="apiToken"
+                  type="password"
+                  placeholder="pat_..."
+                  value={token}
+                  onChange={(e) => setToken(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Issued by the server operator; kept in this browser until you log out
+                </p>
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+
+          <CardFooter>
+            <Button type="submit" className="w-full gap-2" disabled={isSubmitting || !value.trim()}>
+              <LogIn className="w-4 h-4" />
+              Log in
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+};
+
+export default LoginScreen;
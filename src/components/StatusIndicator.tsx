@@ -1,7 +1,7 @@
 
 import React from 'react';
 import { TransactionStatus } from '@/lib/types';
-import { CircleOff, Clock, Loader2, Ban, CheckCircle, Database, PencilRuler, Key, Send } from 'lucide-react';
+import { CircleOff, Clock, Loader2, Ban, CheckCircle, Database, PencilRuler, Key, Send, Ghost } from 'lucide-react';
 
 interface StatusIndicatorProps {
   status: TransactionStatus;
@@ -29,6 +29,8 @@ const StatusIndicator: React.FC<StatusIndicatorProps> = ({ status, className = '
         return { icon: <CheckCircle className="w-4 h-4" />, label: 'Completed', color: 'text-green-500' };
       case 'failed':
         return { icon: <Ban className="w-4 h-4" />, label: 'Failed', color: 'text-red-500' };
+      case 'vanished':
+        return { icon: <Ghost className="w-4 h-4" />, label: 'Vanished', color: 'text-gray-500' };
       default:
         return { icon: <Loader2 className="w-4 h-4 animate-spin" />, label: 'Processing', color: 'text-blue-500' };
     }
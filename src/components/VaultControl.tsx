@@ -0,0 +1,172 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Lock, LockOpen, KeyRound } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { VaultState } from '@/lib/types';
+import { getVaultState, initVault, unlockVault, lockVault, changeVaultPassphrase } from '@/lib/api';
+
+// How often the vault state is refreshed (30 seconds)
+const VAULT_POLL_INTERVAL = 30000;
+
+type VaultDialogMode = 'init' | 'unlock' | 'change';
+
+const DIALOG_TEXT: Record<VaultDialogMode, { title: string; description: string; action: string }> = {
+  init: {
+    title: 'Set up key vault',
+    description: 'Choose a passphrase. Private keys are encrypted with it on the server, and it is needed to unlock claiming after every restart.',
+    action: 'Create vault'
+  },
+  unlock: {
+    title: 'Unlock key vault',
+    description: 'Claims are on hold until the vault is unlocked.',
+    action: 'Unlock'
+  },
+  change: {
+    title: 'Change vault passphrase',
+    description: 'All stored private keys are re-encrypted with the new passphrase.',
+    action: 'Change passphrase'
+  }
+};
+
+interface VaultControlProps {
+  className?: string;
+}
+
+const VaultControl: React.FC<VaultControlProps> = ({ className = '' }) => {
+  const [state, setState] = useState<VaultState | null>(null);
+  const [dialogMode, setDialogMode] = useState<VaultDialogMode | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const refreshState = useCallback(async () => {
+    try {
+      setState(await getVaultState());
+    } catch (error) {
+      console.error('Error fetching vault state:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshState();
+    const interval = setInterval(refreshState, VAULT_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [refreshState]);
+
+  const openDialog = (mode: VaultDialogMode) => {
+    setPassphrase('');
+    setNewPassphrase('');
+    setDialogMode(mode);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!dialogMode) return;
+
+    setIsSubmitting(true);
+
+    try {
+      if (dialogMode === 'init') {
+        setState(await initVault(passphrase));
+      } else if (dialogMode === 'unlock') {
+        setState(await unlockVault(passphrase));
+      } else {
+        setState(await changeVaultPassphrase(passphrase, newPassphrase));
+      }
+
+      toast.success(dialogMode === 'change' ? 'Vault passphrase changed' : 'Key vault unlocked');
+      setDialogMode(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Vault request failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleLock = async () => {
+    try {
+      setState(await lockVault());
+      toast.info('Key vault locked, claims are on hold');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to lock vault');
+    }
+  };
+
+  if (!state) return null;
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      {state === 'unlocked' ? (
+        <>
+          <Button variant="ghost" size="sm" onClick={handleLock} className="gap-2">
+            <LockOpen className="w-4 h-4 text-green-600" />
+            Vault unlocked
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => openDialog('change')} className="gap-2">
+            <KeyRound className="w-4 h-4" />
+            Passphrase
+          </Button>
+        </>
+      ) : (
+        <Button
+          variant="destructive"
+          size="sm"
+          onClick={() => openDialog(state === 'uninitialized' ? 'init' : 'unlock')}
+          className="gap-2"
+        >
+          <Lock className="w-4 h-4" />
+          {state === 'uninitialized' ? 'Set up vault' : 'Unlock vault'}
+        </Button>
+      )}
+
+      <Dialog open={dialogMode !== null} onOpenChange={(open) => !open && setDialogMode(null)}>
+        {dialogMode && (
+          <DialogContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>{DIALOG_TEXT[dialogMode].title}</DialogTitle>
+                <DialogDescription>{DIALOG_TEXT[dialogMode].description}</DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-2">
+                <Label htmlFor="vault-passphrase">
+                  {dialogMode === 'change' ? 'Current passphrase' : 'Passphrase'}
+                </Label>
+                <Input
+                  id="vault-passphrase"
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  autoFocus
+                />
+              </div>
+
+              {dialogMode === 'change' && (
+                <div className="space-y-2">
+                  <Label htmlFor="vault-new-passphrase">New passphrase</Label>
+                  <Input
+                    id="vault-new-passphrase"
+                    type="password"
+                    value={newPassphrase}
+                    onChange={(e) => setNewPassphrase(e.target.value)}
+                  />
+                </div>
+              )}
+
+              <DialogFooter>
+                <Button type="submit" disabled={isSubmitting || !passphrase || (dialogMode === 'change' && !newPassphrase)}>
+                  {DIALOG_TEXT[dialogMode].action}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        )}
+      </Dialog>
+    </div>
+  );
+};
+
+export default VaultControl;
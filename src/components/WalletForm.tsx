@@ -4,19 +4,53 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter }
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
-import { Wallet, Key, ArrowRight, Plus, AlertCircle, Check } from 'lucide-react';
+import { Wallet, Key, ArrowRight, Plus, AlertCircle, Check, Fuel, ShieldCheck } from 'lucide-react';
 import * as StellarSdk from 'stellar-sdk';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AmountMode, SignerType, SigningMode, WalletData, WalletType } from '@/lib/types';
+import { AMOUNT_MODE_LABELS, DEFAULT_AMOUNT_MODE, toStroops } from '@/lib/amountPlanner';
+import { DEFAULT_MAX_FEE, formatFee } from '@/lib/feePolicy';
+import { SIGNER_LABELS } from '@/lib/signer';
+
+// Select value used when a wallet pays its own fees
+const NO_SPONSOR = 'none';
 
 interface WalletFormProps {
-  onAddWallet: (walletData: { address: string; privateKey: string; destinationAddress: string }) => boolean;
+  onAddWallet: (walletData: { 
+    address: string; 
+    privateKey: string; 
+    destinationAddress: string; 
+    amountMode: AmountMode; 
+    type: WalletType; 
+    feeSponsorId?: string; 
+    maxFee?: string; 
+    signingMode?: SigningMode; 
+    signer?: SignerType; 
+  }) => boolean;
+  feeSponsors?: WalletData[];
+  // Key storage options offered (tenants can only bring their own key)
+  signerTypes?: SignerType[];
+  maskAddress?: (address: string) => string;
   className?: string;
 }
 
-const WalletForm: React.FC<WalletFormProps> = ({ onAddWallet, className = '' }) => {
+const WalletForm: React.FC<WalletFormProps> = ({ 
+  onAddWallet, 
+  feeSponsors = [], 
+  signerTypes = Object.keys(SIGNER_LABELS) as SignerType[], 
+  maskAddress = (address) => address, 
+  className = '' 
+}) => {
+  const [walletType, setWalletType] = useState<WalletType>('claim');
+  const [signingMode, setSigningMode] = useState<SigningMode>('server_key');
+  const [signer, setSigner] = useState<SignerType>('vault');
+  const [feeSponsorId, setFeeSponsorId] = useState<string>(NO_SPONSOR);
+  const [maxFeePi, setMaxFeePi] = useState('');
   const [walletAddress, setWalletAddress] = useState('');
   const [privateKey, setPrivateKey] = useState('');
   const [destinationAddress, setDestinationAddress] = useState('');
+  const [amountMode, setAmountMode] = useState<AmountMode>(DEFAULT_AMOUNT_MODE);
   const [showPrivateKey, setShowPrivateKey] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [keyError, setKeyError] = useState<string | null>(null);
@@ -75,14 +109,62 @@ const WalletForm: React.FC<WalletFormProps> = ({ onAddWallet, className = '' })
     } else if (derivedAddress && newAddress && derivedAddress === newAddress) {
       setKeyError(null);
       setValidationStatus('verified');
+    } else if (!derivedAddress && validationStatus === 'error') {
+      // Typing a new address clears an earlier address error
+      setKeyError(null);
+      setValidationStatus('idle');
     }
   };
 
+  const preAuthorized = walletType === 'claim' && signingMode === 'pre_auth';
+  // The key is entered here only for the vault or for signing pre-authorized envelopes
+  const needsKey = preAuthorized || signer === 'vault';
+
+  const resetForm = () => {
+    setWalletAddress('');
+    setPrivateKey('');
+    setDestinationAddress('');
+    setAmountMode(DEFAULT_AMOUNT_MODE);
+    setSigningMode('server_key');
+    setSigner('vault');
+    setFeeSponsorId(NO_SPONSOR);
+    setMaxFeePi('');
+    setShowPrivateKey(false);
+    setKeyError(null);
+    setDerivedAddress(null);
+    setValidationStatus('idle');
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
     
     try {
+      const walletFields = {
+        destinationAddress: walletType === 'fee_sponsor' ? '' : destinationAddress.trim(),
+        amountMode,
+        type: walletType,
+        signingMode: walletType === 'claim' ? signingMode : undefined,
+        signer: preAuthorized ? undefined : signer,
+        feeSponsorId: walletType === 'claim' && signingMode === 'server_key' && feeSponsorId !== NO_SPONSOR ? feeSponsorId : undefined,
+        maxFee: walletType === 'claim' && maxFeePi.trim() ? toStroops(maxFeePi.trim()).toString() : undefined
+      };
+
+      // Memory and daemon signers already hold the key, so only the address is needed
+      if (!needsKey) {
+        const address = walletAddress.trim();
+        if (!StellarSdk.StrKey.isValidEd25519PublicKey(address)) {
+          setKeyError('Invalid wallet address');
+          setValidationStatus('error');
+          return;
+        }
+        
+        if (onAddWallet({ address, privateKey: '', ...walletFields })) {
+          resetForm();
+        }
+        return;
+      }
+      
       // Do a final check before submission
       if (privateKey) {
         try {
@@ -99,18 +181,12 @@ const WalletForm: React.FC<WalletFormProps> = ({ onAddWallet, className = '' })
           const success = onAddWallet({
             address: publicKey,
             privateKey: cleanPrivateKey,
-            destinationAddress: destinationAddress.trim()
+            ...walletFields
           });
           
           if (success) {
             // Reset form after successful submission
-            setWalletAddress('');
-            setPrivateKey('');
-            setDestinationAddress('');
-            setShowPrivateKey(false);
-            setKeyError(null);
-            setDerivedAddress(null);
-            setValidationStatus('idle');
+            resetForm();
           }
         } catch (error) {
           setKeyError(`Error with private key: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -142,6 +218,56 @@ const WalletForm: React.FC<WalletFormProps> = ({ onAddWallet, className = '' })
       
       <form onSubmit={handleSubmit}>
         <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="walletType">Wallet Type</Label>
+            <Select value={walletType} onValueChange={(value) => setWalletType(value as WalletType)}>
+              <SelectTrigger id="walletType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="claim">Claim wallet</SelectItem>
+                <SelectItem value="fee_sponsor">Fee sponsor</SelectItem>
+              </SelectContent>
+            </Select>
+            {walletType === 'fee_sponsor' && (
+              <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                <Fuel className="w-3 h-3" />
+                Pays transaction fees for claim wallets via fee-bump transactions
+              </p>
+            )}
+          </div>
+          
+          {!preAuthorized && signerTypes.length > 1 && (
+            <div className="space-y-2">
+              <Label htmlFor="signer">Key Storage</Label>
+              <Select
+                value={signer}
+                onValueChange={(value) => {
+                  setSigner(value as SignerType);
+                  // The key only stays in the form for the vault
+                  if (value !== 'vault') setPrivateKey('');
+                }}
+              >
+                <SelectTrigger id="signer">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {signerTypes.map(type => (
+                    <SelectItem key={type} value={type}>{SIGNER_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {signer !== 'vault' && (
+                <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                  <Key className="w-3 h-3 flex-shrink-0" />
+                  {signer === 'daemon'
+                    ? 'The signing daemon must already hold this key; the API server never sees it'
+                    : 'The server must already hold this key in MEMORY_SIGNER_SECRETS; it is never written to disk'}
+                </p>
+              )}
+            </div>
+          )}
+          
           <div className="space-y-2">
             <Label htmlFor="walletAddress" className="flex items-center gap-2">
               Source Wallet Address
@@ -169,64 +295,149 @@ const WalletForm: React.FC<WalletFormProps> = ({ onAddWallet, className = '' })
             }
           </div>
           
-          <div className="space-y-2">
-            <Label htmlFor="privateKey" className="flex justify-between">
-              <span>Private Key (Secret Key)</span>
-              <button
-                type="button"
-                onClick={() => setShowPrivateKey(!showPrivateKey)}
-                className="text-xs text-muted-foreground hover:text-primary transition"
-              >
-                {showPrivateKey ? 'Hide' : 'Show'}
-              </button>
-            </Label>
-            <div className="relative">
-              <Input
-                id="privateKey"
-                type={showPrivateKey ? 'text' : 'password'}
-                placeholder="Enter private key starting with S..."
-                value={privateKey}
-                onChange={(e) => setPrivateKey(e.target.value)}
-                required
-                className={`transition duration-200 ${
-                  validationStatus === 'error' ? 'border-red-300' : 
-                  validationStatus === 'verified' ? 'border-green-300' : ''
-                }`}
-              />
-              {validationStatus === 'verified' && (
-                <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
-                  <Check className="w-4 h-4 text-green-500" />
-                </div>
+          {needsKey && (
+            <div className="space-y-2">
+              <Label htmlFor="privateKey" className="flex justify-between">
+                <span>Private Key (Secret Key)</span>
+                <button
+                  type="button"
+                  onClick={() => setShowPrivateKey(!showPrivateKey)}
+                  className="text-xs text-muted-foreground hover:text-primary transition"
+                >
+                  {showPrivateKey ? 'Hide' : 'Show'}
+                </button>
+              </Label>
+              <div className="relative">
+                <Input
+                  id="privateKey"
+                  type={showPrivateKey ? 'text' : 'password'}
+                  placeholder="Enter private key starting with S..."
+                  value={privateKey}
+                  onChange={(e) => setPrivateKey(e.target.value)}
+                  required
+                  className={`transition duration-200 ${
+                    validationStatus === 'error' ? 'border-red-300' : 
+                    validationStatus === 'verified' ? 'border-green-300' : ''
+                  }`}
+                />
+                {validationStatus === 'verified' && (
+                  <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
+                    <Check className="w-4 h-4 text-green-500" />
+                  </div>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                Your key is only stored locally and never transmitted
+              </p>
+              
+              {keyError && (
+                <Alert variant="destructive" className="py-2 mt-2">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription className="text-xs">
+                    {keyError}
+                  </AlertDescription>
+                </Alert>
               )}
             </div>
-            <p className="text-xs text-muted-foreground mt-1">
-              Your key is only stored locally and never transmitted
-            </p>
-            
-            {keyError && (
-              <Alert variant="destructive" className="py-2 mt-2">
-                <AlertCircle className="h-4 w-4" />
-                <AlertDescription className="text-xs">
-                  {keyError}
-                </AlertDescription>
-              </Alert>
-            )}
-          </div>
+          )}
           
-          <div className="space-y-2">
-            <Label htmlFor="destinationAddress">Destination Address</Label>
-            <div className="flex items-center space-x-2">
-              <ArrowRight className="w-4 h-4 text-muted-foreground flex-shrink-0" />
-              <Input
-                id="destinationAddress"
-                placeholder="Where to send Pi after claiming"
-                value={destinationAddress}
-                onChange={(e) => setDestinationAddress(e.target.value)}
-                required
-                className="transition duration-200"
-              />
-            </div>
-          </div>
+          {!needsKey && keyError && (
+            <Alert variant="destructive" className="py-2">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription className="text-xs">
+                {keyError}
+              </AlertDescription>
+            </Alert>
+          )}
+          
+          {walletType === 'claim' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="destinationAddress">Destination Address</Label>
+                <div className="flex items-center space-x-2">
+                  <ArrowRight className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                  <Input
+                    id="destinationAddress"
+                    placeholder="Where to send Pi after claiming"
+                    value={destinationAddress}
+                    onChange={(e) => setDestinationAddress(e.target.value)}
+                    required
+                    className="transition duration-200"
+                  />
+                </div>
+              </div>
+          
+              <div className="space-y-2">
+                <Label htmlFor="amountMode">Transfer Amount</Label>
+                <Select value={amountMode} onValueChange={(value) => setAmountMode(value as AmountMode)}>
+                  <SelectTrigger id="amountMode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(AMOUNT_MODE_LABELS) as AmountMode[]).map(mode => (
+                      <SelectItem key={mode} value={mode}>{AMOUNT_MODE_LABELS[mode]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Auto forwards the claimed amount when the fee and reserve allow it, otherwise the most that can be sent
+                </p>
+              </div>
+          
+              <div className="space-y-2">
+                <Label htmlFor="signingMode">Signing</Label>
+                <Select value={signingMode} onValueChange={(value) => setSigningMode(value as SigningMode)}>
+                  <SelectTrigger id="signingMode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="server_key">Server signs with the vaulted key</SelectItem>
+                    <SelectItem value="pre_auth">Pre-authorized transactions</SelectItem>
+                  </SelectContent>
+                </Select>
+                {signingMode === 'pre_auth' && (
+                  <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                    <ShieldCheck className="w-3 h-3 flex-shrink-0" />
+                    Claims for the balances known now are signed in this browser; the key never reaches the server. Balances found later are not covered
+                  </p>
+                )}
+              </div>
+          
+              {signingMode === 'server_key' && (
+                <div className="space-y-2">
+                  <Label htmlFor="feeSponsor">Fee Sponsor</Label>
+                  <Select value={feeSponsorId} onValueChange={setFeeSponsorId}>
+                    <SelectTrigger id="feeSponsor">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_SPONSOR}>None (wallet pays its own fees)</SelectItem>
+                      {feeSponsors.map(sponsor => (
+                        <SelectItem key={sponsor.id} value={sponsor.id}>{maskAddress(sponsor.address)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+          
+              <div className="space-y-2">
+                <Label htmlFor="maxFee">Max Fee (Pi per operation)</Label>
+                <Input
+                  id="maxFee"
+                  type="number"
+                  min="0.00001"
+                  step="0.0000001"
+                  placeholder={`Default ${formatFee(DEFAULT_MAX_FEE)}`}
+                  value={maxFeePi}
+                  onChange={(e) => setMaxFeePi(e.target.value)}
+                  className="transition duration-200"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Fees follow recent network fee stats and rise on retries, but never above this ceiling
+                </p>
+              </div>
+            </>
+          )}
         </CardContent>
         
         <CardFooter>
@@ -1,27 +1,76 @@
 
 import React from 'react';
-import { WalletData, ClaimableBalance, TransactionStatus } from '@/lib/types';
+import { WalletData, ClaimableBalance, DeadlineLevel, PreAuthStatus, TransactionStatus, BalanceStatus, BalanceOutcome, PollCadence } from '@/lib/types';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import StatusIndicator from './StatusIndicator';
 import BalanceTimer from './BalanceTimer';
-import { Wallet, ArrowRight, Coins, Trash2, PlayCircle } from 'lucide-react';
+import { Wallet, ArrowRight, Coins, Trash2, PlayCircle, Scale, Fuel, AlertTriangle, Layers, Hourglass, ShieldCheck, ShieldAlert, KeyRound, Monitor, Ghost, RefreshCw } from 'lucide-react';
+import { AMOUNT_MODE_LABELS, DEFAULT_AMOUNT_MODE } from '@/lib/amountPlanner';
+import { DEFAULT_MAX_FEE, formatFee } from '@/lib/feePolicy';
+import { sumAmounts } from '@/lib/batchPlanner';
+import { getDeadlineLevel } from '@/lib/claimDeadline';
+import { SIGNER_LABELS } from '@/lib/signer';
+import { formatPollInterval } from '@/lib/pollCadence';
+
+// Text color for each claim deadline warning level
+const DEADLINE_LEVEL_CLASSES: Record<DeadlineLevel, string> = {
+  notice: 'text-muted-foreground',
+  warning: 'text-amber-600',
+  critical: 'text-red-600 font-medium',
+  expired: 'text-red-600 font-medium line-through'
+};
+
+// Text color for each pre-authorized envelope status
+const PRE_AUTH_STATUS_CLASSES: Record<PreAuthStatus, string> = {
+  pending: 'text-green-600',
+  submitted: 'text-green-600',
+  failed: 'text-red-600',
+  expired: 'text-red-600'
+};
+
+// Text color for each way a vanished balance was taken
+const OUTCOME_CLASSES: Record<BalanceOutcome, string> = {
+  claimed_by_us: 'text-green-600',
+  claimed_by_other: 'text-red-600',
+  unknown: 'text-amber-600'
+};
+
+// Statuses in which nothing is being submitted, so the server accepts a force-process request
+const FORCE_PROCESS_STATUSES: TransactionStatus[] = ['idle', 'waiting', 'failed'];
 
 interface WalletItemProps {
   wallet: WalletData;
   claimableBalances: ClaimableBalance[];
+  feeSponsor?: WalletData;
   processingStatuses: Record<string, TransactionStatus>;
-  onRemove: (walletId: string) => void;
+  // Left out for viewers, who can't remove wallets
+  onRemove?: (walletId: string) => void;
   onForceProcess?: (balance: ClaimableBalance) => void;
+  // Who holds the claim lease on each balance (balance ID -> holder name)
+  leaseHolders?: Record<string, string>;
+  // Balances that disappeared from Horizon before they were claimed here, with who took them
+  vanishedBalances?: BalanceStatus[];
+  // How often the server polls this wallet's balances
+  pollCadence?: PollCadence;
+  // Given only while this browser claims balances
+  onLoadBrowserKey?: (wallet: WalletData) => void;
+  hasBrowserKey?: boolean;
   maskAddress: (address: string) => string;
 }
 
 const WalletItem: React.FC<WalletItemProps> = ({
   wallet,
   claimableBalances,
+  feeSponsor,
   processingStatuses,
   onRemove,
   onForceProcess,
+  leaseHolders = {},
+  vanishedBalances = [],
+  pollCadence,
+  onLoadBrowserKey,
+  hasBrowserKey = false,
   maskAddress
 }) => {
   // Filter balances for this wallet
@@ -40,6 +89,25 @@ const WalletItem: React.FC<WalletItemProps> = ({
     0
   );
 
+  // Pre-authorized wallets are claimed by their stored envelopes, never by the server's key
+  const isPreAuthorized = wallet.signingMode === 'pre_auth';
+
+  // Balances sharing a batch are claimed together in one transaction
+  const batchMembers = walletBalances.reduce<Record<string, ClaimableBalance[]>>((groups, balance) => {
+    if (balance.batchId) {
+      groups[balance.batchId] = [...(groups[balance.batchId] || []), balance];
+    }
+    return groups;
+  }, {});
+
+  const describeOutcome = (record: BalanceStatus) => {
+    const { resolution } = record;
+    if (!resolution || resolution.outcome === 'unknown') return 'Gone, claimant unknown';
+    return resolution.outcome === 'claimed_by_us'
+      ? 'Claimed by this wallet elsewhere'
+      : `Taken by ${maskAddress(resolution.claimant || '')}`;
+  };
+
   const isBalanceUnlocked = (unlockTime: Date) => {
     return new Date() >= new Date(unlockTime);
   };
@@ -49,14 +117,86 @@ const WalletItem: React.FC<WalletItemProps> = ({
     if (!onForceProcess) return;
     
     // Prevent multiple clicks by checking status
-    const status = processingStatuses[balance.id];
-    if (status && status !== 'idle' && status !== 'failed') {
+    if (!FORCE_PROCESS_STATUSES.includes(processingStatuses[balance.id] || 'idle')) {
       return;
     }
     
     onForceProcess(balance);
   };
 
+  if (wallet.type === 'fee_sponsor') {
+    const sponsorStatus = wallet.sponsorStatus;
+    
+    return (
+      <Card className="overflow-hidden glass-morphism hover:shadow-md transition-shadow duration-300 animate-fade-in">
+        <CardContent className="p-4">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center gap-2">
+              <Fuel className="w-4 h-4 text-primary" />
+              <span className="font-medium text-sm">{maskAddress(wallet.address)}</span>
+              <span className="text-xs text-muted-foreground">Fee sponsor</span>
+            </div>
+            {onRemove && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onRemove(wallet.id)}
+                className="h-8 w-8 p-0 flex items-center justify-center hover:bg-destructive/10 hover:text-destructive transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+          
+          {sponsorStatus ? (
+            <div className="space-y-1 text-xs border-t pt-2">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Balance:</span>
+                <span className="font-medium">{parseFloat(sponsorStatus.balance).toFixed(7)} Pi</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Spendable on fees:</span>
+                <span className={`font-medium ${sponsorStatus.isLow ? 'text-amber-500' : ''}`}>
+                  {parseFloat(sponsorStatus.spendable).toFixed(7)} Pi
+                </span>
+              </div>
+              {sponsorStatus.isLow && (
+                <div className="flex items-center gap-1 mt-2 text-amber-500">
+                  <AlertTriangle className="w-3.5 h-3.5" />
+                  <span>Low funds: below {sponsorStatus.threshold} Pi, top up to keep claims sponsored</span>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="mt-3 p-3 rounded-md border border-dashed text-center text-muted-foreground text-xs">
+              Sponsor balance not checked yet
+            </div>
+          )}
+          
+          {wallet.signer && wallet.signer !== 'vault' && (
+            <div className="flex items-center text-xs text-muted-foreground mt-3">
+              <KeyRound className="w-3.5 h-3.5 mr-1" />
+              <span>Signed by: {SIGNER_LABELS[wallet.signer]}</span>
+            </div>
+          )}
+          
+          {onLoadBrowserKey && (
+            <div className="flex items-center text-xs text-muted-foreground mt-3">
+              <Monitor className="w-3.5 h-3.5 mr-1" />
+              {hasBrowserKey ? (
+                <span>Key loaded in this browser</span>
+              ) : (
+                <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => onLoadBrowserKey(wallet)}>
+                  Load key to pay fees from this browser
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <Card className="overflow-hidden glass-morphism hover:shadow-md transition-shadow duration-300 animate-fade-in">
       <CardContent className="p-4">
@@ -65,14 +205,16 @@ const WalletItem: React.FC<WalletItemProps> = ({
             <Wallet className="w-4 h-4 text-primary" />
             <span className="font-medium text-sm">{maskAddress(wallet.address)}</span>
           </div>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => onRemove(wallet.id)}
-            className="h-8 w-8 p-0 flex items-center justify-center hover:bg-destructive/10 hover:text-destructive transition-colors"
-          >
-            <Trash2 className="w-4 h-4" />
-          </Button>
+          {onRemove && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onRemove(wallet.id)}
+              className="h-8 w-8 p-0 flex items-center justify-center hover:bg-destructive/10 hover:text-destructive transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
         </div>
         
         <div className="flex items-center text-sm text-muted-foreground mb-3">
@@ -80,6 +222,62 @@ const WalletItem: React.FC<WalletItemProps> = ({
           <span className="truncate">{maskAddress(wallet.destinationAddress)}</span>
         </div>
         
+        <div className="flex items-center text-xs text-muted-foreground mb-3">
+          <Scale className="w-3.5 h-3.5 mr-1" />
+          <span>Transfer: {AMOUNT_MODE_LABELS[wallet.amountMode || DEFAULT_AMOUNT_MODE]}</span>
+          <span className="mx-1">·</span>
+          <span>Max fee: {formatFee(wallet.maxFee || DEFAULT_MAX_FEE)}/op</span>
+        </div>
+        
+        {pollCadence && (
+          <div
+            className={`flex items-center text-xs mb-3 ${pollCadence.throttled ? 'text-amber-600' : 'text-muted-foreground'}`}
+            title={pollCadence.throttled ? `Slowed from every ${formatPollInterval(pollCadence.desiredInterval)} to stay within the poll budget` : undefined}
+          >
+            <RefreshCw className="w-3.5 h-3.5 mr-1" />
+            <span>
+              Polled every {formatPollInterval(pollCadence.interval)}
+              {pollCadence.nearestUnlock ? ` · next unlock ${new Date(pollCadence.nearestUnlock).toLocaleString()}` : ''}
+              {pollCadence.streamLive ? ' · streaming' : ''}
+              {pollCadence.throttled ? ' (budget)' : ''}
+            </span>
+          </div>
+        )}
+        
+        {isPreAuthorized && (
+          <div className="flex items-center text-xs text-muted-foreground mb-3">
+            <ShieldCheck className="w-3.5 h-3.5 mr-1" />
+            <span>Pre-authorized transactions (no key on the server)</span>
+          </div>
+        )}
+        
+        {wallet.signer && wallet.signer !== 'vault' && (
+          <div className="flex items-center text-xs text-muted-foreground mb-3">
+            <KeyRound className="w-3.5 h-3.5 mr-1" />
+            <span>Signed by: {SIGNER_LABELS[wallet.signer]}</span>
+          </div>
+        )}
+        
+        {onLoadBrowserKey && !isPreAuthorized && (
+          <div className="flex items-center text-xs text-muted-foreground mb-3">
+            <Monitor className="w-3.5 h-3.5 mr-1" />
+            {hasBrowserKey ? (
+              <span>Key loaded in this browser</span>
+            ) : (
+              <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => onLoadBrowserKey(wallet)}>
+                Load key to claim from this browser
+              </Button>
+            )}
+          </div>
+        )}
+        
+        {feeSponsor && (
+          <div className={`flex items-center text-xs mb-3 ${feeSponsor.sponsorStatus?.isLow ? 'text-amber-500' : 'text-muted-foreground'}`}>
+            <Fuel className="w-3.5 h-3.5 mr-1" />
+            <span>Fees paid by {maskAddress(feeSponsor.address)}{feeSponsor.sponsorStatus?.isLow ? ' (low funds)' : ''}</span>
+          </div>
+        )}
+        
         {walletBalances.length > 0 ? (
           <div className="space-y-2 mt-3">
             <div className="flex items-center justify-between text-sm border-t pt-2">
@@ -93,7 +291,8 @@ const WalletItem: React.FC<WalletItemProps> = ({
             {walletBalances.map((balance) => {
               const isUnlocked = isBalanceUnlocked(balance.unlockTime);
               const status = processingStatuses[balance.id] || 'idle';
-              const isProcessing = status !== 'idle' && status !== 'failed';
+              const canForceProcess = FORCE_PROCESS_STATUSES.includes(status);
+              const deadlineLevel = status === 'completed' ? null : getDeadlineLevel(balance.claimDeadline);
               
               return (
                 <div 
@@ -116,25 +315,74 @@ const WalletItem: React.FC<WalletItemProps> = ({
                     />
                   </div>
                   
+                  {balance.claimDeadline && (
+                    <div className="flex justify-between items-center mb-1">
+                      <span className="text-muted-foreground flex items-center gap-1">
+                        <Hourglass className="w-3 h-3" />
+                        Claim before:
+                      </span>
+                      <span className={deadlineLevel ? DEADLINE_LEVEL_CLASSES[deadlineLevel] : ''}>
+                        {new Date(balance.claimDeadline).toLocaleString()}
+                        {deadlineLevel && deadlineLevel !== 'notice' && (
+                          <AlertTriangle className="inline w-3 h-3 ml-1 -mt-0.5" />
+                        )}
+                      </span>
+                    </div>
+                  )}
+                  
+                  {isPreAuthorized && (
+                    <div className="flex justify-between items-center mb-1">
+                      <span className="text-muted-foreground flex items-center gap-1">
+                        {balance.preAuth ? <ShieldCheck className="w-3 h-3" /> : <ShieldAlert className="w-3 h-3" />}
+                        Pre-auth:
+                      </span>
+                      {balance.preAuth ? (
+                        <span className={PRE_AUTH_STATUS_CLASSES[balance.preAuth.status]} title={balance.preAuth.hash}>
+                          {balance.preAuth.hash.substring(0, 8)}... · {balance.preAuth.status}
+                        </span>
+                      ) : (
+                        <span className="text-amber-600">Not covered by a pre-auth envelope</span>
+                      )}
+                    </div>
+                  )}
+                  
+                  {!isPreAuthorized && balance.batchId && batchMembers[balance.batchId]?.length > 1 && (
+                    <div className="flex justify-between items-center mb-1">
+                      <span className="text-muted-foreground flex items-center gap-1">
+                        <Layers className="w-3 h-3" />
+                        Batch:
+                      </span>
+                      <span>
+                        {batchMembers[balance.batchId].length} claims · {parseFloat(sumAmounts(batchMembers[balance.batchId].map(b => b.amount))).toFixed(7)} Pi in one transaction
+                      </span>
+                    </div>
+                  )}
+                  
                   <div className="flex justify-between items-center mt-2 pt-1 border-t border-border/50">
                     <span className="text-muted-foreground">Status:</span>
                     <div className="flex items-center gap-2">
                       <StatusIndicator status={status} />
                       
-                      {isUnlocked && status === 'idle' && onForceProcess && (
+                      {isUnlocked && canForceProcess && onForceProcess && !isPreAuthorized && (
                         <Button
                           variant="ghost"
                           size="icon"
                           className="h-5 w-5 rounded-full"
                           onClick={() => handleForceProcess(balance)}
                           title="Force process"
-                          disabled={isProcessing}
                         >
                           <PlayCircle className="h-4 w-4 text-green-500" />
                         </Button>
                       )}
                     </div>
                   </div>
+                  
+                  {leaseHolders[balance.id] && (
+                    <div className="flex justify-between items-center mt-1">
+                      <span className="text-muted-foreground">Claimed by:</span>
+                      <span className="font-medium">{leaseHolders[balance.id]}</span>
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -144,6 +392,24 @@ const WalletItem: React.FC<WalletItemProps> = ({
             No claimable balances found for this wallet
           </div>
         )}
+        
+        {vanishedBalances.length > 0 && (
+          <div className="space-y-1 mt-3 border-t pt-2 text-xs">
+            <div className="flex items-center gap-1 text-muted-foreground">
+              <Ghost className="w-3.5 h-3.5" />
+              <span>No longer claimable:</span>
+            </div>
+            
+            {vanishedBalances.map((record) => (
+              <div key={record.balanceId} className="flex justify-between items-center gap-2" title={record.message || undefined}>
+                <span className="text-muted-foreground">
+                  {record.resolution ? `${parseFloat(record.resolution.amount).toFixed(7)} Pi` : `...${record.balanceId.slice(-8)}`}
+                </span>
+                <span className={OUTCOME_CLASSES[record.resolution?.outcome || 'unknown']}>{describeOutcome(record)}</span>
+              </div>
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -1,14 +1,19 @@
 
 import React from 'react';
-import { WalletData, ClaimableBalance, TransactionStatus } from '@/lib/types';
+import { WalletData, ClaimableBalance, TransactionStatus, BalanceStatus, PollCadence } from '@/lib/types';
 import WalletItem from './WalletItem';
 
 interface WalletListProps {
   wallets: WalletData[];
   claimableBalances: ClaimableBalance[];
   processingStatuses: Record<string, TransactionStatus>;
-  onRemoveWallet: (walletId: string) => void | Promise<void>;
+  onRemoveWallet?: (walletId: string) => void | Promise<void>;
   onForceProcess?: (balance: ClaimableBalance) => void;
+  leaseHolders?: Record<string, string>;
+  vanishedBalances?: BalanceStatus[];
+  pollCadences?: PollCadence[];
+  onLoadBrowserKey?: (wallet: WalletData) => void;
+  browserKeyWalletIds?: string[];
   maskAddress: (address: string) => string;
 }
 
@@ -18,6 +23,11 @@ const WalletList: React.FC<WalletListProps> = ({
   processingStatuses,
   onRemoveWallet,
   onForceProcess,
+  leaseHolders,
+  vanishedBalances = [],
+  pollCadences = [],
+  onLoadBrowserKey,
+  browserKeyWalletIds = [],
   maskAddress
 }) => {
   // Ensure we have claimable balances array
@@ -38,9 +48,15 @@ const WalletList: React.FC<WalletListProps> = ({
           key={wallet.id}
           wallet={wallet}
           claimableBalances={safeClaimableBalances.filter(b => b.walletId === wallet.id)}
+          feeSponsor={wallet.feeSponsorId ? wallets.find(w => w.id === wallet.feeSponsorId) : undefined}
           processingStatuses={processingStatuses}
           onRemove={onRemoveWallet}
           onForceProcess={onForceProcess}
+          leaseHolders={leaseHolders}
+          vanishedBalances={vanishedBalances.filter(s => s.walletId === wallet.id)}
+          pollCadence={pollCadences.find(c => c.walletId === wallet.id)}
+          onLoadBrowserKey={onLoadBrowserKey}
+          hasBrowserKey={browserKeyWalletIds.includes(wallet.id)}
           maskAddress={maskAddress}
         />
       ))}
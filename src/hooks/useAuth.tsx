@@ -0,0 +1,109 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { AuthSession } from '@/lib/types';
+import { createAccountSession, endAccountSession, fetchAuthChallenge, fetchSession } from '@/lib/api';
+import { signLoginChallenge } from '@/lib/challengeAuth';
+import { createSecretSigner } from '@/lib/signer';
+import { clearAuthToken, getAuthToken, onUnauthorized, setAuthToken } from '@/lib/auth';
+
+type AuthStatus = 'checking' | 'signed_out' | 'signed_in';
+
+interface AuthContextValue {
+  status: AuthStatus;
+  session: AuthSession | null;
+  login: (token: string) => Promise<boolean>;
+  loginWithAccount: (secret: string) => Promise<boolean>;
+  logout: () => void;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [status, setStatus] = useState<AuthStatus>('checking');
+  const [session, setSession] = useState<AuthSession | null>(null);
+
+  // Check the token saved from a previous visit
+  useEffect(() => {
+    const token = getAuthToken();
+    if (!token) {
+      setStatus('signed_out');
+      return;
+    }
+
+    fetchSession(token)
+      .then(current => {
+        setSession(current);
+        setStatus('signed_in');
+      })
+      .catch(() => {
+        clearAuthToken();
+        setStatus('signed_out');
+      });
+  }, []);
+
+  // Any 401 from the backend means the token was revoked
+  useEffect(() => onUnauthorized(() => {
+    setSession(null);
+    setStatus(prev => {
+      if (prev === 'signed_in') {
+        toast.error('Your session is no longer valid, please log in again');
+      }
+      return 'signed_out';
+    });
+  }), []);
+
+  const login = useCallback(async (token: string) => {
+    try {
+      const current = await fetchSession(token.trim());
+      setAuthToken(token);
+      setSession(current);
+      setStatus('signed_in');
+      return true;
+    } catch (error) {
+      toast.error(`Login failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
+    }
+  }, []);
+
+  // Prove control of an account by signing a challenge; the key never leaves this browser
+  const loginWithAccount = useCallback(async (secret: string) => {
+    try {
+      const account = createSecretSigner(secret).address;
+      const challenge = await fetchAuthChallenge(account);
+      const signed = await signLoginChallenge(challenge, secret);
+      const { token } = await createAccountSession(signed);
+      
+      setAuthToken(token);
+      setSession(await fetchSession(token));
+      setStatus('signed_in');
+      return true;
+    } catch (error) {
+      toast.error(`Login failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
+    }
+  }, []);
+
+  const logout = useCallback(() => {
+    // Account sessions are ended on the server too; API tokens stay valid until revoked
+    if (session?.account) {
+      endAccountSession().catch(() => undefined);
+    }
+    clearAuthToken();
+    setSession(null);
+    setStatus('signed_out');
+  }, [session]);
+
+  return (
+    <AuthContext.Provider value={{ status, session, login, loginWithAccount, logout }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used inside an AuthProvider');
+  }
+  return context;
+}
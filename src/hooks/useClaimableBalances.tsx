@@ -2,10 +2,11 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { ClaimableBalance, WalletData } from '@/lib/types';
 import { fetchClaimableBalances } from '@/lib/api';
+import { isFeeSponsor } from '@/lib/feeSponsor';
+import { getClaimDeadline, getClaimWindows, nextClaimableTime } from '@/lib/claimPredicate';
+import { getBrowserRefreshDelay } from '@/lib/pollCadence';
 import { toast } from 'sonner';
 
-const REFRESH_INTERVAL = 5 * 60 * 1000; // 5 minutes
-
 export function useClaimableBalances(wallets: WalletData[], addLog: Function) {
   const [claimableBalances, setClaimableBalances] = useState<ClaimableBalance[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -15,35 +16,6 @@ export function useClaimableBalances(wallets: WalletData[], addLog: Function) {
   const refreshCountRef = useRef<number>(0);
   const inProgressRef = useRef<Set<string>>(new Set());
 
-  // Helper function to extract the correct unlock time from predicate
-  const extractUnlockTime = useCallback((record: any): Date => {
-    // Check if we have claimants
-    if (!record.claimants || record.claimants.length === 0) {
-      return new Date(Date.now() + 1000 * 60 * 60 * 24); // Default to 24 hours from now if no claimants
-    }
-
-    try {
-      // Look for our wallet's claimant (usually first one)
-      const claimant = record.claimants[0];
-      
-      // If it has a "not" predicate (meaning it can only be claimed after a certain time)
-      if (claimant.predicate?.not?.abs_before) {
-        return new Date(claimant.predicate.not.abs_before);
-      }
-      
-      // If there's a second claimant with a "not" predicate, check that as well
-      if (record.claimants.length > 1 && record.claimants[1].predicate?.not?.abs_before) {
-        return new Date(record.claimants[1].predicate.not.abs_before);
-      }
-      
-      // Default fallback if we can't determine
-      return new Date(Date.now() + 1000 * 60 * 60 * 24); // Default to 24 hours from now
-    } catch (error) {
-      console.error("Error extracting unlock time:", error);
-      return new Date(Date.now() + 1000 * 60 * 60 * 24); // Default to 24 hours from now on error
-    }
-  }, []);
-
   // Fetch claimable balances for a single wallet with backoff retry
   const fetchWalletBalances = useCallback(async (
     wallet: WalletData, 
@@ -65,25 +37,42 @@ export function useClaimableBalances(wallets: WalletData[], addLog: Function) {
       if (!isMountedRef.current) return [];
       
       if (data._embedded?.records?.length > 0) {
-        const walletBalances = data._embedded.records.map((record: any) => {
-          // Use our helper function to extract the correct unlock time
-          const unlockTime = extractUnlockTime(record);
+        const walletBalances: ClaimableBalance[] = data._embedded.records.flatMap((record: any) => {
+          // Evaluate this wallet's claimant predicate into claim windows
+          const claimWindows = getClaimWindows(record, wallet.address);
+          const unlockTime = nextClaimableTime(claimWindows);
           
-          return {
+          // Not a claimant, or every claim window has closed
+          if (!unlockTime) return [];
+          
+          return [{
             id: record.id,
             amount: record.amount,
+            claimWindows,
             unlockTime,
+            claimDeadline: getClaimDeadline(claimWindows, unlockTime),
             walletId: wallet.id,
             lastChecked: new Date()
-          };
+          }];
         });
         
+        const { pages, records, truncated } = data.pagination;
+        
         addLog({
-          message: `Found ${walletBalances.length} claimable balance(s) for wallet ${wallet.address.substring(0, 6)}...`,
+          message: `Found ${walletBalances.length} claimable balance(s) for wallet ${wallet.address.substring(0, 6)}... (${records} record(s) in ${pages} page(s))`,
           status: 'info',
           walletId: wallet.id
         });
         
+        // Balances beyond the page cap are not seen this round
+        if (truncated) {
+          addLog({
+            message: `Stopped after ${pages} pages of claimable balances; some balances may be missing`,
+            status: 'warning',
+            walletId: wallet.id
+          });
+        }
+        
         return walletBalances;
       }
       
@@ -114,7 +103,7 @@ export function useClaimableBalances(wallets: WalletData[], addLog: Function) {
     } finally {
       inProgressRef.current.delete(walletKey);
     }
-  }, [addLog, extractUnlockTime]);
+  }, [addLog]);
 
   // Fetch claimable balances for all wallets
   const fetchAllBalances = useCallback(async (force = false) => {
@@ -135,7 +124,7 @@ export function useClaimableBalances(wallets: WalletData[], addLog: Function) {
 
       // Process wallets in parallel, but with limits
       const results = await Promise.all(
-        wallets.map(wallet => fetchWalletBalances(wallet))
+        wallets.filter(wallet => !isFeeSponsor(wallet)).map(wallet => fetchWalletBalances(wallet))
       );
       
       // If the component unmounted or a newer fetch was initiated, abort
@@ -189,15 +178,17 @@ export function useClaimableBalances(wallets: WalletData[], addLog: Function) {
     }
   }, [wallets, addLog, fetchWalletBalances, isLoading]);
 
+  // Refresh more often as the nearest unlock approaches
+  const refreshDelay = getBrowserRefreshDelay(claimableBalances);
+
   // Initial fetch and setup periodic refresh
   useEffect(() => {
     isMountedRef.current = true;
     fetchAllBalances();
     
-    // Refresh balances every 5 minutes
     timerRef.current = setInterval(() => {
       fetchAllBalances();
-    }, REFRESH_INTERVAL);
+    }, refreshDelay);
     
     return () => {
       isMountedRef.current = false;
@@ -206,7 +197,7 @@ export function useClaimableBalances(wallets: WalletData[], addLog: Function) {
         timerRef.current = null;
       }
     };
-  }, [fetchAllBalances]);
+  }, [fetchAllBalances, refreshDelay]);
 
   // Schedule pre-unlock data refresh
   useEffect(() => {
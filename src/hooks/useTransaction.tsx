@@ -1,7 +1,18 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { WalletData, ClaimableBalance, TransactionStatus } from '@/lib/types';
-import { fetchSequenceNumber, submitTransaction, NETWORK_PASSPHRASE } from '@/lib/api';
+import { WalletData, ClaimableBalance, ClaimBatch, ClaimLease, DeadlineLevel, FeeChoice, TransactionStatus } from '@/lib/types';
+import { submitTransaction, acquireClaimLease, releaseClaimLease, NETWORK_PASSPHRASE } from '@/lib/api';
+import { planTransferAmount } from '@/lib/amountPlanner';
+import { wrapWithFeeBump } from '@/lib/feeSponsor';
+import { Signer, createSecretSigner } from '@/lib/signer';
+import { selectFee, formatFee } from '@/lib/feePolicy';
+import { planAllBatches } from '@/lib/batchPlanner';
+import { primeSequence, withNextSequence, invalidateSequence } from '@/lib/sequenceManager';
+import { getDeadlineLevel, isEscalation, retryDelayBeforeDeadline } from '@/lib/claimDeadline';
+import { HorizonSubmissionError, getRetryPolicy, describeResultCodes } from '@/lib/horizonErrors';
+import { SubmissionDetails, trackSubmission, hasTrackedSubmission, forgetSubmission, checkTrackedSubmission } from '@/lib/submissionTracker';
+import { LeaseConflictError } from '@/lib/execution';
+import { getBrowserKey } from '@/lib/browserKeys';
 import { toast } from 'sonner';
 import * as StellarSdk from '@stellar/stellar-sdk';
 
@@ -14,21 +25,51 @@ const PREP_TIME_BEFORE_UNLOCK = 2000;
 // Submit right at unlock time
 const SUBMIT_BUFFER_AFTER_UNLOCK = 5;
 
+// Minimum fee per operation for inner transactions wrapped in a fee-bump
+const INNER_TRANSACTION_FEE = StellarSdk.BASE_FEE;
+
 // Retry intervals for failed transactions (in ms)
 const RETRY_INTERVALS = [3000, 10000, 20000, 45000];
 
+// How often claim deadlines are checked for warnings (30 seconds)
+const DEADLINE_CHECK_INTERVAL = 30000;
+
+// Longer setTimeout delays overflow and fire immediately (about 24.8 days)
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
 export function useTransaction(
   wallets: WalletData[],
   claimableBalances: ClaimableBalance[],
   removeBalance: (id: string) => void,
   markBalanceProcessing: (id: string, isProcessing: boolean) => void,
-  addLog: Function
+  addLog: Function,
+  // Only claims while this browser is the executor
+  active: boolean,
+  // Take a lease from the server before each claim (false while the server is unreachable)
+  useLeases: boolean,
+  // Wallets whose key is loaded in this browser
+  keyedWalletIds: string[]
 ) {
   const [processingBalances, setProcessingBalances] = useState<Record<string, TransactionStatus>>({});
   const activeTimersRef = useRef<Record<string, NodeJS.Timeout>>({});
-  const sequenceCacheRef = useRef<Record<string, { sequence: string, timestamp: number }>>({});
+  const scheduledBatchesRef = useRef<Record<string, ClaimBatch>>({});
   const failedAttemptsRef = useRef<Record<string, number>>({});
+  const feeBumpLevelsRef = useRef<Record<string, number>>({});
+  const deadlineWarningsRef = useRef<Record<string, DeadlineLevel>>({});
+  const abandonedBalancesRef = useRef<Record<string, string>>({});
   const isMountedRef = useRef<boolean>(true);
+  const useLeasesRef = useRef<boolean>(useLeases);
+  useLeasesRef.current = useLeases;
+  
+  // Stop everything scheduled here once another executor takes over
+  useEffect(() => {
+    if (active) return;
+    
+    Object.values(activeTimersRef.current).forEach(timer => clearTimeout(timer));
+    activeTimersRef.current = {};
+    scheduledBatchesRef.current = {};
+    setProcessingBalances({});
+  }, [active]);
   
   // Clean up timers on unmount
   useEffect(() => {
@@ -41,28 +82,6 @@ export function useTransaction(
     };
   }, []);
 
-  // Get cached sequence for a wallet or fetch a new one
-  const getSequenceNumber = useCallback(async (walletAddress: string): Promise<string> => {
-    // Check cache first (valid for 30 seconds)
-    const cachedData = sequenceCacheRef.current[walletAddress];
-    const now = Date.now();
-    
-    if (cachedData && (now - cachedData.timestamp) < 30000) {
-      return cachedData.sequence;
-    }
-    
-    // Fetch fresh sequence
-    const sequence = await fetchSequenceNumber(walletAddress);
-    
-    // Update cache
-    sequenceCacheRef.current[walletAddress] = {
-      sequence,
-      timestamp: now
-    };
-    
-    return sequence;
-  }, []);
-
   // Helper function to format time remaining
   const formatTimeRemaining = (milliseconds: number): string => {
     if (milliseconds < 0) return 'now';
@@ -83,16 +102,61 @@ export function useTransaction(
     return `${hours}h ${remainingMinutes}m`;
   };
 
-  // Schedule transaction processing for all balances - sort by unlock time
+  // Escalate warnings as claim deadlines approach for balances not yet claimed
   useEffect(() => {
-    // Prioritize balances by unlock time - process the earliest unlocking balances first
-    const sortedBalances = [...claimableBalances].sort((a, b) => {
-      const aTime = new Date(a.unlockTime).getTime();
-      const bTime = new Date(b.unlockTime).getTime();
-      return aTime - bTime;
-    });
+    // The server warns about deadlines while it is the executor
+    if (!active) return;
+    
+    const checkDeadlines = () => {
+      const now = new Date();
+      
+      claimableBalances.forEach(balance => {
+        if (processingBalances[balance.id] === 'completed') return;
+        
+        const level = getDeadlineLevel(balance.claimDeadline, now);
+        if (!level || !isEscalation(level, deadlineWarningsRef.current[balance.id])) return;
+        deadlineWarningsRef.current[balance.id] = level;
+        
+        const message = level === 'expired'
+          ? `Claim window closed for balance of ${balance.amount} Pi before it was claimed`
+          : `Claim deadline ${level}: balance of ${balance.amount} Pi must be claimed within ${formatTimeRemaining(new Date(balance.claimDeadline as Date).getTime() - now.getTime())}`;
+        
+        addLog({
+          message,
+          status: level === 'notice' ? 'info' : level === 'warning' ? 'warning' : 'error',
+          walletId: balance.walletId
+        });
+        
+        if (level === 'critical' || level === 'expired') {
+          toast.error(message);
+        }
+      });
+    };
+    
+    checkDeadlines();
+    const interval = setInterval(checkDeadlines, DEADLINE_CHECK_INTERVAL);
     
-    const processableBalances = sortedBalances.filter(balance => {
+    return () => clearInterval(interval);
+  }, [active, claimableBalances, processingBalances, addLog]);
+
+  // Schedule transaction processing for all balances, grouped into batches by unlock time (soonest deadline first)
+  useEffect(() => {
+    if (!active) return;
+    
+    // Balances already owned by a scheduled batch stay with it
+    const scheduledBalanceIds = new Set(
+      Object.keys(activeTimersRef.current)
+        .flatMap(batchId => (scheduledBatchesRef.current[batchId]?.balances || []).map(b => b.id))
+    );
+    
+    // Pre-authorized wallets are claimed by the server's stored envelopes; others need their key loaded here
+    const claimableWalletIds = new Set(
+      wallets.filter(w => w.signingMode !== 'pre_auth' && keyedWalletIds.includes(w.id)).map(w => w.id)
+    );
+    
+    const pendingBalances = claimableBalances.filter(balance => {
+      if (!claimableWalletIds.has(balance.walletId)) return false;
+      
       const status = processingBalances[balance.id];
       
       // Skip if already being processed
@@ -100,81 +164,59 @@ export function useTransaction(
         return false;
       }
       
-      // Always process if already unlocked
-      if (new Date() >= new Date(balance.unlockTime)) {
-        return true;
-      }
-      
-      // Schedule processing before unlock time
-      const unlockTime = new Date(balance.unlockTime).getTime();
-      const now = Date.now();
-      return (unlockTime - now) <= PREP_TIME_BEFORE_UNLOCK;
+      // Balances given up on stay visible but are not retried
+      return !scheduledBalanceIds.has(balance.id) && !abandonedBalancesRef.current[balance.id];
     });
     
-    // Process each balance
-    processableBalances.forEach(balance => {
-      // Skip if already scheduled
-      if (activeTimersRef.current[balance.id]) {
-        return;
-      }
-      
-      const wallet = wallets.find(w => w.id === balance.walletId);
+    // Batches come back sorted so the earliest unlocking ones are processed first
+    const processableBatches = planAllBatches(pendingBalances).filter(batch => {
+      // Schedule processing before unlock time (or immediately if already unlocked)
+      return (batch.unlockTime.getTime() - Date.now()) <= PREP_TIME_BEFORE_UNLOCK;
+    });
+    
+    // Process each batch
+    processableBatches.forEach(batch => {
+      const wallet = wallets.find(w => w.id === batch.walletId);
       if (!wallet) return;
       
-      const unlockTime = new Date(balance.unlockTime).getTime();
-      const now = Date.now();
-      const timeUntilUnlock = Math.max(0, unlockTime - now);
-      
-      // If already unlocked or within preparation window, start processing
-      if (timeUntilUnlock <= PREP_TIME_BEFORE_UNLOCK) {
-        startProcessingBalance(balance);
-      } else {
-        // Schedule processing to start at the right time
-        const timerId = setTimeout(() => {
-          startProcessingBalance(balance);
-        }, timeUntilUnlock - PREP_TIME_BEFORE_UNLOCK);
-        
-        activeTimersRef.current[balance.id] = timerId;
-        
-        addLog({
-          message: `Scheduled processing for ${balance.amount} Pi in ${formatTimeRemaining(timeUntilUnlock)}`,
-          status: 'info',
-          walletId: wallet.id
-        });
-      }
+      startProcessingBatch(batch);
     });
     
     // Cleanup function
     return () => {
-      // Clear any timers that exist for balances not in the current list
+      // Clear any timers whose balances are all gone from the current list
       const currentBalanceIds = new Set(claimableBalances.map(b => b.id));
       
-      Object.entries(activeTimersRef.current).forEach(([balanceId, timerId]) => {
-        if (!currentBalanceIds.has(balanceId)) {
+      Object.entries(activeTimersRef.current).forEach(([batchId, timerId]) => {
+        const batch = scheduledBatchesRef.current[batchId];
+        if (!batch || !batch.balances.some(b => currentBalanceIds.has(b.id))) {
           clearTimeout(timerId);
-          delete activeTimersRef.current[balanceId];
+          delete activeTimersRef.current[batchId];
+          delete scheduledBatchesRef.current[batchId];
         }
       });
     };
-  }, [claimableBalances, wallets, processingBalances, addLog]);
+  }, [active, keyedWalletIds, claimableBalances, wallets, processingBalances, addLog]);
 
-  // Start processing a balance
-  const startProcessingBalance = useCallback(async (balance: ClaimableBalance) => {
-    const wallet = wallets.find(w => w.id === balance.walletId);
+  // Start processing a batch of balances
+  const startProcessingBatch = useCallback(async (batch: ClaimBatch) => {
+    const wallet = wallets.find(w => w.id === batch.walletId);
     if (!wallet) {
-      console.error('Wallet not found for balance:', balance);
+      console.error('Wallet not found for batch:', batch);
       return;
     }
     
-    // Clear any existing timers for this balance
-    if (activeTimersRef.current[balance.id]) {
-      clearTimeout(activeTimersRef.current[balance.id]);
-      delete activeTimersRef.current[balance.id];
+    // Clear any existing timers for this batch
+    if (activeTimersRef.current[batch.id]) {
+      clearTimeout(activeTimersRef.current[batch.id]);
+      delete activeTimersRef.current[batch.id];
     }
     
+    scheduledBatchesRef.current[batch.id] = batch;
+    
     // Update status to fetching sequence
-    updateBalanceStatus(balance.id, 'fetching_sequence');
-    markBalanceProcessing(balance.id, true);
+    updateBatchStatus(batch, 'fetching_sequence');
+    batch.balances.forEach(balance => markBalanceProcessing(balance.id, true));
     
     addLog({
       message: `Fetching sequence number for wallet ${wallet.address.substring(0, 6)}...`,
@@ -183,25 +225,25 @@ export function useTransaction(
     });
     
     try {
-      // Fetch sequence number directly from the API
-      const currentSequence = await getSequenceNumber(wallet.address);
+      // Have the sequence number ready locally before unlock
+      const currentSequence = await primeSequence(wallet.address);
       
       if (!isMountedRef.current) return;
       
       addLog({
-        message: `Current sequence from API: ${currentSequence}`,
+        message: `Current sequence: ${currentSequence}`,
         status: 'info',
         walletId: wallet.id
       });
       
       // Check if we need to wait for unlock time
       const now = Date.now();
-      const unlockTime = new Date(balance.unlockTime).getTime();
+      const unlockTime = new Date(batch.unlockTime).getTime();
       const timeUntilUnlock = unlockTime - now;
       
       if (timeUntilUnlock > 0) {
         // Set status to waiting
-        updateBalanceStatus(balance.id, 'waiting');
+        updateBatchStatus(batch, 'waiting');
         
         addLog({
           message: `Waiting ${formatTimeRemaining(timeUntilUnlock)} until unlock time`,
@@ -209,19 +251,23 @@ export function useTransaction(
           walletId: wallet.id
         });
         
-        // Set timer to construct transaction at unlock time with minimal buffer
-        const timer = setTimeout(() => {
-          constructAndSubmitTransaction(balance, wallet, currentSequence);
-        }, timeUntilUnlock + SUBMIT_BUFFER_AFTER_UNLOCK);
+        // Lockups can outlast a single timer, so wake up before unlock and start over from there
+        const timer = timeUntilUnlock + SUBMIT_BUFFER_AFTER_UNLOCK > MAX_TIMER_DELAY
+          ? setTimeout(() => {
+              startProcessingBatch(batch);
+            }, MAX_TIMER_DELAY - PREP_TIME_BEFORE_UNLOCK)
+          : setTimeout(() => {
+              constructAndSubmitTransaction(batch, wallet);
+            }, timeUntilUnlock + SUBMIT_BUFFER_AFTER_UNLOCK);
         
-        activeTimersRef.current[balance.id] = timer;
+        activeTimersRef.current[batch.id] = timer;
       } else {
         // Already unlocked, construct and submit transaction immediately
-        constructAndSubmitTransaction(balance, wallet, currentSequence);
+        constructAndSubmitTransaction(batch, wallet);
       }
     } catch (error) {
       console.error('Error fetching sequence number:', error);
-      updateBalanceStatus(balance.id, 'failed');
+      updateBatchStatus(batch, 'failed');
       
       addLog({
         message: `Failed to fetch sequence number: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -230,17 +276,17 @@ export function useTransaction(
       });
       
       // Try again after a delay using exponential backoff
-      const attemptCount = (failedAttemptsRef.current[balance.id] || 0) + 1;
-      failedAttemptsRef.current[balance.id] = attemptCount;
+      const attemptCount = (failedAttemptsRef.current[batch.id] || 0) + 1;
+      failedAttemptsRef.current[batch.id] = attemptCount;
       
       const delayIndex = Math.min(attemptCount - 1, RETRY_INTERVALS.length - 1);
-      const retryDelay = RETRY_INTERVALS[delayIndex];
+      const retryDelay = retryDelayBeforeDeadline(batch, RETRY_INTERVALS[delayIndex]);
       
       const timer = setTimeout(() => {
-        startProcessingBalance(balance);
+        startProcessingBatch(batch);
       }, retryDelay);
       
-      activeTimersRef.current[balance.id] = timer;
+      activeTimersRef.current[batch.id] = timer;
       
       addLog({
         message: `Will retry in ${formatTimeRemaining(retryDelay)}`,
@@ -248,154 +294,335 @@ export function useTransaction(
         walletId: wallet.id
       });
     }
-  }, [wallets, addLog, getSequenceNumber, markBalanceProcessing]);
+  }, [wallets, addLog, markBalanceProcessing]);
 
-  // Construct and submit transaction with both claim and payment operations
+  // Construct and submit one transaction with a claim per balance and one aggregated payment
   const constructAndSubmitTransaction = useCallback(async (
-    balance: ClaimableBalance, 
-    wallet: WalletData, 
-    currentSequence: string
+    batch: ClaimBatch, 
+    wallet: WalletData
   ) => {
-    updateBalanceStatus(balance.id, 'constructing');
+    updateBatchStatus(batch, 'constructing');
     
     addLog({
-      message: `Constructing transaction for ${balance.amount} Pi`,
+      message: `Constructing transaction with ${batch.balances.length} claim(s) for ${batch.totalAmount} Pi`,
       status: 'info',
       walletId: wallet.id
     });
     
-    try {
-      // Validate the private key first
-      if (!wallet.privateKey) {
-        throw new Error('Private key is required');
-      }
+    // Mark the batch claimed once its transaction is in a ledger
+    const finishBatch = (result: any, details: SubmissionDetails) => {
+      updateBatchStatus(batch, 'completed');
       
-      // Clean private key (trim whitespace)
-      const cleanPrivateKey = wallet.privateKey.trim();
+      addLog({
+        message: `Transaction successful! Hash: ${result.hash}${result.endpoint ? ` (accepted by ${result.endpoint})` : ''}`,
+        status: 'success',
+        walletId: wallet.id
+      });
       
-      // Create keypair from private key with additional verification
-      let keyPair;
-      try {
-        keyPair = StellarSdk.Keypair.fromSecret(cleanPrivateKey);
+      addLog({
+        message: `Fee charged: ${formatFee(result.fee_charged || 0)}${details.sponsorId ? ' (paid by sponsor)' : ''}`,
+        status: 'info',
+        walletId: wallet.id
+      });
+      
+      toast.success(`Successfully claimed ${batch.totalAmount} Pi and transferred ${details.transferAmount} Pi`);
+      
+      // Reset failed attempts
+      delete failedAttemptsRef.current[batch.id];
+      delete feeBumpLevelsRef.current[batch.id];
+      
+      // Remove the balances after successful processing
+      setTimeout(() => {
+        batch.balances.forEach(balance => removeBalance(balance.id));
+      }, 5000); // Show completed status for 5 seconds before removing
+      
+      // Clean up active timers for this batch
+      if (activeTimersRef.current[batch.id]) {
+        clearTimeout(activeTimersRef.current[batch.id]);
+        delete activeTimersRef.current[batch.id];
+      }
+      delete scheduledBatchesRef.current[batch.id];
+    };
+    
+    // Stop retrying after an error that retrying can't fix
+    const giveUpOnBatch = (error: HorizonSubmissionError) => {
+      delete activeTimersRef.current[batch.id];
+      delete scheduledBatchesRef.current[batch.id];
+      delete failedAttemptsRef.current[batch.id];
+      delete feeBumpLevelsRef.current[batch.id];
+      
+      if (error.errorClass === 'balance_gone') {
+        // Claim operations come first, so a failed operation index points at its balance
+        const goneIds = error.failedOperations
+          .filter(op => op.code === 'op_does_not_exist' && op.index < batch.balances.length)
+          .map(op => batch.balances[op.index].id);
+        const gone = goneIds.length > 0 ? batch.balances.filter(b => goneIds.includes(b.id)) : batch.balances;
         
-        // Validate that keypair matches the wallet address
-        if (keyPair.publicKey() !== wallet.address) {
+        gone.forEach(balance => {
           addLog({
-            message: `ERROR: Private key generates address ${keyPair.publicKey()} but wallet address is ${wallet.address}`,
+            message: `Balance of ${balance.amount} Pi no longer exists (claimed elsewhere), removing it`,
             status: 'error',
             walletId: wallet.id
           });
-          throw new Error('Private key does not match wallet address');
+          removeBalance(balance.id);
+        });
+        
+        // The rest of the batch is regrouped and claimed without the missing balances
+        batch.balances
+          .filter(balance => !gone.includes(balance))
+          .forEach(balance => markBalanceProcessing(balance.id, false));
+        setProcessingBalances(prev => {
+          const next = { ...prev };
+          batch.balances.forEach(balance => { delete next[balance.id]; });
+          return next;
+        });
+        return;
+      }
+      
+      batch.balances.forEach(balance => {
+        abandonedBalancesRef.current[balance.id] = error.errorClass;
+      });
+      
+      const message = `Giving up on claim of ${batch.totalAmount} Pi: ${error.errorClass} (${error.message})`;
+      addLog({
+        message,
+        status: 'error',
+        walletId: wallet.id
+      });
+      toast.error(message);
+    };
+    
+    let lease: ClaimLease | null = null;
+    
+    // The fee of this attempt, to tell whether a tx_insufficient_fee can still be fixed by bumping
+    let feeChoice: FeeChoice | null = null;
+    
+    try {
+      // Exactly one executor works on a balance at a time
+      if (useLeasesRef.current) {
+        try {
+          lease = await acquireClaimLease(wallet.id, batch.balances.map(b => b.id));
+        } catch (error) {
+          if (!(error instanceof LeaseConflictError)) throw error;
+          
+          updateBatchStatus(batch, 'waiting');
+          
+          addLog({
+            message: `Not claiming ${batch.totalAmount} Pi: ${error.message}`,
+            status: 'warning',
+            walletId: wallet.id
+          });
+          
+          // Try again once the other executor's lease has run out
+          const timer = setTimeout(() => {
+            startProcessingBatch(batch);
+          }, Math.max(new Date(error.lease.expiresAt).getTime() - Date.now(), 0) + 1000);
+          
+          activeTimersRef.current[batch.id] = timer;
+          return;
         }
-      } catch (err) {
-        console.error('Error creating keypair:', err);
-        throw new Error(`Invalid private key: ${err instanceof Error ? err.message : 'Unknown error'}`);
       }
       
-      // Convert the sequence to the correct format expected by StellarSdk
-      const sequenceAsString = currentSequence.toString();
+      // An earlier attempt may have landed even though its submission errored
+      const previous = await checkTrackedSubmission(batch.id);
       
-      // Create the source account with the proper sequence format
-      const sourceAccount = new StellarSdk.Account(wallet.address, sequenceAsString);
+      if (previous.state === 'landed') {
+        addLog({
+          message: `Earlier submission ${previous.submission.hash} already landed in ledger ${previous.record.ledger}`,
+          status: 'info',
+          walletId: wallet.id
+        });
+        
+        finishBatch(previous.record, previous.submission.details);
+        return;
+      }
       
-      // Transaction with high fee for priority processing
-      let transactionBuilder = new StellarSdk.TransactionBuilder(sourceAccount, {
-        fee: "1000000", // 0.1 Pi fee to ensure transaction priority
-        networkPassphrase: NETWORK_PASSPHRASE
-      });
+      if (previous.state === 'pending') {
+        updateBatchStatus(batch, 'submitting');
+        
+        addLog({
+          message: `Earlier submission ${previous.submission.hash} is not in a ledger yet, resubmitting the same envelope`,
+          status: 'info',
+          walletId: wallet.id
+        });
+        
+        let result;
+        try {
+          result = await submitTransaction(previous.submission.xdr);
+        } catch (error) {
+          if (!(error instanceof HorizonSubmissionError && error.resultCodes)) throw error;
+          
+          // It may have landed since the check (its sequence then reads as tx_bad_seq); look again before rebuilding
+          const recheck = await checkTrackedSubmission(batch.id);
+          
+          if (recheck.state === 'landed') {
+            addLog({
+              message: `Submission ${previous.submission.hash} landed in ledger ${recheck.record.ledger} while being resubmitted`,
+              status: 'info',
+              walletId: wallet.id
+            });
+            
+            finishBatch(recheck.record, previous.submission.details);
+            return;
+          }
+          
+          // Failed in a ledger or still absent: the catch below forgets it and rebuilds
+          throw error;
+        }
+        forgetSubmission(batch.id);
+        
+        finishBatch(result, previous.submission.details);
+        return;
+      }
       
-      // Add the claim operation first
-      transactionBuilder = transactionBuilder.addOperation(
-        StellarSdk.Operation.claimClaimableBalance({
-          balanceId: balance.id
-        })
-      );
+      if (previous.state === 'failed' || previous.state === 'expired') {
+        addLog({
+          message: `Earlier submission ${previous.submission.hash} ${previous.state === 'failed' ? 'was included but failed' : 'expired without landing'}, building a new transaction`,
+          status: previous.state === 'failed' ? 'warning' : 'info',
+          walletId: wallet.id
+        });
+      }
       
-      // Then add the payment operation to transfer the funds
-      transactionBuilder = transactionBuilder.addOperation(
-        StellarSdk.Operation.payment({
-          destination: wallet.destinationAddress,
-          asset: StellarSdk.Asset.native(),
-          amount: balance.amount
-        })
-      );
+      // Validate the private key first
+      const privateKey = getBrowserKey(wallet.id);
+      if (!privateKey) {
+        throw new Error('No private key loaded in this browser');
+      }
       
-      // Set a reasonable timeout
-      transactionBuilder = transactionBuilder.setTimeout(90); // 1.5 minutes
+      // Create the signer with additional verification that the key matches the wallet address
+      let signer: Signer;
+      try {
+        signer = createSecretSigner(privateKey, wallet.address);
+      } catch (err) {
+        console.error('Error creating signer:', err);
+        addLog({
+          message: `ERROR: ${err instanceof Error ? err.message : 'Invalid private key'}`,
+          status: 'error',
+          walletId: wallet.id
+        });
+        throw new Error(`Invalid private key: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
       
-      // Build the transaction
-      const transaction = transactionBuilder.build();
+      // A fee sponsor pays the whole fee, so the wallet itself pays nothing
+      const sponsor = wallet.feeSponsorId ? wallets.find(w => w.id === wallet.feeSponsorId) : undefined;
+      if (wallet.feeSponsorId && !sponsor) {
+        throw new Error('Fee sponsor wallet not found');
+      }
+      const sponsorKey = sponsor ? getBrowserKey(sponsor.id) : undefined;
+      if (sponsor && !sponsorKey) {
+        throw new Error('No private key loaded in this browser for the fee sponsor');
+      }
+      const sponsorSigner = sponsor && sponsorKey ? createSecretSigner(sponsorKey, sponsor.address) : undefined;
       
-      // Sign the transaction
-      updateBalanceStatus(balance.id, 'signing');
+      // Pick the fee from recent fee stats, raised after any insufficient-fee results
+      feeChoice = await selectFee(wallet, feeBumpLevelsRef.current[batch.id] || 0);
       
       addLog({
-        message: `Signing transaction with key for ${wallet.address.substring(0, 6)}...`,
+        message: `Fee ${formatFee(feeChoice.fee)} per operation (${feeChoice.fromStats ? `${feeChoice.percentile} of recent fees` : 'fee stats unavailable, using ceiling'}${feeChoice.bumpLevel > 0 ? `, bump level ${feeChoice.bumpLevel}` : ''}${feeChoice.capped ? ', capped at wallet ceiling' : ''})`,
         status: 'info',
         walletId: wallet.id
       });
       
-      transaction.sign(keyPair);
-      
-      // Get the signed XDR
-      const xdr = transaction.toXDR();
+      // One claim per balance plus a single aggregated payment
+      const operationCount = batch.balances.length + 1;
+      const sourceFee = sponsor ? '0' : (BigInt(feeChoice.fee) * BigInt(operationCount)).toString();
       
-      // Submit the transaction
-      updateBalanceStatus(balance.id, 'submitting');
+      // Work out how much can be forwarded without leaving the account underfunded
+      const plan = await planTransferAmount(wallet, batch.totalAmount, sourceFee);
       
       addLog({
-        message: `Submitting transaction to network...`,
-        status: 'info',
+        message: `Transfer amount ${plan.amount} Pi (mode: ${plan.mode}${plan.capped ? ', capped to available balance' : ''})`,
+        status: plan.capped ? 'warning' : 'info',
         walletId: wallet.id
       });
       
-      const result = await submitTransaction(xdr);
-      
-      // Check if transaction was successful
-      if (result.successful) {
-        // Update status to completed
-        updateBalanceStatus(balance.id, 'completed');
+      // Submissions from one account are queued so each gets the next sequence number
+      const result = await withNextSequence(wallet.address, async (sourceAccount) => {
+        // Transaction with high fee for priority processing
+        let transactionBuilder = new StellarSdk.TransactionBuilder(sourceAccount, {
+          fee: sponsor ? INNER_TRANSACTION_FEE : feeChoice.fee, // Minimum fee if a sponsor bumps it
+          networkPassphrase: NETWORK_PASSPHRASE
+        });
+        
+        // Add a claim operation for each balance first
+        batch.balances.forEach(balance => {
+          transactionBuilder = transactionBuilder.addOperation(
+            StellarSdk.Operation.claimClaimableBalance({
+              balanceId: balance.id
+            })
+          );
+        });
+        
+        // Then add one payment operation to transfer the combined funds
+        transactionBuilder = transactionBuilder.addOperation(
+          StellarSdk.Operation.payment({
+            destination: wallet.destinationAddress,
+            asset: StellarSdk.Asset.native(),
+            amount: plan.amount
+          })
+        );
+        
+        // Set a reasonable timeout
+        transactionBuilder = transactionBuilder.setTimeout(90); // 1.5 minutes
+        
+        // Build the transaction
+        const transaction = transactionBuilder.build();
+        
+        // Sign the transaction
+        updateBatchStatus(batch, 'signing');
         
         addLog({
-          message: `Transaction successful! Hash: ${result.hash}`,
-          status: 'success',
+          message: `Signing transaction with key for ${wallet.address.substring(0, 6)}...`,
+          status: 'info',
           walletId: wallet.id
         });
         
-        toast.success(`Successfully claimed and transferred ${balance.amount} Pi`);
+        await signer.sign(transaction);
         
-        // Reset failed attempts
-        delete failedAttemptsRef.current[balance.id];
+        // Let the sponsor pay the fee through a fee-bump envelope
+        const envelope = sponsorSigner ? await wrapWithFeeBump(transaction, sponsorSigner, feeChoice.fee) : transaction;
         
-        // Remove the balance after successful processing
-        setTimeout(() => {
-          removeBalance(balance.id);
-        }, 5000); // Show completed status for 5 seconds before removing
-      } else {
-        // If we have error codes, log them in detail
-        if (result.extras && result.extras.result_codes) {
-          const errorCodes = JSON.stringify(result.extras.result_codes);
-          addLog({
-            message: `Error codes: ${errorCodes}`,
-            status: 'error',
-            walletId: wallet.id
-          });
-          
-          throw new Error(`Transaction failed with codes: ${errorCodes}`);
-        } else {
-          throw new Error('Transaction submission was not successful');
+        // Get the signed XDR
+        const xdr = envelope.toXDR();
+        
+        // Remember the envelope so a retry can check whether it landed before rebuilding
+        const hash = trackSubmission(batch.id, envelope, {
+          transferAmount: plan.amount,
+          sponsorId: sponsor ? sponsor.id : null
+        });
+        
+        // Submit the transaction
+        updateBatchStatus(batch, 'submitting');
+        
+        addLog({
+          message: `Submitting transaction ${hash} to network...`,
+          status: 'info',
+          walletId: wallet.id
+        });
+        
+        const submission = await submitTransaction(xdr);
+        forgetSubmission(batch.id);
+        
+        // Anything short of success leaves the sequence unconfirmed
+        if (!submission.successful) {
+          const resultCodes = submission.extras && submission.extras.result_codes;
+          throw new HorizonSubmissionError(
+            resultCodes ? `Transaction failed: ${describeResultCodes(resultCodes)}` : 'Transaction submission was not successful',
+            { resultCodes }
+          );
         }
-      }
+        
+        return submission;
+      });
       
-      // Clean up active timers for this balance
-      if (activeTimersRef.current[balance.id]) {
-        clearTimeout(activeTimersRef.current[balance.id]);
-        delete activeTimersRef.current[balance.id];
-      }
+      finishBatch(result, {
+        transferAmount: plan.amount,
+        sponsorId: sponsor ? sponsor.id : null
+      });
       
     } catch (error) {
       console.error('Transaction error:', error);
-      updateBalanceStatus(balance.id, 'failed');
+      updateBatchStatus(batch, 'failed');
       
       addLog({
         message: `Transaction failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -403,57 +630,127 @@ export function useTransaction(
         walletId: wallet.id
       });
       
-      // Increment failed attempts for this balance
-      const attemptCount = (failedAttemptsRef.current[balance.id] || 0) + 1;
-      failedAttemptsRef.current[balance.id] = attemptCount;
+      // Increment failed attempts for this batch
+      const attemptCount = (failedAttemptsRef.current[batch.id] || 0) + 1;
+      failedAttemptsRef.current[batch.id] = attemptCount;
       
-      // Additional handling for specific error types
-      if (error instanceof Error) {
-        const errorMessage = error.message;
+      // Horizon rejected the envelope outright, so the next attempt builds a new one
+      if (error instanceof HorizonSubmissionError && error.resultCodes) {
+        forgetSubmission(batch.id);
+      }
+      
+      // Timeout or server error: the envelope may still land, so check its hash before anything else
+      if (hasTrackedSubmission(batch.id)) {
+        addLog({
+          message: 'Submission outcome unknown, checking transaction status in 5s',
+          status: 'warning',
+          walletId: wallet.id
+        });
+        
+        const timer = setTimeout(() => {
+          constructAndSubmitTransaction(batch, wallet);
+        }, retryDelayBeforeDeadline(batch, 5000));
         
-        // If it's a sequence number issue, fetch a new sequence and retry sooner
-        if (errorMessage.includes('tx_bad_seq') || errorMessage.includes('sequence')) {
+        activeTimersRef.current[batch.id] = timer;
+        return;
+      }
+      
+      const { errorClass, policy } = getRetryPolicy(error);
+      let retryDelay: number;
+      
+      switch (policy) {
+        case 'give_up':
+          giveUpOnBatch(error as HorizonSubmissionError);
+          return;
+          
+        case 'raise_fee': {
+          // Already at the ceiling: another bump would resubmit the same fee, so back off like a transient error
+          if (feeChoice?.atCeiling) {
+            retryDelay = RETRY_INTERVALS[Math.min(attemptCount - 1, RETRY_INTERVALS.length - 1)];
+            
+            addLog({
+              message: `Fee ceiling too low: ${formatFee(feeChoice.fee)} per operation was not enough. Raise the wallet's max fee; retrying at the ceiling in ${formatTimeRemaining(retryDelayBeforeDeadline(batch, retryDelay))}`,
+              status: 'error',
+              walletId: wallet.id
+            });
+            break;
+          }
+          
+          const bumpLevel = (feeBumpLevelsRef.current[batch.id] || 0) + 1;
+          feeBumpLevelsRef.current[batch.id] = bumpLevel;
+          
           addLog({
-            message: 'Sequence number issue detected, retrying with fresh sequence...',
-            status: 'info', 
+            message: `Fee too low, retrying with raised fee (bump level ${bumpLevel})`,
+            status: 'warning',
             walletId: wallet.id
           });
           
-          // Clear the sequence cache for this wallet
-          delete sequenceCacheRef.current[wallet.address];
+          retryDelay = 1000;
+          break;
+        }
           
-          // Start over with a fresh sequence number after a short delay
-          const timer = setTimeout(() => {
-            startProcessingBalance(balance);
-          }, 3000);
+        case 'refresh_sequence':
+          addLog({
+            message: 'Sequence number out of date, resyncing from Horizon and retrying',
+            status: 'info',
+            walletId: wallet.id
+          });
           
-          activeTimersRef.current[balance.id] = timer;
-          return;
+          invalidateSequence(wallet.address);
+          retryDelay = 100;
+          break;
+          
+        case 'retry_now':
+          addLog({
+            message: `Transaction rejected (${errorClass}), rebuilding and retrying now`,
+            status: 'info',
+            walletId: wallet.id
+          });
+          
+          retryDelay = 100;
+          break;
+          
+        default: {
+          // Transient or unknown: exponential backoff
+          const delayIndex = Math.min(attemptCount - 1, RETRY_INTERVALS.length - 1);
+          retryDelay = RETRY_INTERVALS[delayIndex];
+          
+          if (errorClass === 'insufficient_fee_balance') {
+            addLog({
+              message: `${wallet.feeSponsorId ? 'Fee sponsor' : 'Wallet'} can't cover the transaction fee; top it up. Retrying in ${formatTimeRemaining(retryDelayBeforeDeadline(batch, retryDelay))}`,
+              status: 'error',
+              walletId: wallet.id
+            });
+          }
+          
+          toast.error(`Transaction failed, will retry in ${formatTimeRemaining(retryDelayBeforeDeadline(batch, retryDelay))}`);
         }
       }
       
-      // Use exponential backoff for retries
-      const delayIndex = Math.min(attemptCount - 1, RETRY_INTERVALS.length - 1);
-      const retryDelay = RETRY_INTERVALS[delayIndex];
-      
-      toast.error(`Transaction failed, will retry in ${formatTimeRemaining(retryDelay)}`);
-      
       const timer = setTimeout(() => {
-        startProcessingBalance(balance);
-      }, retryDelay);
-      
-      activeTimersRef.current[balance.id] = timer;
+        startProcessingBatch(batch);
+      }, retryDelayBeforeDeadline(batch, retryDelay));
+      
+      activeTimersRef.current[batch.id] = timer;
+    } finally {
+      // A submission that may still land keeps its balances leased until the lease runs out
+      if (lease && !hasTrackedSubmission(batch.id)) {
+        releaseClaimLease(lease.id).catch(() => undefined);
+      }
     }
-  }, [addLog, removeBalance, markBalanceProcessing]);
+  }, [wallets, addLog, removeBalance, markBalanceProcessing]);
 
-  // Update the status of a balance
-  const updateBalanceStatus = useCallback((balanceId: string, status: TransactionStatus) => {
+  // Update the status of every balance in a batch
+  const updateBatchStatus = useCallback((batch: ClaimBatch, status: TransactionStatus) => {
     if (!isMountedRef.current) return;
     
-    setProcessingBalances(prev => ({
-      ...prev,
-      [balanceId]: status
-    }));
+    setProcessingBalances(prev => {
+      const next = { ...prev };
+      batch.balances.forEach(balance => {
+        next[balance.id] = status;
+      });
+      return next;
+    });
   }, []);
 
   // Process a specific balance immediately (for manual triggering)
@@ -473,8 +770,13 @@ export function useTransaction(
       walletId: wallet.id
     });
     
-    startProcessingBalance(balance);
-  }, [processingBalances, wallets, addLog, startProcessingBalance]);
+    // A manual claim also retries a balance that was given up on
+    delete abandonedBalancesRef.current[balance.id];
+    
+    // Manual claims go out on their own rather than waiting for the rest of a batch
+    const [batch] = planAllBatches([balance]);
+    startProcessingBatch(batch);
+  }, [processingBalances, wallets, addLog, startProcessingBatch]);
 
   return {
     processingBalances,
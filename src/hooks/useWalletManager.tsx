@@ -10,6 +10,7 @@ import {
   getLogs, 
   clearLogs as clearLogsApi 
 } from '@/lib/api';
+import { preAuthorizeWallet } from '@/lib/preAuth';
 
 export function useWalletManager() {
   const [wallets, setWallets] = useState<WalletData[]>([]);
@@ -44,8 +45,13 @@ export function useWalletManager() {
 
   // Add a new wallet
   const addWallet = useCallback(async (walletData: Omit<WalletData, 'id' | 'added'>) => {
-    // Basic validation
-    if (!walletData.address || !walletData.privateKey || !walletData.destinationAddress) {
+    const preAuthorized = walletData.type !== 'fee_sponsor' && walletData.signingMode === 'pre_auth';
+    // Only the vault and pre-authorization need the key here; other signers hold it themselves
+    const needsKey = preAuthorized || (walletData.signer || 'vault') === 'vault';
+    
+    // Basic validation (fee sponsors don't need a destination)
+    if (!walletData.address || (needsKey && !walletData.privateKey) || 
+        (walletData.type !== 'fee_sponsor' && !walletData.destinationAddress)) {
       toast.error('All wallet fields are required');
       return false;
     }
@@ -56,13 +62,30 @@ export function useWalletManager() {
       return false;
     }
 
+    const { privateKey, ...publicData } = walletData;
+    
     try {
-      // Send wallet to backend for monitoring
-      const response = await monitorWallet(walletData);
+      // Send wallet to backend for monitoring (only vaulted keys are sent; pre-authorized wallets keep theirs here)
+      const response = await monitorWallet(needsKey && !preAuthorized ? walletData : publicData);
       
       // Backend returns the created wallet with ID
       const newWallet = response.wallet;
       
+      if (preAuthorized) {
+        try {
+          const { envelopes, coverage, uncoveredIds } = await preAuthorizeWallet(newWallet, privateKey);
+          
+          toast.success(`Pre-authorized ${Object.keys(coverage).length} balance(s) in ${envelopes.length} transaction(s)`);
+          if (uncoveredIds.length > 0) {
+            toast.warning(`${uncoveredIds.length} balance(s) could not be covered by a pre-authorized transaction (signer limit, the wallet's spare reserve, or too small to pay their fee)`);
+          }
+        } catch (error) {
+          // Without envelopes nothing would ever claim this wallet's balances
+          await stopMonitoringWallet(newWallet.id).catch(() => undefined);
+          throw error;
+        }
+      }
+      
       setWallets(prev => [...prev, newWallet]);
       
       toast.success('Wallet added successfully');
@@ -0,0 +1,95 @@
+import { AccountReserveInfo, AmountMode, TransferPlan, WalletData } from './types';
+import { fetchAccountDetails } from './api';
+
+// Default mode for wallets that did not pick one
+export const DEFAULT_AMOUNT_MODE: AmountMode = 'auto';
+
+// Human-readable labels for each mode
+export const AMOUNT_MODE_LABELS: Record<AmountMode, string> = {
+  auto: 'Auto (fee-aware)',
+  claimed: 'Claimed amount',
+  claimed_minus_fee: 'Claimed minus fee',
+  sweep: 'Sweep above reserve'
+};
+
+// Number of stroops in one Pi
+const STROOPS_PER_PI = 10000000n;
+
+// Convert a Pi amount string to stroops
+export const toStroops = (amount: string): bigint => {
+  const [whole, fraction = ''] = amount.split('.');
+  return BigInt(whole || '0') * STROOPS_PER_PI + BigInt((fraction + '0000000').substring(0, 7));
+};
+
+// Convert stroops to a Pi amount string with 7 decimals
+export const fromStroops = (stroops: bigint): string => {
+  const whole = stroops / STROOPS_PER_PI;
+  const fraction = (stroops % STROOPS_PER_PI).toString().padStart(7, '0');
+  return `${whole}.${fraction}`;
+};
+
+// Minimum balance: (2 + subentries + sponsoring - sponsored) reserves plus selling liabilities
+export const getMinimumBalance = (account: AccountReserveInfo): bigint => {
+  const reserveEntries = BigInt(2 + account.subentryCount + account.numSponsoring - account.numSponsored);
+  return reserveEntries * BigInt(account.baseReserve) + toStroops(account.sellingLiabilities);
+};
+
+// Compute the transfer amount for a claim from known account state
+export const computeTransferAmount = (
+  account: AccountReserveInfo,
+  claimedAmount: string,
+  fee: string,
+  mode: AmountMode = DEFAULT_AMOUNT_MODE
+): TransferPlan => {
+  const claimed = toStroops(claimedAmount);
+  const feeStroops = BigInt(fee);
+
+  const minimumBalance = getMinimumBalance(account);
+
+  // What can leave the account once the claim has landed and the fee is paid
+  const available = toStroops(account.nativeBalance) + claimed - feeStroops - minimumBalance;
+
+  if (available <= 0n) {
+    throw new Error(`Nothing available to transfer above the ${fromStroops(minimumBalance)} Pi reserve`);
+  }
+
+  const candidates: Record<TransferPlan['mode'], bigint> = {
+    claimed,
+    claimed_minus_fee: claimed - feeStroops,
+    sweep: available
+  };
+
+  // Prefer the full claimed amount, then claimed minus fee, then whatever is spendable
+  const usedMode: TransferPlan['mode'] = mode === 'auto'
+    ? (['claimed', 'claimed_minus_fee'] as const).find(m => candidates[m] > 0n && candidates[m] <= available) || 'sweep'
+    : mode;
+
+  let amount = candidates[usedMode];
+  const capped = amount > available;
+
+  if (capped) {
+    amount = available;
+  }
+
+  if (amount <= 0n) {
+    throw new Error(`Transfer amount for mode ${usedMode} is not positive`);
+  }
+
+  return {
+    amount: fromStroops(amount),
+    mode: usedMode,
+    capped,
+    available: fromStroops(available),
+    minimumBalance: fromStroops(minimumBalance)
+  };
+};
+
+// Plan the transfer amount for a wallet claiming a balance
+export const planTransferAmount = async (
+  wallet: WalletData,
+  claimedAmount: string,
+  fee: string
+): Promise<TransferPlan> => {
+  const account = await fetchAccountDetails(wallet.address);
+  return computeTransferAmount(account, claimedAmount, fee, wallet.amountMode || DEFAULT_AMOUNT_MODE);
+};
@@ -1,5 +1,11 @@
 import { toast } from "sonner";
 import * as StellarSdk from '@stellar/stellar-sdk';
+import { AccountReserveInfo, AmountMode, AuthChallenge, AuthRole, AuthSession, BalanceStatus, ClaimLease, ClaimableBalancesResponse, ExecutionMode, PollCadence, PreAuthSummary, SignerType, SigningMode, VaultState, WalletType } from './types';
+import { HorizonSubmissionError, describeResultCodes } from './horizonErrors';
+import { Signer } from './signer';
+import { getAuthToken, notifyUnauthorized } from './auth';
+import { CLIENT_ID, LeaseConflictError } from './execution';
+import { getEndpointPath, horizonRead, horizonSubmit } from './horizonEndpoints';
 
 // Use a more reliable approach to determine backend URL
 const getBackendApiUrl = () => {
@@ -24,21 +30,102 @@ const getBackendApiUrl = () => {
 
 const BACKEND_API_URL = getBackendApiUrl();
 
-// Pi Network API base URL
-const PI_API_BASE_URL = "https://api.mainnet.minepi.com";
+// Claimable balance records requested per page (Horizon allows at most 200)
+const CLAIMABLE_BALANCES_PAGE_SIZE = 200;
+
+// Maximum number of pages fetched per wallet before giving up
+const CLAIMABLE_BALANCES_MAX_PAGES = 50;
+
+// Base reserve in stroops assumed when the latest ledger can't be read
+const DEFAULT_BASE_RESERVE = 5000000;
 
 // Network passphrase for Pi Network
 export const NETWORK_PASSPHRASE = "Pi Network";
 
+// Call the backend with the stored API token; a 401 sends the user back to the login screen
+const backendFetch = async (path: string, init: RequestInit = {}) => {
+  const token = getAuthToken();
+  const headers = new Headers(init.headers);
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+  
+  const response = await fetch(`${BACKEND_API_URL}${path}`, { ...init, headers });
+  
+  if (response.status === 401) {
+    notifyUnauthorized();
+  }
+  
+  return response;
+};
+
+// fetch rejects with a TypeError only when the server could not be reached at all
+const isUnreachable = (error: unknown) => error instanceof TypeError;
+
+// Check an API token and get the name and role it carries
+export const fetchSession = async (token: string): Promise<AuthSession> => {
+  const response = await fetch(`${BACKEND_API_URL}/auth/me`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `Server error: ${response.status}`);
+  }
+  
+  return await response.json();
+};
+
+// Get a challenge transaction for an account to sign
+export const fetchAuthChallenge = async (account: string): Promise<AuthChallenge> => {
+  const response = await fetch(`${BACKEND_API_URL}/auth/challenge?account=${account}`);
+  
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `Server error: ${response.status}`);
+  }
+  
+  return await response.json();
+};
+
+// Exchange a signed challenge for a session token
+export const createAccountSession = async (transaction: string): Promise<{ token: string; account: string; role: AuthRole; expiresAt: string }> => {
+  const response = await fetch(`${BACKEND_API_URL}/auth/session`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ transaction }),
+  });
+  
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `Server error: ${response.status}`);
+  }
+  
+  return await response.json();
+};
+
+// End the current account session on the server
+export const endAccountSession = async () => {
+  await backendFetch('/auth/session', { method: 'DELETE' });
+};
+
 // Monitor a wallet (sends to backend)
 export const monitorWallet = async (walletData: {
   address: string;
-  privateKey: string;
-  destinationAddress: string;
+  privateKey?: string;
+  destinationAddress?: string;
+  amountMode?: AmountMode;
+  type?: WalletType;
+  feeSponsorId?: string;
+  maxFee?: string;
+  signingMode?: SigningMode;
+  signer?: SignerType;
 }) => {
   try {
     // Send wallet data to backend
-    const response = await fetch(`${BACKEND_API_URL}/monitor-wallet`, {
+    const response = await backendFetch('/monitor-wallet', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -62,7 +149,7 @@ export const monitorWallet = async (walletData: {
 // Stop monitoring a wallet
 export const stopMonitoringWallet = async (walletId: string) => {
   try {
-    const response = await fetch(`${BACKEND_API_URL}/stop-monitoring/${walletId}`, {
+    const response = await backendFetch(`/stop-monitoring/${walletId}`, {
       method: 'DELETE',
     });
 
@@ -82,7 +169,7 @@ export const stopMonitoringWallet = async (walletId: string) => {
 // Get all monitored wallets from backend
 export const getMonitoredWallets = async () => {
   try {
-    const response = await fetch(`${BACKEND_API_URL}/wallets`);
+    const response = await backendFetch('/wallets');
     
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
@@ -100,7 +187,7 @@ export const getMonitoredWallets = async () => {
 // Get logs from backend
 export const getLogs = async () => {
   try {
-    const response = await fetch(`${BACKEND_API_URL}/logs`);
+    const response = await backendFetch('/logs');
     
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
@@ -118,7 +205,7 @@ export const getLogs = async () => {
 // Clear logs on backend
 export const clearLogs = async () => {
   try {
-    const response = await fetch(`${BACKEND_API_URL}/logs`, {
+    const response = await backendFetch('/logs', {
       method: 'DELETE',
     });
     
@@ -135,13 +222,125 @@ export const clearLogs = async () => {
   }
 };
 
+// Get the state of the backend key vault
+export const getVaultState = async (): Promise<VaultState> => {
+  const response = await backendFetch(`/vault?_t=${Date.now()}`);
+  
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `Server error: ${response.status}`);
+  }
+  
+  const data = await response.json();
+  return data.state;
+};
+
+// Send a vault action (init, unlock, lock, change-passphrase) and return the new state
+const postVaultAction = async (action: string, body: Record<string, string> = {}): Promise<VaultState> => {
+  const response = await backendFetch(`/vault/${action}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  
+  const data = await response.json().catch(() => ({}));
+  
+  if (!response.ok) {
+    throw new Error(data.message || `Server error: ${response.status}`);
+  }
+  
+  return data.state;
+};
+
+// Set up the vault with its first passphrase
+export const initVault = (passphrase: string) => postVaultAction('init', { passphrase });
+
+// Unlock the vault so the backend can sign claims
+export const unlockVault = (passphrase: string) => postVaultAction('unlock', { passphrase });
+
+// Lock the vault, holding all claims
+export const lockVault = () => postVaultAction('lock');
+
+// Change the vault passphrase (the backend re-encrypts every stored key)
+export const changeVaultPassphrase = (currentPassphrase: string, newPassphrase: string) =>
+  postVaultAction('change-passphrase', { currentPassphrase, newPassphrase });
+
+// Upload a wallet's pre-signed envelopes; the backend submits the setOptions transaction authorizing them
+export const uploadPreAuthEnvelopes = async (walletId: string, setOptionsXdr: string, envelopes: string[]): Promise<PreAuthSummary> => {
+  const response = await backendFetch(`/pre-auth/${walletId}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ setOptionsXdr, envelopes }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `Server error: ${response.status}`);
+  }
+
+  return await response.json();
+};
+
+// Get a wallet's stored envelopes and which balances they cover
+export const fetchPreAuthCoverage = async (walletId: string): Promise<PreAuthSummary> => {
+  const response = await backendFetch(`/pre-auth/${walletId}`);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `Server error: ${response.status}`);
+  }
+
+  return await response.json();
+};
+
+// Fetch every page of claimable balances for a wallet directly from Horizon
+const fetchAllClaimableBalancePages = async (walletAddress: string): Promise<ClaimableBalancesResponse> => {
+  const records: any[] = [];
+  let path: string | null = `/claimable_balances?claimant=${walletAddress}&limit=${CLAIMABLE_BALANCES_PAGE_SIZE}&order=asc`;
+  let pages = 0;
+  let truncated = false;
+  
+  while (path) {
+    // Stop at the safety cap even if Horizon still has more pages
+    if (pages >= CLAIMABLE_BALANCES_MAX_PAGES) {
+      truncated = true;
+      break;
+    }
+    
+    const response = await horizonRead(path);
+    
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`);
+    }
+    
+    const data = await response.json();
+    const pageRecords = data._embedded?.records || [];
+    
+    pages++;
+    records.push(...pageRecords);
+    
+    // A short page is the last one; otherwise follow the next link, on whichever endpoint is healthiest
+    const next: string | undefined = data._links?.next?.href && getEndpointPath(data._links.next.href);
+    path = pageRecords.length < CLAIMABLE_BALANCES_PAGE_SIZE || !next || next === path ? null : next;
+  }
+  
+  return {
+    _embedded: { records },
+    pagination: { pages, records: records.length, truncated }
+  };
+};
+
 // Fetch claimable balances for a wallet address with retry logic
-export const fetchClaimableBalances = async (walletAddress: string) => {
+export const fetchClaimableBalances = async (walletAddress: string): Promise<ClaimableBalancesResponse> => {
   try {
     // Add timestamp to prevent caching
     const timestamp = new Date().getTime();
     // Delegate this call to the backend
-    const response = await fetch(`${BACKEND_API_URL}/claimable-balances/${walletAddress}?_t=${timestamp}`);
+    const response = await backendFetch(`/claimable-balances/${walletAddress}?_t=${timestamp}`);
     
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
@@ -152,13 +351,10 @@ export const fetchClaimableBalances = async (walletAddress: string) => {
   } catch (error) {
     console.error("Error fetching claimable balances:", error);
     // Don't show toast for automatic background operations
-    if (error instanceof Error && error.message.includes('Network Error')) {
+    if (isUnreachable(error)) {
       // Try again with a different endpoint as fallback
       try {
-        const fallbackResponse = await fetch(`${PI_API_BASE_URL}/claimable_balances?claimant=${walletAddress}`);
-        if (fallbackResponse.ok) {
-          return await fallbackResponse.json();
-        }
+        return await fetchAllClaimableBalancePages(walletAddress);
       } catch (fallbackError) {
         console.error("Fallback fetch also failed:", fallbackError);
       }
@@ -167,22 +363,21 @@ export const fetchClaimableBalances = async (walletAddress: string) => {
   }
 };
 
-// Fetch sequence number with caching
-let sequenceCache = new Map<string, {seq: string, timestamp: number}>();
+// Fetch the current sequence number of an account (tracking is done by the sequence manager)
 export const fetchSequenceNumber = async (sourceAddress: string) => {
   try {
     console.log(`Fetching sequence number for account: ${sourceAddress}`);
     
-    // Check cache first (valid for 30 seconds)
-    const now = Date.now();
-    const cached = sequenceCache.get(sourceAddress);
-    if (cached && (now - cached.timestamp) < 30000) {
-      console.log(`Using cached sequence number for ${sourceAddress}: ${cached.seq}`);
-      return cached.seq;
-    }
-    
     // Use the backend to fetch this with a cache buster
-    const response = await fetch(`${BACKEND_API_URL}/sequence/${sourceAddress}?_t=${now}`);
+    let response: Response;
+    try {
+      response = await backendFetch(`/sequence/${sourceAddress}?_t=${Date.now()}`);
+    } catch (error) {
+      if (!isUnreachable(error)) throw error;
+      
+      // Horizon's account record carries the sequence too, for claiming while the backend is down
+      response = await horizonRead(`/accounts/${sourceAddress}`);
+    }
     
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
@@ -198,17 +393,75 @@ export const fetchSequenceNumber = async (sourceAddress: string) => {
     
     console.log(`Raw sequence number received for ${sourceAddress}: ${data.sequence} (type: ${typeof data.sequence})`);
     
-    // Update cache
-    sequenceCache.set(sourceAddress, {
-      seq: data.sequence,
-      timestamp: now
-    });
-    
     return data.sequence;
   } catch (error) {
     console.error("Error fetching sequence number:", error);
-    // Clear cache on error
-    sequenceCache.delete(sourceAddress);
+    throw error;
+  }
+};
+
+// Read the same account details straight from Horizon when the backend is unreachable
+const fetchAccountDetailsFromHorizon = async (address: string): Promise<AccountReserveInfo> => {
+  const [accountResponse, ledgerResponse] = await Promise.all([
+    horizonRead(`/accounts/${address}`),
+    horizonRead('/ledgers?order=desc&limit=1')
+  ]);
+  
+  if (!accountResponse.ok || !ledgerResponse.ok) {
+    throw new Error(`API error: ${accountResponse.ok ? ledgerResponse.status : accountResponse.status}`);
+  }
+  
+  const account = await accountResponse.json();
+  const ledger = (await ledgerResponse.json())._embedded?.records?.[0];
+  const native = (account.balances || []).find((b: any) => b.asset_type === 'native');
+  
+  return {
+    address,
+    nativeBalance: native ? native.balance : '0',
+    sellingLiabilities: native?.selling_liabilities || '0',
+    subentryCount: account.subentry_count || 0,
+    numSponsoring: account.num_sponsoring || 0,
+    numSponsored: account.num_sponsored || 0,
+    baseReserve: String(ledger?.base_reserve_in_stroops ?? DEFAULT_BASE_RESERVE)
+  };
+};
+
+// Fetch native balance, subentry counters and base reserve for an account
+export const fetchAccountDetails = async (address: string): Promise<AccountReserveInfo> => {
+  try {
+    let response: Response;
+    try {
+      response = await backendFetch(`/account/${address}?_t=${Date.now()}`);
+    } catch (error) {
+      if (!isUnreachable(error)) throw error;
+      return await fetchAccountDetailsFromHorizon(address);
+    }
+    
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.message || `Server error: ${response.status}`);
+    }
+    
+    return await response.json();
+  } catch (error) {
+    console.error("Error fetching account details:", error);
+    throw error;
+  }
+};
+
+// Fetch recent network fee statistics
+export const fetchFeeStats = async () => {
+  try {
+    const response = await backendFetch(`/fee-stats?_t=${Date.now()}`);
+    
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.message || `Server error: ${response.status}`);
+    }
+    
+    return await response.json();
+  } catch (error) {
+    console.error("Error fetching fee stats:", error);
     throw error;
   }
 };
@@ -217,11 +470,8 @@ export const fetchSequenceNumber = async (sourceAddress: string) => {
 // Generate transaction hash from XDR
 export const getTransactionHash = (xdr: string): string => {
   try {
-    // Parse the transaction envelope from XDR
-    const transactionEnvelope = StellarSdk.xdr.TransactionEnvelope.fromXDR(xdr, 'base64');
-    
-    // Create a transaction object with the correct network passphrase
-    const tx = new StellarSdk.Transaction(transactionEnvelope, NETWORK_PASSPHRASE);
+    // Parse the envelope (plain or fee-bump) with the correct network passphrase
+    const tx = StellarSdk.TransactionBuilder.fromXDR(xdr, NETWORK_PASSPHRASE);
     
     // Get the hash
     return tx.hash().toString('hex');
@@ -231,8 +481,8 @@ export const getTransactionHash = (xdr: string): string => {
   }
 };
 
-// Sign transaction with key (exactly like Stellar Lab)
-export const signTransaction = (xdr: string, secretKey: string): string => {
+// Sign a transaction XDR with a signer (exactly like Stellar Lab)
+export const signTransaction = async (xdr: string, signer: Signer): Promise<string> => {
   try {
     // First calculate the hash using the correct network passphrase
     const txHash = getTransactionHash(xdr);
@@ -244,11 +494,8 @@ export const signTransaction = (xdr: string, secretKey: string): string => {
       NETWORK_PASSPHRASE
     );
     
-    // Create keypair from secret key
-    const keyPair = StellarSdk.Keypair.fromSecret(secretKey);
-    
-    // Sign the transaction with the keypair
-    tx.sign(keyPair);
+    // Sign the transaction wherever the signer keeps its key
+    await signer.sign(tx);
     
     // Convert back to XDR
     return tx.toEnvelope().toXDR('base64');
@@ -258,6 +505,30 @@ export const signTransaction = (xdr: string, secretKey: string): string => {
   }
 };
 
+// Look up a transaction by hash; null if it is not in a ledger
+export const fetchTransaction = async (hash: string) => {
+  let response: Response;
+  try {
+    response = await backendFetch(`/transaction/${hash}`);
+  } catch (error) {
+    if (!isUnreachable(error)) throw error;
+    
+    // Ask Horizon directly while the backend is down
+    const direct = await horizonRead(`/transactions/${hash}`);
+    if (direct.status === 404) return null;
+    if (!direct.ok) throw new Error(`API error: ${direct.status}`);
+    return await direct.json();
+  }
+  
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `Server error: ${response.status}`);
+  }
+  
+  const data = await response.json();
+  return data.found ? data.transaction : null;
+};
+
 // Submit transaction with retry logic
 export const submitTransaction = async (xdr: string) => {
   try {
@@ -268,17 +539,26 @@ export const submitTransaction = async (xdr: string) => {
     console.log(`Transaction hash: ${txHash}`);
     
     // Submit through backend
-    const response = await fetch(`${BACKEND_API_URL}/submit-transaction`, {
-      method: 'POST',
-      headers: { 
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({ tx: xdr })
-    });
+    let response: Response;
+    let endpoint: string | undefined;
+    try {
+      response = await backendFetch('/submit-transaction', {
+        method: 'POST',
+        headers: { 
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ tx: xdr })
+      });
+    } catch (error) {
+      if (!isUnreachable(error)) throw error;
+      
+      // Horizon answers in the same shape the backend relays, so the handling below applies as is
+      ({ response, endpoint } = await horizonSubmit(xdr));
+    }
     
     console.log(`Transaction submission response status: ${response.status}`);
     
-    const responseData = await response.json();
+    const responseData = await response.json().catch(() => ({}));
     console.log('Transaction submission response:', responseData);
     
     if (!response.ok) {
@@ -286,25 +566,29 @@ export const submitTransaction = async (xdr: string) => {
         console.error("Transaction failed with API result codes:", responseData.extras.result_codes);
         
         const txCode = responseData.extras.result_codes.transaction;
+        let message: string;
         if (txCode === "tx_bad_auth") {
-          throw new Error("Transaction authentication failed. The signature is invalid. Please verify your private key.");
+          message = "Transaction authentication failed. The signature is invalid. Please verify your private key.";
         } else if (txCode === "tx_bad_seq") {
-          // Clear sequence cache
-          const transactionEnvelope = StellarSdk.xdr.TransactionEnvelope.fromXDR(xdr, 'base64');
-          const tx = new StellarSdk.Transaction(transactionEnvelope, NETWORK_PASSPHRASE);
-          const sourceAccount = tx.source;
-          sequenceCache.delete(sourceAccount);
-          
-          throw new Error("Incorrect sequence number. Will retry with updated sequence.");
+          message = "Incorrect sequence number. Will retry with updated sequence.";
         } else {
-          throw new Error(`API error: ${txCode || JSON.stringify(responseData.extras.result_codes)}`);
+          message = `API error: ${describeResultCodes(responseData.extras.result_codes)}`;
         }
+        
+        // Result codes mean Horizon rejected the envelope, so it will not land later
+        throw new HorizonSubmissionError(message, {
+          status: response.status,
+          resultCodes: responseData.extras.result_codes
+        });
       }
       
-      throw new Error(responseData.detail || responseData.message || `API error: ${response.status}`);
+      throw new HorizonSubmissionError(responseData.detail || responseData.message || `API error: ${response.status}`, {
+        status: response.status
+      });
     }
     
-    return responseData;
+    // The backend already says which of its endpoints accepted the transaction
+    return endpoint ? { ...responseData, endpoint } : responseData;
   } catch (error) {
     console.error("Error submitting transaction:", error);
     toast.error(`Transaction failed: ${error instanceof Error ? error.message : "Unknown error"}`);
@@ -312,10 +596,34 @@ export const submitTransaction = async (xdr: string) => {
   }
 };
 
+// Fetch the server's claim status for every monitored balance the session can see
+export const fetchBalanceStatuses = async (): Promise<BalanceStatus[]> => {
+  const response = await backendFetch('/balance-statuses');
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `Server error: ${response.status}`);
+  }
+
+  return await response.json();
+};
+
+// Fetch how often the server polls each wallet the session can see
+export const fetchPollCadences = async (): Promise<PollCadence[]> => {
+  const response = await backendFetch('/poll-cadence');
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `Server error: ${response.status}`);
+  }
+
+  return await response.json();
+};
+
 // Force process a specific balance
 export const forceProcessBalance = async (walletId: string, balanceId: string) => {
   try {
-    const response = await fetch(`${BACKEND_API_URL}/force-process`, {
+    const response = await backendFetch('/force-process', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -335,3 +643,73 @@ export const forceProcessBalance = async (walletId: string, balanceId: string) =
     throw error;
   }
 };
+
+// Fetch who claims balances: server, browser or browser_fallback
+export const fetchExecutionMode = async (): Promise<ExecutionMode> => {
+  const response = await backendFetch('/execution-mode');
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `Server error: ${response.status}`);
+  }
+
+  return (await response.json()).mode;
+};
+
+// Choose who claims balances (server-wide operators only)
+export const updateExecutionMode = async (mode: ExecutionMode): Promise<ExecutionMode> => {
+  const response = await backendFetch('/execution-mode', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ mode })
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `Server error: ${response.status}`);
+  }
+
+  return (await response.json()).mode;
+};
+
+// Fetch the claim leases in force
+export const fetchClaimLeases = async (): Promise<ClaimLease[]> => {
+  const response = await backendFetch('/leases');
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `Server error: ${response.status}`);
+  }
+
+  return await response.json();
+};
+
+// Take the lease on balances before this browser claims them
+export const acquireClaimLease = async (walletId: string, balanceIds: string[]): Promise<ClaimLease> => {
+  const response = await backendFetch('/leases', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ walletId, balanceIds, clientId: CLIENT_ID })
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const message = data.message || `Server error: ${response.status}`;
+    throw data.lease ? new LeaseConflictError(message, data.lease) : new Error(message);
+  }
+
+  return data;
+};
+
+// Give up a lease so other executors may claim its balances
+export const releaseClaimLease = async (leaseId: string) => {
+  const response = await backendFetch(`/leases/${leaseId}?clientId=${encodeURIComponent(CLIENT_ID)}`, {
+    method: 'DELETE'
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `Server error: ${response.status}`);
+  }
+};
@@ -0,0 +1,34 @@
+import { AuthRole } from './types';
+
+// Where the API token is kept between visits
+const AUTH_TOKEN_STORAGE_KEY = 'pi-auto-claim-api-token';
+
+// Callbacks run when the backend rejects the stored token
+const unauthorizedListeners = new Set<() => void>();
+
+export const getAuthToken = (): string | null => localStorage.getItem(AUTH_TOKEN_STORAGE_KEY);
+
+export const setAuthToken = (token: string) => {
+  localStorage.setItem(AUTH_TOKEN_STORAGE_KEY, token.trim());
+};
+
+export const clearAuthToken = () => {
+  localStorage.removeItem(AUTH_TOKEN_STORAGE_KEY);
+};
+
+// Subscribe to 401 responses; returns an unsubscribe function
+export const onUnauthorized = (listener: () => void) => {
+  unauthorizedListeners.add(listener);
+  return () => {
+    unauthorizedListeners.delete(listener);
+  };
+};
+
+// Forget the token and tell subscribers (the login screen) it is no longer valid
+export const notifyUnauthorized = () => {
+  clearAuthToken();
+  unauthorizedListeners.forEach(listener => listener());
+};
+
+// Operators can change things; viewers can only look
+export const canOperate = (role: AuthRole | null) => role === 'operator';
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+import { assignBatchIds, planAllBatches, MAX_CLAIMS_PER_BATCH } from './batchPlanner';
+import { ClaimableBalance } from './types';
+
+// The API module reads the page's location on import; planning never calls it
+vi.mock('./api', () => ({}));
+
+const T0 = Date.parse('2025-01-01T00:00:00Z');
+const WINDOW = 60 * 1000;
+
+const balance = (id: string, unlockAt: number, extra: Partial<ClaimableBalance> = {}): ClaimableBalance => ({
+  id,
+  amount: '1.5',
+  claimWindows: [],
+  unlockTime: new Date(unlockAt),
+  claimDeadline: null,
+  walletId: 'wallet-1',
+  ...extra
+});
+
+const batchIdsById = (balances: ClaimableBalance[]) =>
+  Object.fromEntries(assignBatchIds(balances).map(b => [b.id, b.batchId]));
+
+describe('assignBatchIds', () => {
+  it('tags balances with the ID of their batch, named after its first balance', () => {
+    expect(batchIdsById([balance('b', T0), balance('a', T0), balance('c', T0 + 2 * WINDOW)])).toEqual({
+      a: 'batch:a',
+      b: 'batch:a',
+      c: 'batch:c'
+    });
+  });
+
+  it('assigns the same IDs whatever order the balances come in', () => {
+    const balances = [balance('b', T0), balance('a', T0), balance('c', T0 + 2 * WINDOW)];
+    expect(batchIdsById([...balances].reverse())).toEqual(batchIdsById(balances));
+  });
+
+  it('batches each wallet separately', () => {
+    expect(batchIdsById([balance('a', T0), balance('b', T0, { walletId: 'wallet-2' })])).toEqual({
+      a: 'batch:a',
+      b: 'batch:b'
+    });
+  });
+
+  it('splits batches at the operation limit', () => {
+    const balances = Array.from({ length: MAX_CLAIMS_PER_BATCH + 1 }, (_, i) => balance(`b${String(i).padStart(3, '0')}`, T0));
+    expect(new Set(Object.values(batchIdsById(balances)))).toEqual(new Set(['batch:b000', `batch:b${String(MAX_CLAIMS_PER_BATCH).padStart(3, '0')}`]));
+  });
+});
+
+describe('planAllBatches', () => {
+  it('puts the batch whose window closes first ahead', () => {
+    const batches = planAllBatches([
+      balance('a', T0, { claimDeadline: new Date(T0 + 10 * WINDOW) }),
+      balance('b', T0, { walletId: 'wallet-2', claimDeadline: new Date(T0 + 5 * WINDOW) })
+    ]);
+    expect(batches.map(batch => batch.id)).toEqual(['batch:b', 'batch:a']);
+  });
+});
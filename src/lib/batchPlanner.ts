@@ -0,0 +1,84 @@
+import { ClaimableBalance, ClaimBatch } from './types';
+import { toStroops, fromStroops } from './amountPlanner';
+import { compareByDeadline } from './claimDeadline';
+
+// Balances unlocking within this window of the first one share a transaction (1 minute)
+export const BATCH_WINDOW_MS = 60000;
+
+// A transaction holds at most 100 operations: N claims plus one payment
+export const MAX_CLAIMS_PER_BATCH = 99;
+
+// Sum Pi amount strings without floating point drift
+export const sumAmounts = (amounts: string[]): string => {
+  return fromStroops(amounts.reduce((sum, amount) => sum + toStroops(amount), 0n));
+};
+
+// Group a single wallet's balances into claim batches by unlock time
+export const planBatches = (
+  balances: ClaimableBalance[],
+  windowMs = BATCH_WINDOW_MS,
+  maxClaims = MAX_CLAIMS_PER_BATCH
+): ClaimBatch[] => {
+  const sorted = [...balances].sort((a, b) => {
+    const diff = new Date(a.unlockTime).getTime() - new Date(b.unlockTime).getTime();
+    return diff !== 0 ? diff : a.id.localeCompare(b.id);
+  });
+
+  type Group = { windowStart: number; deadline: number; balances: ClaimableBalance[] };
+  const groups: Group[] = [];
+  let current: Group | null = null;
+
+  for (const balance of sorted) {
+    const unlockTime = new Date(balance.unlockTime).getTime();
+    const deadline = balance.claimDeadline ? new Date(balance.claimDeadline).getTime() : Infinity;
+
+    // Start a new batch when the window or the operation limit is exceeded,
+    // or when waiting for this balance would push the batch past a member's deadline
+    if (!current ||
+        unlockTime - current.windowStart > windowMs ||
+        current.balances.length >= maxClaims ||
+        unlockTime >= current.deadline) {
+      current = { windowStart: unlockTime, deadline: Infinity, balances: [] };
+      groups.push(current);
+    }
+
+    current.balances.push(balance);
+    current.deadline = Math.min(current.deadline, deadline);
+  }
+
+  return groups.map(group => ({
+    id: `batch:${group.balances[0].id}`,
+    walletId: group.balances[0].walletId,
+    balances: group.balances,
+    // Every balance in the batch must be claimable, so wait for the last one
+    unlockTime: new Date(Math.max(...group.balances.map(b => new Date(b.unlockTime).getTime()))),
+    totalAmount: sumAmounts(group.balances.map(b => b.amount)),
+    // The batch has to land before the earliest deadline of its balances
+    claimDeadline: Number.isFinite(group.deadline) ? new Date(group.deadline) : null
+  }));
+};
+
+// Group balances of any number of wallets, batching each wallet separately;
+// batches whose claim window closes soonest come first
+export const planAllBatches = (balances: ClaimableBalance[], windowMs = BATCH_WINDOW_MS): ClaimBatch[] => {
+  const byWallet = new Map<string, ClaimableBalance[]>();
+
+  balances.forEach(balance => {
+    byWallet.set(balance.walletId, [...(byWallet.get(balance.walletId) || []), balance]);
+  });
+
+  return Array.from(byWallet.values())
+    .flatMap(walletBalances => planBatches(walletBalances, windowMs))
+    .sort(compareByDeadline);
+};
+
+// Tag each balance with the ID of the batch it will be claimed in
+export const assignBatchIds = (balances: ClaimableBalance[]): ClaimableBalance[] => {
+  const batchIds = new Map<string, string>();
+
+  planAllBatches(balances).forEach(batch => {
+    batch.balances.forEach(balance => batchIds.set(balance.id, batch.id));
+  });
+
+  return balances.map(balance => ({ ...balance, batchId: batchIds.get(balance.id) }));
+};
@@ -0,0 +1,14 @@
+import { createSecretSigner } from './signer';
+
+// Secret keys loaded into this tab for browser claiming; memory only, gone on reload
+const keys = new Map<string, string>();
+
+// Keep a wallet's key for this session once it is known to match the address
+export const setBrowserKey = (walletId: string, address: string, secret: string) => {
+  createSecretSigner(secret, address);
+  keys.set(walletId, secret.trim());
+};
+
+export const getBrowserKey = (walletId: string): string | undefined => keys.get(walletId);
+
+export const getBrowserKeyWalletIds = (): string[] => Array.from(keys.keys());
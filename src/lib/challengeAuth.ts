@@ -0,0 +1,25 @@
+import * as StellarSdk from '@stellar/stellar-sdk';
+import { AuthChallenge } from './types';
+import { NETWORK_PASSPHRASE } from './api';
+import { createSecretSigner } from './signer';
+
+// Sign a login challenge after checking it can't be anything but a login (sequence 0, manage_data only)
+export const signLoginChallenge = async (challenge: AuthChallenge, secret: string): Promise<string> => {
+  const signer = createSecretSigner(secret);
+
+  // Throws unless this is a well-formed, unexpired challenge signed by the server for our network
+  const { tx, clientAccountID } = StellarSdk.WebAuth.readChallengeTx(
+    challenge.transaction,
+    challenge.serverAccount,
+    NETWORK_PASSPHRASE,
+    challenge.homeDomain,
+    challenge.homeDomain
+  );
+
+  if (clientAccountID !== signer.address) {
+    throw new Error('Challenge was issued for a different account');
+  }
+
+  await signer.sign(tx);
+  return tx.toXDR();
+};
@@ -0,0 +1,51 @@
+import { DeadlineLevel } from './types';
+
+// Warning levels by time left before a claim deadline, most urgent first
+export const DEADLINE_LEVELS: { level: Exclude<DeadlineLevel, 'expired'>; within: number }[] = [
+  { level: 'critical', within: 10 * 60 * 1000 }, // 10 minutes
+  { level: 'warning', within: 60 * 60 * 1000 }, // 1 hour
+  { level: 'notice', within: 24 * 60 * 60 * 1000 } // 24 hours
+];
+
+// Escalation order of the levels
+const LEVEL_RANK: Record<DeadlineLevel, number> = { notice: 1, warning: 2, critical: 3, expired: 4 };
+
+// How urgent a claim deadline is, or null if it is not near
+export const getDeadlineLevel = (deadline: Date | null | undefined, now: Date = new Date()): DeadlineLevel | null => {
+  if (!deadline) return null;
+
+  const remaining = new Date(deadline).getTime() - now.getTime();
+  if (remaining <= 0) return 'expired';
+
+  const match = DEADLINE_LEVELS.find(l => remaining <= l.within);
+  return match ? match.level : null;
+};
+
+// Whether a warning level is more urgent than the one already reported
+export const isEscalation = (level: DeadlineLevel | null, previous: DeadlineLevel | null | undefined): boolean => {
+  return (level ? LEVEL_RANK[level] : 0) > (previous ? LEVEL_RANK[previous] : 0);
+};
+
+// Order items so the ones whose claim window closes soonest come first
+export const compareByDeadline = (
+  a: { claimDeadline: Date | null; unlockTime: Date },
+  b: { claimDeadline: Date | null; unlockTime: Date }
+): number => {
+  const deadlineA = a.claimDeadline ? new Date(a.claimDeadline).getTime() : Infinity;
+  const deadlineB = b.claimDeadline ? new Date(b.claimDeadline).getTime() : Infinity;
+
+  if (deadlineA !== deadlineB) {
+    return deadlineA - deadlineB;
+  }
+
+  return new Date(a.unlockTime).getTime() - new Date(b.unlockTime).getTime();
+};
+
+// Shorten a retry delay so a batch gets several attempts before its claim deadline
+export const retryDelayBeforeDeadline = (batch: { claimDeadline: Date | null }, delay: number): number => {
+  if (!batch.claimDeadline) return delay;
+
+  // Retry at the latest halfway to the deadline, but not more often than every second
+  const remaining = new Date(batch.claimDeadline).getTime() - Date.now();
+  return Math.max(1000, Math.min(delay, Math.floor(remaining / 2)));
+};
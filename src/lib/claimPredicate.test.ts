@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { ClaimPredicate, evaluatePredicate, getClaimDeadline, getClaimWindows, nextClaimableTime, toClaimableBalance } from './claimPredicate';
+import { ClaimWindow } from './types';
+
+const CREATED_AT = Date.parse('2025-01-01T00:00:00Z');
+const T1 = Date.parse('2025-02-01T00:00:00Z');
+const T2 = Date.parse('2025-03-01T00:00:00Z');
+const T3 = Date.parse('2025-04-01T00:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+const absBefore = (ms: number): ClaimPredicate => ({ abs_before_epoch: String(ms / 1000) });
+const window = (start: number, end: number) => ({ start, end });
+
+describe('evaluatePredicate', () => {
+  it.each<[string, ClaimPredicate | undefined, { start: number; end: number }[]]>([
+    ['no predicate', undefined, [window(-Infinity, Infinity)]],
+    ['unconditional', { unconditional: true }, [window(-Infinity, Infinity)]],
+    ['abs_before_epoch', absBefore(T1), [window(-Infinity, T1)]],
+    ['abs_before as a date', { abs_before: '2025-02-01T00:00:00Z' }, [window(-Infinity, T1)]],
+    ['not(abs_before) unlocks at the time', { not: absBefore(T1) }, [window(T1, Infinity)]],
+    ['rel_before counts from creation', { rel_before: '3600' }, [window(-Infinity, CREATED_AT + HOUR)]],
+    ['not(rel_before) unlocks after the delay', { not: { rel_before: '3600' } }, [window(CREATED_AT + HOUR, Infinity)]],
+    ['not(not(abs_before))', { not: { not: absBefore(T1) } }, [window(-Infinity, T1)]],
+    ['and of unlock and deadline', { and: [{ not: absBefore(T1) }, absBefore(T2)] }, [window(T1, T2)]],
+    ['and of disjoint windows', { and: [absBefore(T1), { not: absBefore(T2) }] }, []],
+    ['or of disjoint windows', { or: [{ not: absBefore(T3) }, absBefore(T1)] }, [window(-Infinity, T1), window(T3, Infinity)]],
+    ['or of overlapping windows', { or: [absBefore(T2), { not: absBefore(T1) }] }, [window(-Infinity, Infinity)]],
+    [
+      'nested and inside or',
+      { or: [{ and: [{ not: absBefore(T1) }, absBefore(T2)] }, { not: absBefore(T3) }] },
+      [window(T1, T2), window(T3, Infinity)]
+    ],
+    [
+      'not of a bounded window',
+      { not: { and: [{ not: absBefore(T1) }, absBefore(T2)] } },
+      [window(-Infinity, T1), window(T2, Infinity)]
+    ],
+    [
+      'rel_before combined with abs_before',
+      { and: [{ not: { rel_before: '3600' } }, absBefore(T1)] },
+      [window(CREATED_AT + HOUR, T1)]
+    ]
+  ])('%s', (_name, predicate, expected) => {
+    expect(evaluatePredicate(predicate, CREATED_AT)).toEqual(expected);
+  });
+
+  it('rejects unknown predicates', () => {
+    expect(() => evaluatePredicate({ abs_after: '1' } as ClaimPredicate, CREATED_AT)).toThrow(/Unsupported claim predicate/);
+  });
+});
+
+describe('getClaimWindows', () => {
+  const record = {
+    id: 'balance-1',
+    amount: '10',
+    last_modified_time: '2025-01-01T00:00:00Z',
+    claimants: [
+      { destination: 'GOTHER', predicate: { unconditional: true } },
+      { destination: 'GWALLET', predicate: { and: [{ not: { rel_before: '3600' } }, absBefore(T1)] } }
+    ]
+  };
+
+  it("evaluates the wallet's own claimant, rel_before against the creation time", () => {
+    expect(getClaimWindows(record, 'GWALLET')).toEqual([{ start: new Date(CREATED_AT + HOUR), end: new Date(T1) }]);
+  });
+
+  it('marks unbounded edges with null', () => {
+    expect(getClaimWindows(record, 'GOTHER')).toEqual([{ start: null, end: null }]);
+  });
+
+  it('returns no windows for a wallet that is not a claimant', () => {
+    expect(getClaimWindows(record, 'GNOBODY')).toEqual([]);
+    expect(toClaimableBalance(record, 'GNOBODY', 'wallet-1')).toBeNull();
+  });
+});
+
+describe('nextClaimableTime and getClaimDeadline', () => {
+  const windows: ClaimWindow[] = [
+    { start: new Date(T1), end: new Date(T2) },
+    { start: new Date(T3), end: null }
+  ];
+
+  it.each<[string, number, number, number | null]>([
+    ['before the first window', CREATED_AT, T1, T2],
+    ['inside a window', T1 + HOUR, T1 + HOUR, T2],
+    ['between windows', T2 + HOUR, T3, null],
+    ['inside the open-ended window', T3 + HOUR, T3 + HOUR, null]
+  ])('%s', (_name, now, unlock, deadline) => {
+    const next = nextClaimableTime(windows, new Date(now));
+    expect(next).toEqual(new Date(unlock));
+    expect(getClaimDeadline(windows, next as Date)).toEqual(deadline === null ? null : new Date(deadline));
+  });
+
+  it('returns null once every window has closed', () => {
+    expect(nextClaimableTime([{ start: null, end: new Date(T1) }], new Date(T2))).toBeNull();
+  });
+
+  it('is claimable right away without a predicate', () => {
+    const now = new Date(T1);
+    const unconditional: ClaimWindow[] = [{ start: null, end: null }];
+    expect(nextClaimableTime(unconditional, now)).toEqual(now);
+    expect(getClaimDeadline(unconditional, now)).toBeNull();
+  });
+});
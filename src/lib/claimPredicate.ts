@@ -0,0 +1,177 @@
+import { ClaimableBalance, ClaimWindow } from './types';
+
+// Claimant predicate as returned by Horizon
+export type ClaimPredicate = {
+  unconditional?: boolean;
+  and?: ClaimPredicate[];
+  or?: ClaimPredicate[];
+  not?: ClaimPredicate;
+  abs_before?: string;
+  abs_before_epoch?: string;
+  rel_before?: string;
+};
+
+type Claimant = {
+  destination: string;
+  predicate: ClaimPredicate;
+};
+
+// Window in epoch milliseconds, unbounded edges as ±Infinity
+type Interval = { start: number; end: number };
+
+const OPEN_START = -Infinity;
+const OPEN_END = Infinity;
+
+// Sort windows, drop empty ones and merge those that overlap or touch
+const normalizeWindows = (windows: Interval[]): Interval[] => {
+  const sorted = windows
+    .filter(w => w.start < w.end)
+    .sort((a, b) => a.start - b.start);
+
+  return sorted.reduce<Interval[]>((merged, window) => {
+    const last = merged[merged.length - 1];
+    if (last && window.start <= last.end) {
+      last.end = Math.max(last.end, window.end);
+    } else {
+      merged.push({ ...window });
+    }
+    return merged;
+  }, []);
+};
+
+// Intersect two sets of windows
+const intersectWindows = (a: Interval[], b: Interval[]): Interval[] => {
+  return normalizeWindows(a.flatMap(x => b.map(y => ({
+    start: Math.max(x.start, y.start),
+    end: Math.min(x.end, y.end)
+  }))));
+};
+
+// Complement a set of windows over all time
+const complementWindows = (windows: Interval[]): Interval[] => {
+  const result: Interval[] = [];
+  let cursor = OPEN_START;
+
+  for (const window of windows) {
+    if (window.start > cursor) {
+      result.push({ start: cursor, end: window.start });
+    }
+    cursor = Math.max(cursor, window.end);
+  }
+
+  if (cursor < OPEN_END) {
+    result.push({ start: cursor, end: OPEN_END });
+  }
+
+  return result;
+};
+
+// Read the absolute deadline of an abs_before predicate
+const absBeforeTime = (predicate: ClaimPredicate): number => {
+  if (predicate.abs_before_epoch !== undefined) {
+    return parseInt(predicate.abs_before_epoch, 10) * 1000;
+  }
+  return new Date(predicate.abs_before as string).getTime();
+};
+
+// Evaluate a claim predicate into the half-open windows in which it holds
+export const evaluatePredicate = (predicate: ClaimPredicate | undefined, createdAt: number): Interval[] => {
+  if (!predicate || predicate.unconditional) {
+    return [{ start: OPEN_START, end: OPEN_END }];
+  }
+
+  if (Array.isArray(predicate.and)) {
+    return predicate.and.reduce<Interval[]>(
+      (windows, child) => intersectWindows(windows, evaluatePredicate(child, createdAt)),
+      [{ start: OPEN_START, end: OPEN_END }]
+    );
+  }
+
+  if (Array.isArray(predicate.or)) {
+    return normalizeWindows(predicate.or.flatMap(child => evaluatePredicate(child, createdAt)));
+  }
+
+  if (predicate.not) {
+    return complementWindows(evaluatePredicate(predicate.not, createdAt));
+  }
+
+  if (predicate.abs_before !== undefined || predicate.abs_before_epoch !== undefined) {
+    return [{ start: OPEN_START, end: absBeforeTime(predicate) }];
+  }
+
+  if (predicate.rel_before !== undefined) {
+    return [{ start: OPEN_START, end: createdAt + parseInt(predicate.rel_before, 10) * 1000 }];
+  }
+
+  throw new Error(`Unsupported claim predicate: ${JSON.stringify(predicate)}`);
+};
+
+// Find the claimant entry for a wallet
+export const findClaimant = (record: any, address: string): Claimant | null => {
+  return (record.claimants || []).find((claimant: Claimant) => claimant.destination === address) || null;
+};
+
+// Get the windows in which a wallet may claim a balance (empty if it is not a claimant)
+export const getClaimWindows = (record: any, address: string): ClaimWindow[] => {
+  const claimant = findClaimant(record, address);
+  if (!claimant) {
+    return [];
+  }
+
+  // Horizon reports the ledger close time the balance was created in
+  const createdAt = record.last_modified_time ? new Date(record.last_modified_time).getTime() : Date.now();
+
+  return evaluatePredicate(claimant.predicate, createdAt).map(window => ({
+    start: Number.isFinite(window.start) ? new Date(window.start) : null,
+    end: Number.isFinite(window.end) ? new Date(window.end) : null
+  }));
+};
+
+// Earliest time at or after now when a claim is allowed, or null once every window has closed
+export const nextClaimableTime = (windows: ClaimWindow[], now: Date = new Date()): Date | null => {
+  const nowMs = now.getTime();
+
+  for (const window of windows) {
+    const start = window.start ? new Date(window.start).getTime() : OPEN_START;
+    const end = window.end ? new Date(window.end).getTime() : OPEN_END;
+
+    if (end > nowMs) {
+      return new Date(Math.max(start, nowMs));
+    }
+  }
+
+  return null;
+};
+
+
+// Time by which a claim starting at the given time must land (null if its window never closes)
+export const getClaimDeadline = (windows: ClaimWindow[], time: Date): Date | null => {
+  const ms = new Date(time).getTime();
+
+  const window = windows.find(w =>
+    (!w.start || new Date(w.start).getTime() <= ms) &&
+    (!w.end || new Date(w.end).getTime() > ms)
+  );
+
+  return window && window.end ? new Date(window.end) : null;
+};
+
+// Turn a Horizon claimable balance record into a wallet's balance, or null if the wallet can't claim it
+export const toClaimableBalance = (record: any, address: string, walletId: string): ClaimableBalance | null => {
+  // Evaluate this wallet's claimant predicate, same as the backend
+  const claimWindows = getClaimWindows(record, address);
+  const unlockTime = nextClaimableTime(claimWindows);
+
+  // Not a claimant, or every claim window has closed
+  if (!unlockTime) return null;
+
+  return {
+    id: record.id,
+    amount: record.amount,
+    claimWindows,
+    unlockTime,
+    claimDeadline: getClaimDeadline(claimWindows, unlockTime),
+    walletId,
+    lastChecked: new Date()
+  };
+};
@@ -0,0 +1,39 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ClaimLease, ExecutionMode } from './types';
+
+export const EXECUTION_MODE_LABELS: Record<ExecutionMode, string> = {
+  server: 'Server only',
+  browser: 'Browser only',
+  browser_fallback: 'Browser if server is unreachable'
+};
+
+// Identifies this tab as a lease holder; after a reload its old leases simply expire
+export const CLIENT_ID = uuidv4();
+
+const EXECUTION_MODE_STORAGE_KEY = 'pi-auto-claim-execution-mode';
+
+// Another executor holds the lease on a balance
+export class LeaseConflictError extends Error {
+  lease: ClaimLease;
+
+  constructor(message: string, lease: ClaimLease) {
+    super(message);
+    this.name = 'LeaseConflictError';
+    this.lease = lease;
+  }
+}
+
+// The last mode the server reported, so fallback still knows what to do once the server is gone
+export const getCachedExecutionMode = (): ExecutionMode => {
+  const mode = localStorage.getItem(EXECUTION_MODE_STORAGE_KEY);
+  return mode && mode in EXECUTION_MODE_LABELS ? mode as ExecutionMode : 'server';
+};
+
+export const cacheExecutionMode = (mode: ExecutionMode) => {
+  localStorage.setItem(EXECUTION_MODE_STORAGE_KEY, mode);
+};
+
+// Whether this browser claims balances itself
+export const isBrowserExecutor = (mode: ExecutionMode, serverReachable: boolean): boolean => {
+  return mode === 'browser' || (mode === 'browser_fallback' && !serverReachable);
+};
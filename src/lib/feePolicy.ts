@@ -0,0 +1,64 @@
+import * as StellarSdk from '@stellar/stellar-sdk';
+import { fetchFeeStats } from './api';
+import { FeeChoice, WalletData } from './types';
+
+// Percentile of recent max fees to bid
+const FEE_PERCENTILE = 'p90';
+
+// Default ceiling per operation in stroops (0.1 Pi) for wallets without their own
+export const DEFAULT_MAX_FEE = '1000000';
+
+// Multiplier applied to the fee for each tx_insufficient_fee retry
+const FEE_RETRY_MULTIPLIER = 2;
+
+// How long fetched fee stats stay valid (10 seconds)
+const FEE_STATS_TTL = 10000;
+
+let feeStatsCache: { stats: any; timestamp: number } | null = null;
+
+// Get fee stats, cached briefly so a burst of claims shares one request
+const getFeeStats = async (): Promise<any | null> => {
+  const now = Date.now();
+
+  if (feeStatsCache && (now - feeStatsCache.timestamp) < FEE_STATS_TTL) {
+    return feeStatsCache.stats;
+  }
+
+  try {
+    const stats = await fetchFeeStats();
+    feeStatsCache = { stats, timestamp: now };
+    return stats;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Choose the fee per operation for a claim transaction
+export const selectFee = async (wallet: WalletData, bumpLevel = 0): Promise<FeeChoice> => {
+  const ceiling = BigInt(wallet.maxFee || DEFAULT_MAX_FEE);
+  const stats = await getFeeStats();
+
+  // Without fee stats fall back to the ceiling, like the old fixed fee
+  const percentileFee = stats?.max_fee?.[FEE_PERCENTILE] ? BigInt(stats.max_fee[FEE_PERCENTILE]) : ceiling;
+
+  const minimumFee = BigInt(StellarSdk.BASE_FEE);
+  const baseFee = percentileFee > minimumFee ? percentileFee : minimumFee;
+  const bumpedFee = BigInt(Math.ceil(Number(baseFee) * Math.pow(FEE_RETRY_MULTIPLIER, bumpLevel)));
+  const capped = bumpedFee > ceiling;
+
+  return {
+    fee: (capped ? ceiling : bumpedFee).toString(),
+    percentile: FEE_PERCENTILE,
+    percentileFee: percentileFee.toString(),
+    bumpLevel,
+    capped,
+    // Bumping again can't raise a fee that is already at the ceiling
+    atCeiling: bumpedFee >= ceiling,
+    fromStats: !!stats
+  };
+};
+
+// Format a fee in stroops as Pi
+export const formatFee = (stroops: string | number): string => {
+  return `${(Number(stroops) / 10000000).toFixed(7)} Pi`;
+};
@@ -0,0 +1,25 @@
+import * as StellarSdk from '@stellar/stellar-sdk';
+import { NETWORK_PASSPHRASE } from './api';
+import { WalletData } from './types';
+import { Signer } from './signer';
+
+// Wrap a signed inner transaction in a fee-bump paid and signed by the sponsor
+export const wrapWithFeeBump = async (
+  innerTx: StellarSdk.Transaction,
+  sponsorSigner: Signer,
+  baseFee: string
+): Promise<StellarSdk.FeeBumpTransaction> => {
+  const feeBumpTx = StellarSdk.TransactionBuilder.buildFeeBumpTransaction(
+    sponsorSigner.address,
+    baseFee,
+    innerTx,
+    NETWORK_PASSPHRASE
+  );
+
+  await sponsorSigner.sign(feeBumpTx);
+
+  return feeBumpTx;
+};
+
+// Whether a wallet is a fee sponsor rather than a monitored claim wallet
+export const isFeeSponsor = (wallet: WalletData): boolean => wallet.type === 'fee_sponsor';
@@ -0,0 +1,157 @@
+// Horizon endpoints the browser talks to directly while the backend is unreachable (comma-separated, like the server's PI_API_BASE_URL)
+export const HORIZON_ENDPOINTS: string[] = String(import.meta.env?.VITE_PI_API_BASE_URL || "https://api.mainnet.minepi.com")
+  .split(',')
+  .map(url => url.trim().replace(/\/+$/, ''))
+  .filter(Boolean);
+
+// single submits to the healthiest endpoint; broadcast submits to every healthy endpoint at once
+export const HORIZON_SUBMIT_MODE: 'single' | 'broadcast' = import.meta.env?.VITE_HORIZON_SUBMIT_MODE === 'broadcast' ? 'broadcast' : 'single';
+
+// How long a failing endpoint is skipped, doubling with each failure in a row
+const COOLDOWN_MS = 5000;
+const MAX_COOLDOWN_MS = 5 * 60 * 1000;
+
+// Submission failures that mean the endpoint never took the envelope
+const UNREACHABLE_STATUSES = [429, 502, 503];
+
+interface EndpointHealth {
+  consecutiveFailures: number;
+  cooldownUntil: number;
+  latencyMs: number | null;
+}
+
+const health = new Map<string, EndpointHealth>(
+  HORIZON_ENDPOINTS.map(url => [url, { consecutiveFailures: 0, cooldownUntil: 0, latencyMs: null }])
+);
+
+// Note how a request went; anything below 500 other than 429 counts as an answer
+const recordResult = (url: string, ok: boolean, latencyMs: number) => {
+  const entry = health.get(url);
+  if (!entry) return;
+
+  if (ok) {
+    entry.consecutiveFailures = 0;
+    entry.cooldownUntil = 0;
+    entry.latencyMs = entry.latencyMs === null ? latencyMs : Math.round(entry.latencyMs * 0.8 + latencyMs * 0.2);
+  } else {
+    entry.consecutiveFailures++;
+    entry.cooldownUntil = Date.now() + Math.min(MAX_COOLDOWN_MS, COOLDOWN_MS * 2 ** (entry.consecutiveFailures - 1));
+  }
+};
+
+// Healthy endpoints fastest first, then those cooling down, soonest back first
+export const getReadEndpoints = (): string[] => {
+  const now = Date.now();
+  const entries = HORIZON_ENDPOINTS.map(url => ({ url, ...health.get(url)! }));
+  const healthy = entries
+    .filter(e => e.cooldownUntil <= now)
+    .sort((a, b) => (a.latencyMs ?? Infinity) - (b.latencyMs ?? Infinity));
+  const coolingDown = entries
+    .filter(e => e.cooldownUntil > now)
+    .sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+
+  return [...healthy, ...coolingDown].map(e => e.url);
+};
+
+// Send a request to one endpoint, recording its health
+const fetchFrom = async (base: string, path: string, init?: RequestInit): Promise<Response> => {
+  const startedAt = Date.now();
+  try {
+    const response = await fetch(`${base}${path}`, init);
+    recordResult(base, response.status < 500 && response.status !== 429, Date.now() - startedAt);
+    return response;
+  } catch (error) {
+    recordResult(base, false, Date.now() - startedAt);
+    throw error;
+  }
+};
+
+// Turn a URL Horizon returned (e.g. a next page link) into a path any endpoint can answer
+export const getEndpointPath = (url: string): string => {
+  const base = HORIZON_ENDPOINTS.find(e => url === e || url.startsWith(`${e}/`) || url.startsWith(`${e}?`));
+  if (base) return url.slice(base.length);
+
+  const parsed = new URL(url);
+  return `${parsed.pathname}${parsed.search}`;
+};
+
+// Read from the healthiest endpoint, failing over on network errors, 5xx and 429
+export const horizonRead = async (path: string): Promise<Response> => {
+  const bases = getReadEndpoints();
+  let lastError: unknown;
+
+  for (const [index, base] of bases.entries()) {
+    try {
+      const response = await fetchFrom(base, path);
+      if ((response.status >= 500 || response.status === 429) && index < bases.length - 1) {
+        continue;
+      }
+      return response;
+    } catch (error) {
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+};
+
+// Submit to the healthiest endpoint; a timeout may still land, so only unreachable endpoints are retried elsewhere
+const submitWithFailover = async (body: URLSearchParams): Promise<{ response: Response; endpoint: string }> => {
+  const bases = getReadEndpoints();
+  let lastError: unknown;
+
+  for (const [index, base] of bases.entries()) {
+    try {
+      const response = await fetchFrom(base, '/transactions', { method: 'POST', body });
+      if (UNREACHABLE_STATUSES.includes(response.status) && index < bases.length - 1) {
+        continue;
+      }
+      return { response, endpoint: base };
+    } catch (error) {
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+};
+
+// Submit to every healthy endpoint at once; the first to accept wins
+const broadcastSubmission = (body: URLSearchParams): Promise<{ response: Response; endpoint: string }> => {
+  const now = Date.now();
+  const healthy = HORIZON_ENDPOINTS.filter(url => health.get(url)!.cooldownUntil <= now);
+  const bases = healthy.length > 0 ? healthy : getReadEndpoints().slice(0, 1);
+
+  return new Promise((resolve, reject) => {
+    const failures: { response: Response; endpoint: string }[] = [];
+    let settled = 0;
+    let lastError: unknown;
+
+    const finish = () => {
+      if (++settled < bases.length) return;
+
+      // A timeout may still land, which outweighs another endpoint's rejection (often tx_bad_seq because it already landed)
+      const pick = failures.find(f => f.response.status >= 500) || failures[0];
+      if (pick) resolve(pick);
+      else reject(lastError);
+    };
+
+    bases.forEach(base => {
+      fetchFrom(base, '/transactions', { method: 'POST', body })
+        .then(response => {
+          if (response.ok) resolve({ response, endpoint: base });
+          else failures.push({ response, endpoint: base });
+          finish();
+        })
+        .catch(error => {
+          lastError = error;
+          finish();
+        });
+    });
+  });
+};
+
+// Submit a signed envelope straight to Horizon in the configured submit mode
+export const horizonSubmit = (xdr: string): Promise<{ response: Response; endpoint: string }> => {
+  const body = new URLSearchParams({ tx: xdr });
+  return HORIZON_SUBMIT_MODE === 'broadcast' ? broadcastSubmission(body) : submitWithFailover(body);
+};
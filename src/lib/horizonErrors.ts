@@ -0,0 +1,112 @@
+// What to do after a failed submission
+export type RetryPolicy = 'retry_now' | 'refresh_sequence' | 'raise_fee' | 'retry_later' | 'give_up';
+
+// Horizon's extras.result_codes
+export interface ResultCodes {
+  transaction?: string;
+  inner_transaction?: string;
+  operations?: string[];
+}
+
+export interface FailedOperation {
+  index: number;
+  code: string;
+}
+
+export interface ResultClassification {
+  errorClass: string;
+  policy: RetryPolicy;
+  transactionCode: string | null;
+  operationCodes: string[];
+  failedOperations: FailedOperation[];
+}
+
+// Error classes and the result codes that belong to them
+const ERROR_CLASSES: Record<string, { policy: RetryPolicy; codes: string[] }> = {
+  bad_sequence: { policy: 'refresh_sequence', codes: ['tx_bad_seq'] },
+  fee_too_low: { policy: 'raise_fee', codes: ['tx_insufficient_fee'] },
+  expired: { policy: 'retry_now', codes: ['tx_too_late', 'tx_too_early'] },
+  balance_gone: { policy: 'give_up', codes: ['op_does_not_exist'] },
+  not_claimable_yet: { policy: 'retry_later', codes: ['op_cannot_claim'] },
+  underfunded: { policy: 'retry_later', codes: ['op_underfunded', 'op_low_reserve'] },
+  insufficient_fee_balance: { policy: 'retry_later', codes: ['tx_insufficient_balance'] },
+  bad_destination: { policy: 'give_up', codes: ['op_no_destination', 'op_no_trust', 'op_line_full', 'op_not_authorized'] },
+  bad_auth: { policy: 'give_up', codes: ['tx_bad_auth', 'tx_bad_auth_extra', 'tx_no_source_account', 'op_bad_auth', 'op_no_source_account'] },
+  malformed: { policy: 'give_up', codes: ['tx_malformed', 'tx_missing_operation', 'tx_not_supported', 'op_malformed', 'op_not_supported'] }
+};
+
+// Used for unknown codes and submissions without result codes (timeouts, 5xx)
+const FALLBACK_CLASS: { errorClass: string; policy: RetryPolicy } = { errorClass: 'transient', policy: 'retry_later' };
+
+// Look up the error class of a single result code
+const classifyCode = (code: string) => {
+  const entry = Object.entries(ERROR_CLASSES).find(([, c]) => c.codes.includes(code));
+  return entry ? { errorClass: entry[0], policy: entry[1].policy } : null;
+};
+
+// Classify Horizon result codes into an error class and retry policy
+export const classifyResultCodes = (resultCodes?: ResultCodes): ResultClassification => {
+  if (!resultCodes) {
+    return { ...FALLBACK_CLASS, transactionCode: null, operationCodes: [], failedOperations: [] };
+  }
+
+  const transactionCode = resultCodes.transaction || null;
+  const operationCodes = resultCodes.operations || [];
+  const failedOperations = operationCodes
+    .map((code, index) => ({ index, code }))
+    .filter(op => op.code !== 'op_success');
+
+  // tx_failed / tx_fee_bump_inner_failed only say something inside failed; the inner codes say why
+  const candidates = transactionCode === 'tx_failed' || transactionCode === 'tx_fee_bump_inner_failed'
+    ? [...failedOperations.map(op => op.code), resultCodes.inner_transaction]
+    : [transactionCode];
+
+  const match = candidates.map(code => code ? classifyCode(code) : null).find(Boolean);
+
+  return {
+    ...(match || FALLBACK_CLASS),
+    transactionCode,
+    operationCodes,
+    failedOperations
+  };
+};
+
+// Error thrown when Horizon does not accept a submitted transaction
+export class HorizonSubmissionError extends Error {
+  status?: number;
+  resultCodes?: ResultCodes;
+  errorClass: string;
+  policy: RetryPolicy;
+  transactionCode: string | null;
+  operationCodes: string[];
+  failedOperations: FailedOperation[];
+
+  constructor(message: string, { status, resultCodes }: { status?: number; resultCodes?: ResultCodes } = {}) {
+    super(message);
+    this.name = 'HorizonSubmissionError';
+    this.status = status;
+    this.resultCodes = resultCodes;
+
+    const classification = classifyResultCodes(resultCodes);
+    this.errorClass = classification.errorClass;
+    this.policy = classification.policy;
+    this.transactionCode = classification.transactionCode;
+    this.operationCodes = classification.operationCodes;
+    this.failedOperations = classification.failedOperations;
+  }
+}
+
+// Get the retry policy for any error raised while claiming (transient / retry later for non-Horizon errors)
+export const getRetryPolicy = (error: unknown): { errorClass: string; policy: RetryPolicy } => {
+  if (error instanceof HorizonSubmissionError) {
+    return { errorClass: error.errorClass, policy: error.policy };
+  }
+  return FALLBACK_CLASS;
+};
+
+// Describe Horizon result codes for log messages, e.g. "tx_failed (op_success, op_does_not_exist)"
+export const describeResultCodes = (resultCodes: ResultCodes): string => {
+  const { transactionCode, operationCodes } = classifyResultCodes(resultCodes);
+  const code = resultCodes.inner_transaction ? `${transactionCode}/${resultCodes.inner_transaction}` : String(transactionCode);
+  return operationCodes.length > 0 ? `${code} (${operationCodes.join(', ')})` : code;
+};
@@ -0,0 +1,45 @@
+import { ClaimableBalance, PollCadenceTier } from './types';
+
+// Poll interval by time left before the nearest unlock, most urgent first (same tiers as the server)
+export const POLL_CADENCE_TIERS: { tier: Exclude<PollCadenceTier, 'idle'>; within: number; interval: number }[] = [
+  { tier: 'imminent', within: 2 * 60 * 1000, interval: 10 * 1000 }, // last 2 minutes: every 10 seconds
+  { tier: 'minutes', within: 10 * 60 * 1000, interval: 30 * 1000 }, // 10 minutes: every 30 seconds
+  { tier: 'hour', within: 60 * 60 * 1000, interval: 2 * 60 * 1000 }, // 1 hour: every 2 minutes
+  { tier: 'day', within: 24 * 60 * 60 * 1000, interval: 10 * 60 * 1000 } // 24 hours: every 10 minutes
+];
+
+// Interval when no unlock is within a day
+export const IDLE_POLL_INTERVAL = 15 * 60 * 1000;
+
+// The browser fetches every wallet from Horizon at once, so it never refreshes faster than this
+export const BROWSER_MIN_POLL_INTERVAL = 30 * 1000;
+
+// How often to poll given the nearest unlock
+export const getDesiredCadence = (nearestUnlock: Date | null, now: Date = new Date()): { tier: PollCadenceTier; interval: number } => {
+  const remaining = nearestUnlock ? new Date(nearestUnlock).getTime() - now.getTime() : Infinity;
+  const match = POLL_CADENCE_TIERS.find(t => remaining <= t.within);
+  return match ? { tier: match.tier, interval: match.interval } : { tier: 'idle', interval: IDLE_POLL_INTERVAL };
+};
+
+// The soonest future unlock among balances, or null if nothing unlocks later
+export const getNearestUnlock = (balances: ClaimableBalance[], now: Date = new Date()): Date | null => {
+  const upcoming = balances
+    .map(b => new Date(b.unlockTime).getTime())
+    .filter(time => time > now.getTime());
+
+  return upcoming.length > 0 ? new Date(Math.min(...upcoming)) : null;
+};
+
+// How often the browser refreshes balances itself
+export const getBrowserRefreshDelay = (balances: ClaimableBalance[]): number => {
+  return Math.max(BROWSER_MIN_POLL_INTERVAL, getDesiredCadence(getNearestUnlock(balances)).interval);
+};
+
+// Short interval label, e.g. "10s", "2m" or "1h"
+export const formatPollInterval = (milliseconds: number): string => {
+  const seconds = Math.round(milliseconds / 1000);
+  if (seconds < 60) return `${seconds}s`;
+
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes}m` : `${Math.round(minutes / 60)}h`;
+};
@@ -0,0 +1,145 @@
+import * as StellarSdk from '@stellar/stellar-sdk';
+import { ClaimableBalance, PreAuthEnvelope, PreAuthSummary, WalletData } from './types';
+import { NETWORK_PASSPHRASE, fetchAccountDetails, fetchClaimableBalances, fetchSequenceNumber, uploadPreAuthEnvelopes } from './api';
+import { planBatches } from './batchPlanner';
+import { toStroops, fromStroops, getMinimumBalance } from './amountPlanner';
+import { DEFAULT_MAX_FEE } from './feePolicy';
+import { toClaimableBalance } from './claimPredicate';
+import { createSecretSigner } from './signer';
+
+// An account holds at most 20 signers; each envelope needs one until it is used
+export const MAX_PRE_AUTH_ENVELOPES = 19;
+
+// Signer weight for each envelope hash; it only ever authorizes that one transaction
+const PRE_AUTH_SIGNER_WEIGHT = 255;
+
+export type PreAuthPlan = {
+  // setOptions transaction adding one preAuthTx signer per envelope, signed locally
+  setOptionsXdr: string;
+  envelopes: PreAuthEnvelope[];
+  // Balances no envelope covers (over the signer limit or the reserve the wallet can lock, or too small to pay their own fee)
+  uncoveredIds: string[];
+};
+
+// Build the future claim transactions of a wallet and the setOptions transaction authorizing them.
+// Envelopes use consecutive sequence numbers in unlock order, so each must land before the next;
+// any other transaction from the wallet in between makes the rest unusable.
+export const buildPreAuthPlan = async (
+  wallet: { address: string; privateKey: string; destinationAddress: string; maxFee?: string },
+  balances: ClaimableBalance[]
+): Promise<PreAuthPlan> => {
+  const signer = createSecretSigner(wallet.privateKey, wallet.address);
+
+  // The fee can't be raised later, so bid the wallet's ceiling; unused fee stays in the wallet
+  const feePerOperation = BigInt(wallet.maxFee || DEFAULT_MAX_FEE);
+
+  // Sequence order has to follow unlock order
+  const batches = planBatches(balances)
+    .sort((a, b) => a.unlockTime.getTime() - b.unlockTime.getTime());
+
+  const [sequence, account] = await Promise.all([
+    fetchSequenceNumber(wallet.address),
+    fetchAccountDetails(wallet.address)
+  ]);
+  const currentSequence = BigInt(sequence);
+
+  // Each signer is a subentry locking one more base reserve until its envelope lands, and the
+  // setOptions transaction pays a base fee per signer, out of what the wallet holds above its minimum balance
+  const spare = toStroops(account.nativeBalance) - getMinimumBalance(account);
+  const costPerSigner = BigInt(account.baseReserve) + BigInt(StellarSdk.BASE_FEE);
+  const affordable = spare > 0n ? Number(spare / costPerSigner) : 0;
+  const maxEnvelopes = Math.min(MAX_PRE_AUTH_ENVELOPES, affordable);
+
+  if (maxEnvelopes === 0) {
+    throw new Error(`Each pre-authorized transaction locks a ${fromStroops(BigInt(account.baseReserve))} Pi reserve until it lands; fund the wallet with at least ${fromStroops(costPerSigner - spare)} Pi more above its ${fromStroops(getMinimumBalance(account))} Pi minimum balance`);
+  }
+
+  const envelopes: PreAuthEnvelope[] = [];
+  const uncoveredIds: string[] = [];
+
+  for (const batch of batches) {
+    const fee = feePerOperation * BigInt(batch.balances.length + 1);
+    const amount = toStroops(batch.totalAmount) - fee;
+
+    if (envelopes.length >= maxEnvelopes || amount <= 0n) {
+      uncoveredIds.push(...batch.balances.map(b => b.id));
+      continue;
+    }
+
+    // The setOptions transaction takes currentSequence + 1
+    const source = new StellarSdk.Account(wallet.address, (currentSequence + 1n + BigInt(envelopes.length)).toString());
+
+    // Claim windows are half-open, so the last valid second is one before the deadline
+    const minTime = Math.ceil(batch.unlockTime.getTime() / 1000);
+    const maxTime = batch.claimDeadline ? Math.floor(batch.claimDeadline.getTime() / 1000) - 1 : 0;
+
+    let builder = new StellarSdk.TransactionBuilder(source, {
+      fee: feePerOperation.toString(),
+      networkPassphrase: NETWORK_PASSPHRASE,
+      timebounds: { minTime, maxTime }
+    });
+
+    batch.balances.forEach(balance => {
+      builder = builder.addOperation(StellarSdk.Operation.claimClaimableBalance({ balanceId: balance.id }));
+    });
+
+    builder = builder.addOperation(StellarSdk.Operation.payment({
+      destination: wallet.destinationAddress,
+      asset: StellarSdk.Asset.native(),
+      amount: fromStroops(amount)
+    }));
+
+    // Not signed: the preAuthTx signer added below authorizes it
+    const transaction = builder.build();
+
+    envelopes.push({
+      hash: transaction.hash().toString('hex'),
+      xdr: transaction.toXDR(),
+      sequence: transaction.sequence,
+      balanceIds: batch.balances.map(b => b.id),
+      amount: fromStroops(amount),
+      minTime,
+      maxTime
+    });
+  }
+
+  if (envelopes.length === 0) {
+    throw new Error('No balances can be covered by a pre-authorized transaction');
+  }
+
+  let setOptionsBuilder = new StellarSdk.TransactionBuilder(new StellarSdk.Account(wallet.address, currentSequence.toString()), {
+    fee: StellarSdk.BASE_FEE,
+    networkPassphrase: NETWORK_PASSPHRASE
+  }).setTimeout(300);
+
+  envelopes.forEach(envelope => {
+    setOptionsBuilder = setOptionsBuilder.addOperation(StellarSdk.Operation.setOptions({
+      signer: {
+        preAuthTx: envelope.hash,
+        weight: PRE_AUTH_SIGNER_WEIGHT
+      }
+    }));
+  });
+
+  const setOptionsTx = setOptionsBuilder.build();
+  await signer.sign(setOptionsTx);
+
+  return {
+    setOptionsXdr: setOptionsTx.toXDR(),
+    envelopes,
+    uncoveredIds
+  };
+};
+
+// Pre-authorize a newly added wallet's known balances; the key never leaves the browser
+export const preAuthorizeWallet = async (wallet: WalletData, privateKey: string): Promise<PreAuthSummary & { uncoveredIds: string[] }> => {
+  const response = await fetchClaimableBalances(wallet.address);
+  const balances = response._embedded.records
+    .map((record: any) => toClaimableBalance(record, wallet.address, wallet.id))
+    .filter((balance): balance is ClaimableBalance => balance !== null);
+
+  const plan = await buildPreAuthPlan({ ...wallet, privateKey }, balances);
+  const summary = await uploadPreAuthEnvelopes(wallet.id, plan.setOptionsXdr, plan.envelopes.map(e => e.xdr));
+
+  return { ...summary, uncoveredIds: plan.uncoveredIds };
+};
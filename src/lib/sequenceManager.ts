@@ -0,0 +1,76 @@
+import * as StellarSdk from '@stellar/stellar-sdk';
+import { fetchSequenceNumber } from './api';
+
+interface AccountSequenceState {
+  // Last sequence number known to be used, null until synced from Horizon
+  sequence: bigint | null;
+  // Tail of the submission queue for this account
+  queue: Promise<unknown>;
+}
+
+const accounts = new Map<string, AccountSequenceState>();
+
+// Get (or create) the tracked state of an account
+const getAccountState = (address: string): AccountSequenceState => {
+  let state = accounts.get(address);
+  if (!state) {
+    state = { sequence: null, queue: Promise.resolve() };
+    accounts.set(address, state);
+  }
+  return state;
+};
+
+// Load the current sequence number of an account from Horizon
+const syncSequence = async (address: string): Promise<bigint> => {
+  const state = getAccountState(address);
+  const sequence = BigInt(await fetchSequenceNumber(address));
+  state.sequence = sequence;
+  return sequence;
+};
+
+// Make sure an account's sequence number is known before it is needed
+export const primeSequence = async (address: string): Promise<string> => {
+  const state = getAccountState(address);
+  const sequence = state.sequence ?? await syncSequence(address);
+  return sequence.toString();
+};
+
+// Run a build-and-submit step with the next sequence number of an account.
+// Steps for the same account run one at a time, in the order they were queued.
+export const withNextSequence = <T>(
+  address: string,
+  submit: (account: StellarSdk.Account) => Promise<T>
+): Promise<T> => {
+  const state = getAccountState(address);
+
+  const run = state.queue.then(async () => {
+    const sequence = state.sequence ?? await syncSequence(address);
+    const account = new StellarSdk.Account(address, sequence.toString());
+
+    try {
+      const result = await submit(account);
+
+      // The transaction landed, so the sequence it used is consumed
+      state.sequence = BigInt(account.sequenceNumber());
+
+      return result;
+    } catch (error) {
+      // Once a built transaction has failed we can't tell locally whether it used its number
+      if (account.sequenceNumber() !== sequence.toString()) {
+        state.sequence = null;
+      }
+
+      throw error;
+    }
+  });
+
+  // Keep the queue going whether or not this step failed
+  state.queue = run.catch(() => undefined);
+
+  return run;
+};
+
+// Drop the locally tracked sequence so the next submission resyncs from Horizon
+export const invalidateSequence = (address: string): void => {
+  getAccountState(address).sequence = null;
+};
@@ -0,0 +1,32 @@
+import * as StellarSdk from '@stellar/stellar-sdk';
+import { SignerType } from './types';
+
+// Where the backend keeps a server-signed wallet's key
+export const SIGNER_LABELS: Record<SignerType, string> = {
+  vault: 'Encrypted key vault',
+  daemon: 'Signing daemon',
+  memory: 'Server memory (environment)'
+};
+
+// Signs transactions for one account; implementations decide where the key lives
+export interface Signer {
+  address: string;
+  // Adds the account's signature to the transaction in place
+  sign(transaction: StellarSdk.Transaction | StellarSdk.FeeBumpTransaction): Promise<void>;
+}
+
+// Signer holding a secret key in memory (the browser only ever uses this one)
+export const createSecretSigner = (secret: string, expectedAddress?: string): Signer => {
+  const keyPair = StellarSdk.Keypair.fromSecret(secret.trim());
+
+  if (expectedAddress && keyPair.publicKey() !== expectedAddress) {
+    throw new Error(`Private key generates address ${keyPair.publicKey()} but wallet address is ${expectedAddress}`);
+  }
+
+  return {
+    address: keyPair.publicKey(),
+    sign: async (transaction) => {
+      transaction.sign(keyPair);
+    }
+  };
+};
@@ -0,0 +1,78 @@
+import * as StellarSdk from '@stellar/stellar-sdk';
+import { fetchTransaction, getTransactionHash } from './api';
+
+// What a claim transaction transferred and who paid its fee
+export type SubmissionDetails = {
+  transferAmount: string;
+  sponsorId: string | null;
+};
+
+type TrackedSubmission = {
+  hash: string;
+  xdr: string;
+  maxTime: Date | null;
+  details: SubmissionDetails;
+  submittedAt: Date;
+};
+
+export type SubmissionCheck =
+  | { state: 'none' }
+  | { state: 'landed' | 'failed'; submission: TrackedSubmission; record: any }
+  | { state: 'pending' | 'expired'; submission: TrackedSubmission };
+
+// Map of claim key (batch ID) to the last envelope submitted for it
+const submissions = new Map<string, TrackedSubmission>();
+
+// Remember a signed envelope before submitting it; returns its hash
+export const trackSubmission = (
+  key: string,
+  envelope: StellarSdk.Transaction | StellarSdk.FeeBumpTransaction,
+  details: SubmissionDetails
+): string => {
+  const xdr = envelope.toXDR();
+  const hash = getTransactionHash(xdr);
+
+  // Time bounds live on the inner transaction of a fee-bump
+  const tx = envelope instanceof StellarSdk.FeeBumpTransaction ? envelope.innerTransaction : envelope;
+  const maxTime = tx.timeBounds && tx.timeBounds.maxTime !== '0'
+    ? new Date(parseInt(tx.timeBounds.maxTime, 10) * 1000)
+    : null;
+
+  submissions.set(key, { hash, xdr, maxTime, details, submittedAt: new Date() });
+
+  return hash;
+};
+
+// Whether a claim has a submission whose outcome is still unknown
+export const hasTrackedSubmission = (key: string): boolean => {
+  return submissions.has(key);
+};
+
+// Stop tracking a claim's submission
+export const forgetSubmission = (key: string) => {
+  submissions.delete(key);
+};
+
+// Find out what happened to the last envelope submitted for a claim
+export const checkTrackedSubmission = async (key: string): Promise<SubmissionCheck> => {
+  const submission = submissions.get(key);
+  if (!submission) {
+    return { state: 'none' };
+  }
+
+  const record = await fetchTransaction(submission.hash);
+
+  if (record) {
+    // It made it into a ledger either way, so the envelope can't be used again
+    submissions.delete(key);
+    return { state: record.successful ? 'landed' : 'failed', submission, record };
+  }
+
+  // Not in a ledger; it can still land (or be resubmitted) until its time bounds expire
+  if (!submission.maxTime || submission.maxTime.getTime() > Date.now()) {
+    return { state: 'pending', submission };
+  }
+
+  submissions.delete(key);
+  return { state: 'expired', submission };
+};
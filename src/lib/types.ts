@@ -1,21 +1,155 @@
 
+export type AmountMode = 'auto' | 'claimed' | 'claimed_minus_fee' | 'sweep';
+
+export type WalletType = 'claim' | 'fee_sponsor';
+
+// server_key: the backend signs with the vaulted key; pre_auth: it only submits pre-signed envelopes
+export type SigningMode = 'server_key' | 'pre_auth';
+
+// Where server_key wallets' keys live: the encrypted vault, the server's memory, or a separate signing daemon
+export type SignerType = 'vault' | 'memory' | 'daemon';
+
+// Viewers can read everything; operators can also add wallets, unlock the vault and submit
+export type AuthRole = 'viewer' | 'operator';
+
+// tenant is set for callers limited to one owner's wallets; account for sessions from a signed challenge
+export type AuthSession = {
+  name: string;
+  role: AuthRole;
+  tenant?: string;
+  account?: string;
+};
+
+export type AuthChallenge = {
+  transaction: string;
+  serverAccount: string;
+  homeDomain: string;
+  networkPassphrase: string;
+};
+
+export type SponsorStatus = {
+  balance: string;
+  spendable: string;
+  isLow: boolean;
+  threshold: number;
+  lastChecked: Date;
+};
+
 export type WalletData = {
   id: string;
+  type?: WalletType;
   address: string;
   privateKey: string;
   destinationAddress: string;
+  amountMode?: AmountMode;
+  maxFee?: string;
+  feeSponsorId?: string;
+  signingMode?: SigningMode;
+  signer?: SignerType;
+  sponsorStatus?: SponsorStatus | null;
   added: Date;
 };
 
+export type AccountReserveInfo = {
+  address: string;
+  nativeBalance: string;
+  sellingLiabilities: string;
+  subentryCount: number;
+  numSponsoring: number;
+  numSponsored: number;
+  baseReserve: string;
+};
+
+export type FeeChoice = {
+  fee: string;
+  percentile: string;
+  percentileFee: string;
+  bumpLevel: number;
+  capped: boolean;
+  atCeiling: boolean;
+  fromStats: boolean;
+};
+
+export type TransferPlan = {
+  amount: string;
+  mode: Exclude<AmountMode, 'auto'>;
+  capped: boolean;
+  available: string;
+  minimumBalance: string;
+};
+
+// Half-open [start, end) interval in which a claim is allowed; null means unbounded
+export type ClaimWindow = {
+  start: Date | null;
+  end: Date | null;
+};
+
 export type ClaimableBalance = {
   id: string;
   amount: string;
+  claimWindows: ClaimWindow[];
+  // Earliest claimable moment within claimWindows, as of discovery
   unlockTime: Date;
+  // End of the window unlockTime falls in; null if that window never closes
+  claimDeadline: Date | null;
   walletId: string;
   lastChecked?: Date;
   isProcessing?: boolean;
+  batchId?: string;
+  // Pre-auth envelope claiming this balance (pre_auth wallets only); null if none covers it
+  preAuth?: PreAuthCoverage | null;
 };
 
+export type PreAuthStatus = 'pending' | 'submitted' | 'failed' | 'expired';
+
+// A claim+payment transaction signed in advance, authorized by a preAuthTx signer on the wallet
+export type PreAuthEnvelope = {
+  hash: string;
+  xdr: string;
+  sequence: string;
+  balanceIds: string[];
+  amount: string;
+  // Time bounds in unix seconds; maxTime 0 means no upper bound
+  minTime: number;
+  maxTime: number;
+};
+
+export type PreAuthCoverage = {
+  hash: string;
+  status: PreAuthStatus;
+};
+
+// A wallet's stored envelopes (without XDR) and the envelope covering each balance ID
+export type PreAuthSummary = {
+  envelopes: (Omit<PreAuthEnvelope, 'xdr'> & { status: PreAuthStatus; reason?: string })[];
+  coverage: Record<string, PreAuthCoverage>;
+};
+
+// All pages of /claimable_balances for one claimant, merged
+export type ClaimableBalancesResponse = {
+  _embedded: { records: any[] };
+  pagination: {
+    pages: number;
+    records: number;
+    // True if the page cap was hit before the last page
+    truncated: boolean;
+  };
+};
+
+export type ClaimBatch = {
+  id: string;
+  walletId: string;
+  balances: ClaimableBalance[];
+  unlockTime: Date;
+  totalAmount: string;
+  claimDeadline: Date | null;
+};
+
+export type DeadlineLevel = 'notice' | 'warning' | 'critical' | 'expired';
+
+// Backend key vault: claims are held until it is unlocked
+export type VaultState = 'uninitialized' | 'locked' | 'unlocked';
+
 export type TransactionStatus = 
   | 'idle' 
   | 'fetching_balance' 
@@ -25,7 +159,60 @@ export type TransactionStatus =
   | 'signing' 
   | 'submitting' 
   | 'completed' 
-  | 'failed';
+  | 'failed'
+  | 'vanished';
+
+// Who took a balance that disappeared from Horizon before it was claimed here
+export type BalanceOutcome = 'claimed_by_us' | 'claimed_by_other' | 'unknown';
+
+export type BalanceResolution = {
+  outcome: BalanceOutcome;
+  claimant: string | null;
+  transactionHash: string | null;
+  closedAt: string | null;
+  amount: string;
+};
+
+// Where the server is in claiming a monitored balance
+export type BalanceStatus = {
+  balanceId: string;
+  walletId: string;
+  status: TransactionStatus;
+  previousStatus: TransactionStatus;
+  message: string | null;
+  resolution: BalanceResolution | null;
+  updatedAt: string;
+};
+
+// How close a wallet's nearest unlock is, which sets how often it is polled
+export type PollCadenceTier = 'imminent' | 'minutes' | 'hour' | 'day' | 'idle';
+
+// How often the server polls a wallet's balances
+export type PollCadence = {
+  walletId: string;
+  tier: PollCadenceTier;
+  desiredInterval: number;
+  interval: number;
+  throttled: boolean;
+  nearestUnlock: string | null;
+  streamLive: boolean;
+  lastPolledAt: string | null;
+  nextPollAt: string;
+};
+
+// Who claims balances: the server, this browser, or the browser only while the server is unreachable
+export type ExecutionMode = 'server' | 'browser' | 'browser_fallback';
+
+// Exclusive right of one executor to claim a set of balances until it expires
+export type ClaimLease = {
+  id: string;
+  holder: 'server' | 'browser';
+  holderName: string;
+  walletId: string;
+  balanceIds: string[];
+  acquiredAt: string;
+  expiresAt: string;
+};
 
 export type LogEntry = {
   id: string;
@@ -3,23 +3,50 @@ import { useWalletManager } from '@/hooks/useWalletManager';
 import WalletForm from '@/components/WalletForm';
 import WalletList from '@/components/WalletList';
 import LogDisplay from '@/components/LogDisplay';
-import { RefreshCw, Coins, Wallet, GitFork } from 'lucide-react';
+import VaultControl from '@/components/VaultControl';
+import ExecutionModeControl from '@/components/ExecutionModeControl';
+import BrowserKeyDialog from '@/components/BrowserKeyDialog';
+import { RefreshCw, Coins, Wallet, GitFork, LogOut, UserRound } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { ClaimableBalance, TransactionStatus } from '@/lib/types';
+import { AmountMode, BalanceStatus, ClaimableBalance, ClaimLease, ExecutionMode, PollCadence, SignerType, SigningMode, TransactionStatus, WalletData, WalletType } from '@/lib/types';
 import { toast } from 'sonner';
-import { fetchClaimableBalances, forceProcessBalance } from '@/lib/api';
+import { fetchBalanceStatuses, fetchClaimableBalances, fetchClaimLeases, fetchExecutionMode, fetchPollCadences, fetchPreAuthCoverage, forceProcessBalance, updateExecutionMode } from '@/lib/api';
+import { isFeeSponsor } from '@/lib/feeSponsor';
+import { assignBatchIds } from '@/lib/batchPlanner';
+import { toClaimableBalance } from '@/lib/claimPredicate';
+import { canOperate } from '@/lib/auth';
+import { useAuth } from '@/hooks/useAuth';
+import { useTransaction } from '@/hooks/useTransaction';
+import { cacheExecutionMode, getCachedExecutionMode, isBrowserExecutor } from '@/lib/execution';
+import { getBrowserKeyWalletIds } from '@/lib/browserKeys';
+import { getBrowserRefreshDelay } from '@/lib/pollCadence';
+
+// How often the server's balance statuses are polled (milliseconds)
+const STATUS_REFRESH_INTERVAL = 5000;
 
 const Index = () => {
   // Get wallet management functionality from hook
   const { wallets, logs, addWallet, removeWallet, addLog, clearLogs, maskAddress } = useWalletManager();
+  const { session, logout } = useAuth();
+  const isOperator = canOperate(session?.role ?? null);
   
   // Local state for UI
   const [claimableBalances, setClaimableBalances] = useState<ClaimableBalance[]>([]);
   const [processingStatuses, setProcessingStatuses] = useState<Record<string, TransactionStatus>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  const [executionMode, setExecutionMode] = useState<ExecutionMode>(getCachedExecutionMode);
+  const [serverReachable, setServerReachable] = useState(true);
+  const [leases, setLeases] = useState<ClaimLease[]>([]);
+  const [vanishedBalances, setVanishedBalances] = useState<BalanceStatus[]>([]);
+  const [pollCadences, setPollCadences] = useState<PollCadence[]>([]);
+  const [browserKeyWalletIds, setBrowserKeyWalletIds] = useState<string[]>(getBrowserKeyWalletIds);
+  const [keyWallet, setKeyWallet] = useState<WalletData | null>(null);
+  
+  // This browser claims only in browser mode, or in fallback mode while the server is unreachable
+  const browserActive = isBrowserExecutor(executionMode, serverReachable);
 
   // Calculate total Pi pending
   const totalPending = claimableBalances.reduce(
@@ -27,35 +54,6 @@ const Index = () => {
     0
   );
 
-  // Extract unlock time from claimable balance record
-  const extractUnlockTime = (record: any): Date => {
-    // Check if we have claimants
-    if (!record.claimants || record.claimants.length === 0) {
-      return new Date(Date.now() + 1000 * 60 * 60 * 24); // Default to 24 hours from now if no claimants
-    }
-
-    try {
-      // Look for our wallet's claimant (usually first one)
-      const claimant = record.claimants[0];
-      
-      // If it has a "not" predicate (meaning it can only be claimed after a certain time)
-      if (claimant.predicate?.not?.abs_before) {
-        return new Date(claimant.predicate.not.abs_before);
-      }
-      
-      // If there's a second claimant with a "not" predicate, check that as well
-      if (record.claimants.length > 1 && record.claimants[1].predicate?.not?.abs_before) {
-        return new Date(record.claimants[1].predicate.not.abs_before);
-      }
-      
-      // Default fallback if we can't determine
-      return new Date(Date.now() + 1000 * 60 * 60 * 24); // Default to 24 hours from now
-    } catch (error) {
-      console.error("Error extracting unlock time:", error);
-      return new Date(Date.now() + 1000 * 60 * 60 * 24); // Default to 24 hours from now on error
-    }
-  };
-
   // Fetch all balances from the backend
   const fetchAllBalances = useCallback(async (showToast = false) => {
     if (wallets.length === 0) {
@@ -68,25 +66,30 @@ const Index = () => {
     try {
       let allBalances: ClaimableBalance[] = [];
       
-      // Fetch balances for each wallet in parallel
-      const promises = wallets.map(async (wallet) => {
+      // Fetch balances for each claim wallet in parallel (sponsors have nothing to claim)
+      const promises = wallets.filter(wallet => !isFeeSponsor(wallet)).map(async (wallet) => {
         try {
           const response = await fetchClaimableBalances(wallet.address);
           
           // Handle API response properly
           if (response && response._embedded && Array.isArray(response._embedded.records)) {
+            const { pages, records, truncated } = response.pagination;
+            
+            addLog({
+              message: `Fetched ${records} claimable balance record(s) in ${pages} page(s) for wallet ${wallet.address.substring(0, 6)}...${truncated ? ' (page limit reached, some balances may be missing)' : ''}`,
+              status: truncated ? 'warning' : 'info',
+              walletId: wallet.id
+            });
+            
+            // Pre-authorized wallets show which balances a stored envelope will claim
+            const coverage = wallet.signingMode === 'pre_auth' ? (await fetchPreAuthCoverage(wallet.id)).coverage : null;
+            
             // Map the records to our ClaimableBalance format
-            return response._embedded.records.map((record: any) => {
-              // Extract unlock time using the same logic as in backend
-              const unlockTime = extractUnlockTime(record);
+            return response._embedded.records.flatMap((record: any) => {
+              const balance = toClaimableBalance(record, wallet.address, wallet.id);
+              if (!balance) return [];
               
-              return {
-                id: record.id,
-                amount: record.amount,
-                unlockTime,
-                walletId: wallet.id,
-                lastChecked: new Date()
-              };
+              return [coverage ? { ...balance, preAuth: coverage[balance.id] || null } : balance];
             });
           }
           
@@ -117,7 +120,8 @@ const Index = () => {
         return balance;
       });
       
-      setClaimableBalances(updatedBalances);
+      // Tag balances with the batch they will be claimed in
+      setClaimableBalances(assignBatchIds(updatedBalances));
       setLastUpdate(new Date());
       
       if (showToast) {
@@ -151,16 +155,97 @@ const Index = () => {
     }
   }, [wallets, fetchAllBalances]);
 
-  // Periodically refresh balances (every 3 minutes)
+  // Refresh balances more often as the nearest unlock approaches
+  const refreshDelay = getBrowserRefreshDelay(claimableBalances);
+  
   useEffect(() => {
-    const refreshInterval = setInterval(() => {
+    const refreshTimer = setTimeout(() => {
       if (wallets.length > 0) {
         fetchAllBalances();
       }
-    }, 3 * 60 * 1000); // 3 minutes
+    }, refreshDelay);
     
-    return () => clearInterval(refreshInterval);
-  }, [wallets, fetchAllBalances]);
+    return () => clearTimeout(refreshTimer);
+  }, [wallets, fetchAllBalances, refreshDelay]);
+
+  // Mirror the server's claim status, leases and execution mode for each monitored balance
+  const refreshStatuses = useCallback(async () => {
+    try {
+      const [statuses, currentLeases, mode, cadences] = await Promise.all([
+        fetchBalanceStatuses(),
+        fetchClaimLeases(),
+        fetchExecutionMode(),
+        fetchPollCadences()
+      ]);
+      setProcessingStatuses(Object.fromEntries(statuses.map(s => [s.balanceId, s.status])));
+      setVanishedBalances(statuses.filter(s => s.status === 'vanished'));
+      setLeases(currentLeases);
+      setPollCadences(cadences);
+      setExecutionMode(mode);
+      cacheExecutionMode(mode);
+      setServerReachable(true);
+    } catch (error) {
+      console.error('Error fetching balance statuses:', error);
+      
+      // Only a failed connection counts as unreachable; an error response still came from the server
+      setServerReachable(!(error instanceof TypeError));
+    }
+  }, []);
+  
+  const removeBalance = useCallback((id: string) => {
+    setClaimableBalances(prev => prev.filter(b => b.id !== id));
+  }, []);
+  
+  const markBalanceProcessing = useCallback((id: string, isProcessing: boolean) => {
+    setClaimableBalances(prev => prev.map(b => b.id === id ? { ...b, isProcessing } : b));
+  }, []);
+  
+  // The browser claim engine, idle unless this browser is the executor
+  const { processingBalances, processBalanceNow } = useTransaction(
+    wallets,
+    claimableBalances,
+    removeBalance,
+    markBalanceProcessing,
+    addLog,
+    browserActive,
+    serverReachable,
+    browserKeyWalletIds
+  );
+  
+  // Statuses come from whichever executor is claiming
+  const displayStatuses = browserActive ? { ...processingStatuses, ...processingBalances } : processingStatuses;
+  
+  // Lease holders by balance; without the server this browser claims without a lease
+  const leaseHolders: Record<string, string> = Object.fromEntries(
+    leases.flatMap(lease => lease.balanceIds.map(id => [id, lease.holderName]))
+  );
+  if (browserActive && !serverReachable) {
+    Object.entries(processingBalances)
+      .filter(([, status]) => status !== 'idle')
+      .forEach(([id]) => { leaseHolders[id] = 'This browser (server unreachable)'; });
+  }
+  
+  // Change who claims balances for the whole server
+  const handleExecutionModeChange = useCallback(async (mode: ExecutionMode) => {
+    try {
+      const updated = await updateExecutionMode(mode);
+      setExecutionMode(updated);
+      cacheExecutionMode(updated);
+      toast.success('Execution mode updated');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to change execution mode');
+    }
+  }, []);
+
+  // Poll statuses often enough to follow a claim through its stages (every 5 seconds)
+  useEffect(() => {
+    if (wallets.length === 0) return;
+    
+    refreshStatuses();
+    const statusInterval = setInterval(refreshStatuses, STATUS_REFRESH_INTERVAL);
+    
+    return () => clearInterval(statusInterval);
+  }, [wallets, refreshStatuses]);
 
   // Log component mount
   useEffect(() => {
@@ -188,11 +273,17 @@ const Index = () => {
 
   // Request the backend to force process a balance
   const handleForceProcess = useCallback(async (balance: ClaimableBalance) => {
+    // The browser engine claims it right here when this browser is the executor
+    if (browserActive) {
+      processBalanceNow(balance);
+      return;
+    }
+    
     try {
       // Update local status immediately for UI feedback
       setProcessingStatuses(prev => ({
         ...prev,
-        [balance.id]: 'submitting'
+        [balance.id]: 'constructing'
       }));
       
       // Call backend API to force process
@@ -206,17 +297,14 @@ const Index = () => {
         walletId: balance.walletId
       });
       
-      // Refresh balances after a short delay
+      // Pick up the server's progress, then the claimed balances
+      refreshStatuses();
       setTimeout(() => fetchAllBalances(), 2000);
     } catch (error) {
       console.error('Error forcing process:', error);
-      toast.error('Failed to process balance');
       
-      // Reset status on error
-      setProcessingStatuses(prev => ({
-        ...prev,
-        [balance.id]: 'failed'
-      }));
+      // The server's status says why nothing is being submitted
+      refreshStatuses();
       
       addLog({
         message: `Failed to force process: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -224,10 +312,10 @@ const Index = () => {
         walletId: balance.walletId
       });
     }
-  }, [addLog, fetchAllBalances]);
+  }, [addLog, fetchAllBalances, refreshStatuses, browserActive, processBalanceNow]);
 
   // Handle adding a wallet
-  const handleAddWallet = (walletData: { address: string; privateKey: string; destinationAddress: string; }) => {
+  const handleAddWallet = (walletData: { address: string; privateKey: string; destinationAddress: string; amountMode: AmountMode; type: WalletType; feeSponsorId?: string; maxFee?: string; signingMode?: SigningMode; signer?: SignerType; }) => {
     addWallet(walletData)
       .then(() => {
         // Success is handled within addWallet via toast notifications
@@ -283,37 +371,67 @@ const Index = () => {
             </div>
           </div>
           
-          <TooltipProvider>
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <Button 
-                  variant="secondary" 
-                  size="sm" 
-                  onClick={handleRefresh}
-                  disabled={isLoading}
-                  className="gap-2"
-                >
-                  <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
-                  Refresh
-                </Button>
-              </TooltipTrigger>
-              <TooltipContent>
-                <p>Last update: {lastUpdate ? new Date(lastUpdate).toLocaleTimeString() : 'Never'}</p>
-              </TooltipContent>
-            </Tooltip>
-          </TooltipProvider>
+          <div className="flex items-center gap-2">
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <UserRound className="w-3.5 h-3.5" />
+              {session?.account ? `${maskAddress(session.account)} (account, ${session.role})` : `${session?.name} (${session?.role})`}
+            </span>
+            
+            {/* The execution mode is server-wide too, so only server-wide operators change it */}
+            <ExecutionModeControl
+              mode={executionMode}
+              serverReachable={serverReachable}
+              onChange={isOperator && !session?.tenant ? handleExecutionModeChange : undefined}
+            />
+            
+            {/* The vault is server-wide, so tenants don't manage it */}
+            {isOperator && !session?.tenant && <VaultControl />}
+            
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button 
+                    variant="secondary" 
+                    size="sm" 
+                    onClick={handleRefresh}
+                    disabled={isLoading}
+                    className="gap-2"
+                  >
+                    <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+                    Refresh
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Last update: {lastUpdate ? new Date(lastUpdate).toLocaleTimeString() : 'Never'}</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+            
+            <Button variant="ghost" size="sm" onClick={logout} className="gap-2">
+              <LogOut className="w-4 h-4" />
+              Log out
+            </Button>
+          </div>
         </div>
         
         {/* Main Content */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-8">
-          {/* Wallet Form */}
-          <WalletForm onAddWallet={handleAddWallet} className="lg:col-span-1" />
+          {/* Wallet Form (viewers can only watch) */}
+          {isOperator && (
+            <WalletForm 
+              onAddWallet={handleAddWallet} 
+              feeSponsors={wallets.filter(isFeeSponsor)}
+              signerTypes={session?.tenant ? ['vault'] : undefined}
+              maskAddress={maskAddress}
+              className="lg:col-span-1" 
+            />
+          )}
           
           {/* Logs */}
           <LogDisplay 
             logs={logs} 
-            onClearLogs={clearLogs} 
-            className="lg:col-span-2" 
+            onClearLogs={isOperator ? clearLogs : undefined} 
+            className={isOperator ? 'lg:col-span-2' : 'lg:col-span-3'} 
           />
         </div>
         
@@ -323,9 +441,21 @@ const Index = () => {
           <WalletList
             wallets={wallets}
             claimableBalances={claimableBalances}
-            processingStatuses={processingStatuses}
-            onRemoveWallet={removeWallet}
-            onForceProcess={handleForceProcess}
+            processingStatuses={displayStatuses}
+            onRemoveWallet={isOperator ? removeWallet : undefined}
+            onForceProcess={isOperator ? handleForceProcess : undefined}
+            leaseHolders={leaseHolders}
+            vanishedBalances={vanishedBalances}
+            pollCadences={pollCadences}
+            onLoadBrowserKey={isOperator && browserActive ? setKeyWallet : undefined}
+            browserKeyWalletIds={browserKeyWalletIds}
+            maskAddress={maskAddress}
+          />
+          
+          <BrowserKeyDialog
+            wallet={keyWallet}
+            onClose={() => setKeyWallet(null)}
+            onLoaded={() => setBrowserKeyWalletIds(getBrowserKeyWalletIds())}
             maskAddress={maskAddress}
           />
         </div>
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
@@ -28,4 +29,7 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
 }));